@@ -1,11 +1,13 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
+import {isMockMode} from '@/lib/fixture-mode';
 
 export const ai = genkit({
   promptDir: './prompts',
   plugins: [
     googleAI({
-      apiKey: process.env.GOOGLE_GENAI_API_KEY,
+      // With FIXTURE_MODE=mock the model's responses come from fixtures, but the plugin still insists on a key
+      apiKey: process.env.GOOGLE_GENAI_API_KEY || (isMockMode() ? 'fixture-mode' : undefined),
     }),
   ],
   model: 'googleai/gemini-2.0-flash',
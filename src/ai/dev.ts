@@ -1 +1,2 @@
-import '@/ai/flows/generate-trip-plan.ts';
\ No newline at end of file
+import '@/ai/install-fixtures'; // First, so FIXTURE_MODE also applies in the Genkit developer UI
+import '@/ai/flows/generate-trip-plan.ts';
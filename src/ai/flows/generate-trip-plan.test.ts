@@ -0,0 +1,220 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { directionsRoute, jsonResponse } from '@/test/helpers';
+import { unwrapActionResult } from '@/lib/service-errors';
+
+vi.hoisted(() => {
+  process.env.GOOGLE_MAPS_API_KEY = 'maps-test-key';
+  process.env.OPENWEATHERMAP_API_KEY = 'weather-test-key';
+});
+
+const {modelRunner} = vi.hoisted(() => ({modelRunner: vi.fn()}));
+
+// A Genkit instance with a fake model in place of Gemini, so prompts run without the Google AI plugin
+vi.mock('@/ai/ai-instance', async () => {
+  const {genkit} = await import('genkit');
+  const ai = genkit({model: 'test/fake-model'});
+  ai.defineModel({name: 'test/fake-model'}, modelRunner);
+  return {ai};
+});
+
+vi.mock('@/services/auth', () => ({
+  requireUser: async () => ({uid: 'test-user'}),
+}));
+
+import { generateTripPlan } from '@/ai/flows/generate-trip-plan';
+
+const ORIGIN = {lat: 52.52, lng: 13.405};
+const DESTINATION = {lat: 52.4, lng: 13.06};
+
+/**
+ * A model response carrying the given prompt output as JSON.
+ */
+const modelReply = (output: Record<string, unknown>) => ({
+  message: {role: 'model', content: [{text: JSON.stringify(output)}]},
+  finishReason: 'stop',
+});
+
+/**
+ * Stubs every external service the flow calls, keyed by endpoint.
+ */
+function stubServices(departure: Date) {
+  const fastRoute = directionsRoute(
+    [{distanceMeters: 30000, durationSeconds: 1800, points: [[52.52, 13.405], [52.45, 13.2], [52.4, 13.06]]}],
+    {summary: 'A100'}
+  );
+  const scenicRoute = directionsRoute(
+    [{distanceMeters: 38000, durationSeconds: 2700, points: [[52.52, 13.405], [52.5, 13.1], [52.4, 13.06]]}],
+    {summary: 'Havelchaussee'}
+  );
+  const forecastSlots = Array.from({length: 16}, (_, index) => ({
+    dt: Math.floor(departure.getTime() / 1000) - 3 * 3600 + index * 3 * 3600,
+    main: {temp: 18, temp_max: 20},
+    weather: [{main: 'Clouds', description: 'scattered clouds'}],
+    pop: 0.1,
+    wind: {speed: 3},
+  }));
+
+  const fetchMock = vi.fn<typeof fetch>(async input => {
+    const url = new URL(String(input));
+    switch (url.pathname) {
+      case '/maps/api/geocode/json':
+        return jsonResponse({
+          status: 'OK',
+          results: [{geometry: {location: url.searchParams.get('address') === 'Berlin' ? ORIGIN : DESTINATION}}],
+        });
+      case '/maps/api/directions/json':
+        return jsonResponse({
+          status: 'OK',
+          routes: url.searchParams.get('alternatives') === 'true' ? [scenicRoute, fastRoute] : [fastRoute],
+        });
+      case '/maps/api/place/nearbysearch/json':
+        return jsonResponse({
+          status: 'OK',
+          results: [{
+            name: 'Grunewald Tower',
+            place_id: 'tower',
+            vicinity: 'Havelchaussee',
+            geometry: {location: {lat: 52.45, lng: 13.201}},
+            rating: 4.6,
+            business_status: 'OPERATIONAL',
+            types: ['tourist_attraction'],
+          }],
+        });
+      case '/data/2.5/weather':
+        return jsonResponse({main: {temp: 17.6}, weather: [{main: 'Clear', description: 'clear sky'}], timezone: 7200});
+      case '/data/2.5/forecast':
+        return jsonResponse({list: forecastSlots, city: {timezone: 7200}});
+      default:
+        throw new Error(`Unexpected request to ${url.href}`);
+    }
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const requestsTo = (fetchMock: ReturnType<typeof stubServices>, pathname: string): URL[] =>
+  fetchMock.mock.calls.map(([input]) => new URL(String(input))).filter(url => url.pathname === pathname);
+
+describe('generateTripPlanFlow', () => {
+  const departure = new Date(Date.now() + 24 * 3600 * 1000);
+  departure.setUTCMinutes(0, 0, 0);
+  const input = {originAddress: 'Berlin', destinationAddress: 'Potsdam', departureTime: departure.toISOString()};
+
+  beforeEach(() => {
+    modelRunner.mockReset();
+  });
+
+  it('gathers route, weather and attractions, then merges the model output', async () => {
+    const fetchMock = stubServices(departure);
+    const suggested = new Date(departure.getTime() + 30 * 60 * 1000).toISOString();
+    modelRunner.mockResolvedValue(modelReply({suggestedDepartureTime: suggested, reasoning: 'Leave after the rush hour.'}));
+
+    const plan = unwrapActionResult(await generateTripPlan(input));
+
+    // Both ends are geocoded, and the candidates are ranked fastest first
+    expect(requestsTo(fetchMock, '/maps/api/geocode/json').map(url => url.searchParams.get('address'))).toEqual(['Berlin', 'Potsdam']);
+    expect(requestsTo(fetchMock, '/maps/api/directions/json').some(url => url.searchParams.get('alternatives') === 'true')).toBe(true);
+    expect(plan.route.summary).toBe('A100');
+    expect(plan.routeRanking?.objective).toBe('fastest');
+    expect(plan.alternativeRoutes).toBeUndefined();
+
+    // The model saw the service results...
+    expect(modelRunner).toHaveBeenCalledTimes(1);
+    const prompt = JSON.stringify(modelRunner.mock.calls[0][0].messages);
+    expect(prompt).toContain('Approximately 30 km');
+    expect(prompt).toContain('Currently 18°C and Clear Sky');
+    expect(prompt).toContain('Grunewald Tower');
+
+    // ...and its answer is combined with them
+    expect(plan.suggestedDepartureTime).toBe(suggested);
+    expect(plan.reasoning).toBe('Leave after the rush hour.');
+    expect(plan.weatherForecast.currentTemperatureCelsius).toBe(18);
+    expect(plan.nearbyAttractions.map(place => place.placeId)).toEqual(['tower']);
+    expect(plan.routeWeather.length).toBeGreaterThan(0);
+    expect(plan.departureCurve?.length).toBeGreaterThan(0);
+  });
+
+  it('returns the alternatives and the recommended one when asked to compare', async () => {
+    stubServices(departure);
+    modelRunner.mockResolvedValue(modelReply({suggestedDepartureTime: input.departureTime, reasoning: 'The scenic road is worth it.', recommendedRouteIndex: 1}));
+
+    const plan = unwrapActionResult(await generateTripPlan({...input, alternatives: true}));
+
+    expect(plan.alternativeRoutes?.map(route => route.summary)).toEqual(['A100', 'Havelchaussee']);
+    expect(plan.recommendedRouteIndex).toBe(1);
+    expect(plan.route.summary).toBe('Havelchaussee');
+  });
+
+  it('ignores an out-of-range route recommendation', async () => {
+    stubServices(departure);
+    modelRunner.mockResolvedValue(modelReply({suggestedDepartureTime: input.departureTime, reasoning: 'Either works.', recommendedRouteIndex: 7}));
+
+    const plan = unwrapActionResult(await generateTripPlan({...input, alternatives: true}));
+
+    expect(plan.recommendedRouteIndex).toBe(0);
+    expect(plan.route.summary).toBe('A100');
+  });
+
+  it('keeps routes through an avoid area out of the plan, the departure scan and the detour costs', async () => {
+    stubServices(departure);
+    modelRunner.mockResolvedValue(modelReply({suggestedDepartureTime: input.departureTime, reasoning: 'Around the closure.'}));
+    // A square around the A100's midpoint; the route via the tower (the A100 in the stub) crosses it too
+    const closure = [{lat: 52.43, lng: 13.18}, {lat: 52.43, lng: 13.22}, {lat: 52.47, lng: 13.22}, {lat: 52.47, lng: 13.18}];
+
+    const plan = unwrapActionResult(await generateTripPlan({...input, avoidAreas: [closure]}));
+
+    expect(plan.route.summary).toBe('Havelchaussee');
+    expect(plan.departureCurve?.length).toBeGreaterThan(0);
+    expect(plan.departureCurve?.every(candidate => candidate.durationSeconds === 2700)).toBe(true);
+    expect(plan.nearbyAttractions).toEqual([]);
+  });
+
+  it('answers a replanned trip from the response cache', async () => {
+    const fetchMock = stubServices(departure);
+    modelRunner.mockResolvedValue(modelReply({suggestedDepartureTime: input.departureTime, reasoning: 'Same as before.'}));
+
+    await generateTripPlan(input);
+    const requestsAfterFirstPlan = fetchMock.mock.calls.length;
+    const replanned = unwrapActionResult(await generateTripPlan(input));
+
+    expect(replanned.route.summary).toBe('A100');
+    expect(requestsTo(fetchMock, '/maps/api/geocode/json')).toHaveLength(2);
+    expect(requestsTo(fetchMock, '/maps/api/place/nearbysearch/json').length).toBeGreaterThan(0);
+    // Only the weather is fetched again
+    expect(fetchMock.mock.calls.slice(requestsAfterFirstPlan).every(([request]) => new URL(String(request)).pathname.startsWith('/data/2.5/'))).toBe(true);
+  });
+
+  it('returns service failures with their code', async () => {
+    const fetchMock = stubServices(departure);
+    fetchMock.mockImplementation(async () => jsonResponse({status: 'ZERO_RESULTS', results: []}));
+
+    expect(await generateTripPlan(input)).toEqual({
+      ok: false,
+      error: {
+        code: 'ZERO_RESULTS',
+        message: 'Trip plan generation failed: Geocoding API Error: No results found for address "Berlin". Please ensure the address is valid.',
+        provider: 'google',
+        operation: 'geocoding',
+        retryable: false,
+      },
+    });
+    expect(modelRunner).not.toHaveBeenCalled();
+  });
+
+  it('reports model output without a departure time or reasoning as invalid AI output', async () => {
+    stubServices(departure);
+    modelRunner.mockResolvedValue(modelReply({suggestedDepartureTime: input.departureTime, reasoning: ''}));
+
+    expect(await generateTripPlan(input)).toMatchObject({
+      ok: false,
+      error: {code: 'AI_INVALID_OUTPUT', message: 'Trip plan generation failed: AI failed to generate a valid suggestion or reasoning.', retryable: true},
+    });
+  });
+
+  it('reports a model quota error as retryable', async () => {
+    stubServices(departure);
+    modelRunner.mockRejectedValue(Object.assign(new Error('Resource has been exhausted'), {status: 429}));
+
+    expect(await generateTripPlan(input)).toMatchObject({ok: false, error: {code: 'QUOTA', provider: 'genkit', retryable: true}});
+  });
+});
@@ -5,55 +5,245 @@
  * @fileOverview Generates an ideal trip plan based on weather, traffic predictions, and nearby attractions using addresses.
  *               Optionally includes waypoints (stops) in the route calculation.
  *
- * - generateTripPlan - A function that generates a trip plan.
+ * - generateTripPlan - A function that generates a trip plan. Requires a signed-in user. Failures are returned as coded errors (see ActionResult).
  * - GenerateTripPlanInput - The input type for the generateTripPlan function.
  * - GenerateTripPlanOutput - The return type for the generateTripPlan function.
  */
 
 import {ai} from '@/ai/ai-instance';
 import {
-  findShortestRoute,
-  getCoordinatesFromAddress,
-  findAttractionsNearRoute, // Use the updated service function
   type Coordinate,
   type Route,
   type Attraction,
+  type TravelMode,
 } from '@/services/google-maps';
+import {getMapProviders} from '@/services/map-providers';
 import {getWeatherForecast, type WeatherForecast} from '@/services/open-weather-map';
-import {z} from 'genkit';
+import {
+  getRouteWeatherForecasts,
+  buildRouteWeatherTimeline,
+  type RouteWeatherPoint,
+  type RouteWeatherSample,
+} from '@/services/route-weather';
+import {
+  scanDepartureWindow,
+  findFastestDeparture,
+  getExpectedDurationSeconds,
+  type DepartureCandidate,
+} from '@/services/departure-optimizer';
+import {estimateDetourCosts} from '@/services/detour-cost';
+import {requireUser} from '@/services/auth';
+import {toDirectionsWaypoint, type TripStop} from '@/lib/trip-stops';
+import {buildItinerary, type Itinerary} from '@/lib/itinerary';
+import {findOpeningHoursConflicts, type OpeningHoursWarning} from '@/lib/opening-hours';
+import {getStopOpeningHours} from '@/services/opening-hours';
+import {rankRoutes, type RouteObjective} from '@/lib/route-objective';
+import {crossesAvoidArea} from '@/lib/geo';
+import {
+  AiOutputError,
+  NetworkError,
+  NoResultsError,
+  QuotaExceededError,
+  RequestDeniedError,
+  ServiceError,
+  toActionResult,
+  withErrorMessage,
+  type ActionResult,
+} from '@/lib/service-errors';
+import {GenkitError, z} from 'genkit';
+
+const TravelModeSchema = z.enum(['driving', 'walking', 'bicycling', 'transit']);
+const RouteObjectiveSchema = z.enum(['fastest', 'shortest', 'fewest_turns', 'fuel_efficient']);
+const RouteRestrictionSchema = z.enum(['tolls', 'highways', 'ferries', 'indoor']);
+
+// How the AI should describe each objective to the user
+const ROUTE_OBJECTIVE_LABELS: Record<RouteObjective, string> = {
+  fastest: 'fastest route',
+  shortest: 'shortest distance',
+  fewest_turns: 'fewest turns',
+  fuel_efficient: 'lowest fuel use',
+};
+
+// How weather and traffic should weigh on the departure time for each travel mode
+const TRAVEL_MODE_GUIDANCE: Record<TravelMode, string> = {
+  driving: 'Traffic congestion is the main timing factor. Heavy rain, snow, ice or fog slow traffic and reduce visibility, so avoid them where possible.',
+  bicycling: 'Weather matters a lot: rain, snow/ice, strong wind (above ~8 m/s) and extreme temperatures make cycling unpleasant or unsafe. Prefer a dry, calm window even if it means leaving somewhat earlier or later. Traffic matters little.',
+  walking: 'Weather matters a lot: rain and extreme heat or cold make walking unpleasant. Prefer dry, mild conditions and recommend an umbrella or shelter if rain is likely. Traffic does not matter.',
+  transit: 'Weather matters mainly for the walks to/from stops and time spent waiting outside. Traffic only affects buses. Align the departure with the scheduled transit departures so the user does not wait long.',
+};
+
+// Minutes a stop would add: the measured detour cost if available, otherwise the corridor estimate
+const getDetourMinutes = (attraction: Attraction): number | undefined => {
+  const seconds = attraction.detourCost?.addedSeconds ?? attraction.detourSeconds;
+  return seconds !== undefined ? Math.round(seconds / 60) : undefined;
+};
+
+// What kind of places to suggest along the route (mirrors AttractionSearchPreferences)
+const AttractionSearchPreferencesSchema = z.object({
+  types: z.array(z.string()).max(3).optional().describe('Places API types to search, e.g. restaurant or museum. Each type is a separate search.'),
+  keyword: z.string().optional().describe('Free-text keywords, e.g. "EV charging".'),
+  minRating: z.number().min(0).max(5).optional().describe('Minimum Google rating.'),
+  openNow: z.boolean().optional().describe('Only places open at planning time.'),
+  minPrice: z.number().int().min(0).max(4).optional().describe('Lowest price level (0 free - 4 very expensive).'),
+  maxPrice: z.number().int().min(0).max(4).optional().describe('Highest price level (0 free - 4 very expensive).'),
+  maxResults: z.number().int().min(1).max(20).optional().describe('Maximum number of places to suggest.'),
+});
+
+// A stop identified by place ID, coordinates or address (mirrors TripStop)
+const TripStopSchema = z.object({
+  name: z.string().describe('Display name of the stop.'),
+  placeId: z.string().optional().describe('Place ID of the stop (from the configured map provider).'),
+  address: z.string().optional().describe('Free-text address of the stop.'),
+  location: z.object({ lat: z.number(), lng: z.number() }).optional().describe('Coordinates of the stop (e.g., picked on the map).'),
+  dwellMinutes: z.number().min(0).optional().describe('How long the traveller stays at the stop, in minutes.'),
+});
 
-// Input schema updated to include optional waypoints
+// Input schema updated to include optional stops
 const GenerateTripPlanInputSchema = z.object({
   originAddress: z.string().describe('The starting address of the trip.'),
   destinationAddress: z.string().describe('The destination address of the trip.'),
+  originPlaceId: z.string()
+   .optional()
+   .describe('Optional Place ID of the origin (e.g., from autocomplete). Used instead of geocoding originAddress.'),
+  destinationPlaceId: z.string()
+   .optional()
+   .describe('Optional Place ID of the destination. Used instead of geocoding destinationAddress.'),
+  originSessionToken: z.string()
+   .optional()
+   .describe('Optional autocomplete session token the origin was chosen with; looking the place up with it closes the session.'),
+  destinationSessionToken: z.string()
+   .optional()
+   .describe('Optional autocomplete session token the destination was chosen with.'),
   departureTime: z
     .string()
     .describe(
       'The desired departure time as an ISO 8601 string (e.g., 2024-08-03T10:00:00Z). The AI should suggest a departure time close to this, considering traffic and weather.'
     ),
-  waypoints: z.array(z.string()) // Array of Google Place IDs
+  stops: z.array(TripStopSchema)
+   .optional()
+   .describe('Optional stops between origin and destination, in the order the user listed them.'),
+  optimizeStops: z.boolean()
+   .optional()
+   .describe('If true (the default), let Google reorder the stops for the shortest trip; if false, keep the given order.'),
+  travelMode: TravelModeSchema
+   .optional()
+   .describe('How the user will travel (defaults to driving). Waypoints are ignored for transit.'),
+  alternatives: z.boolean()
+   .optional()
+   .describe('If true, return the alternative routes and let the AI recommend one. Google ignores this when waypoints are provided.'),
+  objective: RouteObjectiveSchema
+   .optional()
+   .describe('What to minimise when choosing between candidate routes (defaults to fastest). Fuel efficiency only applies to driving.'),
+  avoid: z.array(RouteRestrictionSchema)
    .optional()
-   .describe('Optional list of Google Place IDs for stops between origin and destination.'),
+   .describe('Road features to avoid where possible (tolls, highways, ferries, indoor).'),
+  avoidAreas: z.array(z.array(z.object({ lat: z.number(), lng: z.number() })).min(3).max(100))
+   .max(10)
+   .optional()
+   .describe('Polygons the route must not pass through (e.g., a closed neighborhood). Candidate routes that cross one are rejected.'),
+  searchPreferences: AttractionSearchPreferencesSchema
+   .optional()
+   .describe('What kind of places to suggest along the route (defaults to well-known attractions).'),
 });
 export type GenerateTripPlanInput = z.infer<typeof GenerateTripPlanInputSchema>;
 
-// Output schema remains the same
+// Route schema shared by the chosen route and its alternatives
+const RouteSchema = z.object({
+  path: z.array(z.object({lat: z.number(), lng: z.number()})).describe('The detailed route path as coordinates, including waypoints.'),
+  distanceMeters: z.number().describe('The total route distance in meters.'),
+  durationSeconds: z.number().describe('The total estimated travel time in seconds (time spent at stops is not included; see `itinerary`).'),
+  bounds: z.object({ // Include bounds for map fitting
+      northeast: z.object({lat: z.number(), lng: z.number()}),
+      southwest: z.object({lat: z.number(), lng: z.number()}),
+  }).describe('The bounding box containing the entire route.'),
+  waypointsOrder: z.array(z.number()).optional().describe('The order the stops are visited in, as indices into the input `stops` array. Only present if stops were provided.'),
+  legs: z.array(z.object({
+      distanceMeters: z.number().describe('The leg distance in meters.'),
+      durationSeconds: z.number().describe('The leg duration in seconds.'),
+      startLocation: z.object({lat: z.number(), lng: z.number()}),
+      endLocation: z.object({lat: z.number(), lng: z.number()}),
+      steps: z.array(z.object({
+          maneuver: z.string().optional().describe('The maneuver at the start of the step (e.g., turn-left).'),
+          htmlInstructions: z.string().describe('The step instruction (may contain HTML).'),
+          distanceMeters: z.number().describe('The step distance in meters.'),
+          durationSeconds: z.number().describe('The step duration in seconds.'),
+          startLocation: z.object({lat: z.number(), lng: z.number()}),
+          endLocation: z.object({lat: z.number(), lng: z.number()}),
+          path: z.array(z.object({lat: z.number(), lng: z.number()})).describe('The detailed path of the step.'),
+      })).optional().describe('Turn-by-turn steps of the leg, in travel order.'),
+  })).optional().describe('The legs of the route between consecutive stops, in travel order.'),
+  summary: z.string().optional().describe('Short label for the route, usually its main roads (e.g., "US-101 S").'),
+  hasTolls: z.boolean().optional().describe('Whether the route appears to include toll roads.'),
+  usesHighways: z.boolean().optional().describe('Whether the route appears to use highways/freeways.'),
+  travelMode: TravelModeSchema.optional().describe('The travel mode the route was computed for.'),
+  transitLegs: z.array(z.object({
+    lineName: z.string().describe('The transit line name.'),
+    vehicleType: z.string().describe('The vehicle type (e.g., BUS, SUBWAY).'),
+    departureStop: z.string().describe('The boarding stop.'),
+    arrivalStop: z.string().describe('The alighting stop.'),
+    headsign: z.string().optional().describe('The direction shown on the vehicle.'),
+    departureTime: z.string().optional().describe('Scheduled departure (ISO 8601).'),
+    arrivalTime: z.string().optional().describe('Scheduled arrival (ISO 8601).'),
+    numStops: z.number().optional().describe('Number of stops ridden.'),
+  })).optional().describe('The transit rides along the route, in order. Only present for transit routes.'),
+});
+
+// Schedule of the trip, including time spent at stops (mirrors Itinerary)
+const ItinerarySchema = z.object({
+  entries: z.array(z.object({
+    kind: z.enum(['origin', 'stop', 'destination']).describe('Whether this is the origin, a stop or the destination.'),
+    name: z.string().describe('Display name of the place.'),
+    location: z.object({lat: z.number(), lng: z.number()}).describe('Coordinates of the place.'),
+    placeId: z.string().optional().describe('Google Place ID of the stop, if known.'),
+    arrivalTime: z.string().optional().describe('Expected arrival time (ISO 8601). Absent for the origin.'),
+    departureTime: z.string().optional().describe('Expected departure time (ISO 8601), after the dwell time. Absent for the destination.'),
+    dwellMinutes: z.number().describe('Planned time spent here, in minutes.'),
+    travelSecondsFromPrevious: z.number().optional().describe('Travel time from the previous entry, in seconds.'),
+    distanceMetersFromPrevious: z.number().optional().describe('Distance from the previous entry, in meters.'),
+  })).describe('The origin, the stops in visiting order, and the destination.'),
+  totalTravelSeconds: z.number().describe('Time spent moving, in seconds.'),
+  totalDwellSeconds: z.number().describe('Time spent at stops, in seconds.'),
+  arrivalTime: z.string().describe('Expected arrival time at the destination (ISO 8601).'),
+});
+
+// How the candidate routes were ranked (mirrors RouteRanking, with the metrics in ranked order)
+const RouteRankingSchema = z.object({
+  objective: RouteObjectiveSchema.describe('The objective the routes were ranked by.'),
+  rationale: z.string().describe('Why the top-ranked route won.'),
+  candidates: z.array(z.object({
+    summary: z.string().describe('Label of the route.'),
+    durationSeconds: z.number().describe('Expected travel time in seconds.'),
+    distanceMeters: z.number().describe('Distance in meters.'),
+    turnCount: z.number().describe('Number of turns, ramps, forks and roundabouts.'),
+    fuelLiters: z.number().optional().describe('Estimated fuel use in liters (driving only).'),
+  })).describe('Every candidate route, best first.'),
+});
+
+// A stop that is closed when the traveller gets there, or closes before they leave (mirrors OpeningHoursWarning)
+const OpeningHoursWarningSchema = z.object({
+  stopName: z.string().describe('Name of the stop.'),
+  placeId: z.string().describe('Google Place ID of the stop.'),
+  kind: z.enum(['closed_on_arrival', 'closes_during_visit']).describe('Whether the place is closed on arrival or closes during the visit.'),
+  arrivalTime: z.string().describe('Planned arrival at the stop (ISO 8601).'),
+  departureTime: z.string().describe('Planned departure from the stop (ISO 8601).'),
+  nextOpenTime: z.string().optional().describe('When the place next opens (ISO 8601). Only for closed_on_arrival.'),
+  closingTime: z.string().optional().describe('When the place closes (ISO 8601). Only for closes_during_visit.'),
+});
+
 const GenerateTripPlanOutputSchema = z.object({
   originAddress: z.string().describe('The starting address of the trip.'),
   destinationAddress: z.string().describe('The destination address of the trip.'),
   suggestedDepartureTime: z
     .string()
     .describe('The suggested departure time as an ISO 8601 string.'),
-  route: z.object({
-    path: z.array(z.object({lat: z.number(), lng: z.number()})).describe('The detailed route path as coordinates, including waypoints.'),
-    distanceMeters: z.number().describe('The total route distance in meters.'),
-    durationSeconds: z.number().describe('The total estimated route duration in seconds (including traffic and stops if available).'),
-    bounds: z.object({ // Include bounds for map fitting
-        northeast: z.object({lat: z.number(), lng: z.number()}),
-        southwest: z.object({lat: z.number(), lng: z.number()}),
-    }).describe('The bounding box containing the entire route.'),
-    waypointsOrder: z.array(z.number()).optional().describe('The optimized order of waypoints as indices from the input `waypoints` array. Only present if waypoints were provided and optimization occurred.'),
-  }).describe('The suggested route information'),
+  route: RouteSchema.describe('The suggested route information (the recommended alternative, if alternatives were requested).'),
+  alternativeRoutes: z.array(RouteSchema)
+    .optional()
+    .describe('All candidate routes returned by the Directions API, ranked by the objective (best first). Only present if alternatives were requested.'),
+  recommendedRouteIndex: z.number()
+    .optional()
+    .describe('Index into `alternativeRoutes` of the route the AI recommends. Only present if alternatives were requested.'),
+  routeRanking: RouteRankingSchema.describe('How the candidate routes were ranked for the objective.'),
   weatherForecast: z.object({
     currentTemperatureCelsius: z.number().describe('The current temperature at the origin in Celsius.'),
     conditions: z.string().describe('The current weather conditions at the origin.'),
@@ -63,6 +253,32 @@ const GenerateTripPlanOutputSchema = z.object({
       conditions: z.string().describe('The weather conditions.'),
     })).describe('The five day weather outlook at the origin.'),
   }).describe('The weather forecast information for the origin'),
+  departureCurve: z.array(z.object({
+    departureTime: z.string().describe('Candidate departure time (ISO 8601).'),
+    durationSeconds: z.number().describe('Trip duration without traffic (scheduled duration for transit), in seconds.'),
+    durationInTrafficSeconds: z.number().optional().describe('Trip duration in predicted traffic, in seconds (driving only).'),
+    arrivalTime: z.string().describe('Expected arrival time for this departure (ISO 8601).'),
+  }))
+    .optional()
+    .describe('Trip duration for departures scanned around the desired time, in departure order. Only present for driving and transit.'),
+  routeWeather: z.array(z.object({
+    location: z.object({lat: z.number(), lng: z.number()}).describe('The sampled point on the route.'),
+    distanceFromStartMeters: z.number().describe('Distance along the route from the origin in meters.'),
+    estimatedArrivalTime: z.string().describe('When the traveller is expected to reach this point (ISO 8601), based on the suggested departure time.'),
+    forecast: z.object({
+      time: z.string().describe('Start of the 3-hour forecast slot (ISO 8601).'),
+      temperatureCelsius: z.number().describe('The forecast temperature in Celsius.'),
+      conditions: z.string().describe('The forecast weather conditions.'),
+      precipitationProbability: z.number().describe('Probability of precipitation (0-1).'),
+      windSpeedMps: z.number().describe('Wind speed in meters per second.'),
+    }).nullable().describe('The forecast closest to the arrival time, or null if outside the forecast range.'),
+  })).describe('Weather timeline sampled along the route for the suggested departure time.'),
+  itinerary: ItinerarySchema
+    .optional()
+    .describe('Arrival and departure times at each stop for the suggested departure time, including dwell time.'),
+  openingHoursWarnings: z.array(OpeningHoursWarningSchema)
+    .optional()
+    .describe('Stops that are closed on arrival or close during the visit, for the suggested departure time. Only present if there are conflicts.'),
   nearbyAttractions: z.array(z.object({
     name: z.string().describe('Name of the attraction.'),
     description: z.string().describe('Brief description of the attraction.'), // Keep description simple for AI
@@ -70,13 +286,51 @@ const GenerateTripPlanOutputSchema = z.object({
     placeId: z.string().optional().describe('Google Maps Place ID.'),
     rating: z.number().optional().describe('Google Maps Rating.'),
     types: z.array(z.string()).optional().describe('Types of the place (e.g., museum, park).'),
-  })).describe('List of famous attractions found near the route.'),
+    distanceFromRouteMeters: z.number().optional().describe('Perpendicular distance from the route, in meters.'),
+    detourSeconds: z.number().optional().describe('Estimated extra travel time to visit the place and return to the route, in seconds.'),
+    detourCost: z.object({
+      addedSeconds: z.number().describe('Extra travel time in seconds.'),
+      addedMeters: z.number().describe('Extra distance in meters.'),
+    }).optional().describe('Measured cost of inserting the place as a waypoint, compared with the route without it.'),
+  })).describe('List of famous attractions found along the route corridor, smallest detour first.'),
   reasoning: z.string().describe('The AI reasoning for the suggested departure time and route, considering traffic (based on duration), weather, waypoints (if any), and mentioning specific attractions if they influence the plan or are notable points of interest.'),
 });
 export type GenerateTripPlanOutput = z.infer<typeof GenerateTripPlanOutputSchema>;
 
-export async function generateTripPlan(input: GenerateTripPlanInput): Promise<GenerateTripPlanOutput> {
-  return generateTripPlanFlow(input);
+export async function generateTripPlan(input: GenerateTripPlanInput): Promise<ActionResult<GenerateTripPlanOutput>> {
+  return toActionResult(async () => {
+    // Server actions are public endpoints; only signed-in users may spend API quota
+    const user = await requireUser();
+    console.log(`[Trip Plan] Generating trip plan for user ${user.uid}.`);
+    return generateTripPlanFlow(input);
+  });
+}
+
+/**
+ * Classifies a failure of the AI prompt: a rejected or rate-limited key, an unreachable model,
+ * or an answer that doesn't match the output schema.
+ */
+function toAiServiceError(error: unknown): ServiceError {
+  const context = { provider: 'genkit' as const, operation: 'trip-plan', cause: error };
+  if (error instanceof ServiceError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof GenkitError && error.status === 'INVALID_ARGUMENT' && message.includes('Schema validation failed')) {
+    return new AiOutputError(`AI returned an invalid trip plan. ${message}`, context);
+  }
+  // The Gemini client reports the HTTP status of failed calls
+  const httpStatus = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  if (httpStatus === 429) {
+    return new QuotaExceededError(`AI model usage limit exceeded. ${message}`, context);
+  }
+  if (httpStatus === 401 || httpStatus === 403 || /api key not valid/i.test(message)) {
+    return new RequestDeniedError(`AI model request denied. ${message}`, context);
+  }
+  if (httpStatus === undefined && error instanceof TypeError) {
+    return new NetworkError(`Failed to reach the AI model: ${message}`, context); // fetch rejects with a TypeError
+  }
+  return new ServiceError('UNKNOWN', `AI model request failed. ${message}`, { ...context, retryable: httpStatus !== undefined && httpStatus >= 500 });
 }
 
 // Updated prompt input schema to mention waypoints
@@ -87,23 +341,77 @@ const generateTripPlanPrompt = ai.definePrompt({
       originAddress: z.string().describe('The starting address of the trip.'),
       destinationAddress: z.string().describe('The destination address of the trip.'),
       desiredDepartureTime: z.string().describe('The user\'s desired departure time (ISO 8601).'),
+      travelMode: z.string().describe('How the user will travel (driving, walking, bicycling or transit).'),
+      travelModeGuidance: z.string().describe('How weather and traffic should be weighed for this travel mode.'),
+      transitRides: z.array(z.string())
+        .optional()
+        .describe('Human-readable summary of each transit ride (line, stops, scheduled times). Only present for transit.'),
       routeInfo: z.object({
         distanceKm: z.number().describe('The route distance in kilometers.'),
-        durationMinutes: z.number().describe('The estimated route duration in minutes (factors in typical traffic and waypoints).'),
+        durationMinutes: z.number().describe('The estimated travel time in minutes when leaving at the desired time (in predicted traffic when available). Excludes time spent at stops.'),
         hasWaypoints: z.boolean().describe('Whether the route includes stops/waypoints.'), // Indicate if waypoints were included
       }).describe('Summary of the calculated route.'),
+      itinerary: z.object({
+        stops: z.array(z.object({
+          name: z.string().describe('Name of the stop.'),
+          arrivalTime: z.string().describe('Expected arrival time (ISO 8601).'),
+          departureTime: z.string().describe('Expected departure time (ISO 8601).'),
+          dwellMinutes: z.number().describe('Planned minutes at the stop.'),
+        })).describe('The stops in visiting order.'),
+        totalDwellMinutes: z.number().describe('Total planned minutes at stops.'),
+        arrivalTime: z.string().describe('Expected arrival time at the destination (ISO 8601).'),
+      })
+      .optional()
+      .describe('Schedule when leaving at the desired time, including time at stops. Only present if the route has stops.'),
+      openingHoursConflicts: z.array(z.string())
+      .optional()
+      .describe('Stops that would be closed on arrival or close during the visit when leaving at the desired time. Only present if there are conflicts.'),
+      routeObjective: z.object({
+        label: z.string().describe('What the user wants to minimise (e.g., "shortest distance").'),
+        rationale: z.string().describe('Why the top-ranked route is best for that objective.'),
+      }).describe('The user\'s route priority and how the candidate routes were ranked.'),
+      routeAlternatives: z.array(z.object({
+        index: z.number().describe('Index of the alternative (0 is the best for the user\'s route priority).'),
+        label: z.string().describe('Short label for the route (main roads).'),
+        distanceKm: z.number().describe('The route distance in kilometers.'),
+        durationMinutes: z.number().describe('The estimated route duration in minutes.'),
+        hasTolls: z.boolean().describe('Whether the route appears to include toll roads.'),
+        usesHighways: z.boolean().describe('Whether the route appears to use highways/freeways.'),
+        turnCount: z.number().describe('Number of turns, ramps, forks and roundabouts.'),
+        fuelLiters: z.number().optional().describe('Estimated fuel use in liters (driving only).'),
+      }))
+      .optional()
+      .describe('Candidate routes to choose between. Only present if alternatives were requested and more than one route was found.'),
+      departureScan: z.array(z.object({
+        departureTime: z.string().describe('Candidate departure time (ISO 8601).'),
+        durationMinutes: z.number().describe('Expected trip duration in minutes for this departure (in predicted traffic when available).'),
+      }))
+      .optional()
+      .describe('Trip durations for departures scanned around the desired time. Only present for driving and transit.'),
+      fastestDepartureTime: z.string().optional().describe('The scanned departure with the shortest expected duration (ISO 8601).'),
       weatherForecast: z.object({
         currentTemperatureCelsius: z.number().describe('Current temperature at the origin in Celsius.'),
         currentConditions: z.string().describe('Current weather conditions at the origin.'),
         outlookSummary: z.string().describe('Brief summary of the 5-day weather outlook (e.g., "Generally sunny for the next few days, potential rain later").'),
       }).describe('Summary of the weather forecast at the origin.'),
+      routeWeather: z.array(z.object({
+        distanceKm: z.number().describe('Distance from the origin in kilometers.'),
+        arrivalTime: z.string().describe('Expected arrival time at this point (ISO 8601) when leaving at the desired departure time.'),
+        temperatureCelsius: z.number().describe('Forecast temperature in Celsius.'),
+        conditions: z.string().describe('Forecast weather conditions.'),
+        precipitationChancePercent: z.number().describe('Chance of precipitation in percent.'),
+        windSpeedMps: z.number().describe('Forecast wind speed in meters per second.'),
+      }))
+      .optional()
+      .describe('Forecast at points along the route for the time the traveller reaches each point. Optional field.'),
       attractions: z.array(z.object({ // Pass simplified attractions
         name: z.string().describe('Name of the attraction.'),
         type: z.string().optional().describe('Primary type of the attraction (e.g., Museum, Park).'), // Pass primary type if available
-        rating: z.number().optional().describe('User rating (out of 5).')
+        rating: z.number().optional().describe('User rating (out of 5).'),
+        detourMinutes: z.number().optional().describe('Estimated extra minutes to visit the place and return to the route.'),
       }))
       .optional() // Make attractions optional
-      .describe('List of potential attractions near the route (name, type, rating). Optional field.'),
+      .describe('List of potential attractions near the route (name, type, rating, detour), smallest detour first. Optional field.'),
     }),
   },
   output: {
@@ -111,6 +419,7 @@ const generateTripPlanPrompt = ai.definePrompt({
       suggestedDepartureTime: z
         .string()
         .describe('The suggested optimal departure time as an ISO 8601 string, close to the desired time.'),
+      recommendedRouteIndex: z.number().optional().describe('Index of the recommended route from `routeAlternatives`. Only set when route alternatives were provided.'),
       reasoning: z.string().describe('Clear reasoning for the suggested departure time. Explain how traffic (inferred from duration vs. distance), weather conditions (current and outlook), waypoints (if included), and potentially interesting attractions influenced the decision. Mention specific weather concerns (like rain or snow) or highlight 1-2 highly-rated or relevant attractions as points of interest along the way, but don\'t suggest altering the route unless explicitly asked.'),
     }),
   },
@@ -121,29 +430,82 @@ const generateTripPlanPrompt = ai.definePrompt({
 *   **Origin:** {{{originAddress}}}
 *   **Destination:** {{{destinationAddress}}}
 *   **Desired Departure:** {{{desiredDepartureTime}}} (User's preferred time)
+*   **Travel Mode:** {{{travelMode}}}
 
 **Route & Conditions:**
-*   **Route Summary:** Approximately {{{routeInfo.distanceKm}}} km, estimated travel time: {{{routeInfo.durationMinutes}}} minutes (this considers typical traffic{{#if routeInfo.hasWaypoints}} and includes planned stops{{/if}}).
+*   **Route Priority:** {{{routeObjective.label}}}. {{{routeObjective.rationale}}}
+*   **Route Summary:** Approximately {{{routeInfo.distanceKm}}} km, estimated travel time: {{{routeInfo.durationMinutes}}} minutes (this considers typical traffic{{#if routeInfo.hasWaypoints}} but not the time spent at stops; see the itinerary{{/if}}).
 *   **Weather at Origin:** Currently {{{weatherForecast.currentTemperatureCelsius}}}°C and {{{weatherForecast.currentConditions}}}. Outlook: {{{weatherForecast.outlookSummary}}}.
 
+{{#if transitRides}}
+**Transit Rides:**
+{{#each transitRides}}
+    *   {{{this}}}
+{{/each}}
+{{/if}}
+
+{{#if itinerary}}
+**Itinerary (when leaving at the desired time):**
+{{#each itinerary.stops}}
+    *   {{{name}}}: arrive {{{arrivalTime}}}, stay {{dwellMinutes}} min, leave {{{departureTime}}}
+{{/each}}
+Arrival at the destination: {{{itinerary.arrivalTime}}} (including {{itinerary.totalDwellMinutes}} minutes at stops).
+{{/if}}
+
+{{#if openingHoursConflicts}}
+**Opening Hours Conflicts (when leaving at the desired time):**
+{{#each openingHoursConflicts}}
+    *   {{{this}}}
+{{/each}}
+{{/if}}
+
+{{#if departureScan}}
+**Departure Time Scan (expected trip duration for each departure):**
+{{#each departureScan}}
+    *   Leave {{{departureTime}}}: {{durationMinutes}} minutes
+{{/each}}
+The fastest scanned departure is {{{fastestDepartureTime}}}.
+{{/if}}
+
+{{#if routeAlternatives}}
+**Route Alternatives:**
+The alternatives are ranked by the user's route priority, best first. The weather and attractions below were gathered along alternative 0.
+{{#each routeAlternatives}}
+    *   [{{index}}] {{{label}}}: {{distanceKm}} km, {{durationMinutes}} minutes, {{turnCount}} turns{{#if fuelLiters}}, ~{{fuelLiters}} L fuel{{/if}}{{#if hasTolls}}, has tolls{{/if}}{{#if usesHighways}}, uses highways{{/if}}
+{{/each}}
+{{/if}}
+
+**Weather Along the Route (when leaving at the desired time):**
+{{#if routeWeather}}
+{{#each routeWeather}}
+    *   ~{{distanceKm}} km, reached around {{{arrivalTime}}}: {{temperatureCelsius}}°C, {{{conditions}}} ({{precipitationChancePercent}}% chance of precipitation, wind {{windSpeedMps}} m/s)
+{{/each}}
+{{else}}
+No forecast is available for points along the route.
+{{/if}}
+
 **Nearby Attractions:**
 {{#if attractions}}
 Here are some points of interest near the calculated route:
 {{#each attractions}}
-    *   {{{name}}} ({{#if type}}{{type}}{{else}}Attraction{{/if}}{{#if rating}}, Rating: {{rating}}★{{/if}})
+    *   {{{name}}} ({{#if type}}{{type}}{{else}}Attraction{{/if}}{{#if rating}}, Rating: {{rating}}★{{/if}}{{#if detourMinutes}}, ~{{detourMinutes}} min detour{{/if}})
 {{/each}}
 {{else}}
 No specific major attractions were flagged directly along the route.
 {{/if}}
 
 **Your Goal:**
-Recommend the *best departure time* (as an ISO 8601 string) that is close to the user's desired time.
+Recommend the *best departure time* (as an ISO 8601 string) that is close to the user's desired time.{{#if routeAlternatives}} Also recommend one of the route alternatives by returning its index as \`recommendedRouteIndex\`.{{/if}}
 
 **Reasoning Requirements:**
-*   **Analyze Traffic:** Consider the estimated duration relative to the distance. A long duration for the distance implies potential traffic delays around the suggested time.
-*   **Factor in Waypoints:** {{#if routeInfo.hasWaypoints}}Acknowledge that the duration includes stops. {{/if}}Consider if the departure time needs adjustment based on the number/nature of stops (though details of stops are not provided here).
-*   **Evaluate Weather:** Factor in the current conditions and the forecast. Avoid suggesting departure during potentially hazardous weather (heavy rain, snow) if possible, or advise caution.
+*   **Consider the Travel Mode ({{{travelMode}}}):** {{{travelModeGuidance}}}
+*   **Analyze Traffic:** {{#if departureScan}}Use the departure time scan: it gives the predicted duration for each departure, so prefer a departure from the scan with a short duration, trading minutes saved against how far it is from the desired time (e.g., leaving 2 hours early to save 3 minutes is not worth it). Quote the durations you compare.{{else}}Consider the estimated duration relative to the distance. A long duration for the distance implies potential traffic delays around the suggested time.{{/if}}
+*   **Factor in Waypoints:** {{#if itinerary}}Use the itinerary: the scanned durations are travel time only, so shifting the departure shifts every stop's arrival by the same amount. Check that each stop is reached at a sensible time for that kind of place (e.g., a museum before it closes, a restaurant at mealtime) and that the final arrival still suits the user, and adjust the departure if not.{{#if openingHoursConflicts}} Move the departure so the stops listed under Opening Hours Conflicts are open for the whole visit if a reasonable departure allows it; otherwise warn the user which stop will be closed.{{/if}}{{else}}There are no stops on this route.{{/if}}
+*   **Evaluate Weather:** Factor in the current conditions and the forecast, including the weather along the route at the time each point is reached (not just at the origin). Avoid suggesting departure during potentially hazardous weather (heavy rain, snow) if possible, or advise caution and mention where along the route it is expected.
 *   **Consider Attractions (Optional):** Briefly mention 1-2 highly-rated or relevant attractions listed above as points of interest the user might pass, especially if the trip is longer. Do *not* suggest detours unless the user explicitly asked for stops.
+{{#if routeAlternatives}}
+*   **Compare Routes:** Prefer alternative 0, which best matches the user's route priority ({{{routeObjective.label}}}), unless weather or another alternative's clear advantage outweighs it. Weigh the alternatives by duration, distance, turns, tolls and highway use. Explain in the reasoning why the recommended route beats the others (e.g., "saves 15 minutes but uses a toll road").
+{{/if}}
 *   **Justify:** Clearly explain *why* the suggested departure time is optimal, linking it directly to traffic, waypoints (if any), weather, and any mentioned attractions. Be concise and actionable. Output only the suggested time and reasoning in the specified format.
 `,
 });
@@ -161,24 +523,79 @@ const generateTripPlanFlow = ai.defineFlow<
   async (input) => {
     console.log("Generating trip plan for input:", input);
     try {
-      // 1. Geocode addresses to coordinates (still needed for start/end)
-      // We don't need to geocode waypoint Place IDs, Directions API handles them
-      const originCoord: Coordinate = await getCoordinatesFromAddress(input.originAddress);
-      const destinationCoord: Coordinate = await getCoordinatesFromAddress(input.destinationAddress);
+      // 1. Resolve origin and destination to coordinates (still needed for weather and the departure scan).
+      // Place IDs from autocomplete are exact; free text is geocoded and may match the wrong place.
+      // Looking a chosen place up with its session token closes the autocomplete session, so its keystrokes are billed as one session.
+      // Stops don't need geocoding; the routing provider accepts place IDs, coordinates and addresses as waypoints
+      const {routing, geocoding, places} = getMapProviders();
+      const originCoord: Coordinate = input.originPlaceId
+        ? await geocoding.geocodePlaceId(input.originPlaceId, input.originSessionToken)
+        : await geocoding.geocodeAddress(input.originAddress);
+      const destinationCoord: Coordinate = input.destinationPlaceId
+        ? await geocoding.geocodePlaceId(input.destinationPlaceId, input.destinationSessionToken)
+        : await geocoding.geocodeAddress(input.destinationAddress);
       console.log("Coordinates obtained:", { originCoord, destinationCoord });
 
-      // 2. Fetch route using origin/destination and WAYPOINTS
-      const waypointsParam = input.waypoints?.map(id => `place_id:${id}`) || [];
-      const route: Route = await findShortestRoute(originCoord, destinationCoord, waypointsParam);
-      console.log("Route obtained:", { distance: route.distanceMeters, duration: route.durationSeconds, waypoints: input.waypoints });
+      // 2. Fetch route using origin/destination and WAYPOINTS (plus alternatives, if requested)
+      const travelMode: TravelMode = input.travelMode || 'driving';
+      const stops: TripStop[] = input.stops || [];
+      const waypointsParam = stops.map(toDirectionsWaypoint);
+      const optimizeWaypoints = input.optimizeStops ?? true;
+      // Transit needs the departure time to look up the right schedules; driving needs it for duration_in_traffic
+      const directionsOptions = {
+        mode: travelMode,
+        departureTime: travelMode === 'transit' || travelMode === 'driving' ? input.departureTime : undefined,
+        optimizeWaypoints,
+        avoid: input.avoid,
+      };
+      const avoidAreas = input.avoidAreas || [];
+      // Always ask for alternatives so they can be ranked by the user's objective; the provider's default is simply its fastest
+      const allRoutes: Route[] = await routing.findAlternativeRoutes(originCoord, destinationCoord, waypointsParam, directionsOptions);
+      // Routing services have no way to avoid an arbitrary area, so drop the candidates that pass through one
+      const fetchedRoutes: Route[] = allRoutes.filter(candidate => !crossesAvoidArea(candidate, avoidAreas));
+      if (fetchedRoutes.length === 0) {
+        throw new NoResultsError(`Every route found (${allRoutes.length}) passes through an area you marked to avoid. Try removing or shrinking the area${stops.length > 0 ? ', or removing stops (Google only offers alternative routes for trips without stops)' : ''}.`, { operation: 'directions' });
+      }
+      if (fetchedRoutes.length < allRoutes.length) {
+        console.log(`Rejected ${allRoutes.length - fetchedRoutes.length} of ${allRoutes.length} routes that cross an avoid area.`);
+      }
+      const objective: RouteObjective = input.objective || 'fastest';
+      const routeRanking = rankRoutes(fetchedRoutes, objective);
+      const candidateRoutes: Route[] = routeRanking.order.map(index => fetchedRoutes[index]); // Best first
+      const candidateMetrics = routeRanking.order.map(index => routeRanking.metrics[index]);
+      // Weather and attractions are gathered along the top-ranked route; alternatives usually share its corridor
+      const route: Route = candidateRoutes[0];
+      console.log("Route obtained:", { distance: route.distanceMeters, duration: route.durationSeconds, stops: stops.length, optimizeWaypoints, alternatives: candidateRoutes.length, objective: routeRanking.objective });
 
-      // 3. Fetch weather forecast for the origin
-      const weatherForecast: WeatherForecast = await getWeatherForecast(originCoord);
+      // 3. Fetch weather forecast for the origin, plus forecasts for points sampled along the route.
+      //    Meanwhile, scan departures around the desired time for the traffic/schedule duration curve.
+      const [weatherForecast, departureCurve]: [WeatherForecast, DepartureCandidate[]] = await Promise.all([
+        getWeatherForecast(originCoord),
+        scanDepartureWindow(originCoord, destinationCoord, waypointsParam, travelMode, input.departureTime, { optimizeWaypoints, avoid: input.avoid, objective, avoidAreas }),
+      ]);
       console.log("Weather obtained:", weatherForecast.conditions);
+      // Schedule with time at stops for the desired departure; rebuilt below for the suggested departure
+      const desiredItinerary: Itinerary = buildItinerary(route, stops, input.departureTime, input.originAddress, input.destinationAddress);
+      const routeWeatherPoints: RouteWeatherPoint[] = await getRouteWeatherForecasts(route);
+      // Time the samples for the desired departure, including the time spent at stops; re-timed below once the AI suggests a departure time
+      const desiredRouteWeather: RouteWeatherSample[] = buildRouteWeatherTimeline(routeWeatherPoints, input.departureTime, desiredItinerary);
+      console.log(`Route weather obtained for ${routeWeatherPoints.length} points.`);
+      const fastestDeparture = findFastestDeparture(departureCurve, input.departureTime);
+      console.log(`Departure scan obtained ${departureCurve.length} candidates; fastest: ${fastestDeparture?.departureTime ?? 'N/A'}.`);
+      const itineraryStops = desiredItinerary.entries.filter(entry => entry.kind === 'stop');
+      // Stops the route doesn't visit (e.g., transit) have no arrival time to check
+      const stopOpeningHours = itineraryStops.length > 0 ? await getStopOpeningHours(stops) : {};
+      const desiredOpeningHoursWarnings: OpeningHoursWarning[] = findOpeningHoursConflicts(desiredItinerary, stopOpeningHours);
+      console.log(`Opening hours obtained for ${Object.keys(stopOpeningHours).length} stops; ${desiredOpeningHoursWarnings.length} conflicts.`);
 
-      // 4. Find attractions near the route (using the route object which now includes bounds)
+      // 4. Find attractions along the route corridor, ranked by the detour they would add
       // Consider if attractions should be skipped if waypoints are already selected? Maybe still show some.
-      const nearbyAttractions: Attraction[] = await findAttractionsNearRoute(route);
+      const corridorAttractions: Attraction[] = await places.findAttractionsNearRoute(route, input.searchPreferences);
+      // Then measure what each would add if inserted as a stop. Routes via a stop are the provider's default route,
+      // so they are compared with its default route, not with the one the objective picked. When the default crosses an
+      // avoid area the user can't take it, so the best allowed route in provider order (fetchedRoutes[0]) stands in for it
+      const detourBaseline: Route = fetchedRoutes[0];
+      const nearbyAttractions: Attraction[] = await estimateDetourCosts(originCoord, destinationCoord, waypointsParam, directionsOptions, detourBaseline, corridorAttractions, avoidAreas);
       console.log(`Found ${nearbyAttractions.length} attractions.`);
 
       // 5. Prepare summarized data for the AI prompt
@@ -186,38 +603,134 @@ const generateTripPlanFlow = ai.defineFlow<
         originAddress: input.originAddress,
         destinationAddress: input.destinationAddress,
         desiredDepartureTime: input.departureTime,
+        travelMode,
+        travelModeGuidance: TRAVEL_MODE_GUIDANCE[travelMode],
+        transitRides: route.transitLegs?.map(ride =>
+          `${ride.lineName} (${ride.vehicleType.toLowerCase().replace(/_/g, ' ')})${ride.headsign ? ` toward ${ride.headsign}` : ''}: ${ride.departureStop}${ride.departureTime ? ` at ${ride.departureTime}` : ''} → ${ride.arrivalStop}${ride.arrivalTime ? ` at ${ride.arrivalTime}` : ''}`
+        ),
         routeInfo: {
           distanceKm: Math.round(route.distanceMeters / 1000),
-          durationMinutes: Math.round(route.durationSeconds / 60),
-          hasWaypoints: !!(input.waypoints && input.waypoints.length > 0), // Check if waypoints were provided
+          durationMinutes: Math.round((route.durationInTrafficSeconds ?? route.durationSeconds) / 60),
+          hasWaypoints: travelMode !== 'transit' && stops.length > 0, // Waypoints are dropped for transit
         },
+        itinerary: itineraryStops.length > 0
+          ? {
+              stops: itineraryStops.map(entry => ({
+                name: entry.name,
+                arrivalTime: entry.arrivalTime!,
+                departureTime: entry.departureTime!,
+                dwellMinutes: entry.dwellMinutes,
+              })),
+              totalDwellMinutes: Math.round(desiredItinerary.totalDwellSeconds / 60),
+              arrivalTime: desiredItinerary.arrivalTime,
+            }
+          : undefined,
+        openingHoursConflicts: desiredOpeningHoursWarnings.length > 0
+          ? desiredOpeningHoursWarnings.map(warning => warning.kind === 'closed_on_arrival'
+              ? `${warning.stopName}: closed on arrival at ${warning.arrivalTime}; next opens ${warning.nextOpenTime}`
+              : `${warning.stopName}: closes at ${warning.closingTime}, before the planned departure at ${warning.departureTime}`)
+          : undefined,
+        routeObjective: {
+          label: ROUTE_OBJECTIVE_LABELS[routeRanking.objective],
+          rationale: routeRanking.rationale,
+        },
+        // Only ask the AI to choose when the user asked to compare and there is actually a choice
+        routeAlternatives: input.alternatives && candidateRoutes.length > 1
+          ? candidateRoutes.map((candidate, index) => ({
+              index,
+              label: candidate.summary || `Route ${index + 1}`,
+              distanceKm: Math.round(candidate.distanceMeters / 1000),
+              durationMinutes: Math.round(candidate.durationSeconds / 60),
+              hasTolls: !!candidate.hasTolls,
+              usesHighways: !!candidate.usesHighways,
+              turnCount: candidateMetrics[index].turnCount,
+              fuelLiters: candidateMetrics[index].fuelLiters !== undefined ? Math.round(candidateMetrics[index].fuelLiters! * 10) / 10 : undefined,
+            }))
+          : undefined,
+        departureScan: departureCurve.length > 0
+          ? departureCurve.map(candidate => ({
+              departureTime: candidate.departureTime,
+              durationMinutes: Math.round(getExpectedDurationSeconds(candidate) / 60),
+            }))
+          : undefined,
+        fastestDepartureTime: fastestDeparture?.departureTime,
         weatherForecast: {
           currentTemperatureCelsius: weatherForecast.currentTemperatureCelsius,
           currentConditions: weatherForecast.conditions,
           // Create a simple summary for the AI
           outlookSummary: weatherForecast.fiveDayOutlook
-            .map(day => `${new Date(day.date).toLocaleDateString(undefined, { weekday: 'short' })}: ${day.conditions}`)
+            // Dates are the location's local days (YYYY-MM-DD, parsed as UTC midnight); the server's locale and time zone mustn't shift them
+            .map(day => `${new Date(day.date).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' })}: ${day.conditions}`)
             .join(', ') || 'No outlook available.',
         },
+        routeWeather: desiredRouteWeather
+         .filter(sample => sample.forecast !== null) // Only pass points within the forecast range
+         .map(sample => ({
+            distanceKm: Math.round(sample.distanceFromStartMeters / 1000),
+            arrivalTime: sample.estimatedArrivalTime,
+            temperatureCelsius: sample.forecast!.temperatureCelsius,
+            conditions: sample.forecast!.conditions,
+            precipitationChancePercent: Math.round(sample.forecast!.precipitationProbability * 100),
+            windSpeedMps: Math.round(sample.forecast!.windSpeedMps),
+          })),
         attractions: nearbyAttractions
-         .filter(att => !input.waypoints?.includes(att.placeId || '')) // Filter out attractions already selected as waypoints
+         .filter(att => !stops.some(stop => stop.placeId && stop.placeId === att.placeId)) // Filter out attractions already selected as stops
          .slice(0, 5) // Limit attractions sent to AI
          .map(att => ({
             name: att.name,
             type: att.types?.[0]?.replace(/_/g, ' '), // Get primary type, make readable
             rating: att.rating,
+            detourMinutes: getDetourMinutes(att),
           })),
       };
 
       // 6. Call the AI prompt
       console.log("Calling AI prompt with:", promptInput);
-      const { output } = await generateTripPlanPrompt(promptInput);
+      const { output } = await generateTripPlanPrompt(promptInput).catch(error => {
+          throw toAiServiceError(error);
+      });
 
       if (!output?.suggestedDepartureTime || !output?.reasoning) {
-          throw new Error("AI failed to generate a valid suggestion or reasoning.");
+          throw new AiOutputError("AI failed to generate a valid suggestion or reasoning.", { provider: 'genkit', operation: 'trip-plan' });
       }
       console.log("AI output:", output);
 
+      // Use the AI's recommended alternative, falling back to the default route if the index is missing/out of range
+      const recommendedRouteIndex = input.alternatives
+        && output.recommendedRouteIndex !== undefined
+        && Number.isInteger(output.recommendedRouteIndex)
+        && output.recommendedRouteIndex >= 0
+        && output.recommendedRouteIndex < candidateRoutes.length
+          ? output.recommendedRouteIndex
+          : 0;
+      const recommendedRoute: Route = candidateRoutes[recommendedRouteIndex];
+
+      // The route weather points lie on the default route; sample the recommended one instead if it differs
+      let recommendedRouteWeatherPoints: RouteWeatherPoint[] = routeWeatherPoints;
+      if (recommendedRouteIndex !== 0) {
+        try {
+          recommendedRouteWeatherPoints = await getRouteWeatherForecasts(recommendedRoute);
+        } catch (weatherError) {
+          console.warn("Could not fetch weather along the recommended alternative; using the default route's samples.", weatherError);
+        }
+      }
+
+      // Schedule the stops for the departure time the AI actually suggested, on the recommended route
+      let itinerary: Itinerary = desiredItinerary;
+      try {
+        itinerary = buildItinerary(recommendedRoute, stops, output.suggestedDepartureTime, input.originAddress, input.destinationAddress);
+      } catch (itineraryError) {
+        console.warn("Could not build the itinerary for the suggested departure; using the desired departure instead.", itineraryError);
+      }
+
+      // Likewise re-time the route weather, following the same schedule
+      let routeWeather: RouteWeatherSample[] = desiredRouteWeather;
+      try {
+        routeWeather = buildRouteWeatherTimeline(recommendedRouteWeatherPoints, output.suggestedDepartureTime, itinerary);
+      } catch (timelineError) {
+        console.warn("Could not re-time route weather for the suggested departure; using the desired departure instead.", timelineError);
+      }
+      const openingHoursWarnings: OpeningHoursWarning[] = findOpeningHoursConflicts(itinerary, stopOpeningHours);
 
       // 7. Combine inputs, service results, and AI output into the final response
       return {
@@ -225,17 +738,31 @@ const generateTripPlanFlow = ai.defineFlow<
         destinationAddress: input.destinationAddress,
         suggestedDepartureTime: output.suggestedDepartureTime,
         reasoning: output.reasoning,
-        route, // Include the full route object (with path, bounds, waypoint order etc.)
+        route: recommendedRoute, // Include the full route object (with path, bounds, waypoint order etc.)
+        alternativeRoutes: input.alternatives ? candidateRoutes : undefined, // All candidates, for side-by-side comparison
+        recommendedRouteIndex: input.alternatives ? recommendedRouteIndex : undefined,
+        routeRanking: {
+          objective: routeRanking.objective,
+          rationale: routeRanking.rationale,
+          candidates: candidateMetrics,
+        },
+        departureCurve: departureCurve.length > 0 ? departureCurve : undefined, // Duration by departure time, for charting
         weatherForecast, // Include the full weather forecast
+        routeWeather, // Weather timeline along the route for the suggested departure
+        itinerary, // Arrival/departure times at each stop for the suggested departure
+        openingHoursWarnings: openingHoursWarnings.length > 0 ? openingHoursWarnings : undefined, // Stops closed during the planned visit
         nearbyAttractions, // Include the full attractions list (including those selected as waypoints, but filtered from AI prompt)
       };
     } catch (error) {
         console.error("Error in generateTripPlanFlow:", error);
-        // Re-throw the error to be caught by the calling component
+        // Re-throw the error to be caught by the calling component, keeping its code
+        if (error instanceof ServiceError) {
+            throw withErrorMessage(error, `Trip plan generation failed: ${error.message}`);
+        }
         if (error instanceof Error) {
-            throw new Error(`Trip plan generation failed: ${error.message}`);
+            throw new ServiceError('UNKNOWN', `Trip plan generation failed: ${error.message}`, { operation: 'trip-plan', cause: error });
         }
-        throw new Error("An unknown error occurred during trip plan generation.");
+        throw new ServiceError('UNKNOWN', "An unknown error occurred during trip plan generation.", { operation: 'trip-plan' });
     }
   }
 );
@@ -0,0 +1,8 @@
+/**
+ * @fileOverview Side-effect import that routes external service calls through the fixtures directory when FIXTURE_MODE is set.
+ * Import it before the flows: ES imports are evaluated in order, so the wrapper is installed before any flow module loads.
+ */
+
+import { installFixtureFetch } from '@/services/fixtures';
+
+installFixtureFetch();
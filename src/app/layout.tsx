@@ -6,6 +6,7 @@ import { Inter } from 'next/font/google';
 import './globals.css';
 import { APIProvider } from '@vis.gl/react-google-maps';
 import { Toaster } from "@/components/ui/toaster";
+import { AuthProvider } from '@/components/auth-provider';
 import { cn } from '@/lib/utils'; // Import cn for class merging
 
 const inter = Inter({ subsets: ['latin'], variable: '--font-inter' });
@@ -44,10 +45,14 @@ export default function RootLayout({
               <code>NEXT_PUBLIC_GOOGLE_MAPS_API_KEY=YOUR_CLIENT_SIDE_MAPS_KEY</code>{'\n'}
               <code># Server-side key for services (Geocoding, Directions, Places - required by backend/server actions)</code>{'\n'}
               <code>GOOGLE_MAPS_API_KEY=YOUR_SERVER_SIDE_MAPS_KEY</code>{'\n'}
-              <code># Optional: Add OpenWeatherMap API key if needed for weather features</code>{'\n'}
-              <code># OPENWEATHERMAP_API_KEY=YOUR_OPENWEATHERMAP_KEY</code>{'\n'}
+              <code># Server-side key for weather (current conditions + 5-day forecast)</code>{'\n'}
+              <code>OPENWEATHERMAP_API_KEY=YOUR_OPENWEATHERMAP_KEY</code>{'\n'}
               <code># Optional: Add Google Generative AI API key if needed for AI features</code>{'\n'}
-              <code># GOOGLE_GENAI_API_KEY=YOUR_GEMINI_API_KEY</code>
+              <code># GOOGLE_GENAI_API_KEY=YOUR_GEMINI_API_KEY</code>{'\n'}
+              <code># Optional: Firebase web config for sign-in and syncing saved trips via Firestore (otherwise the app runs as one local user)</code>{'\n'}
+              <code># NEXT_PUBLIC_FIREBASE_API_KEY=... NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN=... NEXT_PUBLIC_FIREBASE_PROJECT_ID=... NEXT_PUBLIC_FIREBASE_APP_ID=...</code>{'\n'}
+              <code># Optional: Use the Firebase Emulator Suite (npm run emulators) instead of production</code>{'\n'}
+              <code># NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099 NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST=127.0.0.1:8080</code>
             </pre>
              <p className="text-muted-foreground mt-3">Replace <code className="bg-muted px-1 py-0.5 rounded text-sm font-mono">YOUR_CLIENT_SIDE_MAPS_KEY</code> and <code className="bg-muted px-1 py-0.5 rounded text-sm font-mono">YOUR_SERVER_SIDE_MAPS_KEY</code> with your actual keys. <strong className="text-foreground">For testing, you can often use the same key for both.</strong></p>
             <p className="text-muted-foreground mt-2">After adding the keys to <code className="bg-muted px-1 py-0.5 rounded text-sm font-mono">.env.local</code>, <strong className="text-foreground">you MUST restart the development server</strong> (stop the `npm run dev` process and start it again).</p>
@@ -105,8 +110,11 @@ export default function RootLayout({
              // often manifests as console errors directly from the Google Maps library itself.
              // The UI might show an error overlay *from Google Maps*. Check the browser console!
          >
-            {children}
-            <Toaster />
+            {/* Firebase Auth session for the whole app (a no-op when Firebase isn't configured) */}
+            <AuthProvider>
+              {children}
+              <Toaster />
+            </AuthProvider>
           </APIProvider>
       </body>
     </html>
@@ -1,11 +1,21 @@
 
 "use client"; // Ensure this page is a Client Component
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { MapComponent } from '@/components/map-component';
 import { WeatherDisplay } from '@/components/weather-display';
 import { TripPlanner } from '@/components/trip-planner';
 import { NavigationControls } from '@/components/navigation-controls'; // Import NavigationControls
+import { NavigationGuidance } from '@/components/navigation-guidance';
+import { TripHistory } from '@/components/trip-history';
+import { UserMenu } from '@/components/user-menu';
+import { useNavigation } from '@/hooks/use-navigation';
+import { useRerouting } from '@/hooks/use-rerouting';
+import { navigationStore, getNavigationSession } from '@/hooks/use-navigation-store';
+import { computeJourneyProgress } from '@/lib/journey-progress';
+import type { Coordinate, Route, RouteRestriction } from '@/services/google-maps';
+import type { SavedTrip } from '@/services/trip-repository';
+import { Loader2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import type { GenerateTripPlanOutput } from '@/ai/flows/generate-trip-plan'; // Import the type
 
@@ -15,31 +25,109 @@ export default function Home() {
 
   // State to hold the generated trip plan
   const [tripPlan, setTripPlan] = useState<GenerateTripPlanOutput | null>(null);
+  // Saved trip most recently reopened from the history sidebar
+  const [restoredTrip, setRestoredTrip] = useState<SavedTrip | null>(null);
   // State to track if navigation is active
   const [isNavigating, setIsNavigating] = useState<boolean>(false);
+  // While set, the next map click adds a stop in the trip planner
+  const [stopPickHandler, setStopPickHandler] = useState<((location: Coordinate) => void) | null>(null);
+  // Road features to avoid, kept here so rerouting respects them too
+  const [avoid, setAvoid] = useState<RouteRestriction[]>([]);
+  // Areas the route must avoid, and the outline being drawn (null when not drawing)
+  const [avoidAreas, setAvoidAreas] = useState<Coordinate[][]>([]);
+  const [draftAvoidArea, setDraftAvoidArea] = useState<Coordinate[] | null>(null);
+  // Live position reported by the map while navigating
+  const [currentLocation, setCurrentLocation] = useState<Coordinate | null>(null);
+  // Turn-by-turn guidance for the current route
+  const navigation = useNavigation(tripPlan?.route, currentLocation, isNavigating);
+
+  // Swap in a recomputed route mid-journey without resetting the navigation session
+  const handleRerouted = (route: Route) => {
+    console.log("Rerouted from current position.");
+    navigationStore.routeReplaced(); // Keep the distance covered so far in the journey totals
+    setTripPlan(previous => previous ? { ...previous, route, alternativeRoutes: undefined } : previous);
+  };
+
+  // Off-route detection and automatic rerouting
+  const rerouting = useRerouting({
+    route: tripPlan?.route,
+    position: currentLocation,
+    isNavigating,
+    currentLegIndex: navigation.plan && navigation.state ? navigation.plan.steps[navigation.state.stepIndex].legIndex : 0,
+    onRerouted: handleRerouted,
+    avoid,
+    avoidAreas,
+  });
+
+  // Feed live progress (ETA, distance remaining, etc.) into the navigation store on every position update
+  useEffect(() => {
+    const session = getNavigationSession();
+    if (!session || !navigation.plan || !navigation.state) return;
+    navigationStore.updateProgress(
+      computeJourneyProgress(navigation.plan, navigation.state, session.startedAt, Date.now(), session.offset)
+    );
+  }, [navigation.plan, navigation.state]);
 
   const handlePlanGenerated = (plan: GenerateTripPlanOutput | null) => {
     setTripPlan(plan);
     setIsNavigating(false); // Reset navigation when a new plan is generated or cleared
+    navigationStore.stopSession();
+  };
+
+  // Put a saved trip back on the map (TripPlanner shows it via `restoredTrip`)
+  const handleTripRestored = (trip: SavedTrip) => {
+    setRestoredTrip(trip);
+    handlePlanGenerated(trip.plan);
+  };
+
+  // One click adds one stop; picking then ends
+  const handleStopPicked = (location: Coordinate) => {
+    stopPickHandler?.(location);
+    setStopPickHandler(null);
+  };
+
+  // Drawing an area takes over map clicks until it is finished or cancelled
+  const handleDrawAvoidArea = (action: 'start' | 'finish' | 'cancel') => {
+    if (action === 'start') {
+      setStopPickHandler(null);
+      setDraftAvoidArea([]);
+      return;
+    }
+    if (action === 'finish' && draftAvoidArea && draftAvoidArea.length >= 3) {
+      setAvoidAreas(previous => [...previous, draftAvoidArea]);
+    }
+    setDraftAvoidArea(null);
+  };
+
+  const handleAvoidCornerAdded = (location: Coordinate) => {
+    setDraftAvoidArea(previous => (previous ? [...previous, location] : previous));
   };
 
   const handleStartNavigation = () => {
     if (tripPlan) {
         console.log("Starting navigation...");
         setIsNavigating(true);
+        navigationStore.startSession();
     }
   };
 
   const handleStopNavigation = () => {
      console.log("Stopping navigation...");
      setIsNavigating(false);
+     navigationStore.stopSession();
   };
 
 
   return (
     <div className="flex flex-col h-screen bg-secondary">
       <header className="bg-primary text-primary-foreground p-4 shadow-md z-10">
-        <h1 className="text-2xl font-bold">UrbanFlow Navigator</h1>
+        <div className="flex items-center">
+          <h1 className="text-2xl font-bold">UrbanFlow Navigator</h1>
+          <div className="ml-auto flex items-center gap-3">
+            <TripHistory onRestore={handleTripRestored} />
+            <UserMenu />
+          </div>
+        </div>
       </header>
 
       <div className="flex flex-1 overflow-hidden p-4 gap-4 relative"> {/* Added relative positioning */}
@@ -62,7 +150,21 @@ export default function Home() {
              </CardHeader>
              <CardContent>
               {/* Pass handlePlanGenerated function to TripPlanner */}
-              <TripPlanner onPlanGenerated={handlePlanGenerated} />
+              <TripPlanner
+                onPlanGenerated={handlePlanGenerated}
+                restoredTrip={restoredTrip}
+                pickingStopOnMap={stopPickHandler !== null}
+                onPickStopOnMap={onPicked => {
+                  setDraftAvoidArea(null); // One map-click mode at a time
+                  setStopPickHandler(() => onPicked); // Wrapped so React stores the callback instead of calling it
+                }}
+                avoid={avoid}
+                onAvoidChange={setAvoid}
+                avoidAreas={avoidAreas}
+                onAvoidAreasChange={setAvoidAreas}
+                drawingAvoidArea={draftAvoidArea}
+                onDrawAvoidArea={handleDrawAvoidArea}
+              />
              </CardContent>
            </Card>
         </div>
@@ -73,10 +175,32 @@ export default function Home() {
           <MapComponent
             initialCenter={tripPlan?.route?.path[0] || defaultLocation} // Center on origin if plan exists
             route={tripPlan?.route} // Pass the entire route object
+            alternativeRoutes={tripPlan?.alternativeRoutes} // Pass other candidate routes (drawn dimmed)
             attractions={tripPlan?.nearbyAttractions} // Pass attractions
+            routeWeather={tripPlan?.routeWeather} // Pass weather sampled along the route
             isNavigating={isNavigating} // Pass navigation status
+            onLocationChange={setCurrentLocation} // Receive live positions for turn-by-turn guidance
+            onMapClick={isNavigating ? undefined : draftAvoidArea ? handleAvoidCornerAdded : stopPickHandler ? handleStopPicked : undefined} // Add an avoid-area corner or a stop where the user clicks
+            avoidAreas={avoidAreas} // Areas the route must not pass through
+            draftAvoidArea={draftAvoidArea} // The area being drawn
             key={tripPlan?.suggestedDepartureTime || 'map'} // Re-render map when plan changes significantly
           />
+           {/* Turn-by-turn guidance banner positioned over the map */}
+           {isNavigating && navigation.plan && navigation.state && (
+               <div className="absolute top-4 left-4 z-10">
+                   <NavigationGuidance plan={navigation.plan} state={navigation.state} />
+               </div>
+           )}
+           {/* Off-route / rerouting status */}
+           {isNavigating && (rerouting.isRerouting || rerouting.deviation.isOffRoute || rerouting.error) && (
+               <div className="absolute bottom-4 left-4 z-10 flex items-center gap-2 bg-background/95 border border-border rounded-md shadow-lg px-3 py-2 text-xs font-medium">
+                   {rerouting.isRerouting || (rerouting.deviation.isOffRoute && !rerouting.error) ? (
+                       <><Loader2 className="w-4 h-4 animate-spin text-primary" /> Off route — recalculating…</>
+                   ) : (
+                       <span className="text-destructive">Rerouting failed: {rerouting.error}</span>
+                   )}
+               </div>
+           )}
            {/* Navigation Controls positioned over the map */}
            <div className="absolute bottom-4 right-4 z-10">
                <NavigationControls
@@ -0,0 +1,99 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState, type FC, type ReactNode } from 'react';
+import {
+  createUserWithEmailAndPassword,
+  GoogleAuthProvider,
+  onIdTokenChanged,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  signOut as firebaseSignOut,
+  updateProfile,
+  type User,
+} from 'firebase/auth';
+import { AUTH_SESSION_COOKIE, getFirebaseAuth, isFirebaseConfigured } from '@/lib/firebase';
+
+interface AuthContextValue {
+  /**
+   * The signed-in user, or null when signed out.
+   */
+  user: User | null;
+  /**
+   * True until Firebase has restored (or ruled out) a previous session.
+   */
+  loading: boolean;
+  /**
+   * Whether sign-in is available. Without a Firebase project the app runs as a single local user.
+   */
+  authEnabled: boolean;
+  signInWithEmail: (email: string, password: string) => Promise<void>;
+  signUpWithEmail: (email: string, password: string, displayName?: string) => Promise<void>;
+  signInWithGoogle: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+/**
+ * Mirrors the current ID token into the session cookie read by server actions (see `@/services/auth`).
+ * ID tokens last an hour and `onIdTokenChanged` fires on every refresh, so the cookie's lifetime matches.
+ */
+function writeSessionCookie(idToken: string | null) {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = idToken
+    ? `${AUTH_SESSION_COOKIE}=${idToken}; Path=/; Max-Age=3600; SameSite=Strict${secure}`
+    : `${AUTH_SESSION_COOKIE}=; Path=/; Max-Age=0; SameSite=Strict${secure}`;
+}
+
+/**
+ * Provides the Firebase Auth session to the app and keeps the server session cookie in sync.
+ */
+export const AuthProvider: FC<{ children: ReactNode }> = ({ children }) => {
+  const authEnabled = isFirebaseConfigured();
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState<boolean>(authEnabled);
+
+  useEffect(() => {
+    if (!authEnabled) return;
+    return onIdTokenChanged(getFirebaseAuth(), async (nextUser) => {
+      writeSessionCookie(nextUser ? await nextUser.getIdToken() : null);
+      setUser(nextUser);
+      setLoading(false);
+    });
+  }, [authEnabled]);
+
+  const value: AuthContextValue = {
+    user,
+    loading,
+    authEnabled,
+    signInWithEmail: async (email, password) => {
+      await signInWithEmailAndPassword(getFirebaseAuth(), email, password);
+    },
+    signUpWithEmail: async (email, password, displayName) => {
+      const credential = await createUserWithEmailAndPassword(getFirebaseAuth(), email, password);
+      if (displayName) {
+        await updateProfile(credential.user, { displayName });
+      }
+    },
+    signInWithGoogle: async () => {
+      await signInWithPopup(getFirebaseAuth(), new GoogleAuthProvider());
+    },
+    signOut: async () => {
+      await firebaseSignOut(getFirebaseAuth());
+    },
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+/**
+ * Returns the current auth session and sign-in/out actions.
+ * @throws {Error} If used outside `AuthProvider`.
+ */
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider.');
+  }
+  return context;
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import type { FC } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import type { GenerateTripPlanOutput } from '@/ai/flows/generate-trip-plan';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+
+type DepartureCurve = NonNullable<GenerateTripPlanOutput['departureCurve']>;
+
+interface DepartureChartProps {
+  curve: DepartureCurve;
+  suggestedDepartureTime: string; // Marked on the chart
+}
+
+const chartConfig = {
+  inTraffic: { label: 'In traffic', color: 'hsl(var(--primary))' },
+  typical: { label: 'No traffic', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+/**
+ * Line chart of the trip duration (in minutes) for each scanned departure time, with the suggested departure marked.
+ */
+export const DepartureChart: FC<DepartureChartProps> = ({ curve, suggestedDepartureTime }) => {
+  const hasTraffic = curve.some(candidate => candidate.durationInTrafficSeconds !== undefined);
+  const data = curve.map(candidate => ({
+    label: format(parseISO(candidate.departureTime), 'HH:mm'),
+    time: parseISO(candidate.departureTime).getTime(),
+    inTraffic: candidate.durationInTrafficSeconds !== undefined ? Math.round(candidate.durationInTrafficSeconds / 60) : undefined,
+    typical: Math.round(candidate.durationSeconds / 60),
+  }));
+
+  // The suggested time may fall between scanned departures; mark the closest one
+  const suggested = parseISO(suggestedDepartureTime).getTime();
+  const suggestedPoint = data.reduce<(typeof data)[number] | null>(
+    (closest, point) => (!closest || Math.abs(point.time - suggested) < Math.abs(closest.time - suggested) ? point : closest),
+    null
+  );
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+      <LineChart data={data} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" minTickGap={24} />
+        <YAxis tickLine={false} axisLine={false} width={48} unit=" min" domain={['dataMin - 5', 'dataMax + 5']} allowDecimals={false} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => `Leave at ${label}`} />} />
+        {hasTraffic && <Line dataKey="inTraffic" type="monotone" stroke="var(--color-inTraffic)" strokeWidth={2} dot={false} />}
+        <Line
+          dataKey="typical"
+          type="monotone"
+          stroke={hasTraffic ? 'var(--color-typical)' : 'var(--color-inTraffic)'}
+          strokeWidth={hasTraffic ? 1 : 2}
+          strokeDasharray={hasTraffic ? '4 4' : undefined}
+          dot={false}
+        />
+        {suggestedPoint && (
+          <ReferenceLine x={suggestedPoint.label} stroke="hsl(var(--accent))" strokeWidth={2} label={{ value: 'Suggested', position: 'insideTopRight', fontSize: 10 }} />
+        )}
+      </LineChart>
+    </ChartContainer>
+  );
+};
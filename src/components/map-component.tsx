@@ -4,30 +4,50 @@
 import type { FC } from 'react';
 import { Map, AdvancedMarker, Pin, useMap, InfoWindow } from '@vis.gl/react-google-maps';
 import type { Coordinate, Route, Attraction } from '@/services/google-maps';
+import type { RouteWeatherSample } from '@/services/route-weather';
+import { WeatherIcon } from '@/components/weather-display';
+import { format } from 'date-fns';
 import { useEffect, useState, useRef } from 'react';
 import { Landmark, Star, LocateFixed, Navigation, MapPin as WaypointIcon, MapPin } from 'lucide-react'; // Added LocateFixed, Navigation, WaypointIcon, MapPin
 
 interface MapComponentProps {
   initialCenter: Coordinate;
   route?: Route | null; // Optional: To display the route
+  alternativeRoutes?: Route[] | null; // Optional: Other candidate routes, drawn dimmed behind the selected one
   attractions?: Attraction[] | null; // Optional: To display attractions
+  routeWeather?: RouteWeatherSample[] | null; // Optional: Weather timeline sampled along the route
   zoom?: number;
   isNavigating: boolean; // To track navigation status
+  onLocationChange?: (location: Coordinate | null) => void; // Optional: Receives live positions while navigating
+  onMapClick?: (location: Coordinate) => void; // Optional: Receives clicked points (e.g., to add a stop); shows a crosshair cursor while set
+  avoidAreas?: Coordinate[][] | null; // Optional: Areas the route must not pass through, drawn in red
+  draftAvoidArea?: Coordinate[] | null; // Optional: The avoid area being drawn, with its corners marked
 }
 
 export const MapComponent: FC<MapComponentProps> = ({
   initialCenter,
   route,
+  alternativeRoutes,
   attractions,
+  routeWeather,
   zoom = 12,
   isNavigating,
+  onLocationChange,
+  onMapClick,
+  avoidAreas,
+  draftAvoidArea,
 }) => {
   const map = useMap();
   const [selectedAttraction, setSelectedAttraction] = useState<Attraction | null>(null);
   const polylineRef = useRef<google.maps.Polyline | null>(null); // Ref to hold the polyline instance
+  const alternativePolylinesRef = useRef<google.maps.Polyline[]>([]); // Refs to the dimmed alternative route polylines
+  const avoidPolygonsRef = useRef<google.maps.Polygon[]>([]); // Refs to the avoid area polygons (including the draft)
   const [currentLocation, setCurrentLocation] = useState<Coordinate | null>(null);
   const [geolocationError, setGeolocationError] = useState<string | null>(null);
   const watchIdRef = useRef<number | null>(null); // Ref to store watchPosition ID
+  // Keep the latest callback in a ref so the geolocation watch doesn't restart when the parent re-renders
+  const onLocationChangeRef = useRef(onLocationChange);
+  onLocationChangeRef.current = onLocationChange;
 
   // --- Helper to identify which attractions are waypoints based on route.waypointsOrder ---
   const getWaypointAttractions = (route: Route | null | undefined, attractions: Attraction[] | null | undefined): Attraction[] => {
@@ -87,6 +107,7 @@ export const MapComponent: FC<MapComponentProps> = ({
           };
           console.log("[MapComponent] New location received:", newLocation);
           setCurrentLocation(newLocation);
+          onLocationChangeRef.current?.(newLocation); // Feed the navigation engine
           // Pan map to current location smoothly
           map.panTo(newLocation);
           if (map.getZoom() < 15) { // Zoom in if map is too zoomed out
@@ -110,6 +131,7 @@ export const MapComponent: FC<MapComponentProps> = ({
                      break;
             }
           setCurrentLocation(null); // Clear location on error
+          onLocationChangeRef.current?.(null);
            // Stop watching if permission denied or unavailable
            if (watchIdRef.current && (error.code === error.PERMISSION_DENIED || error.code === error.POSITION_UNAVAILABLE)) {
                 navigator.geolocation.clearWatch(watchIdRef.current);
@@ -130,6 +152,7 @@ export const MapComponent: FC<MapComponentProps> = ({
           navigator.geolocation.clearWatch(watchIdRef.current);
           watchIdRef.current = null;
           setCurrentLocation(null); // Clear location when stopping navigation
+          onLocationChangeRef.current?.(null);
         }
       };
     } else {
@@ -144,6 +167,62 @@ export const MapComponent: FC<MapComponentProps> = ({
     }
   }, [isNavigating, map]); // Rerun effect when isNavigating or map instance changes
 
+  // Effect to draw the non-selected alternative routes as dimmed polylines
+  useEffect(() => {
+    if (!map) return;
+
+    // Only show alternatives while planning; during navigation the selected route is all that matters
+    if (!isNavigating && alternativeRoutes && alternativeRoutes.length > 1) {
+      alternativeRoutes
+        .filter(alternative => !isSameRoute(alternative, route))
+        .forEach(alternative => {
+          if (!alternative.path || alternative.path.length === 0) return;
+          const alternativePolyline = new google.maps.Polyline({
+            path: alternative.path,
+            strokeColor: 'hsl(var(--muted-foreground))',
+            strokeOpacity: 0.4,
+            strokeWeight: 5,
+            geodesic: true,
+            zIndex: 0, // Below the selected route
+          });
+          alternativePolyline.setMap(map);
+          alternativePolylinesRef.current.push(alternativePolyline);
+        });
+      console.log(`[MapComponent] Drew ${alternativePolylinesRef.current.length} alternative route polylines.`);
+    }
+
+    return () => {
+      alternativePolylinesRef.current.forEach(polyline => polyline.setMap(null));
+      alternativePolylinesRef.current = [];
+    };
+  }, [map, route, alternativeRoutes, isNavigating]);
+
+  // Effect to draw the avoid areas, plus the outline of the one being drawn
+  useEffect(() => {
+    if (!map) return;
+
+    const areas = [...(avoidAreas || []).map(path => ({ path, draft: false })), ...(draftAvoidArea && draftAvoidArea.length > 1 ? [{ path: draftAvoidArea, draft: true }] : [])];
+    areas.forEach(({ path, draft }) => {
+      const polygon = new google.maps.Polygon({
+        paths: path,
+        strokeColor: 'hsl(var(--destructive))',
+        strokeOpacity: draft ? 0.6 : 0.9,
+        strokeWeight: 2,
+        fillColor: 'hsl(var(--destructive))',
+        fillOpacity: draft ? 0.08 : 0.15,
+        clickable: false, // Let clicks through to the map so more corners (or stops) can be added inside
+        zIndex: 2, // Above the route polylines, so it's obvious where they cross
+      });
+      polygon.setMap(map);
+      avoidPolygonsRef.current.push(polygon);
+    });
+
+    return () => {
+      avoidPolygonsRef.current.forEach(polygon => polygon.setMap(null));
+      avoidPolygonsRef.current = [];
+    };
+  }, [map, avoidAreas, draftAvoidArea]);
+
   // Effect to draw/update the route Polyline and adjust map bounds
   useEffect(() => {
     if (!map) return;
@@ -258,6 +337,11 @@ export const MapComponent: FC<MapComponentProps> = ({
   }, [map, route, isNavigating, initialCenter, zoom]); // Added initialCenter and zoom
 
 
+   // Identifies the selected route among the alternatives (objects may be copies after serialization)
+   function isSameRoute(a: Route, b: Route | null | undefined): boolean {
+       return !!b && a.distanceMeters === b.distanceMeters && a.durationSeconds === b.durationSeconds && a.summary === b.summary;
+   }
+
    // Coordinate validation helper
    const isValidCoordinate = (coord: Coordinate | undefined | null): coord is Coordinate => {
        return coord != null && typeof coord.lat === 'number' && typeof coord.lng === 'number' && !isNaN(coord.lat) && !isNaN(coord.lng);
@@ -294,6 +378,12 @@ export const MapComponent: FC<MapComponentProps> = ({
         gestureHandling={'greedy'}
         disableDefaultUI={true}
         style={{ borderRadius: 'inherit' }}
+        draggableCursor={onMapClick ? 'crosshair' : undefined}
+        onClick={event => {
+            if (onMapClick && event.detail.latLng) {
+                onMapClick(event.detail.latLng);
+            }
+        }}
         // Optional: Add map options like min/max zoom
         // minZoom={3}
         // maxZoom={20}
@@ -348,6 +438,31 @@ export const MapComponent: FC<MapComponentProps> = ({
          ))}
 
 
+        {/* Corners of the avoid area being drawn */}
+        {draftAvoidArea?.map((corner, index) => (
+            <AdvancedMarker key={`avoid-corner-${index}`} position={corner} title={`Corner ${index + 1}`} zIndex={8}>
+                <div className="w-2.5 h-2.5 rounded-full bg-destructive border-2 border-white shadow" />
+            </AdvancedMarker>
+        ))}
+
+        {/* Weather chips along the route (forecast for when each point is reached) */}
+        {!isNavigating && routeWeather?.map((sample, index) => (
+            sample.forecast && isValidCoordinate(sample.location) && (
+                <AdvancedMarker
+                    key={`route-weather-${index}`}
+                    position={sample.location}
+                    title={`${sample.forecast.conditions}, ${sample.forecast.temperatureCelsius}°C around ${format(new Date(sample.estimatedArrivalTime), 'MMM d, HH:mm')} (${Math.round(sample.forecast.precipitationProbability * 100)}% chance of precipitation)`}
+                    zIndex={4} // Above attractions, below origin/destination
+                >
+                    {/* Shifted right so it doesn't cover the route line or origin/destination pins */}
+                    <div className="flex items-center gap-1 rounded-full bg-background/90 border border-border px-1.5 py-0.5 shadow-md text-xs font-semibold translate-x-1/2">
+                        <WeatherIcon conditions={sample.forecast.conditions} />
+                        <span>{sample.forecast.temperatureCelsius}°C</span>
+                    </div>
+                </AdvancedMarker>
+            )
+        ))}
+
         {/* Display Markers for other attractions (not waypoints) */}
         {attractions?.filter(att => !waypoints.some(wp => wp.placeId === att.placeId)) // Exclude waypoints
             .map((attraction, index) => (
@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GenerateTripPlanOutput } from '@/ai/flows/generate-trip-plan';
+import { navigationStore } from '@/hooks/use-navigation-store';
+import type { JourneyProgress } from '@/lib/journey-progress';
+import { NavigationControls } from '@/components/navigation-controls';
+
+// The controls only check that a plan exists
+const tripPlan = {route: {path: []}} as unknown as GenerateTripPlanOutput;
+
+const progress: JourneyProgress = {
+  distanceTravelledMeters: 4000,
+  distanceRemainingMeters: 6000,
+  percentComplete: 40,
+  elapsedSeconds: 300,
+  remainingSeconds: 480,
+  eta: '2026-01-01T10:08:00.000Z',
+  paceFactor: 1.5,
+  expectedElapsedOnRouteSeconds: 200,
+  distanceTravelledOnRouteMeters: 4000,
+};
+
+describe('NavigationControls', () => {
+  afterEach(() => {
+    act(() => navigationStore.stopSession());
+  });
+
+  it('shows nothing without a plan', () => {
+    const {container} = render(<NavigationControls tripPlan={null} isNavigating={false} onStart={vi.fn()} onStop={vi.fn()} />);
+
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+    expect(container).toHaveTextContent('');
+  });
+
+  it('offers to start a planned journey', () => {
+    const onStart = vi.fn();
+    render(<NavigationControls tripPlan={tripPlan} isNavigating={false} onStart={onStart} onStop={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', {name: 'Start Journey'}));
+
+    expect(onStart).toHaveBeenCalledTimes(1);
+    expect(screen.queryByRole('button', {name: 'Exit Journey'})).not.toBeInTheDocument();
+  });
+
+  it('swaps to the exit button and live progress once navigating', () => {
+    const onStop = vi.fn();
+    const {rerender} = render(<NavigationControls tripPlan={tripPlan} isNavigating={false} onStart={vi.fn()} onStop={onStop} />);
+
+    act(() => navigationStore.startSession());
+    rerender(<NavigationControls tripPlan={tripPlan} isNavigating onStart={vi.fn()} onStop={onStop} />);
+
+    expect(screen.queryByRole('button', {name: 'Start Journey'})).not.toBeInTheDocument();
+    expect(screen.getByText('Waiting for your location…')).toBeInTheDocument();
+
+    act(() => navigationStore.updateProgress(progress));
+    expect(screen.getByText('40% complete')).toBeInTheDocument();
+    expect(screen.getByText('Behind estimate')).toBeInTheDocument();
+    expect(screen.queryByText('Waiting for your location…')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', {name: 'Exit Journey'}));
+    expect(onStop).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows no progress panel while navigating without a session', () => {
+    render(<NavigationControls tripPlan={tripPlan} isNavigating onStart={vi.fn()} onStop={vi.fn()} />);
+
+    expect(screen.getByRole('button', {name: 'Exit Journey'})).toBeInTheDocument();
+    expect(screen.queryByText(/Elapsed/)).not.toBeInTheDocument();
+  });
+
+  it('returns to the start button when navigation stops', () => {
+    act(() => navigationStore.startSession());
+    const {rerender} = render(<NavigationControls tripPlan={tripPlan} isNavigating onStart={vi.fn()} onStop={vi.fn()} />);
+
+    act(() => navigationStore.stopSession());
+    rerender(<NavigationControls tripPlan={tripPlan} isNavigating={false} onStart={vi.fn()} onStop={vi.fn()} />);
+
+    expect(screen.getByRole('button', {name: 'Start Journey'})).toBeInTheDocument();
+    expect(screen.queryByRole('button', {name: 'Exit Journey'})).not.toBeInTheDocument();
+    expect(screen.queryByText(/Elapsed/)).not.toBeInTheDocument();
+  });
+});
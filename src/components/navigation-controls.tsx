@@ -4,6 +4,7 @@
 import type { FC } from 'react';
 import type { GenerateTripPlanOutput } from '@/ai/flows/generate-trip-plan';
 import { Button } from '@/components/ui/button';
+import { NavigationProgress } from '@/components/navigation-progress';
 import { Play, XCircle, Navigation } from 'lucide-react';
 
 interface NavigationControlsProps {
@@ -20,7 +21,9 @@ export const NavigationControls: FC<NavigationControlsProps> = ({
   onStop,
 }) => {
   return (
-    <div className="flex flex-col gap-2">
+    <div className="flex flex-col gap-2 items-end">
+      {/* Live ETA and progress while a journey is active */}
+      {isNavigating && <NavigationProgress />}
       {tripPlan && !isNavigating && (
         <Button
           onClick={onStart}
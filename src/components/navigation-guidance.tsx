@@ -0,0 +1,89 @@
+"use client";
+
+import type { FC } from 'react';
+import type { NavigationPlan, NavigationState } from '@/lib/navigation-engine';
+import { getInstructionText } from '@/lib/navigation-engine';
+import { formatDistance } from '@/lib/format';
+import {
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  CornerUpLeft,
+  CornerUpRight,
+  CornerDownLeft,
+  CornerDownRight,
+  GitMerge,
+  Split,
+  RotateCcw,
+  RotateCw,
+  Ship,
+  Flag,
+  type LucideIcon,
+} from 'lucide-react';
+
+interface NavigationGuidanceProps {
+  plan: NavigationPlan;
+  state: NavigationState;
+}
+
+// Icons for Google Directions maneuver types
+const MANEUVER_ICONS: Record<string, LucideIcon> = {
+  'turn-left': CornerUpLeft,
+  'turn-right': CornerUpRight,
+  'turn-slight-left': ArrowUpLeft,
+  'turn-slight-right': ArrowUpRight,
+  'turn-sharp-left': CornerDownLeft,
+  'turn-sharp-right': CornerDownRight,
+  'uturn-left': RotateCcw,
+  'uturn-right': RotateCw,
+  'ramp-left': ArrowUpLeft,
+  'ramp-right': ArrowUpRight,
+  'fork-left': Split,
+  'fork-right': Split,
+  'keep-left': ArrowUpLeft,
+  'keep-right': ArrowUpRight,
+  'merge': GitMerge,
+  'roundabout-left': RotateCcw,
+  'roundabout-right': RotateCw,
+  'ferry': Ship,
+  'ferry-train': Ship,
+  'straight': ArrowUp,
+};
+
+/**
+ * Banner showing the next maneuver and the distance to it while navigating.
+ */
+export const NavigationGuidance: FC<NavigationGuidanceProps> = ({ plan, state }) => {
+  if (state.arrived) {
+    return (
+      <div className="flex items-center gap-3 bg-primary text-primary-foreground rounded-lg shadow-lg p-3">
+        <Flag className="w-8 h-8 flex-shrink-0" />
+        <p className="text-base font-semibold">You have arrived at your destination.</p>
+      </div>
+    );
+  }
+
+  // The upcoming maneuver is the start of the next step; on the last step it's the destination itself
+  const nextStep = plan.steps[state.stepIndex + 1];
+  const currentStep = plan.steps[state.stepIndex];
+  const ManeuverIcon = nextStep ? (nextStep.maneuver && MANEUVER_ICONS[nextStep.maneuver]) || ArrowUp : Flag;
+  const followingStep = plan.steps[state.stepIndex + 2];
+
+  return (
+    <div className="bg-primary text-primary-foreground rounded-lg shadow-lg p-3 max-w-sm" aria-live="polite">
+      <div className="flex items-center gap-3">
+        <ManeuverIcon className="w-8 h-8 flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="text-2xl font-bold leading-tight">{formatDistance(state.distanceToManeuverMeters)}</p>
+          <p className="text-sm leading-snug">{nextStep ? getInstructionText(nextStep) : 'Arrive at your destination'}</p>
+        </div>
+      </div>
+      {state.snappedPosition === null && (
+        <p className="text-xs mt-2 opacity-80">{getInstructionText(currentStep)}</p>
+      )}
+      {followingStep && (
+        <p className="text-xs mt-2 opacity-80 truncate">Then: {getInstructionText(followingStep)}</p>
+      )}
+    </div>
+  );
+};
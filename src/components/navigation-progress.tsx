@@ -0,0 +1,64 @@
+"use client";
+
+import { useEffect, useState, type FC } from 'react';
+import { format } from 'date-fns';
+import { useNavigationStore } from '@/hooks/use-navigation-store';
+import { formatDistance, formatDuration } from '@/lib/format';
+import { Progress } from '@/components/ui/progress';
+import { Clock, Flag, Timer, TrendingDown, TrendingUp } from 'lucide-react';
+
+// Only call out a pace difference once it's noticeable
+const PACE_TOLERANCE = 0.1;
+
+/**
+ * Panel with the live ETA, distance remaining, percent completed and time elapsed for the active navigation session.
+ * Reads from the navigation store, so it renders nothing when no session is active.
+ */
+export const NavigationProgress: FC = () => {
+  const { session } = useNavigationStore();
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  // Tick the elapsed time between position fixes
+  useEffect(() => {
+    if (!session) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [session]);
+
+  if (!session) return null;
+
+  const { progress } = session;
+  const elapsedSeconds = Math.max(0, (now - session.startedAt) / 1000);
+
+  return (
+    <div className="bg-background/95 border border-border rounded-lg shadow-lg p-3 w-64 text-sm space-y-2" aria-live="polite">
+      {progress ? (
+        <>
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="flex items-center gap-1 text-muted-foreground"><Flag className="w-4 h-4" /> ETA</span>
+            <span className="text-lg font-bold">{format(new Date(progress.eta), 'HH:mm')}</span>
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{formatDistance(progress.distanceRemainingMeters)} left</span>
+            <span>{formatDuration(progress.remainingSeconds)} left</span>
+          </div>
+          <Progress value={progress.percentComplete} aria-label="Journey progress" />
+          <div className="flex justify-between text-xs">
+            <span>{Math.round(progress.percentComplete)}% complete</span>
+            {progress.paceFactor > 1 + PACE_TOLERANCE && (
+              <span className="flex items-center gap-1 text-destructive"><TrendingDown className="w-3 h-3" /> Behind estimate</span>
+            )}
+            {progress.paceFactor < 1 - PACE_TOLERANCE && (
+              <span className="flex items-center gap-1 text-primary"><TrendingUp className="w-3 h-3" /> Ahead of estimate</span>
+            )}
+          </div>
+        </>
+      ) : (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground"><Clock className="w-4 h-4" /> Waiting for your location…</p>
+      )}
+      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Timer className="w-3 h-3" /> Elapsed: {formatDuration(elapsedSeconds)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState, type FC, type KeyboardEvent } from 'react';
+import { autocompletePlaces } from '@/services/place-autocomplete';
+import { unwrapActionResult } from '@/lib/service-errors';
+import type { Coordinate, PlacePrediction } from '@/services/google-maps';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { Loader2, MapPin } from 'lucide-react';
+
+interface PlaceAutocompleteInputProps {
+  id: string;
+  value: string;
+  onChange: (text: string) => void; // Called as the user types; any previously chosen place no longer applies
+  onPlaceSelect: (prediction: PlacePrediction, sessionToken?: string) => void; // Called when the user picks a suggestion, with the search's session token
+  onSubmitText?: (text: string) => void; // Optional: Called on Enter when no suggestion is highlighted (instead of submitting the form)
+  near?: Coordinate; // Bias suggestions towards this point
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Wait for a pause in typing before asking for predictions
+const DEBOUNCE_MS = 250;
+
+/**
+ * Text input with a dropdown of Google place suggestions.
+ * Keystrokes share one autocomplete session token until a suggestion is chosen. The token is handed to `onPlaceSelect`:
+ * Google bills the keystrokes as one session only once the place is looked up with it (see `getCoordinatesFromPlaceId`).
+ * Supports arrow keys, Enter to choose and Escape to close.
+ */
+export const PlaceAutocompleteInput: FC<PlaceAutocompleteInputProps> = ({
+  id,
+  value,
+  onChange,
+  onPlaceSelect,
+  onSubmitText,
+  near,
+  placeholder,
+  disabled,
+  className,
+}) => {
+  const [query, setQuery] = useState<string>(''); // Text the user typed (not text set by the parent)
+  const [predictions, setPredictions] = useState<PlacePrediction[]>([]);
+  const [open, setOpen] = useState<boolean>(false);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const [loading, setLoading] = useState<boolean>(false);
+  const sessionTokenRef = useRef<string | null>(null);
+  const requestIdRef = useRef<number>(0); // Ignores responses that arrive after a newer request
+  // Compare the bias point by value, so a parent passing a fresh object each render doesn't refetch
+  const nearLat = near?.lat;
+  const nearLng = near?.lng;
+  const bias = useMemo<Coordinate | undefined>(
+    () => (nearLat !== undefined && nearLng !== undefined ? { lat: nearLat, lng: nearLng } : undefined),
+    [nearLat, nearLng]
+  );
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setPredictions([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      const requestId = ++requestIdRef.current;
+      sessionTokenRef.current ??= crypto.randomUUID();
+      setLoading(true);
+      try {
+        const results = unwrapActionResult(await autocompletePlaces(query, sessionTokenRef.current, bias));
+        if (requestId !== requestIdRef.current) return;
+        setPredictions(results);
+        setActiveIndex(-1);
+      } catch (error) {
+        // Suggestions are a convenience; the typed text still works, so don't interrupt the user
+        console.warn('[Place Autocomplete] Could not load suggestions:', error);
+        if (requestId === requestIdRef.current) setPredictions([]);
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, bias]);
+
+  const selectPrediction = (prediction: PlacePrediction) => {
+    onPlaceSelect(prediction, sessionTokenRef.current ?? undefined);
+    setQuery('');
+    setPredictions([]);
+    setOpen(false);
+    sessionTokenRef.current = null; // Choosing a place ends the session
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' && onSubmitText && !(open && activeIndex >= 0)) {
+      event.preventDefault();
+      setQuery('');
+      setPredictions([]);
+      sessionTokenRef.current = null;
+      onSubmitText(value);
+      return;
+    }
+    if (!open || predictions.length === 0) return;
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => (index + 1) % predictions.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => (index <= 0 ? predictions.length - 1 : index - 1));
+    } else if (event.key === 'Enter' && activeIndex >= 0) {
+      event.preventDefault(); // Choose the suggestion instead of submitting the form
+      selectPrediction(predictions[activeIndex]);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const listId = `${id}-suggestions`;
+  const showList = open && predictions.length > 0;
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        type="text"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        autoComplete="off"
+        value={value}
+        onChange={event => {
+          onChange(event.target.value);
+          setQuery(event.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={cn('h-9 text-sm pr-8', className)}
+      />
+      {loading && <Loader2 className="absolute right-2 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />}
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-50 mt-1 w-full overflow-hidden rounded-md border bg-popover text-popover-foreground shadow-md"
+          onMouseDown={event => event.preventDefault()} // Keep focus in the input so the click isn't lost to blur
+        >
+          {predictions.map((prediction, index) => (
+            <li
+              key={prediction.placeId}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                'flex cursor-pointer items-start gap-2 px-2 py-1.5 text-sm',
+                index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-muted'
+              )}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => selectPrediction(prediction)}
+            >
+              <MapPin className="mt-0.5 h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              <span>
+                <span className="font-medium">{prediction.mainText}</span>
+                {prediction.secondaryText && <span className="block text-xs text-muted-foreground">{prediction.secondaryText}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+"use client";
+
+import type { FC } from 'react';
+import { DEFAULT_ATTRACTION_SEARCH_PREFERENCES, type AttractionSearchPreferences } from '@/services/google-maps';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface PlannerSettingsProps {
+  value: AttractionSearchPreferences;
+  onChange: (value: AttractionSearchPreferences) => void;
+  disabled?: boolean;
+}
+
+// Place categories offered in the panel, as Places API types
+const PLACE_TYPE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'tourist_attraction', label: 'Sights' },
+  { value: 'museum', label: 'Museums' },
+  { value: 'park', label: 'Parks' },
+  { value: 'restaurant', label: 'Restaurants' },
+  { value: 'cafe', label: 'Cafés' },
+  { value: 'gas_station', label: 'Gas stations' },
+  { value: 'lodging', label: 'Lodging' },
+  { value: 'shopping_mall', label: 'Shopping' },
+];
+
+// Each type is a separate Places request per search point, so keep the selection small
+const MAX_SELECTED_TYPES = 3;
+
+const PRICE_OPTIONS = [
+  { value: 'any', label: 'Any price' },
+  { value: '1', label: 'Up to $' },
+  { value: '2', label: 'Up to $$' },
+  { value: '3', label: 'Up to $$$' },
+];
+
+/**
+ * Popover for choosing what kind of stops the planner suggests along the route:
+ * place categories, keywords, rating threshold, open-now, price level and result count.
+ */
+export const PlannerSettings: FC<PlannerSettingsProps> = ({ value, onChange, disabled }) => {
+  const types = value.types ?? [];
+  const minRating = value.minRating ?? DEFAULT_ATTRACTION_SEARCH_PREFERENCES.minRating!;
+  const maxResults = value.maxResults ?? DEFAULT_ATTRACTION_SEARCH_PREFERENCES.maxResults!;
+
+  const update = (changes: Partial<AttractionSearchPreferences>) => onChange({ ...value, ...changes });
+
+  const toggleType = (type: string, checked: boolean) => {
+    update({ types: checked ? [...types, type] : types.filter(t => t !== type) });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="h-8 text-xs" disabled={disabled}>
+          <SlidersHorizontal className="mr-2 h-3 w-3" /> Stop preferences
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Categories</p>
+          <div className="grid grid-cols-2 gap-2">
+            {PLACE_TYPE_OPTIONS.map(option => {
+              const checked = types.includes(option.value);
+              return (
+                <div key={option.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`place-type-${option.value}`}
+                    checked={checked}
+                    onCheckedChange={state => toggleType(option.value, state === true)}
+                    disabled={!checked && types.length >= MAX_SELECTED_TYPES}
+                  />
+                  <Label htmlFor={`place-type-${option.value}`} className="text-xs">{option.label}</Label>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">Pick up to {MAX_SELECTED_TYPES}. With none, stops are found by keyword.</p>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="place-keyword" className="text-sm">Keywords</Label>
+          <Input
+            id="place-keyword"
+            value={value.keyword ?? ''}
+            onChange={event => update({ keyword: event.target.value })}
+            placeholder="e.g. EV charging, bakery"
+            className="h-8 text-xs"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <Label htmlFor="place-min-rating">Minimum rating</Label>
+            <span className="text-xs text-muted-foreground">{minRating > 0 ? `${minRating}★` : 'Any'}</span>
+          </div>
+          <Slider id="place-min-rating" min={0} max={5} step={0.5} value={[minRating]} onValueChange={([rating]) => update({ minRating: rating })} />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="place-open-now" className="text-sm">Open now</Label>
+          <Switch id="place-open-now" checked={value.openNow ?? false} onCheckedChange={openNow => update({ openNow })} />
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="place-price" className="text-sm">Price level</Label>
+          <Select
+            value={value.maxPrice !== undefined ? value.maxPrice.toString() : 'any'}
+            onValueChange={price => update({ maxPrice: price === 'any' ? undefined : Number(price) })}
+          >
+            <SelectTrigger id="place-price" className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRICE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value} className="text-xs">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <Label htmlFor="place-max-results">Max suggestions</Label>
+            <span className="text-xs text-muted-foreground">{maxResults}</span>
+          </div>
+          <Slider id="place-max-results" min={5} max={20} step={1} value={[maxResults]} onValueChange={([count]) => update({ maxResults: count })} />
+        </div>
+
+        <Button type="button" variant="ghost" size="sm" className="w-full text-xs" onClick={() => onChange(DEFAULT_ATTRACTION_SEARCH_PREFERENCES)}>
+          Reset to defaults
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
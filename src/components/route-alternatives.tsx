@@ -0,0 +1,71 @@
+"use client";
+
+import type { FC } from 'react';
+import type { Route } from '@/services/google-maps';
+import { Badge } from '@/components/ui/badge';
+import { formatDistance, formatDuration } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import { Sparkles } from 'lucide-react';
+
+interface RouteAlternativesProps {
+  routes: Route[];
+  selectedIndex: number;
+  recommendedIndex?: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Selectable cards comparing the candidate routes returned in alternatives mode.
+ */
+export const RouteAlternatives: FC<RouteAlternativesProps> = ({
+  routes,
+  selectedIndex,
+  recommendedIndex,
+  onSelect,
+  disabled = false,
+}) => {
+  const fastestSeconds = Math.min(...routes.map(route => route.durationSeconds));
+
+  return (
+    <div className="space-y-2" role="radiogroup" aria-label="Route alternatives">
+      {routes.map((route, index) => {
+        const isSelected = index === selectedIndex;
+        const extraSeconds = route.durationSeconds - fastestSeconds;
+        return (
+          <button
+            key={`${route.summary}-${index}`}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            onClick={() => onSelect(index)}
+            disabled={disabled}
+            className={cn(
+              'w-full text-left rounded-md border p-2 text-xs transition-colors disabled:opacity-50',
+              isSelected ? 'border-primary bg-primary/10' : 'border-border bg-secondary hover:bg-secondary/70'
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-sm truncate">{route.summary || `Route ${index + 1}`}</span>
+              {index === recommendedIndex && (
+                <Badge className="bg-accent text-accent-foreground hover:bg-accent/90 flex-shrink-0">
+                  <Sparkles className="w-3 h-3 mr-1" /> AI pick
+                </Badge>
+              )}
+            </div>
+            <p className="text-muted-foreground mt-1">
+              {formatDistance(route.distanceMeters)}, ~{formatDuration(route.durationSeconds)}
+              {extraSeconds >= 60 && <span className="ml-1">(+{formatDuration(extraSeconds)})</span>}
+            </p>
+            {(route.hasTolls || route.usesHighways) && (
+              <div className="flex gap-1 mt-1">
+                {route.hasTolls && <Badge variant="outline" className="text-[10px] px-1.5 py-0">Tolls</Badge>}
+                {route.usesHighways && <Badge variant="outline" className="text-[10px] px-1.5 py-0">Highways</Badge>}
+              </div>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+"use client";
+
+import type { FC } from 'react';
+import { ROUTE_RESTRICTION_MODES, type Coordinate, type RouteRestriction, type TravelMode } from '@/services/google-maps';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Pentagon, X } from 'lucide-react';
+
+interface RouteRestrictionsProps {
+  avoid: RouteRestriction[];
+  onAvoidChange: (avoid: RouteRestriction[]) => void;
+  travelMode: TravelMode; // Only the restrictions that apply to this mode are offered
+  avoidAreas: Coordinate[][];
+  onAvoidAreasChange: (areas: Coordinate[][]) => void;
+  drawingArea?: Coordinate[] | null; // The outline being drawn on the map; null when not drawing
+  onDrawArea?: (action: 'start' | 'finish' | 'cancel') => void; // Optional: Enables drawing areas on the map
+  disabled?: boolean;
+}
+
+// Restrictions offered in the planner, with the travel modes Google applies them to
+export const ROUTE_RESTRICTION_OPTIONS: { value: RouteRestriction; label: string; modes: TravelMode[] }[] = [
+  { value: 'tolls', label: 'Tolls', modes: ROUTE_RESTRICTION_MODES.tolls },
+  { value: 'highways', label: 'Highways', modes: ROUTE_RESTRICTION_MODES.highways },
+  { value: 'ferries', label: 'Ferries', modes: ROUTE_RESTRICTION_MODES.ferries },
+  { value: 'indoor', label: 'Indoor', modes: ROUTE_RESTRICTION_MODES.indoor },
+];
+
+// An area needs at least a triangle
+const MIN_AREA_POINTS = 3;
+
+/**
+ * Route restrictions: road features to avoid, and areas drawn on the map that the route must not pass through.
+ * Areas are drawn by clicking their corners on the map, then finishing the outline.
+ */
+export const RouteRestrictions: FC<RouteRestrictionsProps> = ({
+  avoid,
+  onAvoidChange,
+  travelMode,
+  avoidAreas,
+  onAvoidAreasChange,
+  drawingArea,
+  onDrawArea,
+  disabled,
+}) => {
+  const options = ROUTE_RESTRICTION_OPTIONS.filter(option => option.modes.includes(travelMode));
+  const drawing = !!drawingArea;
+
+  const toggle = (restriction: RouteRestriction, checked: boolean) => {
+    onAvoidChange(checked ? [...avoid, restriction] : avoid.filter(r => r !== restriction));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        {options.map(option => (
+          <div key={option.value} className="flex items-center gap-1.5">
+            <Checkbox
+              id={`avoid-${option.value}`}
+              checked={avoid.includes(option.value)}
+              onCheckedChange={checked => toggle(option.value, checked === true)}
+              disabled={disabled}
+            />
+            <Label htmlFor={`avoid-${option.value}`} className="text-xs font-normal">{option.label}</Label>
+          </div>
+        ))}
+      </div>
+
+      {avoidAreas.length > 0 && (
+        <ul className="flex flex-wrap gap-1">
+          {avoidAreas.map((area, index) => (
+            <li key={index} className="flex items-center gap-1 rounded-md border border-destructive/40 bg-destructive/10 px-2 py-0.5 text-xs">
+              Area {index + 1} ({area.length} points)
+              <button
+                type="button"
+                onClick={() => onAvoidAreasChange(avoidAreas.filter((_, i) => i !== index))}
+                aria-label={`Remove area ${index + 1}`}
+                disabled={disabled}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {onDrawArea && (
+        drawing ? (
+          <div className="flex items-center gap-2">
+            <p className="flex-1 text-xs text-muted-foreground">
+              Click the map to outline the area ({drawingArea!.length} {drawingArea!.length === 1 ? 'point' : 'points'}).
+            </p>
+            <Button type="button" size="sm" variant="secondary" className="h-7 text-xs" onClick={() => onDrawArea('finish')} disabled={drawingArea!.length < MIN_AREA_POINTS}>
+              Finish
+            </Button>
+            <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => onDrawArea('cancel')}>
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={() => onDrawArea('start')} disabled={disabled}>
+            <Pentagon className="mr-1 h-3 w-3" /> Draw an area to avoid
+          </Button>
+        )
+      )}
+    </div>
+  );
+};
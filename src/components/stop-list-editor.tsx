@@ -0,0 +1,184 @@
+"use client";
+
+import { useState, type FC, type KeyboardEvent } from 'react';
+import { parseStopText, toEditableStop, type EditableTripStop, type TripStop } from '@/lib/trip-stops';
+import { PlaceAutocompleteInput } from '@/components/place-autocomplete-input';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { GripVertical, MapPinned, Plus, X } from 'lucide-react';
+
+interface StopListEditorProps {
+  stops: EditableTripStop[];
+  onChange: (stops: EditableTripStop[]) => void;
+  optimizeOrder: boolean; // true: let Google reorder the stops; false: keep the user's order
+  onOptimizeOrderChange: (optimize: boolean) => void;
+  pickingOnMap?: boolean; // Whether the next map click adds a stop
+  onPickOnMapChange?: (picking: boolean) => void;
+  disabled?: boolean;
+}
+
+// Longest stay accepted per stop
+const MAX_DWELL_MINUTES = 24 * 60;
+
+/**
+ * Moves the item at `from` to `to`, shifting the items in between.
+ */
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+/**
+ * Editable list of the stops between origin and destination.
+ * Stops can be searched (suggestions give place IDs), typed as an address, `place_id:…` or "lat, lng", or picked on the map.
+ * Rows can be dragged (or moved with the arrow keys on the handle) to reorder them, and each has an optional dwell time.
+ */
+export const StopListEditor: FC<StopListEditorProps> = ({
+  stops,
+  onChange,
+  optimizeOrder,
+  onOptimizeOrderChange,
+  pickingOnMap,
+  onPickOnMapChange,
+  disabled,
+}) => {
+  const [query, setQuery] = useState<string>('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const addStop = (stop: TripStop | null) => {
+    setQuery('');
+    if (!stop) return;
+    if (stop.placeId && stops.some(existing => existing.placeId === stop.placeId)) return; // Already on the list
+    onChange([...stops, toEditableStop(stop)]);
+  };
+
+  const updateStop = (id: string, changes: Partial<TripStop>) => {
+    onChange(stops.map(stop => (stop.id === id ? { ...stop, ...changes } : stop)));
+  };
+
+  const removeStop = (id: string) => {
+    onChange(stops.filter(stop => stop.id !== id));
+  };
+
+  // Reorder live while dragging so the row follows the pointer
+  const handleDragOver = (index: number) => {
+    if (dragIndex === null || dragIndex === index) return;
+    onChange(moveItem(stops, dragIndex, index));
+    setDragIndex(index);
+  };
+
+  // Keyboard alternative to dragging
+  const handleHandleKeyDown = (event: KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const target = event.key === 'ArrowUp' ? index - 1 : event.key === 'ArrowDown' ? index + 1 : null;
+    if (target === null || target < 0 || target >= stops.length) return;
+    event.preventDefault();
+    onChange(moveItem(stops, index, target));
+  };
+
+  return (
+    <div className="space-y-2">
+      {stops.length > 0 && (
+        <ol className="space-y-1">
+          {stops.map((stop, index) => (
+            <li
+              key={stop.id}
+              draggable={!disabled}
+              onDragStart={event => {
+                setDragIndex(index);
+                event.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={event => {
+                event.preventDefault();
+                handleDragOver(index);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={cn(
+                'flex items-center gap-1 rounded-md border border-border bg-background px-1 py-1 text-sm',
+                dragIndex === index && 'opacity-50'
+              )}
+            >
+              <button
+                type="button"
+                className="cursor-grab text-muted-foreground disabled:cursor-not-allowed"
+                aria-label={`Reorder ${stop.name} (use arrow keys)`}
+                onKeyDown={event => handleHandleKeyDown(event, index)}
+                disabled={disabled}
+              >
+                <GripVertical className="h-4 w-4" />
+              </button>
+              <span className="w-4 text-center text-xs font-semibold text-muted-foreground">{index + 1}</span>
+              <span className="flex-1 truncate" title={stop.address || stop.name}>{stop.name}</span>
+              <Input
+                type="number"
+                min={0}
+                max={MAX_DWELL_MINUTES}
+                step={5}
+                value={stop.dwellMinutes ?? ''}
+                onChange={event => {
+                  const minutes = event.target.value === '' ? undefined : Math.min(MAX_DWELL_MINUTES, Math.max(0, Number(event.target.value)));
+                  updateStop(stop.id, { dwellMinutes: minutes });
+                }}
+                placeholder="0"
+                className="h-7 w-16 text-xs"
+                aria-label={`Minutes at ${stop.name}`}
+                disabled={disabled}
+              />
+              <span className="text-xs text-muted-foreground">min</span>
+              <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => removeStop(stop.id)} aria-label={`Remove ${stop.name}`} disabled={disabled}>
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex items-center gap-1">
+        <div className="flex-1">
+          <PlaceAutocompleteInput
+            id="addStop"
+            value={query}
+            onChange={setQuery}
+            // Stops are routed by place ID without a lookup, so their search sessions aren't closed (each keystroke is billed alone)
+            onPlaceSelect={prediction => addStop({ name: prediction.mainText, placeId: prediction.placeId, address: prediction.description })}
+            onSubmitText={text => addStop(parseStopText(text))}
+            placeholder="Address, place or lat, lng"
+            disabled={disabled}
+          />
+        </div>
+        <Button type="button" variant="outline" size="icon" className="h-9 w-9" onClick={() => addStop(parseStopText(query))} disabled={disabled || !query.trim()} aria-label="Add stop">
+          <Plus className="h-4 w-4" />
+        </Button>
+        {onPickOnMapChange && (
+          <Button
+            type="button"
+            variant={pickingOnMap ? 'secondary' : 'outline'}
+            size="icon"
+            className="h-9 w-9"
+            onClick={() => onPickOnMapChange(!pickingOnMap)}
+            disabled={disabled}
+            aria-pressed={pickingOnMap}
+            aria-label="Pick a stop on the map"
+            title="Pick a stop on the map"
+          >
+            <MapPinned className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {pickingOnMap && <p className="text-xs text-muted-foreground">Click the map to add a stop there.</p>}
+
+      {stops.length > 1 && (
+        <div className="flex items-center justify-between">
+          <Label htmlFor="optimizeStops" className="text-xs">
+            {optimizeOrder ? 'Reorder stops for the fastest route' : 'Keep my stop order'}
+          </Label>
+          <Switch id="optimizeStops" checked={optimizeOrder} onCheckedChange={onOptimizeOrderChange} disabled={disabled} />
+        </div>
+      )}
+    </div>
+  );
+};
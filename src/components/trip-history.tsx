@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, type FC } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useSavedTrips } from '@/hooks/use-saved-trips';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth-provider';
+import type { SavedTrip } from '@/services/trip-repository';
+import { formatDistance, formatDuration } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Check, History, Loader2, MapPinned, Pencil, Star, Trash2, X } from 'lucide-react';
+
+interface TripHistoryProps {
+  onRestore: (trip: SavedTrip) => void; // Called when the user reopens a saved trip
+}
+
+/**
+ * Sidebar listing the user's saved trips, with rename, favorite and delete actions.
+ * Choosing a trip reloads it onto the map.
+ */
+export const TripHistory: FC<TripHistoryProps> = ({ onRestore }) => {
+  const { trips, loading, error, renameTrip, setTripFavorite, deleteTrip } = useSavedTrips();
+  const { toast } = useToast();
+  const { user, authEnabled } = useAuth();
+  const [open, setOpen] = useState<boolean>(false);
+  const [filter, setFilter] = useState<'all' | 'favorites'>('all');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState<string>('');
+
+  // Runs a repository action and reports failures as a toast
+  const runAction = async (title: string, action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error(`${title}:`, err);
+      toast({ variant: 'destructive', title, description: err instanceof Error ? err.message : 'Please try again.' });
+    }
+  };
+
+  const handleRestore = (trip: SavedTrip) => {
+    onRestore(trip);
+    setOpen(false);
+  };
+
+  const handleRename = (tripId: string) => {
+    const name = draftName.trim();
+    setEditingId(null);
+    if (name) {
+      runAction('Rename Failed', () => renameTrip(tripId, name));
+    }
+  };
+
+  const visibleTrips = filter === 'favorites' ? trips.filter(trip => trip.favorite) : trips;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="secondary" size="sm">
+          <History className="mr-2 h-4 w-4" /> Trip History
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" className="flex flex-col w-80 sm:max-w-sm">
+        <SheetHeader>
+          <SheetTitle>Trip History</SheetTitle>
+          <SheetDescription>Reopen, rename or remove your saved trips.</SheetDescription>
+        </SheetHeader>
+        <Tabs value={filter} onValueChange={value => setFilter(value as 'all' | 'favorites')}>
+          <TabsList className="w-full">
+            <TabsTrigger value="all" className="flex-1">All</TabsTrigger>
+            <TabsTrigger value="favorites" className="flex-1">Favorites</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin" /> Loading trips…</p>
+        )}
+        {error && !loading && <p className="text-sm text-destructive">{error}</p>}
+        {authEnabled && !user && <p className="text-sm text-muted-foreground">Sign in to see your saved trips.</p>}
+        {!loading && !error && (user || !authEnabled) && visibleTrips.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {filter === 'favorites' ? 'No favorite trips yet. Star a trip to keep it here.' : 'No saved trips yet. Use "Save Trip" on a plan to keep it.'}
+          </p>
+        )}
+
+        <ScrollArea className="flex-1 -mr-3 pr-3">
+          <ul className="space-y-2">
+            {visibleTrips.map(trip => (
+              <li key={trip.id} className="border border-border rounded-md p-2 text-sm space-y-1">
+                {editingId === trip.id ? (
+                  <form
+                    className="flex items-center gap-1"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      handleRename(trip.id);
+                    }}
+                  >
+                    <Input value={draftName} onChange={event => setDraftName(event.target.value)} className="h-7 text-xs" autoFocus aria-label="Trip name" />
+                    <Button type="submit" variant="ghost" size="icon" className="h-7 w-7" aria-label="Save name"><Check className="h-4 w-4" /></Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-7 w-7" aria-label="Cancel rename" onClick={() => setEditingId(null)}><X className="h-4 w-4" /></Button>
+                  </form>
+                ) : (
+                  <div className="flex items-start gap-1">
+                    <button type="button" onClick={() => handleRestore(trip)} className="flex-1 text-left font-medium hover:text-primary" title="Show on map">
+                      {trip.name}
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      aria-label={trip.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                      onClick={() => runAction('Update Failed', () => setTripFavorite(trip.id, !trip.favorite))}
+                    >
+                      <Star className={`h-4 w-4 ${trip.favorite ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+                    </Button>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {formatDistance(trip.routeSummary.distanceMeters)} · {formatDuration(trip.routeSummary.durationSeconds)}
+                  {trip.routeSummary.summary && <> via {trip.routeSummary.summary}</>}
+                  {trip.waypoints.length > 0 && <> · {trip.waypoints.length} stop{trip.waypoints.length > 1 ? 's' : ''}</>}
+                </p>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Saved {format(parseISO(trip.createdAt), 'MMM d, yyyy HH:mm')}</span>
+                  <div className="flex">
+                    <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Show on map" onClick={() => handleRestore(trip)}>
+                      <MapPinned className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      aria-label="Rename trip"
+                      onClick={() => {
+                        setEditingId(trip.id);
+                        setDraftName(trip.name);
+                      }}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-destructive hover:text-destructive"
+                      aria-label="Delete trip"
+                      onClick={() => runAction('Delete Failed', () => deleteTrip(trip.id))}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,68 @@
+"use client";
+
+import type { FC } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { Itinerary } from '@/lib/itinerary';
+import type { OpeningHoursWarning } from '@/lib/opening-hours';
+import { formatDistance, formatDuration } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import { AlertTriangle } from 'lucide-react';
+
+interface TripItineraryProps {
+  itinerary: Itinerary;
+  openingHoursWarnings?: OpeningHoursWarning[]; // Shown under the affected stops
+}
+
+const formatTime = (time: string): string => format(parseISO(time), 'HH:mm');
+
+const describeWarning = (warning: OpeningHoursWarning): string =>
+  warning.kind === 'closed_on_arrival'
+    ? `Closed when you arrive${warning.nextOpenTime ? `; opens ${format(parseISO(warning.nextOpenTime), 'EEE HH:mm')}` : ''}`
+    : `Closes at ${warning.closingTime ? formatTime(warning.closingTime) : 'an earlier time'}, before you plan to leave`;
+
+/**
+ * Timeline of the trip: when the traveller leaves the origin, reaches and leaves each stop, and arrives at the destination.
+ * Stops that are closed during the planned visit are flagged.
+ */
+export const TripItinerary: FC<TripItineraryProps> = ({ itinerary, openingHoursWarnings = [] }) => (
+  <div className="space-y-1">
+    <ol className="space-y-1 border-l-2 border-primary/40 pl-3 text-xs">
+      {itinerary.entries.map((entry, index) => (
+        <li key={`${entry.kind}-${index}`} className="relative">
+          <span
+            className={cn(
+              'absolute -left-[1.1rem] top-1 h-2 w-2 rounded-full',
+              entry.kind === 'stop' ? 'bg-accent' : 'bg-primary'
+            )}
+          />
+          {entry.travelSecondsFromPrevious !== undefined && (
+            <p className="text-muted-foreground">
+              {formatDuration(entry.travelSecondsFromPrevious)}
+              {entry.distanceMetersFromPrevious !== undefined && <> · {formatDistance(entry.distanceMetersFromPrevious)}</>}
+            </p>
+          )}
+          <p>
+            <span className="font-semibold">{entry.name}</span>
+            <span className="ml-1 text-muted-foreground">
+              {entry.kind === 'origin' && entry.departureTime && <>leave {formatTime(entry.departureTime)}</>}
+              {entry.kind === 'stop' && entry.arrivalTime && entry.departureTime && (
+                <>{formatTime(entry.arrivalTime)}–{formatTime(entry.departureTime)} ({entry.dwellMinutes} min)</>
+              )}
+              {entry.kind === 'destination' && entry.arrivalTime && <>arrive {formatTime(entry.arrivalTime)}</>}
+            </span>
+          </p>
+          {entry.kind === 'stop' && openingHoursWarnings
+            .filter(warning => warning.placeId === entry.placeId)
+            .map(warning => (
+              <p key={warning.kind} className="flex items-center gap-1 text-destructive">
+                <AlertTriangle className="h-3 w-3 flex-shrink-0" /> {describeWarning(warning)}
+              </p>
+            ))}
+        </li>
+      ))}
+    </ol>
+    <p className="text-xs text-muted-foreground">
+      {formatDuration(itinerary.totalTravelSeconds)} travelling + {formatDuration(itinerary.totalDwellSeconds)} at stops
+    </p>
+  </div>
+);
@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateTripPlan } from '@/ai/flows/generate-trip-plan';
+import { SERVER_CONFIG_ERROR_MSG } from '@/services/google-maps';
+import type { ServiceErrorInfo } from '@/lib/service-errors';
+import { TripPlanner } from '@/components/trip-planner';
+
+vi.mock('@/ai/flows/generate-trip-plan', () => ({generateTripPlan: vi.fn()}));
+vi.mock('@/services/place-autocomplete', () => ({autocompletePlaces: vi.fn(async () => ({ok: true, data: []}))}));
+vi.mock('@/hooks/use-saved-trips', () => ({useSavedTrips: () => ({saveTrip: vi.fn()})}));
+vi.mock('@/components/auth-provider', () => ({useAuth: () => ({user: null, authEnabled: false})}));
+
+const {toast} = vi.hoisted(() => ({toast: vi.fn()}));
+vi.mock('@/hooks/use-toast', () => ({useToast: () => ({toast}), toast}));
+
+const generateTripPlanMock = vi.mocked(generateTripPlan);
+
+/**
+ * What the trip-plan action returns when it fails with the given error.
+ */
+const failure = (error: Omit<ServiceErrorInfo, 'retryable'>) => ({ok: false as const, error: {retryable: false, ...error}});
+
+const CONFIG_MISSING = failure({code: 'CONFIG_MISSING', provider: 'google', operation: 'directions', message: `Trip plan generation failed: ${SERVER_CONFIG_ERROR_MSG}`});
+const UNKNOWN = failure({code: 'UNKNOWN', message: 'Something odd happened'});
+
+/**
+ * Submits the form with its default addresses and returns the error shown in the alert.
+ */
+async function submitAndReadError(): Promise<string> {
+  fireEvent.click(screen.getByRole('button', {name: /Generate Smart Trip Plan/}));
+  const alert = await screen.findByRole('alert');
+  return alert.textContent ?? '';
+}
+
+describe('TripPlanner error messages', () => {
+  beforeEach(() => {
+    generateTripPlanMock.mockReset();
+    toast.mockReset();
+  });
+
+  it.each([
+    ['a missing server key', CONFIG_MISSING, SERVER_CONFIG_ERROR_MSG],
+    ['a denied request', failure({code: 'REQUEST_DENIED', provider: 'google', operation: 'directions', message: 'Directions API Error: Request Denied.'}), 'Error: Google Maps API request denied.'],
+    ['an exceeded quota', failure({code: 'QUOTA', provider: 'google', operation: 'directions', message: 'Directions API Error: Usage limit exceeded.'}), 'exceeding Google Maps API usage limits'],
+    ['an exceeded AI quota', failure({code: 'QUOTA', provider: 'genkit', operation: 'trip-plan', message: 'AI model usage limit exceeded.'}), 'exceeding the AI model usage limits'],
+    ['an unknown address', failure({code: 'ZERO_RESULTS', provider: 'google', operation: 'geocoding', message: 'Geocoding API Error: No results found for address "Nowhere".'}), 'Error: Could not find coordinates for the specified address.'],
+    ['no route', failure({code: 'ZERO_RESULTS', provider: 'google', operation: 'directions', message: 'Could not find route. Status: ZERO_RESULTS.'}), 'Error: No route found between the specified locations.'],
+    ['routes blocked by avoid areas', failure({code: 'ZERO_RESULTS', operation: 'directions', message: 'Trip plan generation failed: Every route found (2) passes through an area you marked to avoid.'}), 'Every route found (2) passes through an area you marked to avoid.'],
+    ['a network failure', failure({code: 'NETWORK', provider: 'google', operation: 'directions', message: 'Failed to fetch directions: network down'}), 'Error: Network request failed. Could not connect to Google Maps.'],
+    ['invalid AI output', failure({code: 'AI_INVALID_OUTPUT', provider: 'genkit', operation: 'trip-plan', message: 'AI failed to generate a valid suggestion or reasoning.'}), 'Error: The AI model did not return a usable trip plan.'],
+    ['any other service error', UNKNOWN, 'Something odd happened'],
+  ])('explains %s', async (_case, result, expected) => {
+    generateTripPlanMock.mockResolvedValue(result);
+    const onPlanGenerated = vi.fn();
+    render(<TripPlanner onPlanGenerated={onPlanGenerated} />);
+
+    const shown = await submitAndReadError();
+
+    expect(shown).toContain(expected);
+    expect(onPlanGenerated).toHaveBeenLastCalledWith(null);
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({variant: 'destructive', title: 'Trip Plan Error'}));
+  });
+
+  it('explains a failed server action call', async () => {
+    generateTripPlanMock.mockRejectedValue(new Error('Failed to fetch'));
+    render(<TripPlanner onPlanGenerated={vi.fn()} />);
+
+    expect(await submitAndReadError()).toContain('Error generating trip plan: Failed to fetch');
+  });
+
+  it('adds the API key hint only for configuration problems', async () => {
+    generateTripPlanMock.mockResolvedValueOnce(CONFIG_MISSING);
+    render(<TripPlanner onPlanGenerated={vi.fn()} />);
+
+    expect(await submitAndReadError()).toContain('Please double-check your API key setup');
+
+    generateTripPlanMock.mockResolvedValueOnce(UNKNOWN);
+    fireEvent.click(screen.getByRole('button', {name: /Generate Smart Trip Plan/}));
+    await screen.findByText('Something odd happened');
+    expect(screen.getByRole('alert')).not.toHaveTextContent('Please double-check your API key setup');
+  });
+
+  it('clears the error on the next successful plan', async () => {
+    generateTripPlanMock.mockResolvedValueOnce(UNKNOWN);
+    render(<TripPlanner onPlanGenerated={vi.fn()} />);
+    await submitAndReadError();
+
+    generateTripPlanMock.mockReturnValueOnce(new Promise(() => {})); // Still loading
+    fireEvent.click(screen.getByRole('button', {name: /Generate Smart Trip Plan/}));
+
+    await waitFor(() => expect(screen.queryByRole('alert')).not.toBeInTheDocument());
+  });
+});
@@ -2,43 +2,180 @@
 "use client";
 
 import type { FC } from 'react';
-import { useState } from 'react';
-import { useForm, type SubmitHandler } from 'react-hook-form';
+import { useEffect, useState } from 'react';
+import { useForm, useWatch, Controller, type SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { generateTripPlan, type GenerateTripPlanOutput } from '@/ai/flows/generate-trip-plan';
-import { getAddressFromCoordinates, type Attraction, SERVER_CONFIG_ERROR_MSG } from '@/services/google-maps'; // Import reverse geocoding, Attraction type, and the specific error message
+import { getAddressFromCoordinates, restrictionsForMode, DEFAULT_ATTRACTION_SEARCH_PREFERENCES, type Attraction, type AttractionSearchPreferences, type Coordinate, type RouteRestriction, type TravelMode, SERVER_CONFIG_ERROR_MSG } from '@/services/google-maps'; // Import reverse geocoding, Attraction type, and the specific error message
+import { isServiceError, unwrapActionResult, type ServiceError } from '@/lib/service-errors';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Checkbox } from "@/components/ui/checkbox"; // Import Checkbox
-import { Loader2, MapPin, Clock, Route as RouteIcon, BrainCircuit, CloudSun, Navigation, Sparkles, Landmark, CalendarDays, LocateFixed, MapPin as DestPin } from 'lucide-react'; // Added LocateFixed, DestPin
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RouteAlternatives } from '@/components/route-alternatives';
+import { DepartureChart } from '@/components/departure-chart';
+import { PlannerSettings } from '@/components/planner-settings';
+import { PlaceAutocompleteInput } from '@/components/place-autocomplete-input';
+import { StopListEditor } from '@/components/stop-list-editor';
+import { RouteRestrictions } from '@/components/route-restrictions';
+import { TripItinerary } from '@/components/trip-itinerary';
+import { formatDistance, formatDuration } from '@/lib/format';
+import { Loader2, MapPin, Clock, Route as RouteIcon, BrainCircuit, CloudSun, Navigation, Sparkles, Landmark, CalendarDays, LocateFixed, MapPin as DestPin, Car, Footprints, Bike, TrainFront, Bookmark, BookmarkCheck } from 'lucide-react'; // Added LocateFixed, DestPin, travel mode icons
 import { format, parseISO } from 'date-fns';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from "@/hooks/use-toast"; // Import useToast
+import { useSavedTrips } from '@/hooks/use-saved-trips';
+import { useAuth } from '@/components/auth-provider';
+import type { SavedTrip } from '@/services/trip-repository';
+import { toEditableStop, type EditableTripStop } from '@/lib/trip-stops';
+import type { RouteObjective } from '@/lib/route-objective';
 
 // Define the Zod schema for form validation using addresses
 const TripPlannerSchema = z.object({
   originAddress: z.string().min(3, "Origin address must be at least 3 characters").describe('Origin Address'),
   destinationAddress: z.string().min(3, "Destination address must be at least 3 characters").describe('Destination Address'),
+  originPlaceId: z.string().optional().describe('Place ID of the chosen origin suggestion, cleared when the text is edited'),
+  destinationPlaceId: z.string().optional().describe('Place ID of the chosen destination suggestion, cleared when the text is edited'),
+  originSessionToken: z.string().optional().describe('Autocomplete session the origin was chosen in, sent with the next plan to close it'),
+  destinationSessionToken: z.string().optional().describe('Autocomplete session the destination was chosen in, sent with the next plan to close it'),
   departureTime: z.string().min(1, "Departure time is required").describe('Desired Departure Time (YYYY-MM-DDTHH:mm)'), // Use string for datetime-local input
+  travelMode: z.enum(['driving', 'walking', 'bicycling', 'transit']).describe('Travel Mode'),
+  objective: z.enum(['fastest', 'shortest', 'fewest_turns', 'fuel_efficient']).describe('What to minimise when choosing the route'),
+  compareRoutes: z.boolean().describe('Request alternative routes and compare them side by side'),
 });
 
+// Labels and icons for the travel mode selector
+const TRAVEL_MODE_OPTIONS: { value: TravelMode; label: string; icon: typeof Car }[] = [
+  { value: 'driving', label: 'Driving', icon: Car },
+  { value: 'transit', label: 'Transit', icon: TrainFront },
+  { value: 'bicycling', label: 'Cycling', icon: Bike },
+  { value: 'walking', label: 'Walking', icon: Footprints },
+];
+
+// Labels for the route priority selector; fuel use only applies to driving
+const ROUTE_OBJECTIVE_OPTIONS: { value: RouteObjective; label: string; drivingOnly?: boolean }[] = [
+  { value: 'fastest', label: 'Fastest' },
+  { value: 'shortest', label: 'Shortest distance' },
+  { value: 'fewest_turns', label: 'Fewest turns' },
+  { value: 'fuel_efficient', label: 'Most fuel-efficient', drivingOnly: true },
+];
+
 type TripPlannerFormValues = z.infer<typeof TripPlannerSchema>;
 
+// Choices for hiding attractions that would add too much time as a stop ('any' shows everything)
+const MAX_DETOUR_OPTIONS = ['any', '5', '10', '15', '30', '60'];
+
+/**
+ * Seconds an attraction would add as a stop: the measured detour cost if available, otherwise the corridor estimate.
+ */
+const getDetourSeconds = (attraction: Attraction): number | undefined =>
+    attraction.detourCost?.addedSeconds ?? attraction.detourSeconds;
+
+/**
+ * Returns the plan with `route` swapped for the chosen alternative.
+ * The route weather, itinerary and opening-hours warnings were computed for the recommended route, so they are dropped for any other choice
+ * (alternatives only exist for trips without stops, so the itinerary has nothing to add there anyway).
+ */
+const withSelectedRoute = (plan: GenerateTripPlanOutput, index: number): GenerateTripPlanOutput => {
+    const alternative = plan.alternativeRoutes?.[index];
+    if (!alternative || index === (plan.recommendedRouteIndex ?? 0)) {
+        return plan;
+    }
+    return { ...plan, route: alternative, routeWeather: [], itinerary: undefined, openingHoursWarnings: undefined };
+};
+
+/**
+ * Explains a failed trip plan in terms the user can act on, based on the error's code rather than its wording.
+ * The original message is kept in parentheses where it adds detail.
+ */
+const describeTripPlanError = (err: unknown, hasStops: boolean): string => {
+    if (!isServiceError(err)) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        return `Error generating trip plan: ${message}`;
+    }
+    const service = err.provider === 'genkit' ? 'the AI model' : err.provider === 'openweathermap' ? 'the weather service' : 'Google Maps';
+    switch (err.code) {
+        case 'CONFIG_MISSING':
+            return err.provider === 'google' ? SERVER_CONFIG_ERROR_MSG : err.message;
+        case 'AUTH_REQUIRED':
+            return "Error: Please sign in to plan a trip.";
+        case 'REQUEST_DENIED':
+            return err.provider === 'google'
+                ? `Error: Google Maps API request denied. Ensure the required APIs (Geocoding, Directions, Places) are ENABLED and authorized for your server-side key (GOOGLE_MAPS_API_KEY) in Google Cloud Console. Check billing status and key restrictions. Restart server after changes. (${err.message})`
+                : `Error: The request to ${service} was denied. Please verify its API key. (${err.message})`;
+        case 'QUOTA':
+            return `Error: Could not generate trip plan due to exceeding ${service === 'Google Maps' ? 'Google Maps API' : service} usage limits. Please check your quotas${err.provider === 'google' ? ' in the Google Cloud Console' : ''}.`;
+        case 'ZERO_RESULTS':
+            if (err.operation === 'geocoding' || err.operation === 'place-details') {
+                return `Error: Could not find coordinates for the specified address. Please ensure the address is valid. (${err.message})`;
+            }
+            if (err.operation === 'places-nearby') {
+                return `Error: No attractions found for the specified area. (${err.message})`;
+            }
+            return `Error: No route found between the specified locations${hasStops ? ' including the selected stops' : ''}. (${err.message})`;
+        case 'INVALID_REQUEST':
+            return `Error: ${service} rejected the request. Please check the addresses, stops and departure time. (${err.message})`;
+        case 'NETWORK':
+            return `Error: Network request failed. Could not connect to ${service}. Please check your internet connection and firewall settings. (${err.message})`;
+        case 'AI_INVALID_OUTPUT':
+            return `Error: The AI model did not return a usable trip plan. Please try again. (${err.message})`;
+        default:
+            return err.message;
+    }
+};
+
+/**
+ * Whether an error points at the Google Maps key setup, so the planner should add the API key hint.
+ */
+const isGoogleKeyProblem = (err: unknown): err is ServiceError =>
+    isServiceError(err, 'CONFIG_MISSING', 'REQUEST_DENIED') && err.provider === 'google';
+
 interface TripPlannerProps {
     onPlanGenerated: (plan: GenerateTripPlanOutput | null) => void; // Callback prop
+    restoredTrip?: SavedTrip | null; // A saved trip reopened from the history sidebar
+    pickingStopOnMap?: boolean; // Whether the next map click adds a stop
+    onPickStopOnMap?: (onPicked: ((location: Coordinate) => void) | null) => void; // Starts (or cancels, with null) picking a stop on the map
+    avoid?: RouteRestriction[]; // Road features to avoid (owned by the parent, which reroutes with them)
+    onAvoidChange?: (avoid: RouteRestriction[]) => void;
+    avoidAreas?: Coordinate[][]; // Areas the route must not pass through (drawn on the map, owned by the parent)
+    onAvoidAreasChange?: (areas: Coordinate[][]) => void;
+    drawingAvoidArea?: Coordinate[] | null; // The outline being drawn on the map; null when not drawing
+    onDrawAvoidArea?: (action: 'start' | 'finish' | 'cancel') => void; // Starts, completes or abandons drawing an area on the map
 }
 
-export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
+export const TripPlanner: FC<TripPlannerProps> = ({
+    onPlanGenerated,
+    restoredTrip,
+    pickingStopOnMap,
+    onPickStopOnMap,
+    avoid = [],
+    onAvoidChange,
+    avoidAreas = [],
+    onAvoidAreasChange,
+    drawingAvoidArea,
+    onDrawAvoidArea,
+}) => {
   const [tripPlan, setTripPlan] = useState<GenerateTripPlanOutput | null>(null);
   const [loadingPlan, setLoadingPlan] = useState<boolean>(false);
   const [loadingLocation, setLoadingLocation] = useState<boolean>(false); // Loading state for geolocation
   const [error, setError] = useState<string | null>(null);
-  const [selectedWaypoints, setSelectedWaypoints] = useState<string[]>([]); // State for selected waypoint place IDs
+  const [showApiKeyHint, setShowApiKeyHint] = useState<boolean>(false); // Whether the error is about the Google Maps key setup
+  const [stops, setStops] = useState<EditableTripStop[]>([]); // Stops between origin and destination, in the user's order
+  const [optimizeStopOrder, setOptimizeStopOrder] = useState<boolean>(true); // Let Google reorder the stops
+  const [selectedRouteIndex, setSelectedRouteIndex] = useState<number>(0); // Index into tripPlan.alternativeRoutes
+  const [savedTripId, setSavedTripId] = useState<string | null>(null); // ID of the saved copy of the current plan, if any
+  const [savingTrip, setSavingTrip] = useState<boolean>(false);
+  const [searchPreferences, setSearchPreferences] = useState<AttractionSearchPreferences>(DEFAULT_ATTRACTION_SEARCH_PREFERENCES); // What kind of stops to suggest
+  const [maxDetour, setMaxDetour] = useState<string>('any'); // Hide attractions costing more than this many minutes
   const { toast } = useToast(); // Initialize toast
+  const { saveTrip } = useSavedTrips();
+  const { user, authEnabled } = useAuth();
+  const signInRequired = authEnabled && !user; // Planning runs server actions that require a signed-in user
 
   const {
     register,
@@ -47,14 +184,45 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
     formState: { errors },
     reset,
     getValues, // Get form values for regeneration
+    control,
   } = useForm<TripPlannerFormValues>({
     resolver: zodResolver(TripPlannerSchema),
      defaultValues: { // Provide default example values
             originAddress: "San Francisco, CA",
             destinationAddress: "Los Angeles, CA",
             departureTime: format(new Date(), "yyyy-MM-dd'T'HH:mm"), // Default to current time
+            travelMode: 'driving',
+            objective: 'fastest',
+            compareRoutes: false,
         }
   });
+  const selectedTravelMode = useWatch({ control, name: 'travelMode' }); // Stops are unavailable for transit
+
+   // Fuel use only applies to driving; the shortest route is the closest equivalent for other modes
+   useEffect(() => {
+       if (selectedTravelMode !== 'driving' && getValues('objective') === 'fuel_efficient') {
+           setValue('objective', 'shortest');
+       }
+   }, [selectedTravelMode, getValues, setValue]);
+
+   // Show a trip reopened from the history in the form and results (the parent puts it on the map)
+   useEffect(() => {
+       if (!restoredTrip) return;
+       reset({
+           originAddress: restoredTrip.originAddress,
+           destinationAddress: restoredTrip.destinationAddress,
+           departureTime: format(parseISO(restoredTrip.departureTime), "yyyy-MM-dd'T'HH:mm"),
+           travelMode: restoredTrip.travelMode,
+           objective: restoredTrip.plan.routeRanking?.objective ?? 'fastest', // Trips saved before route priorities have none
+           compareRoutes: false,
+       });
+       setTripPlan(restoredTrip.plan);
+       setStops(restoredTrip.waypoints.map(toEditableStop));
+       setSelectedRouteIndex(0);
+       setSavedTripId(restoredTrip.id);
+       setError(null);
+       setShowApiKeyHint(false);
+   }, [restoredTrip, reset]);
 
    // --- Geolocation Handler ---
    const handleUseCurrentLocation = () => {
@@ -69,6 +237,7 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
 
      setLoadingLocation(true);
      setError(null); // Clear previous errors
+     setShowApiKeyHint(false);
 
      navigator.geolocation.getCurrentPosition(
        async (position) => {
@@ -78,6 +247,8 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
            // Reverse geocode to get address
            const address = await getAddressFromCoordinates({ lat: latitude, lng: longitude });
            setValue('originAddress', address, { shouldValidate: true }); // Update form field
+           setValue('originPlaceId', undefined); // The reverse geocoded address replaces any chosen suggestion
+           setValue('originSessionToken', undefined);
            toast({
              title: "Location Updated",
              description: "Origin set to your current location.",
@@ -85,18 +256,14 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
          } catch (err) {
             console.error("Reverse geocoding failed:", err);
              let errorMessage = "Could not determine address from your location.";
-             if (err instanceof Error) {
-                 // Check for the specific server configuration error using the imported constant
-                 if (err.message === SERVER_CONFIG_ERROR_MSG) {
-                     // Use the exact message for consistency
-                     errorMessage = SERVER_CONFIG_ERROR_MSG;
-                 } else if (err.message.includes('REQUEST_DENIED')) {
-                      errorMessage = "Error: Reverse Geocoding failed. Ensure the Geocoding API is enabled and authorized for your server-side key (GOOGLE_MAPS_API_KEY).";
-                 } else if (err.message.includes('ZERO_RESULTS')) {
-                     errorMessage = "Error: Could not find an address for your current coordinates.";
-                 } else {
-                     errorMessage = `Reverse geocoding failed: ${err.message}`; // Use the original message for other errors
-                 }
+             if (isServiceError(err, 'CONFIG_MISSING')) {
+                 errorMessage = SERVER_CONFIG_ERROR_MSG;
+             } else if (isServiceError(err, 'REQUEST_DENIED')) {
+                 errorMessage = "Error: Reverse Geocoding failed. Ensure the Geocoding API is enabled and authorized for your server-side key (GOOGLE_MAPS_API_KEY).";
+             } else if (isServiceError(err, 'ZERO_RESULTS')) {
+                 errorMessage = "Error: Could not find an address for your current coordinates.";
+             } else if (err instanceof Error) {
+                 errorMessage = `Reverse geocoding failed: ${err.message}`; // Use the original message for other errors
              }
              toast({
                  variant: "destructive",
@@ -104,6 +271,7 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
                  description: errorMessage,
              });
              setError(errorMessage); // Also set the main error state
+             setShowApiKeyHint(isGoogleKeyProblem(err));
          } finally {
            setLoadingLocation(false);
          }
@@ -151,17 +319,18 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
         // Let's assume the 'Update Route' button will call a different handler that sets a flag
         // or directly calls a version of this logic.
 
-        // For simplicity, we'll check if waypoints are selected to determine if it's an update.
+        // For simplicity, we'll check if stops are listed to determine if it's an update.
         // This isn't perfect but avoids adding more state complexity right now.
-        const isUpdate = selectedWaypoints.length > 0;
-        const waypointsToSubmit = selectedWaypoints; // Always use current selected waypoints
+        const isUpdate = stops.length > 0;
+        const stopsToSubmit = stops; // Always use the current stop list
 
         setLoadingPlan(true);
         setError(null);
+        setShowApiKeyHint(false);
+        setSavedTripId(null); // A new or updated plan hasn't been saved yet
         // Don't clear the full trip plan on update, only on initial generation or full reset
         if (!isUpdate) {
             setTripPlan(null);
-            setSelectedWaypoints([]); // Clear waypoints on new plan generation
             onPlanGenerated(null); // Clear previous plan in parent
         } else {
             // Keep existing plan basics, but indicate loading for route update
@@ -176,15 +345,33 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
             }
             const departureISO = departureDate.toISOString();
 
-            // Call the AI flow with address data and selected waypoints
-            console.log(`Generating/Updating trip plan. Waypoints: ${waypointsToSubmit}`);
-            const plan = await generateTripPlan({
+            // Call the AI flow with address data and the stop list
+            console.log(`Generating/Updating trip plan. Stops: ${stopsToSubmit.map(stop => stop.name).join(', ')}`);
+            const plan = unwrapActionResult(await generateTripPlan({
                 originAddress: data.originAddress,
                 destinationAddress: data.destinationAddress,
+                originPlaceId: data.originPlaceId, // Exact places from autocomplete skip geocoding
+                destinationPlaceId: data.destinationPlaceId,
+                originSessionToken: data.originSessionToken,
+                destinationSessionToken: data.destinationSessionToken,
                 departureTime: departureISO, // Send ISO string to the flow
-                waypoints: waypointsToSubmit, // Send selected place IDs
-            });
+                stops: stopsToSubmit.map(({ id, ...stop }) => stop), // Editor keys stay in the browser
+                optimizeStops: optimizeStopOrder,
+                travelMode: data.travelMode,
+                alternatives: data.compareRoutes,
+                objective: data.objective,
+                // Send only the restrictions Google applies to the chosen mode
+                avoid: restrictionsForMode(avoid, data.travelMode),
+                avoidAreas: avoidAreas.length > 0 ? avoidAreas : undefined,
+                searchPreferences,
+            }));
             setTripPlan(plan);
+            // Show the stops in the order Google chose to visit them
+            const visitOrder = plan.route.waypointsOrder;
+            if (optimizeStopOrder && visitOrder && visitOrder.length === stopsToSubmit.length) {
+                setStops(visitOrder.map(index => stopsToSubmit[index]));
+            }
+            setSelectedRouteIndex(plan.recommendedRouteIndex ?? 0); // Start on the AI's pick
             onPlanGenerated(plan); // Pass the generated/updated plan to the parent
             toast({ // Add success toast
                 title: isUpdate ? "Route Updated" : "Trip Plan Generated",
@@ -192,46 +379,9 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
             });
         } catch (err) {
             console.error("Failed to generate/update trip plan:", err);
-            let errorMessage = "Could not generate trip plan. Please check your inputs and try again later.";
-            if (err instanceof Error) {
-                const originalMessage = err.message;
-                const lowerCaseMessage = originalMessage.toLowerCase();
-
-                // Check for the specific server configuration error message FIRST
-                if (originalMessage === SERVER_CONFIG_ERROR_MSG) {
-                    errorMessage = SERVER_CONFIG_ERROR_MSG; // Use the exact message
-                } else if (lowerCaseMessage.includes('api key not valid') || lowerCaseMessage.includes('unauthorized') || lowerCaseMessage.includes('forbidden')) {
-                    errorMessage = "Error: Invalid Google Maps API key. Please verify the `GOOGLE_MAPS_API_KEY` and `NEXT_PUBLIC_GOOGLE_MAPS_API_KEY` values in your `.env.local` file and ensure they are correctly configured in your Google Cloud Console.";
-                } else if (lowerCaseMessage.includes('request_denied')) {
-                    if (lowerCaseMessage.includes('api project is not authorized') || lowerCaseMessage.includes('api is not enabled')) {
-                        errorMessage = `Error: Google Maps API request denied. Ensure the required APIs (Geocoding, Directions, Places) are ENABLED and authorized for your server-side key (GOOGLE_MAPS_API_KEY) in Google Cloud Console. Check billing status and key restrictions. Restart server after changes. (${originalMessage})`;
-                    } else {
-                        errorMessage = `Error: Google Maps API request denied. ${originalMessage}`;
-                    }
-                } else if (lowerCaseMessage.includes('quota') || lowerCaseMessage.includes('limit')) {
-                    errorMessage = "Error: Could not generate trip plan due to exceeding Google Maps API usage limits. Please check your quotas in the Google Cloud Console.";
-                } else if (lowerCaseMessage.includes('geocode') && lowerCaseMessage.includes('zero_results')) {
-                    errorMessage = `Error: Could not find coordinates for the specified address. Please ensure the address is valid. (${originalMessage})`;
-                } else if (lowerCaseMessage.includes('directions') && lowerCaseMessage.includes('zero_results')) {
-                     errorMessage = `Error: No route found between the specified locations${selectedWaypoints.length > 0 ? ' including the selected stops' : ''}. (${originalMessage})`;
-                } else if (lowerCaseMessage.includes('places') && lowerCaseMessage.includes('zero_results')) {
-                    errorMessage = `Error: No attractions found for the specified area. (${originalMessage})`;
-                } else if (lowerCaseMessage.includes('fetch') && lowerCaseMessage.includes('failed')) {
-                     errorMessage = `Error: Network request failed. Could not connect to Google Maps services. Please check your internet connection and firewall settings. (${originalMessage})`;
-                } else if (originalMessage.startsWith('Trip plan generation failed:')) {
-                    // Extract the core message if it's the configuration error, otherwise use the full message
-                    if (originalMessage.includes(SERVER_CONFIG_ERROR_MSG)) {
-                         errorMessage = SERVER_CONFIG_ERROR_MSG;
-                    } else {
-                        // Use the message directly from the flow error, but potentially shorten if too long
-                        errorMessage = originalMessage;
-                    }
-               } else {
-                    // If none of the specific checks matched, use the original error message, possibly shortened
-                    errorMessage = `Error generating trip plan: ${originalMessage}`;
-                }
-            }
+            const errorMessage = describeTripPlanError(err, stops.length > 0);
             setError(errorMessage);
+            setShowApiKeyHint(isGoogleKeyProblem(err));
             onPlanGenerated(null); // Ensure parent state is cleared on error
             toast({ // Add error toast
                 variant: "destructive",
@@ -240,42 +390,92 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
             });
         } finally {
             setLoadingPlan(false);
+            // A session is closed by the first lookup with its token; later plans look the places up without one
+            setValue('originSessionToken', undefined);
+            setValue('destinationSessionToken', undefined);
         }
     };
 
 
-   // Handler for waypoint checkbox changes
-   const handleWaypointChange = (checked: boolean | string, placeId: string) => {
-       setSelectedWaypoints(prev => {
+   // Handler for attraction checkbox changes: ticked attractions join the stop list
+   const handleWaypointChange = (checked: boolean | string, attraction: Attraction) => {
+       setStops(prev => {
            if (checked === true) {
-               return [...prev, placeId];
+               return [...prev, toEditableStop({ name: attraction.name, placeId: attraction.placeId, location: attraction.location })];
            } else {
-               return prev.filter(id => id !== placeId);
+               return prev.filter(stop => stop.placeId !== attraction.placeId);
            }
        });
        // Note: We don't trigger a full regeneration here. The user explicitly clicks "Update Route".
    };
 
 
-   // Helper to format duration
-    const formatDuration = (seconds: number): string => {
-        const hours = Math.floor(seconds / 3600);
-        const minutes = Math.floor((seconds % 3600) / 60);
-        let durationString = '';
-        if (hours > 0) durationString += `${hours} hr `;
-        if (minutes > 0 || hours === 0) durationString += `${minutes} min`;
-        return durationString.trim() || '0 min'; // Handle zero duration
-    };
+   // Add a stop where the user clicks the map (the parent routes the click here while picking is on)
+   const handlePickOnMapChange = (picking: boolean) => {
+       onPickStopOnMap?.(picking
+           ? location => setStops(prev => [...prev, toEditableStop({ name: 'Pinned location', location })])
+           : null);
+   };
 
-    // Helper to format distance
-    const formatDistance = (meters: number): string => {
-        if (meters < 1000) {
-            return `${Math.round(meters)} m`;
-        }
-        const kilometers = (meters / 1000).toFixed(1);
-        return `${kilometers} km`;
-    };
 
+   // Handler for picking one of the alternative routes
+   const handleRouteSelect = (index: number) => {
+       if (!tripPlan?.alternativeRoutes?.[index]) return;
+       setSelectedRouteIndex(index);
+       onPlanGenerated(withSelectedRoute(tripPlan, index)); // Show the chosen route on the map
+   };
+
+
+   // Handler for saving the current plan (with the chosen route) to the trip history
+   const handleSaveTrip = async () => {
+       if (!tripPlan) return;
+       const plan = withSelectedRoute(tripPlan, selectedRouteIndex);
+       const { departureTime, travelMode } = getValues();
+       setSavingTrip(true);
+       try {
+           const saved = await saveTrip({
+               originAddress: plan.originAddress,
+               destinationAddress: plan.destinationAddress,
+               departureTime: new Date(departureTime).toISOString(),
+               travelMode: plan.route.travelMode || travelMode,
+               waypoints: stops.map(({ id, ...stop }) => stop),
+               routeSummary: {
+                   distanceMeters: plan.route.distanceMeters,
+                   durationSeconds: plan.route.durationSeconds,
+                   summary: plan.route.summary,
+               },
+               reasoning: plan.reasoning,
+               plan,
+           });
+           setSavedTripId(saved.id);
+           toast({ title: "Trip Saved", description: `"${saved.name}" was added to your trip history.` });
+       } catch (err) {
+           console.error("Failed to save trip:", err);
+           toast({
+               variant: "destructive",
+               title: "Save Failed",
+               description: err instanceof Error ? err.message : "Could not save the trip.",
+           });
+       } finally {
+           setSavingTrip(false);
+       }
+   };
+
+
+  const displayedPlan = tripPlan ? withSelectedRoute(tripPlan, selectedRouteIndex) : null;
+  const displayedRoute = displayedPlan?.route ?? null;
+  const displayedItinerary = displayedPlan?.itinerary;
+
+  // Selected stops always stay visible; attractions without a known cost can't be judged, so they stay too
+  const maxDetourSeconds = maxDetour === 'any' ? null : Number(maxDetour) * 60;
+  const visibleAttractions = (tripPlan?.nearbyAttractions ?? []).filter(attraction => {
+      const detourSeconds = getDetourSeconds(attraction);
+      return maxDetourSeconds === null
+          || stops.some(stop => stop.placeId && stop.placeId === attraction.placeId)
+          || detourSeconds === undefined
+          || detourSeconds <= maxDetourSeconds;
+  });
+  const hiddenAttractionCount = (tripPlan?.nearbyAttractions?.length ?? 0) - visibleAttractions.length;
 
   return (
     <div className="space-y-4"> {/* Reduced overall spacing */}
@@ -301,17 +501,75 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
                Use Current Location
              </Button>
            </Label>
-           <Input id="originAddress" type="text" {...register('originAddress')} placeholder="e.g., San Francisco, CA" className="h-9 text-sm" />
+           <Controller
+             name="originAddress"
+             control={control}
+             render={({ field }) => (
+               <PlaceAutocompleteInput
+                 id="originAddress"
+                 value={field.value}
+                 onChange={text => {
+                   field.onChange(text);
+                   setValue('originPlaceId', undefined);
+                   setValue('originSessionToken', undefined);
+                 }}
+                 onPlaceSelect={(prediction, sessionToken) => {
+                   setValue('originAddress', prediction.description, { shouldValidate: true });
+                   setValue('originPlaceId', prediction.placeId);
+                   setValue('originSessionToken', sessionToken);
+                 }}
+                 placeholder="e.g., San Francisco, CA"
+               />
+             )}
+           />
            {errors.originAddress && <p className="text-destructive text-xs mt-1">{errors.originAddress.message}</p>}
          </div>
 
          {/* Destination Address Input */}
          <div>
             <Label htmlFor="destinationAddress" className="text-sm">Destination Address</Label>
-            <Input id="destinationAddress" type="text" {...register('destinationAddress')} placeholder="e.g., Los Angeles, CA" className="h-9 text-sm" />
+            <Controller
+              name="destinationAddress"
+              control={control}
+              render={({ field }) => (
+                <PlaceAutocompleteInput
+                  id="destinationAddress"
+                  value={field.value}
+                  onChange={text => {
+                    field.onChange(text);
+                    setValue('destinationPlaceId', undefined);
+                    setValue('destinationSessionToken', undefined);
+                  }}
+                  onPlaceSelect={(prediction, sessionToken) => {
+                    setValue('destinationAddress', prediction.description, { shouldValidate: true });
+                    setValue('destinationPlaceId', prediction.placeId);
+                    setValue('destinationSessionToken', sessionToken);
+                  }}
+                  placeholder="e.g., Los Angeles, CA"
+                />
+              )}
+            />
             {errors.destinationAddress && <p className="text-destructive text-xs mt-1">{errors.destinationAddress.message}</p>}
          </div>
 
+         {/* Stops between origin and destination (attractions can also be ticked in the plan below) */}
+         <div>
+            <Label htmlFor="addStop" className="text-sm">Stops (optional)</Label>
+            {selectedTravelMode === 'transit' ? (
+              <p className="text-xs text-muted-foreground">Transit routes can't include stops.</p>
+            ) : (
+              <StopListEditor
+                stops={stops}
+                onChange={setStops}
+                optimizeOrder={optimizeStopOrder}
+                onOptimizeOrderChange={setOptimizeStopOrder}
+                pickingOnMap={pickingStopOnMap}
+                onPickOnMapChange={onPickStopOnMap ? handlePickOnMapChange : undefined}
+                disabled={loadingPlan}
+              />
+            )}
+         </div>
+
          {/* Departure Time Input */}
         <div>
           <Label htmlFor="departureTime" className="text-sm">Desired Departure Time</Label>
@@ -319,17 +577,99 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
           {errors.departureTime && <p className="text-destructive text-xs mt-1">{errors.departureTime.message}</p>}
         </div>
 
+        {/* Travel Mode Selector */}
+        <div>
+          <Label htmlFor="travelMode" className="text-sm">Travel Mode</Label>
+          <Controller
+            name="travelMode"
+            control={control}
+            render={({ field }) => (
+              <Select value={field.value} onValueChange={field.onChange} disabled={loadingPlan}>
+                <SelectTrigger id="travelMode" className="h-9 text-sm">
+                  <SelectValue placeholder="Select travel mode" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRAVEL_MODE_OPTIONS.map(({ value, label, icon: Icon }) => (
+                    <SelectItem key={value} value={value}>
+                      <span className="flex items-center gap-2"><Icon className="w-4 h-4" /> {label}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+        </div>
+
+        {/* Route Priority Selector */}
+        <div>
+          <Label htmlFor="objective" className="text-sm">Route Priority</Label>
+          <Controller
+            name="objective"
+            control={control}
+            render={({ field }) => (
+              <Select value={field.value} onValueChange={field.onChange} disabled={loadingPlan}>
+                <SelectTrigger id="objective" className="h-9 text-sm">
+                  <SelectValue placeholder="Select route priority" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROUTE_OBJECTIVE_OPTIONS
+                    .filter(option => !option.drivingOnly || selectedTravelMode === 'driving')
+                    .map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+        </div>
+
+        {/* Route Restrictions */}
+        <div>
+          <Label className="text-sm">Avoid</Label>
+          <RouteRestrictions
+            avoid={avoid}
+            onAvoidChange={restrictions => onAvoidChange?.(restrictions)}
+            travelMode={selectedTravelMode}
+            avoidAreas={avoidAreas}
+            onAvoidAreasChange={areas => onAvoidAreasChange?.(areas)}
+            drawingArea={drawingAvoidArea}
+            onDrawArea={onDrawAvoidArea}
+            disabled={loadingPlan}
+          />
+        </div>
+
+        {/* Alternative Routes Toggle */}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="compareRoutes" className="text-sm">Compare alternative routes</Label>
+          <Controller
+            name="compareRoutes"
+            control={control}
+            render={({ field }) => (
+              <Switch id="compareRoutes" checked={field.value} onCheckedChange={field.onChange} disabled={loadingPlan} />
+            )}
+          />
+        </div>
+
+        {/* Which stops to suggest along the route */}
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">Suggested stops</Label>
+          <PlannerSettings value={searchPreferences} onChange={setSearchPreferences} disabled={loadingPlan} />
+        </div>
+
         {/* Submit Button for Initial Generation OR Update */}
-        {/* The text could change based on context (selectedWaypoints > 0) */}
-         <Button type="submit" disabled={loadingPlan || loadingLocation} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground h-9 text-sm">
+        {/* The text could change based on context (stops > 0) */}
+         {signInRequired && (
+            <p className="text-xs text-muted-foreground text-center">Sign in to generate trip plans.</p>
+         )}
+         <Button type="submit" disabled={loadingPlan || loadingLocation || signInRequired} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground h-9 text-sm">
             {loadingPlan ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-            ) : selectedWaypoints.length > 0 ? (
+            ) : stops.length > 0 ? (
                 <RouteIcon className="mr-2 h-4 w-4" />
             ) : (
                 <BrainCircuit className="mr-2 h-4 w-4" />
             )}
-            {selectedWaypoints.length > 0 ? `Update Route with Stops (${selectedWaypoints.length})` : 'Generate Smart Trip Plan'}
+            {stops.length > 0 ? `Update Route with Stops (${stops.length})` : 'Generate Smart Trip Plan'}
          </Button>
       </form>
 
@@ -339,7 +679,7 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
             <AlertTitle className="text-base font-semibold">Error</AlertTitle>
            <AlertDescription className="text-xs">{error}</AlertDescription>
             {/* Conditionally add a hint about checking API keys/settings */}
-           {(error.includes(SERVER_CONFIG_ERROR_MSG) || error.includes('API') || error.includes('denied') || error.includes('authorized') || error.includes('GOOGLE_MAPS_API_KEY') ) && (
+           {showApiKeyHint && (
                 <AlertDescription className="text-xs mt-2">
                     Please double-check your API key setup in <code className="bg-muted px-1 py-0.5 rounded text-xs font-mono">.env.local</code> and ensure the required APIs (Geocoding, Directions, Places) are enabled and authorized for the <code className="bg-muted px-1 py-0.5 rounded text-xs font-mono">GOOGLE_MAPS_API_KEY</code> in your Google Cloud Console. Remember to restart the development server after changes.
                 </AlertDescription>
@@ -354,6 +694,24 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
                 <CardHeader className="p-4"> {/* Reduced padding */}
                     <CardTitle className="flex items-center gap-2 text-primary text-lg"> {/* Reduced text size */}
                     <RouteIcon className="w-5 h-5" /> Suggested Trip Plan
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleSaveTrip}
+                        disabled={savingTrip || loadingPlan || savedTripId !== null || signInRequired}
+                        className="ml-auto h-auto p-1 text-xs text-accent hover:text-accent/90"
+                        title={savedTripId ? "Saved to your trip history" : "Save to your trip history"}
+                    >
+                        {savingTrip ? (
+                            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                        ) : savedTripId ? (
+                            <BookmarkCheck className="mr-1 h-3 w-3" />
+                        ) : (
+                            <Bookmark className="mr-1 h-3 w-3" />
+                        )}
+                        {savedTripId ? 'Saved' : 'Save Trip'}
+                    </Button>
                     </CardTitle>
                     <CardDescription className="text-xs">AI-powered recommendation.</CardDescription> {/* Reduced text size */}
                 </CardHeader>
@@ -370,10 +728,58 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
                          <CalendarDays className="w-4 h-4 text-accent flex-shrink-0"/>
                          <p><span className="font-semibold">Suggest Depart:</span> {format(parseISO(tripPlan.suggestedDepartureTime), 'MMM d, HH:mm')}</p>
                      </div>
+                     {/* Trip duration by departure time */}
+                     {tripPlan.departureCurve && tripPlan.departureCurve.length > 1 && (
+                         <div className="space-y-1">
+                             <p className="font-semibold flex items-center gap-2 text-sm"><Clock className="w-4 h-4 text-primary"/> Duration by Departure Time:</p>
+                             <DepartureChart curve={tripPlan.departureCurve} suggestedDepartureTime={tripPlan.suggestedDepartureTime} />
+                         </div>
+                     )}
                      <div className="flex items-center gap-2 text-sm">
                          <RouteIcon className="w-4 h-4 text-accent flex-shrink-0"/>
-                         <p><span className="font-semibold">Route:</span> {formatDistance(tripPlan.route.distanceMeters)}, ~{formatDuration(tripPlan.route.durationSeconds)}</p>
+                         <p><span className="font-semibold">Route:</span> {formatDistance(displayedRoute!.distanceMeters)}, ~{formatDuration(displayedRoute!.durationSeconds)} {TRAVEL_MODE_OPTIONS.find(option => option.value === (displayedRoute!.travelMode || 'driving'))?.label.toLowerCase()}</p>
                      </div>
+                     {tripPlan.routeRanking && (
+                         <p className="text-xs text-muted-foreground pl-6">
+                             <span className="font-semibold">{ROUTE_OBJECTIVE_OPTIONS.find(option => option.value === tripPlan.routeRanking.objective)?.label}:</span> {tripPlan.routeRanking.rationale}
+                         </p>
+                     )}
+                     {/* Schedule including time at stops */}
+                     {displayedItinerary && displayedItinerary.entries.some(entry => entry.kind === 'stop') && (
+                         <div className="space-y-1 pt-1">
+                             <p className="font-semibold flex items-center gap-2 text-sm"><Clock className="w-4 h-4 text-primary"/> Itinerary:</p>
+                             <TripItinerary itinerary={displayedItinerary} openingHoursWarnings={displayedPlan?.openingHoursWarnings} />
+                         </div>
+                     )}
+                     {/* Transit Rides */}
+                     {displayedRoute?.transitLegs && displayedRoute.transitLegs.length > 0 && (
+                         <div className="space-y-1 pt-1">
+                             <p className="font-semibold flex items-center gap-2 text-sm"><TrainFront className="w-4 h-4 text-primary"/> Transit Rides:</p>
+                             <ol className="space-y-1 bg-secondary p-2 rounded-md text-xs text-muted-foreground">
+                                 {displayedRoute.transitLegs.map((ride, index) => (
+                                     <li key={`${ride.lineName}-${index}`}>
+                                         <strong className="text-foreground">{ride.lineName}</strong> ({ride.vehicleType.toLowerCase().replace(/_/g, ' ')}){ride.headsign && <> toward {ride.headsign}</>}
+                                         <br />
+                                         {ride.departureStop}{ride.departureTime && <> ({format(parseISO(ride.departureTime), 'HH:mm')})</>} → {ride.arrivalStop}{ride.arrivalTime && <> ({format(parseISO(ride.arrivalTime), 'HH:mm')})</>}
+                                         {ride.numStops !== undefined && <span className="ml-1">· {ride.numStops} stops</span>}
+                                     </li>
+                                 ))}
+                             </ol>
+                         </div>
+                     )}
+                     {/* Alternative Routes Comparison */}
+                     {tripPlan.alternativeRoutes && tripPlan.alternativeRoutes.length > 1 && (
+                         <div className="space-y-2 pt-2">
+                             <p className="font-semibold flex items-center gap-2 text-sm"><RouteIcon className="w-4 h-4 text-primary"/> Route Options:</p>
+                             <RouteAlternatives
+                                routes={tripPlan.alternativeRoutes}
+                                selectedIndex={selectedRouteIndex}
+                                recommendedIndex={tripPlan.recommendedRouteIndex}
+                                onSelect={handleRouteSelect}
+                                disabled={loadingPlan}
+                             />
+                         </div>
+                     )}
                      <div className="flex items-center gap-2 text-sm">
                          <CloudSun className="w-4 h-4 text-accent flex-shrink-0"/>
                          {/* Display actual weather from plan */}
@@ -382,15 +788,29 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
                      {/* Attractions Section with Checkboxes */}
                      {tripPlan.nearbyAttractions && tripPlan.nearbyAttractions.length > 0 && (
                          <div className="space-y-2 pt-2">
-                             <p className="font-semibold flex items-center gap-2 text-sm"><Landmark className="w-4 h-4 text-primary"/> Attractions Nearby (Select stops):</p>
+                             <div className="flex items-center justify-between gap-2">
+                                 <p className="font-semibold flex items-center gap-2 text-sm"><Landmark className="w-4 h-4 text-primary"/> Attractions Nearby (Select stops):</p>
+                                 <Select value={maxDetour} onValueChange={setMaxDetour}>
+                                     <SelectTrigger className="h-7 w-[9.5rem] text-xs" aria-label="Maximum detour">
+                                         <SelectValue />
+                                     </SelectTrigger>
+                                     <SelectContent>
+                                         {MAX_DETOUR_OPTIONS.map(option => (
+                                             <SelectItem key={option} value={option} className="text-xs">
+                                                 {option === 'any' ? 'Any detour' : `Detour ≤ ${option} min`}
+                                             </SelectItem>
+                                         ))}
+                                     </SelectContent>
+                                 </Select>
+                             </div>
                              <div className="space-y-2 bg-secondary p-2 rounded-md">
-                                 {tripPlan.nearbyAttractions.map((attraction) => (
+                                 {visibleAttractions.map((attraction) => (
                                      <div key={attraction.placeId} className="flex items-start space-x-2">
                                          <Checkbox
                                             id={`waypoint-${attraction.placeId}`}
-                                            checked={selectedWaypoints.includes(attraction.placeId || '')}
-                                            onCheckedChange={(checked) => handleWaypointChange(checked, attraction.placeId || '')}
-                                            disabled={!attraction.placeId || loadingPlan} // Disable if no placeId or loading
+                                            checked={stops.some(stop => stop.placeId && stop.placeId === attraction.placeId)}
+                                            onCheckedChange={(checked) => handleWaypointChange(checked, attraction)}
+                                            disabled={!attraction.placeId || loadingPlan || displayedRoute?.travelMode === 'transit'} // Disable if no placeId, loading, or transit (no stops)
                                             className="mt-1"
                                          />
                                          <Label
@@ -399,10 +819,26 @@ export const TripPlanner: FC<TripPlannerProps> = ({ onPlanGenerated }) => {
                                          >
                                              <strong>{attraction.name}:</strong> {attraction.description}
                                              {attraction.rating && <span className="text-yellow-600 ml-1">({attraction.rating}★)</span>}
+                                             {attraction.detourCost ? (
+                                                 <span className="block font-medium text-foreground/80">
+                                                     +{formatDuration(attraction.detourCost.addedSeconds)} / +{formatDistance(attraction.detourCost.addedMeters)}
+                                                     {attraction.distanceFromRouteMeters !== undefined && <span className="font-normal text-muted-foreground/80"> · {formatDistance(attraction.distanceFromRouteMeters)} off route</span>}
+                                                 </span>
+                                             ) : attraction.distanceFromRouteMeters !== undefined && (
+                                                 <span className="block text-muted-foreground/80">
+                                                     {formatDistance(attraction.distanceFromRouteMeters)} off route
+                                                     {attraction.detourSeconds !== undefined && <> · ~{formatDuration(attraction.detourSeconds)} detour</>}
+                                                 </span>
+                                             )}
                                              {!attraction.placeId && <span className="text-destructive text-xs ml-1">(Cannot be added as stop)</span>}
                                          </Label>
                                      </div>
                                  ))}
+                                 {hiddenAttractionCount > 0 && (
+                                     <p className="text-xs text-muted-foreground italic">
+                                         {hiddenAttractionCount} attraction{hiddenAttractionCount > 1 ? 's' : ''} hidden (detour over {maxDetour} min).
+                                     </p>
+                                 )}
                              </div>
                              {/* Button to Update Route is now the main submit button when waypoints > 0 */}
                          </div>
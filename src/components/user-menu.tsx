@@ -0,0 +1,157 @@
+"use client";
+
+import { useState, type FC, type FormEvent } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { useAuth } from '@/components/auth-provider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, LogIn, LogOut } from 'lucide-react';
+
+// Friendly messages for the Firebase Auth errors users are likely to hit
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-credential': 'Incorrect email or password.',
+  'auth/invalid-email': 'Please enter a valid email address.',
+  'auth/user-disabled': 'This account has been disabled.',
+  'auth/email-already-in-use': 'An account with this email already exists. Sign in instead.',
+  'auth/weak-password': 'Password must be at least 6 characters.',
+  'auth/too-many-requests': 'Too many attempts. Please wait a moment and try again.',
+  'auth/popup-closed-by-user': 'Google sign-in was cancelled.',
+  'auth/popup-blocked': 'The sign-in popup was blocked by your browser. Allow popups for this site and try again.',
+  'auth/network-request-failed': 'Network error. Check your connection and try again.',
+};
+
+const getAuthErrorMessage = (error: unknown): string => {
+  if (error instanceof FirebaseError) {
+    return AUTH_ERROR_MESSAGES[error.code] || `Sign-in failed (${error.code}).`;
+  }
+  return error instanceof Error ? error.message : 'Sign-in failed.';
+};
+
+/**
+ * Header control: a sign-in dialog (email/password or Google) when signed out, or an account menu when signed in.
+ * Renders nothing when Firebase isn't configured.
+ */
+export const UserMenu: FC = () => {
+  const { user, loading, authEnabled, signInWithEmail, signUpWithEmail, signInWithGoogle, signOut } = useAuth();
+  const [open, setOpen] = useState<boolean>(false);
+  const [mode, setMode] = useState<'sign-in' | 'sign-up'>('sign-in');
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [displayName, setDisplayName] = useState<string>('');
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!authEnabled) return null;
+
+  if (loading) {
+    return <Loader2 className="h-5 w-5 animate-spin" aria-label="Checking sign-in" />;
+  }
+
+  // Runs a sign-in method, closing the dialog on success
+  const attempt = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await action();
+      setOpen(false);
+      setPassword('');
+    } catch (err) {
+      console.error('[Auth] Sign-in failed:', err);
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    attempt(() => (mode === 'sign-in' ? signInWithEmail(email, password) : signUpWithEmail(email, password, displayName.trim() || undefined)));
+  };
+
+  if (user) {
+    const label = user.displayName || user.email || 'Account';
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="rounded-full" aria-label="Account menu">
+            <Avatar className="h-8 w-8">
+              {user.photoURL && <AvatarImage src={user.photoURL} alt={label} />}
+              <AvatarFallback className="text-primary">{label.charAt(0).toUpperCase()}</AvatarFallback>
+            </Avatar>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel className="font-normal">
+            <p className="text-sm font-medium">{user.displayName || 'Signed in'}</p>
+            {user.email && <p className="text-xs text-muted-foreground">{user.email}</p>}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => signOut()}>
+            <LogOut className="mr-2 h-4 w-4" /> Sign out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); setError(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="secondary" size="sm">
+          <LogIn className="mr-2 h-4 w-4" /> Sign In
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{mode === 'sign-in' ? 'Sign in' : 'Create an account'}</DialogTitle>
+          <DialogDescription>Sign in to plan trips and keep your trip history.</DialogDescription>
+        </DialogHeader>
+        <Tabs value={mode} onValueChange={(value) => { setMode(value as 'sign-in' | 'sign-up'); setError(null); }}>
+          <TabsList className="w-full">
+            <TabsTrigger value="sign-in" className="flex-1">Sign in</TabsTrigger>
+            <TabsTrigger value="sign-up" className="flex-1">Create account</TabsTrigger>
+          </TabsList>
+          <TabsContent value="sign-up" className="mt-3">
+            <Label htmlFor="auth-display-name" className="text-sm">Name (optional)</Label>
+            <Input id="auth-display-name" value={displayName} onChange={event => setDisplayName(event.target.value)} autoComplete="name" className="h-9 text-sm" />
+          </TabsContent>
+        </Tabs>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <Label htmlFor="auth-email" className="text-sm">Email</Label>
+            <Input id="auth-email" type="email" required value={email} onChange={event => setEmail(event.target.value)} autoComplete="email" className="h-9 text-sm" />
+          </div>
+          <div>
+            <Label htmlFor="auth-password" className="text-sm">Password</Label>
+            <Input
+              id="auth-password"
+              type="password"
+              required
+              minLength={6}
+              value={password}
+              onChange={event => setPassword(event.target.value)}
+              autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+              className="h-9 text-sm"
+            />
+          </div>
+          {error && <p className="text-destructive text-xs">{error}</p>}
+          <Button type="submit" disabled={submitting} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground h-9 text-sm">
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {mode === 'sign-in' ? 'Sign in' : 'Create account'}
+          </Button>
+        </form>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="h-px flex-1 bg-border" /> or <span className="h-px flex-1 bg-border" />
+        </div>
+        <Button type="button" variant="outline" disabled={submitting} onClick={() => attempt(signInWithGoogle)} className="w-full h-9 text-sm">
+          Continue with Google
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,7 +3,9 @@
 
 import type { FC } from 'react';
 import { useState, useEffect, useCallback } from 'react';
-import { getWeatherForecast, type WeatherForecast, type Location } from '@/services/open-weather-map';
+import type { WeatherForecast, Location } from '@/services/open-weather-map';
+import { fetchWeatherForecast } from '@/services/weather';
+import { isServiceError, unwrapActionResult } from '@/lib/service-errors';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -11,12 +13,13 @@ import { Sun, Cloud, CloudRain, CloudSnow, Thermometer, Calendar, RefreshCcw, Lo
 import { format } from 'date-fns';
 import { Button } from '@/components/ui/button'; // Import Button
 import { useToast } from "@/hooks/use-toast"; // Import useToast
+import { useAuth } from '@/components/auth-provider';
 
 interface WeatherDisplayProps {
   initialLocation: Location;
 }
 
-const WeatherIcon: FC<{ conditions: string }> = ({ conditions }) => {
+export const WeatherIcon: FC<{ conditions: string }> = ({ conditions }) => {
   const lowerCaseConditions = conditions.toLowerCase();
   if (lowerCaseConditions.includes('clear') || lowerCaseConditions.includes('sunny')) {
     return <Sun className="w-6 h-6 text-yellow-500" />;
@@ -34,18 +37,40 @@ const WeatherIcon: FC<{ conditions: string }> = ({ conditions }) => {
 };
 
 
+/**
+ * What the user can do about a failed forecast, based on the error's code.
+ */
+const describeWeatherError = (err: unknown): string => {
+  if (isServiceError(err, 'AUTH_REQUIRED')) {
+    return 'Please sign in to see the weather.';
+  }
+  if (isServiceError(err, 'CONFIG_MISSING', 'REQUEST_DENIED')) {
+    return 'Check your API key configuration.';
+  }
+  if (isServiceError(err, 'QUOTA')) {
+    return 'The weather service usage limit was reached. Please try again later.';
+  }
+  if (isServiceError(err, 'NETWORK')) {
+    return 'The weather service could not be reached. Check your connection and try again.';
+  }
+  return 'Please try again later.';
+};
+
 export const WeatherDisplay: FC<WeatherDisplayProps> = ({ initialLocation }) => {
   const [weatherData, setWeatherData] = useState<WeatherForecast | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast(); // Initialize toast
+  const { user, loading: authLoading, authEnabled } = useAuth();
+  const signInRequired = authEnabled && !user; // The forecast comes from a server action that requires a signed-in user
+  const userId = user?.uid;
 
   const fetchWeather = useCallback(async (showToast = false) => {
     setLoading(true);
     setError(null);
     console.log("[WeatherDisplay] Fetching weather data...");
     try {
-      const data = await getWeatherForecast(initialLocation);
+      const data = unwrapActionResult(await fetchWeatherForecast(initialLocation));
       setWeatherData(data);
       if (showToast) {
         toast({
@@ -55,8 +80,7 @@ export const WeatherDisplay: FC<WeatherDisplayProps> = ({ initialLocation }) =>
       }
     } catch (err) {
       console.error("[WeatherDisplay] Failed to fetch weather data:", err);
-      const errorMessage = err instanceof Error ? err.message : "Could not fetch weather forecast.";
-      setError(`Could not fetch weather forecast. ${errorMessage === 'OpenWeatherMap API Error: Invalid API key. Please check your OPENWEATHERMAP_API_KEY.' ? 'Check your API key configuration.' : 'Please try again later.'}`);
+      setError(`Could not fetch weather forecast. ${describeWeatherError(err)}`);
        if (showToast) {
            toast({
                 variant: "destructive",
@@ -71,10 +95,17 @@ export const WeatherDisplay: FC<WeatherDisplayProps> = ({ initialLocation }) =>
   }, [initialLocation, toast, error]); // Include error in dependencies? Maybe not needed.
 
   useEffect(() => {
+    if (authLoading) return;
+    if (signInRequired) {
+      // Wait for a session (fetched again once someone signs in), and don't keep showing a signed-out user's forecast
+      setWeatherData(null);
+      setError(null);
+      return;
+    }
     fetchWeather(); // Fetch on initial load
     // No need to return cleanup unless initialLocation changes often,
     // which it probably doesn't in this component's lifecycle.
-  }, [fetchWeather]); // Depend on the memoized fetchWeather
+  }, [fetchWeather, authLoading, signInRequired, userId]); // Depend on the memoized fetchWeather and the signed-in user
 
   const handleRefresh = () => {
     fetchWeather(true); // Fetch again and show toast on completion/error
@@ -90,7 +121,7 @@ export const WeatherDisplay: FC<WeatherDisplayProps> = ({ initialLocation }) =>
              variant="ghost"
              size="icon"
              onClick={handleRefresh}
-             disabled={loading}
+             disabled={loading || signInRequired}
              className="text-muted-foreground hover:text-primary h-7 w-7"
              aria-label="Refresh Weather"
              title="Refresh Weather"
@@ -99,8 +130,12 @@ export const WeatherDisplay: FC<WeatherDisplayProps> = ({ initialLocation }) =>
          </Button>
        </div>
 
+      {signInRequired && !authLoading && (
+        <p className="text-muted-foreground text-center py-4">Sign in to see the weather forecast.</p>
+      )}
+
       {/* Loading Skeleton */}
-      {loading && !weatherData && ( // Show skeleton only on initial load
+      {loading && !weatherData && !(signInRequired && !authLoading) && ( // Show skeleton only on initial load
         <div className="space-y-4">
             <Skeleton className="h-8 w-3/4" />
             <Skeleton className="h-4 w-1/2" />
@@ -157,7 +192,7 @@ export const WeatherDisplay: FC<WeatherDisplayProps> = ({ initialLocation }) =>
       )}
 
        {/* Show "No data" only if not loading, no error, and no data */}
-       {!loading && !error && !weatherData && (
+       {!loading && !error && !weatherData && !signInRequired && (
             <p className="text-muted-foreground text-center py-4">No weather data available.</p>
        )}
     </div>
@@ -0,0 +1,109 @@
+"use client";
+
+// Module-level store for the active navigation session, following the same pattern as use-toast.
+import * as React from 'react';
+import type { JourneyOffset, JourneyProgress } from '@/lib/journey-progress';
+
+interface NavigationSession {
+  /**
+   * When the session started (epoch ms).
+   */
+  startedAt: number;
+  /**
+   * Progress carried over from routes replaced by rerouting.
+   */
+  offset: JourneyOffset;
+  /**
+   * The latest progress, or null before the first position fix.
+   */
+  progress: JourneyProgress | null;
+}
+
+interface State {
+  session: NavigationSession | null;
+}
+
+type Action =
+  | { type: 'START_SESSION'; startedAt: number }
+  | { type: 'STOP_SESSION' }
+  | { type: 'UPDATE_PROGRESS'; progress: JourneyProgress }
+  | { type: 'ROUTE_REPLACED' };
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case 'START_SESSION':
+      return {
+        session: { startedAt: action.startedAt, offset: { distanceMeters: 0, expectedSeconds: 0 }, progress: null },
+      };
+
+    case 'STOP_SESSION':
+      return { session: null };
+
+    case 'UPDATE_PROGRESS':
+      if (!state.session) return state;
+      return { session: { ...state.session, progress: action.progress } };
+
+    case 'ROUTE_REPLACED': {
+      // Fold what was covered on the old route into the offset, so totals survive rerouting
+      if (!state.session) return state;
+      const { offset, progress } = state.session;
+      return {
+        session: {
+          ...state.session,
+          offset: progress
+            ? {
+                distanceMeters: offset.distanceMeters + progress.distanceTravelledOnRouteMeters,
+                expectedSeconds: offset.expectedSeconds + progress.expectedElapsedOnRouteSeconds,
+              }
+            : offset,
+        },
+      };
+    }
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { session: null };
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+/**
+ * Reads the current navigation state without subscribing (for use outside render).
+ */
+function getNavigationSession(): NavigationSession | null {
+  return memoryState.session;
+}
+
+const navigationStore = {
+  startSession: (startedAt: number = Date.now()) => dispatch({ type: 'START_SESSION', startedAt }),
+  stopSession: () => dispatch({ type: 'STOP_SESSION' }),
+  updateProgress: (progress: JourneyProgress) => dispatch({ type: 'UPDATE_PROGRESS', progress }),
+  routeReplaced: () => dispatch({ type: 'ROUTE_REPLACED' }),
+};
+
+function useNavigationStore() {
+  const [state, setState] = React.useState<State>(memoryState);
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  return {
+    ...state,
+    ...navigationStore,
+  };
+}
+
+export { useNavigationStore, navigationStore, getNavigationSession };
@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import type { Coordinate, Route } from '@/services/google-maps';
+import {
+  buildNavigationPlan,
+  createNavigationState,
+  updateNavigationState,
+  type NavigationPlan,
+  type NavigationState,
+} from '@/lib/navigation-engine';
+
+/**
+ * Runs the turn-by-turn navigation engine for a route, feeding it each live position.
+ * The state resets whenever the route changes or navigation starts/stops.
+ *
+ * @param route The route being navigated.
+ * @param position The latest live position, or null before the first fix.
+ * @param isNavigating Whether a navigation session is active.
+ * @returns The navigation plan (null if the route has no step data) and the current state (null when not navigating).
+ */
+export function useNavigation(
+  route: Route | null | undefined,
+  position: Coordinate | null,
+  isNavigating: boolean
+): { plan: NavigationPlan | null; state: NavigationState | null } {
+  const plan = useMemo(() => (route ? buildNavigationPlan(route) : null), [route]);
+  const [state, setState] = useState<NavigationState | null>(null);
+
+  useEffect(() => {
+    setState(plan && isNavigating ? createNavigationState(plan) : null);
+  }, [plan, isNavigating]);
+
+  useEffect(() => {
+    if (!plan || !position || !isNavigating) return;
+    setState(previous => updateNavigationState(plan, previous ?? createNavigationState(plan), position));
+  }, [plan, position, isNavigating]);
+
+  return { plan, state };
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Coordinate, Route, RouteRestriction } from '@/services/google-maps';
+import { recomputeRoute } from '@/services/rerouting';
+import { unwrapActionResult } from '@/lib/service-errors';
+import { cumulativePathDistances } from '@/lib/geo';
+import {
+  DEFAULT_DEVIATION_OPTIONS,
+  INITIAL_DEVIATION_STATE,
+  updateDeviationState,
+  type DeviationOptions,
+  type DeviationState,
+} from '@/lib/deviation-detector';
+
+// After a failed reroute, wait this long before trying again
+const REROUTE_RETRY_DELAY_MS = 30000;
+
+interface UseReroutingParams {
+  route: Route | null | undefined;
+  position: Coordinate | null;
+  isNavigating: boolean;
+  currentLegIndex: number; // The leg being travelled, so already-visited stops are skipped
+  onRerouted: (route: Route) => void;
+  avoid?: RouteRestriction[]; // Road features the new route should avoid, as chosen in the planner
+  avoidAreas?: Coordinate[][]; // Areas the new route must not pass through
+  options?: DeviationOptions;
+}
+
+/**
+ * Watches the live position for deviations from the route and, once the user has been off the route
+ * for longer than the configured distance and time, recomputes the route from the current position
+ * to the remaining stops and destination, keeping to the same restrictions and avoid areas as the planned route.
+ *
+ * @returns The latest deviation state, whether a reroute is in progress, and the last reroute error.
+ */
+export function useRerouting({
+  route,
+  position,
+  isNavigating,
+  currentLegIndex,
+  onRerouted,
+  avoid = [],
+  avoidAreas = [],
+  options = DEFAULT_DEVIATION_OPTIONS,
+}: UseReroutingParams): { deviation: DeviationState; isRerouting: boolean; error: string | null } {
+  const cumulative = useMemo(() => (route ? cumulativePathDistances(route.path) : []), [route]);
+  const [deviation, setDeviation] = useState<DeviationState>(INITIAL_DEVIATION_STATE);
+  const [isRerouting, setIsRerouting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const reroutingRef = useRef<boolean>(false); // Guards against overlapping requests between renders
+  const lastFailureRef = useRef<number>(0);
+  const deviationRef = useRef<DeviationState>(INITIAL_DEVIATION_STATE); // The previous state, read when the next position arrives
+  // Keep the latest inputs in a ref so the check below runs once per position, not on every new route or callback identity
+  const latestRef = useRef({ route, cumulative, isNavigating, currentLegIndex, onRerouted, avoid, avoidAreas, options });
+  latestRef.current = { route, cumulative, isNavigating, currentLegIndex, onRerouted, avoid, avoidAreas, options };
+
+  // Start fresh whenever the route changes or navigation starts/stops
+  useEffect(() => {
+    deviationRef.current = INITIAL_DEVIATION_STATE;
+    setDeviation(INITIAL_DEVIATION_STATE);
+    setError(null);
+  }, [route, isNavigating]);
+
+  useEffect(() => {
+    const { route, cumulative, isNavigating, currentLegIndex, avoid, avoidAreas, options } = latestRef.current;
+    if (!route || !position || !isNavigating || route.path.length === 0) return;
+
+    const now = Date.now();
+    const next = updateDeviationState(route.path, cumulative, deviationRef.current, position, now, options);
+    deviationRef.current = next;
+    setDeviation(next);
+
+    if (!next.isOffRoute || reroutingRef.current || now - lastFailureRef.current < REROUTE_RETRY_DELAY_MS) return;
+
+    // Remaining stops are the ends of the legs still ahead, except the final leg (the destination)
+    const legs = route.legs || [];
+    const destination = legs.length > 0 ? legs[legs.length - 1].endLocation : route.path[route.path.length - 1];
+    const remainingWaypoints = legs.slice(Math.max(0, currentLegIndex), -1).map(leg => leg.endLocation);
+
+    console.log(`[Rerouting] Off route by ${Math.round(next.distanceFromRouteMeters)} m; recomputing route.`);
+    reroutingRef.current = true;
+    setIsRerouting(true);
+    recomputeRoute(position, destination, remainingWaypoints, route.travelMode, avoid, avoidAreas)
+      .then(unwrapActionResult)
+      .then((newRoute) => {
+        setError(null);
+        latestRef.current.onRerouted(newRoute);
+      })
+      .catch((err) => {
+        console.error('[Rerouting] Failed to recompute route:', err);
+        lastFailureRef.current = Date.now();
+        setError(err instanceof Error ? err.message : 'Could not recompute the route.');
+      })
+      .finally(() => {
+        reroutingRef.current = false;
+        setIsRerouting(false);
+      });
+  }, [position]);
+
+  return { deviation, isRerouting, error };
+}
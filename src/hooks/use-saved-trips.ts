@@ -0,0 +1,186 @@
+"use client";
+
+// Module-level store for the user's saved trips, following the same pattern as use-toast,
+// so the planner's save button and the history sidebar share one list.
+import * as React from 'react';
+import { getTripRepository, type NewSavedTrip, type SavedTrip } from '@/services/trip-repository';
+import { useAuth } from '@/components/auth-provider';
+
+const LOCAL_USER_ID_KEY = 'urbanflow-local-user-id';
+
+interface State {
+  trips: SavedTrip[];
+  loading: boolean;
+  error: string | null;
+  /**
+   * The user whose trips are loaded, or null before the first load.
+   */
+  loadedFor: string | null;
+}
+
+type Action =
+  | { type: 'CLEAR' }
+  | { type: 'LOAD_START' }
+  | { type: 'LOAD_SUCCESS'; userId: string; trips: SavedTrip[] }
+  | { type: 'LOAD_FAILURE'; error: string }
+  | { type: 'ADD_TRIP'; trip: SavedTrip }
+  | { type: 'UPDATE_TRIP'; tripId: string; changes: Partial<SavedTrip> }
+  | { type: 'REMOVE_TRIP'; tripId: string };
+
+export const reducer = (state: State, action: Action): State => {
+  switch (action.type) {
+    case 'CLEAR':
+      return { trips: [], loading: false, error: null, loadedFor: null };
+
+    case 'LOAD_START':
+      return { ...state, loading: true, error: null };
+
+    case 'LOAD_SUCCESS':
+      return { trips: action.trips, loading: false, error: null, loadedFor: action.userId };
+
+    case 'LOAD_FAILURE':
+      return { ...state, loading: false, error: action.error };
+
+    case 'ADD_TRIP':
+      return { ...state, trips: [action.trip, ...state.trips] };
+
+    case 'UPDATE_TRIP':
+      return {
+        ...state,
+        trips: state.trips.map(trip => (trip.id === action.tripId ? { ...trip, ...action.changes } : trip)),
+      };
+
+    case 'REMOVE_TRIP':
+      return { ...state, trips: state.trips.filter(trip => trip.id !== action.tripId) };
+  }
+};
+
+const listeners: Array<(state: State) => void> = [];
+
+let memoryState: State = { trips: [], loading: false, error: null, loadedFor: null };
+
+// The user whose trips are shown, or null when signed out
+let ownerId: string | null = null;
+
+function dispatch(action: Action) {
+  memoryState = reducer(memoryState, action);
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+/**
+ * Returns a stable ID for this browser, used as the trip owner when Firebase Auth isn't configured.
+ */
+function getLocalUserId(): string {
+  let id = localStorage.getItem(LOCAL_USER_ID_KEY);
+  if (!id) {
+    id = `local-${crypto.randomUUID()}`;
+    localStorage.setItem(LOCAL_USER_ID_KEY, id);
+  }
+  return id;
+}
+
+/**
+ * Returns the current trip owner.
+ * @throws {Error} If nobody is signed in.
+ */
+function requireOwnerId(): string {
+  if (!ownerId) {
+    throw new Error('Please sign in to save and manage trips.');
+  }
+  return ownerId;
+}
+
+/**
+ * Loads the current user's trips from the repository.
+ */
+async function refreshTrips(): Promise<void> {
+  const userId = ownerId;
+  if (!userId) {
+    dispatch({ type: 'CLEAR' });
+    return;
+  }
+  dispatch({ type: 'LOAD_START' });
+  try {
+    const trips = await getTripRepository().list(userId);
+    if (userId !== ownerId) return; // The user changed while loading
+    dispatch({ type: 'LOAD_SUCCESS', userId, trips });
+  } catch (error) {
+    console.error('[Saved Trips] Failed to load trips:', error);
+    dispatch({ type: 'LOAD_FAILURE', error: error instanceof Error ? error.message : 'Could not load saved trips.' });
+  }
+}
+
+/**
+ * Saves a trip for the current user.
+ * @throws {Error} If the repository rejects the save.
+ */
+async function saveTrip(trip: NewSavedTrip): Promise<SavedTrip> {
+  const saved = await getTripRepository().save(requireOwnerId(), trip);
+  dispatch({ type: 'ADD_TRIP', trip: saved });
+  return saved;
+}
+
+/**
+ * Renames one of the current user's trips.
+ * @throws {Error} If the trip doesn't exist or the update fails.
+ */
+async function renameTrip(tripId: string, name: string): Promise<void> {
+  await getTripRepository().rename(requireOwnerId(), tripId, name);
+  dispatch({ type: 'UPDATE_TRIP', tripId, changes: { name } });
+}
+
+/**
+ * Marks or unmarks one of the current user's trips as a favorite.
+ * @throws {Error} If the trip doesn't exist or the update fails.
+ */
+async function setTripFavorite(tripId: string, favorite: boolean): Promise<void> {
+  await getTripRepository().setFavorite(requireOwnerId(), tripId, favorite);
+  dispatch({ type: 'UPDATE_TRIP', tripId, changes: { favorite } });
+}
+
+/**
+ * Deletes one of the current user's trips.
+ * @throws {Error} If the delete fails.
+ */
+async function deleteTrip(tripId: string): Promise<void> {
+  await getTripRepository().delete(requireOwnerId(), tripId);
+  dispatch({ type: 'REMOVE_TRIP', tripId });
+}
+
+function useSavedTrips() {
+  const [state, setState] = React.useState<State>(memoryState);
+  const { user, loading: authLoading, authEnabled } = useAuth();
+
+  React.useEffect(() => {
+    listeners.push(setState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, [state]);
+
+  // Load the signed-in user's trips, and swap lists when the user changes
+  React.useEffect(() => {
+    if (authLoading) return;
+    const nextOwnerId = authEnabled ? user?.uid ?? null : getLocalUserId();
+    if (nextOwnerId !== ownerId || (nextOwnerId !== null && memoryState.loadedFor === null && !memoryState.loading)) {
+      ownerId = nextOwnerId;
+      refreshTrips();
+    }
+  }, [user, authLoading, authEnabled]);
+
+  return {
+    ...state,
+    refreshTrips,
+    saveTrip,
+    renameTrip,
+    setTripFavorite,
+    deleteTrip,
+  };
+}
+
+export { useSavedTrips };
@@ -0,0 +1,26 @@
+/**
+ * Runs once when the Next.js server starts.
+ * With FIXTURE_MODE set, external service calls are served from or recorded into the fixtures directory (see src/services/fixtures.ts).
+ * With RESPONSE_CACHE=redis, the response cache is connected to the Redis-compatible server at REDIS_URL (see src/services/response-cache.ts).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  if (process.env.FIXTURE_MODE) {
+    const { installFixtureFetch } = await import('@/services/fixtures');
+    installFixtureFetch();
+  }
+
+  if (process.env.RESPONSE_CACHE?.trim().toLowerCase() === 'redis') {
+    const { connectRedisCacheStore } = await import('@/services/cache-stores/redis');
+    const { setResponseCacheStore } = await import('@/services/response-cache');
+    const url = process.env.REDIS_URL || 'redis://localhost:6379';
+    const server = url.replace(/\/\/[^@/]*@/, '//'); // Keep any password out of the log
+    try {
+      setResponseCacheStore(await connectRedisCacheStore(url));
+      console.log(`[Response Cache] Caching responses (redis store at ${server}).`);
+    } catch (error) {
+      console.error(`[Response Cache] Could not connect to Redis at ${server}; using the memory store instead.`, error);
+    }
+  }
+}
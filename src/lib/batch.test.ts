@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { mapInBatches } from '@/lib/batch';
+
+describe('mapInBatches', () => {
+  it('keeps the input order with at most `limit` calls in flight', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    const double = async (value: number) => {
+      inFlight += 1;
+      mostInFlight = Math.max(mostInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, (5 - value) * 2)); // Later items finish first
+      inFlight -= 1;
+      return value * 2;
+    };
+
+    await expect(mapInBatches([1, 2, 3, 4, 5], 2, double)).resolves.toEqual([2, 4, 6, 8, 10]);
+    expect(mostInFlight).toBe(2);
+  });
+
+  it('rejects with the first failure', async () => {
+    const fail = async (value: number) => {
+      if (value === 2) throw new Error('denied');
+      return value;
+    };
+
+    await expect(mapInBatches([1, 2, 3], 2, fail)).rejects.toThrow('denied');
+  });
+});
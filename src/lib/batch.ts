@@ -0,0 +1,19 @@
+// Requests in flight at once when one lookup fans out to many, to stay well clear of per-second rate limits
+export const MAX_CONCURRENT_REQUESTS = 4;
+
+/**
+ * Maps items through an async function in batches of `limit`: each batch starts once the previous one has settled.
+ * The first rejection rejects the whole map (after its batch settles); catch inside `fn` to skip an item instead.
+ *
+ * @param items The items to map.
+ * @param limit The most calls in flight at once.
+ * @param fn Maps one item.
+ * @returns A promise that resolves to the results, in the same order as the items.
+ */
+export async function mapInBatches<T, R>(items: readonly T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += limit) {
+    results.push(...await Promise.all(items.slice(i, i + limit).map(fn)));
+  }
+  return results;
+}
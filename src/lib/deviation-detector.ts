@@ -0,0 +1,80 @@
+import type { Coordinate } from '@/services/google-maps';
+import { projectOntoPath } from '@/lib/geo';
+
+/**
+ * Thresholds for deciding that the user has left the route.
+ */
+export interface DeviationOptions {
+  /**
+   * How far from the route (perpendicular distance) counts as off-route, in meters.
+   */
+  thresholdMeters: number;
+  /**
+   * How long the user must stay beyond the threshold before rerouting, in milliseconds.
+   * Filters out GPS jitter and brief excursions (e.g., a parking lot).
+   */
+  minDurationMs: number;
+}
+
+export const DEFAULT_DEVIATION_OPTIONS: DeviationOptions = {
+  thresholdMeters: 50,
+  minDurationMs: 10000,
+};
+
+/**
+ * The detector state, updated on every position fix.
+ */
+export interface DeviationState {
+  /**
+   * The perpendicular distance from the last position to the route, in meters.
+   */
+  distanceFromRouteMeters: number;
+  /**
+   * When the user first went beyond the threshold (epoch ms), or null while on the route.
+   */
+  offRouteSince: number | null;
+  /**
+   * Whether the user has been beyond the threshold for at least `minDurationMs`.
+   */
+  isOffRoute: boolean;
+}
+
+export const INITIAL_DEVIATION_STATE: DeviationState = {
+  distanceFromRouteMeters: 0,
+  offRouteSince: null,
+  isOffRoute: false,
+};
+
+/**
+ * Measures how far a position is from the route polyline and tracks how long it has been too far.
+ *
+ * @param path The route path.
+ * @param cumulative The output of `cumulativePathDistances(path)`.
+ * @param state The previous detector state.
+ * @param position The new raw position.
+ * @param now The time of the fix (epoch ms).
+ * @param options The distance/time thresholds.
+ * @returns The updated detector state.
+ */
+export function updateDeviationState(
+  path: Coordinate[],
+  cumulative: number[],
+  state: DeviationState,
+  position: Coordinate,
+  now: number,
+  options: DeviationOptions = DEFAULT_DEVIATION_OPTIONS
+): DeviationState {
+  if (path.length === 0) return state;
+
+  const { distanceFromPathMeters } = projectOntoPath(position, path, cumulative);
+  if (distanceFromPathMeters <= options.thresholdMeters) {
+    return { distanceFromRouteMeters: distanceFromPathMeters, offRouteSince: null, isOffRoute: false };
+  }
+
+  const offRouteSince = state.offRouteSince ?? now;
+  return {
+    distanceFromRouteMeters: distanceFromPathMeters,
+    offRouteSince,
+    isOffRoute: now - offRouteSince >= options.minDurationMs,
+  };
+}
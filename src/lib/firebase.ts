@@ -0,0 +1,81 @@
+import { getApp, getApps, initializeApp, type FirebaseApp, type FirebaseOptions } from 'firebase/app';
+import { connectAuthEmulator, getAuth, type Auth } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore, type Firestore } from 'firebase/firestore';
+
+// Public web config for the Firebase project. These values identify the project and are safe to expose;
+// access is controlled by Firebase Security Rules.
+const firebaseConfig: FirebaseOptions = {
+  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
+  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+};
+
+// Emulator hosts (e.g., "127.0.0.1:9099"). When set, the app talks to the local Firebase Emulator Suite instead of production.
+const AUTH_EMULATOR_HOST = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+const FIRESTORE_EMULATOR_HOST = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+
+/**
+ * Name of the cookie carrying the signed-in user's Firebase ID token to server actions.
+ * Firebase Hosting only forwards a cookie with this name to the backend.
+ */
+export const AUTH_SESSION_COOKIE = '__session';
+
+/**
+ * Whether enough Firebase config is present to initialize the app.
+ */
+export function isFirebaseConfigured(): boolean {
+  return Boolean(firebaseConfig.apiKey && firebaseConfig.projectId && firebaseConfig.appId);
+}
+
+/**
+ * Returns the shared Firebase app, initializing it on first use.
+ *
+ * @returns The Firebase app.
+ * @throws {Error} If the NEXT_PUBLIC_FIREBASE_* environment variables are missing.
+ */
+export function getFirebaseApp(): FirebaseApp {
+  if (!isFirebaseConfigured()) {
+    throw new Error('Firebase Configuration Error: NEXT_PUBLIC_FIREBASE_API_KEY, NEXT_PUBLIC_FIREBASE_PROJECT_ID and NEXT_PUBLIC_FIREBASE_APP_ID must be set.');
+  }
+  // Reuse the existing app across hot reloads
+  return getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
+}
+
+let auth: Auth | null = null;
+let firestore: Firestore | null = null;
+
+/**
+ * Returns the shared Firebase Auth instance, connected to the Auth emulator if one is configured.
+ *
+ * @throws {Error} If Firebase is not configured (see `getFirebaseApp`).
+ */
+export function getFirebaseAuth(): Auth {
+  if (!auth) {
+    auth = getAuth(getFirebaseApp());
+    if (AUTH_EMULATOR_HOST) {
+      console.log(`[Firebase] Using the Auth emulator at ${AUTH_EMULATOR_HOST}.`);
+      connectAuthEmulator(auth, `http://${AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+    }
+  }
+  return auth;
+}
+
+/**
+ * Returns the shared Firestore instance, connected to the Firestore emulator if one is configured.
+ *
+ * @throws {Error} If Firebase is not configured (see `getFirebaseApp`).
+ */
+export function getFirebaseFirestore(): Firestore {
+  if (!firestore) {
+    firestore = getFirestore(getFirebaseApp());
+    if (FIRESTORE_EMULATOR_HOST) {
+      const [host, port] = FIRESTORE_EMULATOR_HOST.split(':');
+      console.log(`[Firebase] Using the Firestore emulator at ${FIRESTORE_EMULATOR_HOST}.`);
+      connectFirestoreEmulator(firestore, host, Number(port));
+    }
+  }
+  return firestore;
+}
@@ -0,0 +1,22 @@
+/**
+ * How calls to external services (maps, weather, the AI model) are served:
+ * - 'live': straight to the real services (the default).
+ * - 'mock': from recorded responses in the fixtures directory; nothing leaves the machine and no API keys are needed.
+ * - 'record': from the real services, saving every response as a fixture for later mock runs.
+ */
+export type FixtureMode = 'live' | 'mock' | 'record';
+
+/**
+ * Reads the fixture mode from FIXTURE_MODE. Unknown values mean 'live'.
+ */
+export function getFixtureMode(): FixtureMode {
+  const configured = process.env.FIXTURE_MODE?.trim().toLowerCase();
+  return configured === 'mock' || configured === 'record' ? configured : 'live';
+}
+
+/**
+ * Whether responses come from fixtures, so missing API keys are not an error.
+ */
+export function isMockMode(): boolean {
+  return getFixtureMode() === 'mock';
+}
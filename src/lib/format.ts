@@ -0,0 +1,22 @@
+/**
+ * Formats a duration in seconds as a short human-readable string (e.g., "1 hr 5 min").
+ */
+export const formatDuration = (seconds: number): string => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    let durationString = '';
+    if (hours > 0) durationString += `${hours} hr `;
+    if (minutes > 0 || hours === 0) durationString += `${minutes} min`;
+    return durationString.trim() || '0 min'; // Handle zero duration
+};
+
+/**
+ * Formats a distance in meters as meters below 1 km, otherwise kilometers with one decimal (e.g., "12.3 km").
+ */
+export const formatDistance = (meters: number): string => {
+    if (meters < 1000) {
+        return `${Math.round(meters)} m`;
+    }
+    const kilometers = (meters / 1000).toFixed(1);
+    return `${kilometers} km`;
+};
@@ -0,0 +1,242 @@
+import type { Coordinate, Route } from '@/services/google-maps';
+
+const EARTH_RADIUS_METERS = 6371e3;
+
+/**
+ * Great-circle distance between two coordinates using the Haversine formula.
+ *
+ * @param a The first coordinate.
+ * @param b The second coordinate.
+ * @returns The distance in meters.
+ */
+export function haversineDistanceMeters(a: Coordinate, b: Coordinate): number {
+  const phi1 = a.lat * Math.PI / 180;
+  const phi2 = b.lat * Math.PI / 180;
+  const deltaPhi = (b.lat - a.lat) * Math.PI / 180;
+  const deltaLambda = (b.lng - a.lng) * Math.PI / 180;
+
+  const h = Math.sin(deltaPhi / 2) * Math.sin(deltaPhi / 2) +
+            Math.cos(phi1) * Math.cos(phi2) *
+            Math.sin(deltaLambda / 2) * Math.sin(deltaLambda / 2);
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Computes the running distance from the start of a path to each of its vertices.
+ *
+ * @param path The polyline vertices.
+ * @returns An array the same length as `path`; entry `i` is the distance in meters from `path[0]` to `path[i]`.
+ */
+export function cumulativePathDistances(path: Coordinate[]): number[] {
+  const distances: number[] = [];
+  path.forEach((point, index) => {
+    distances.push(index === 0 ? 0 : distances[index - 1] + haversineDistanceMeters(path[index - 1], point));
+  });
+  return distances;
+}
+
+/**
+ * Finds the point a given distance along a path, interpolating linearly within the segment it falls on.
+ *
+ * @param path The polyline vertices.
+ * @param cumulative The output of `cumulativePathDistances(path)`.
+ * @param distanceMeters The distance from the start of the path. Clamped to the path length.
+ * @returns The interpolated coordinate.
+ */
+export function interpolateAlongPath(path: Coordinate[], cumulative: number[], distanceMeters: number): Coordinate {
+  if (path.length === 0) {
+    throw new Error('Cannot interpolate along an empty path.');
+  }
+  if (distanceMeters <= 0) return path[0];
+  const total = cumulative[cumulative.length - 1];
+  if (distanceMeters >= total) return path[path.length - 1];
+
+  // Find the segment that contains the target distance
+  let index = 1;
+  while (index < cumulative.length - 1 && cumulative[index] < distanceMeters) {
+    index++;
+  }
+  const segmentStart = cumulative[index - 1];
+  const segmentLength = cumulative[index] - segmentStart;
+  const fraction = segmentLength > 0 ? (distanceMeters - segmentStart) / segmentLength : 0;
+  const from = path[index - 1];
+  const to = path[index];
+  return {
+    lat: from.lat + (to.lat - from.lat) * fraction,
+    lng: from.lng + (to.lng - from.lng) * fraction,
+  };
+}
+
+/**
+ * Result of projecting a point onto a path.
+ */
+export interface PathProjection {
+  /**
+   * The closest point on the path.
+   */
+  point: Coordinate;
+  /**
+   * The distance from the start of the path to the projected point, in meters.
+   */
+  distanceAlongPathMeters: number;
+  /**
+   * The perpendicular distance from the original point to the path, in meters.
+   */
+  distanceFromPathMeters: number;
+  /**
+   * The index of the segment (`path[i]` → `path[i + 1]`) containing the projected point.
+   */
+  segmentIndex: number;
+}
+
+/**
+ * Projects a point onto the closest segment of a path.
+ * Segments are treated as straight lines in a local flat (equirectangular) approximation,
+ * which is accurate for the short segments of a decoded route polyline.
+ *
+ * @param point The point to project (e.g., the user's live position).
+ * @param path The polyline vertices.
+ * @param cumulative The output of `cumulativePathDistances(path)`.
+ * @param fromSegment The first segment index to consider (defaults to 0).
+ * @param toSegment The last segment index to consider (defaults to the last segment).
+ * @returns The projection onto the closest segment within the range.
+ */
+export function projectOntoPath(
+  point: Coordinate,
+  path: Coordinate[],
+  cumulative: number[],
+  fromSegment: number = 0,
+  toSegment: number = path.length - 2
+): PathProjection {
+  if (path.length === 0) {
+    throw new Error('Cannot project onto an empty path.');
+  }
+  if (path.length === 1) {
+    return { point: path[0], distanceAlongPathMeters: 0, distanceFromPathMeters: haversineDistanceMeters(point, path[0]), segmentIndex: 0 };
+  }
+
+  const first = Math.max(0, fromSegment);
+  const last = Math.min(path.length - 2, toSegment);
+  let best: PathProjection | null = null;
+
+  for (let i = first; i <= last; i++) {
+    const from = path[i];
+    const to = path[i + 1];
+    // Local planar coordinates in meters, relative to the segment start
+    const metersPerDegreeLat = Math.PI * EARTH_RADIUS_METERS / 180;
+    const metersPerDegreeLng = metersPerDegreeLat * Math.cos(from.lat * Math.PI / 180);
+    const segX = (to.lng - from.lng) * metersPerDegreeLng;
+    const segY = (to.lat - from.lat) * metersPerDegreeLat;
+    const ptX = (point.lng - from.lng) * metersPerDegreeLng;
+    const ptY = (point.lat - from.lat) * metersPerDegreeLat;
+    const segLengthSquared = segX * segX + segY * segY;
+    const t = segLengthSquared > 0 ? Math.min(1, Math.max(0, (ptX * segX + ptY * segY) / segLengthSquared)) : 0;
+
+    const projected: Coordinate = {
+      lat: from.lat + (to.lat - from.lat) * t,
+      lng: from.lng + (to.lng - from.lng) * t,
+    };
+    const distanceFromPathMeters = haversineDistanceMeters(point, projected);
+    if (!best || distanceFromPathMeters < best.distanceFromPathMeters) {
+      best = {
+        point: projected,
+        distanceAlongPathMeters: cumulative[i] + (cumulative[i + 1] - cumulative[i]) * t,
+        distanceFromPathMeters,
+        segmentIndex: i,
+      };
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * Checks whether a point lies inside a polygon (ray casting on raw lat/lng, which is accurate enough for areas
+ * a few tens of kilometers across that don't straddle the antimeridian).
+ *
+ * @param point The point to test.
+ * @param polygon The polygon's vertices in order; the closing edge back to the first vertex is implied.
+ * @returns True if the point is inside the polygon.
+ */
+export function isPointInPolygon(point: Coordinate, polygon: Coordinate[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat)
+      && point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Which side of the line a→b the point c is on (positive: left, negative: right, zero: on the line)
+const orientation = (a: Coordinate, b: Coordinate, c: Coordinate): number =>
+  (b.lng - a.lng) * (c.lat - a.lat) - (b.lat - a.lat) * (c.lng - a.lng);
+
+// Whether c, known to be on the line through a and b, lies between them
+const isWithinSegment = (a: Coordinate, b: Coordinate, c: Coordinate): boolean =>
+  Math.min(a.lat, b.lat) <= c.lat && c.lat <= Math.max(a.lat, b.lat)
+  && Math.min(a.lng, b.lng) <= c.lng && c.lng <= Math.max(a.lng, b.lng);
+
+// Whether segments p1→p2 and q1→q2 cross (touching counts)
+const segmentsIntersect = (p1: Coordinate, p2: Coordinate, q1: Coordinate, q2: Coordinate): boolean => {
+  const d1 = orientation(q1, q2, p1);
+  const d2 = orientation(q1, q2, p2);
+  const d3 = orientation(p1, p2, q1);
+  const d4 = orientation(p1, p2, q2);
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return true;
+  return (d1 === 0 && isWithinSegment(q1, q2, p1))
+    || (d2 === 0 && isWithinSegment(q1, q2, p2))
+    || (d3 === 0 && isWithinSegment(p1, p2, q1))
+    || (d4 === 0 && isWithinSegment(p1, p2, q2));
+};
+
+/**
+ * Checks whether a path enters a polygon: either one of its points lies inside, or one of its segments crosses an edge
+ * (so a long straight segment that cuts a corner is caught too).
+ *
+ * @param path The path to test.
+ * @param polygon The polygon's vertices in order (at least three).
+ * @returns True if any part of the path is inside the polygon.
+ */
+export function pathIntersectsPolygon(path: Coordinate[], polygon: Coordinate[]): boolean {
+  if (polygon.length < 3 || path.length === 0) return false;
+
+  // Skip segments that can't reach the polygon
+  const minLat = Math.min(...polygon.map(vertex => vertex.lat));
+  const maxLat = Math.max(...polygon.map(vertex => vertex.lat));
+  const minLng = Math.min(...polygon.map(vertex => vertex.lng));
+  const maxLng = Math.max(...polygon.map(vertex => vertex.lng));
+  const outsideBounds = (a: Coordinate, b: Coordinate): boolean =>
+    Math.max(a.lat, b.lat) < minLat || Math.min(a.lat, b.lat) > maxLat
+    || Math.max(a.lng, b.lng) < minLng || Math.min(a.lng, b.lng) > maxLng;
+
+  if (path.length === 1) return isPointInPolygon(path[0], polygon);
+  for (let i = 0; i < path.length - 1; i++) {
+    const from = path[i];
+    const to = path[i + 1];
+    if (outsideBounds(from, to)) continue;
+    if (isPointInPolygon(from, polygon) || isPointInPolygon(to, polygon)) return true;
+    for (let j = 0, k = polygon.length - 1; j < polygon.length; k = j++) {
+      if (segmentsIntersect(from, to, polygon[k], polygon[j])) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a route passes through any of the areas to avoid. Uses the step paths where available, since the overview
+ * polyline is simplified and can cut across a small area the road only skirts (or vice versa).
+ *
+ * @param route The route to test.
+ * @param avoidAreas Polygons the route must not enter.
+ * @returns True if the route enters any of the areas.
+ */
+export function crossesAvoidArea(route: Route, avoidAreas: Coordinate[][]): boolean {
+  if (avoidAreas.length === 0) return false;
+  const stepPath = route.legs?.flatMap(leg => leg.steps?.flatMap(step => step.path) ?? []) ?? [];
+  const path = stepPath.length > 1 ? stepPath : route.path;
+  return avoidAreas.some(area => pathIntersectsPolygon(path, area));
+}
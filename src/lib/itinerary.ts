@@ -0,0 +1,150 @@
+import type { Coordinate, Route } from '@/services/google-maps';
+import type { TripStop } from '@/lib/trip-stops';
+
+/**
+ * One point of the trip schedule: the origin, a stop, or the destination.
+ */
+export interface ItineraryEntry {
+  kind: 'origin' | 'stop' | 'destination';
+  name: string;
+  location: Coordinate;
+  /**
+   * Google Place ID, for stops chosen from suggestions or attractions.
+   */
+  placeId?: string;
+  /**
+   * When the traveller gets here, as an ISO 8601 string. Absent for the origin.
+   */
+  arrivalTime?: string;
+  /**
+   * When the traveller leaves, as an ISO 8601 string (arrival plus dwell time). Absent for the destination.
+   */
+  departureTime?: string;
+  /**
+   * Planned time spent here, in minutes (0 for the origin and destination).
+   */
+  dwellMinutes: number;
+  /**
+   * Travel time from the previous entry, in seconds (in predicted traffic when available). Absent for the origin.
+   */
+  travelSecondsFromPrevious?: number;
+  /**
+   * Distance from the previous entry, in meters. Absent for the origin.
+   */
+  distanceMetersFromPrevious?: number;
+}
+
+/**
+ * The full trip schedule, including time spent at stops.
+ */
+export interface Itinerary {
+  /**
+   * The origin, the stops in visiting order, and the destination.
+   */
+  entries: ItineraryEntry[];
+  /**
+   * Time spent moving, in seconds.
+   */
+  totalTravelSeconds: number;
+  /**
+   * Time spent at stops, in seconds.
+   */
+  totalDwellSeconds: number;
+  /**
+   * Arrival time at the destination, as an ISO 8601 string.
+   */
+  arrivalTime: string;
+}
+
+/**
+ * Builds the schedule for a route: leaving at `departureTime`, each leg's duration takes the traveller to the next stop,
+ * where they stay for the stop's dwell time before setting off again.
+ * Stops are matched to legs in the route's visiting order (`waypointsOrder`). If the route doesn't visit the stops
+ * (e.g., transit, which has no stopovers), the itinerary is just origin → destination.
+ *
+ * @param route The planned route.
+ * @param stops The stops in the order they were requested (the order `waypointsOrder` indexes into).
+ * @param departureTime The departure time from the origin (ISO 8601).
+ * @param originName Display name of the origin.
+ * @param destinationName Display name of the destination.
+ * @returns The itinerary.
+ */
+export function buildItinerary(
+  route: Route,
+  stops: TripStop[],
+  departureTime: string,
+  originName: string,
+  destinationName: string
+): Itinerary {
+  const departure = new Date(departureTime).getTime();
+  if (isNaN(departure)) {
+    throw new Error(`Invalid departure time: ${departureTime}`);
+  }
+
+  const legs = route.legs && route.legs.length > 0
+    ? route.legs
+    : [{
+        distanceMeters: route.distanceMeters,
+        durationSeconds: route.durationSeconds,
+        durationInTrafficSeconds: route.durationInTrafficSeconds,
+        startLocation: route.path[0],
+        endLocation: route.path[route.path.length - 1],
+      }];
+  // One leg per stop plus the final leg; otherwise the stops weren't routed
+  const routedStops = legs.length === stops.length + 1 ? stops : [];
+  const order = route.waypointsOrder?.length === routedStops.length ? route.waypointsOrder : routedStops.map((_, index) => index);
+  const visited = order.map(index => routedStops[index]);
+
+  let clock = departure;
+  let totalTravelSeconds = 0;
+  let totalDwellSeconds = 0;
+  const entries: ItineraryEntry[] = [{
+    kind: 'origin',
+    name: originName,
+    location: legs[0].startLocation,
+    departureTime: new Date(clock).toISOString(),
+    dwellMinutes: 0,
+  }];
+
+  legs.forEach((leg, index) => {
+    const travelSeconds = leg.durationInTrafficSeconds ?? leg.durationSeconds;
+    clock += travelSeconds * 1000;
+    totalTravelSeconds += travelSeconds;
+    const arrivalTime = new Date(clock).toISOString();
+
+    const stop = visited[index];
+    if (stop) {
+      const dwellMinutes = stop.dwellMinutes ?? 0;
+      clock += dwellMinutes * 60 * 1000;
+      totalDwellSeconds += dwellMinutes * 60;
+      entries.push({
+        kind: 'stop',
+        name: stop.name,
+        location: leg.endLocation,
+        placeId: stop.placeId,
+        arrivalTime,
+        departureTime: new Date(clock).toISOString(),
+        dwellMinutes,
+        travelSecondsFromPrevious: travelSeconds,
+        distanceMetersFromPrevious: leg.distanceMeters,
+      });
+    } else {
+      entries.push({
+        kind: 'destination',
+        name: destinationName,
+        location: leg.endLocation,
+        arrivalTime,
+        dwellMinutes: 0,
+        travelSecondsFromPrevious: travelSeconds,
+        distanceMetersFromPrevious: leg.distanceMeters,
+      });
+    }
+  });
+
+  return {
+    entries,
+    totalTravelSeconds,
+    totalDwellSeconds,
+    arrivalTime: new Date(clock).toISOString(),
+  };
+}
@@ -0,0 +1,123 @@
+import type { NavigationPlan, NavigationState } from '@/lib/navigation-engine';
+
+/**
+ * Live progress metrics for a navigation session.
+ */
+export interface JourneyProgress {
+  /**
+   * Distance covered since the session started (including routes replaced by rerouting), in meters.
+   */
+  distanceTravelledMeters: number;
+  /**
+   * Distance left on the current route, in meters.
+   */
+  distanceRemainingMeters: number;
+  /**
+   * Share of the journey completed, from 0 to 100.
+   */
+  percentComplete: number;
+  /**
+   * Time since the session started, in seconds.
+   */
+  elapsedSeconds: number;
+  /**
+   * Expected time to the destination, adjusted for the user's pace, in seconds.
+   */
+  remainingSeconds: number;
+  /**
+   * Estimated time of arrival as an ISO 8601 string.
+   */
+  eta: string;
+  /**
+   * Actual elapsed time divided by the Directions estimate for the distance covered so far.
+   * Above 1 means the user is behind the estimate; below 1 means ahead of it.
+   */
+  paceFactor: number;
+  /**
+   * Expected travel time (per the Directions estimate) for the distance covered on the current route, in seconds.
+   */
+  expectedElapsedOnRouteSeconds: number;
+  /**
+   * Distance covered on the current route only, in meters.
+   */
+  distanceTravelledOnRouteMeters: number;
+}
+
+/**
+ * Progress carried over from routes that were replaced by rerouting during the same session.
+ */
+export interface JourneyOffset {
+  distanceMeters: number;
+  expectedSeconds: number;
+}
+
+// Don't re-baseline the ETA until there is enough data for a meaningful pace
+const MIN_EXPECTED_SECONDS_FOR_PACE = 60;
+// Keep one bad stretch (e.g., a long red light) from wildly skewing the ETA
+const MIN_PACE_FACTOR = 0.5;
+const MAX_PACE_FACTOR = 2;
+
+/**
+ * Computes distance/time progress from the user's projected position on the route.
+ * Uses the Directions API step distances and durations, so the remaining time reflects slow and fast stretches.
+ * The ETA is re-baselined by the user's pace relative to the Directions estimate so far.
+ *
+ * @param plan The navigation plan for the current route.
+ * @param state The current navigation state (projected position and step).
+ * @param startedAt When the navigation session started (epoch ms).
+ * @param now The current time (epoch ms).
+ * @param offset Progress carried over from earlier routes in the same session.
+ * @returns The progress metrics.
+ */
+export function computeJourneyProgress(
+  plan: NavigationPlan,
+  state: NavigationState,
+  startedAt: number,
+  now: number,
+  offset: JourneyOffset = { distanceMeters: 0, expectedSeconds: 0 }
+): JourneyProgress {
+  let travelledOnRoute = 0;
+  let expectedElapsedOnRoute = 0;
+  let totalDistance = 0;
+  let totalDuration = 0;
+
+  plan.steps.forEach((step, index) => {
+    totalDistance += step.distanceMeters;
+    totalDuration += step.durationSeconds;
+    if (index < state.stepIndex) {
+      travelledOnRoute += step.distanceMeters;
+      expectedElapsedOnRoute += step.durationSeconds;
+    } else if (index === state.stepIndex) {
+      // Fraction of the current step covered, measured on the step's own path
+      const stepPathLength = step.endDistanceMeters - step.startDistanceMeters;
+      const fraction = state.arrived
+        ? 1
+        : stepPathLength > 0 ? Math.min(1, Math.max(0, (state.distanceAlongRouteMeters - step.startDistanceMeters) / stepPathLength)) : 0;
+      travelledOnRoute += step.distanceMeters * fraction;
+      expectedElapsedOnRoute += step.durationSeconds * fraction;
+    }
+  });
+
+  const elapsedSeconds = Math.max(0, (now - startedAt) / 1000);
+  const expectedElapsed = offset.expectedSeconds + expectedElapsedOnRoute;
+  const paceFactor = expectedElapsed >= MIN_EXPECTED_SECONDS_FOR_PACE
+    ? Math.min(MAX_PACE_FACTOR, Math.max(MIN_PACE_FACTOR, elapsedSeconds / expectedElapsed))
+    : 1;
+
+  const distanceRemainingMeters = Math.max(0, totalDistance - travelledOnRoute);
+  const remainingSeconds = Math.max(0, totalDuration - expectedElapsedOnRoute) * paceFactor;
+  const distanceTravelledMeters = offset.distanceMeters + travelledOnRoute;
+  const journeyDistance = distanceTravelledMeters + distanceRemainingMeters;
+
+  return {
+    distanceTravelledMeters,
+    distanceRemainingMeters,
+    percentComplete: state.arrived ? 100 : journeyDistance > 0 ? Math.min(100, (distanceTravelledMeters / journeyDistance) * 100) : 0,
+    elapsedSeconds,
+    remainingSeconds,
+    eta: new Date(now + remainingSeconds * 1000).toISOString(),
+    paceFactor,
+    expectedElapsedOnRouteSeconds: expectedElapsedOnRoute,
+    distanceTravelledOnRouteMeters: travelledOnRoute,
+  };
+}
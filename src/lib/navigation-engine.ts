@@ -0,0 +1,178 @@
+import type { Coordinate, Route, RouteStep } from '@/services/google-maps';
+import { cumulativePathDistances, projectOntoPath } from '@/lib/geo';
+
+/**
+ * A route step placed on the combined navigation path.
+ */
+export interface NavigationStep extends RouteStep {
+  /**
+   * The index of the leg this step belongs to.
+   */
+  legIndex: number;
+  /**
+   * The distance along the navigation path where the step (and its maneuver) starts, in meters.
+   */
+  startDistanceMeters: number;
+  /**
+   * The distance along the navigation path where the step ends, in meters.
+   */
+  endDistanceMeters: number;
+}
+
+/**
+ * Everything the engine needs to guide along one route, precomputed once per route.
+ */
+export interface NavigationPlan {
+  /**
+   * All steps of all legs, in travel order.
+   */
+  steps: NavigationStep[];
+  /**
+   * The detailed path made by joining the step paths.
+   */
+  path: Coordinate[];
+  /**
+   * The output of `cumulativePathDistances(path)`.
+   */
+  cumulative: number[];
+  /**
+   * For each step, the index of the path vertex where it starts.
+   */
+  stepStartVertex: number[];
+}
+
+/**
+ * The live guidance state, updated on every position fix.
+ */
+export interface NavigationState {
+  /**
+   * The index of the step currently being travelled.
+   */
+  stepIndex: number;
+  /**
+   * The last position snapped onto the route, or null before the first fix.
+   */
+  snappedPosition: Coordinate | null;
+  /**
+   * The distance travelled along the route, in meters.
+   */
+  distanceAlongRouteMeters: number;
+  /**
+   * The distance between the raw position and the route, in meters.
+   */
+  distanceFromRouteMeters: number;
+  /**
+   * The distance to the end of the current step, i.e., to the next maneuver, in meters.
+   */
+  distanceToManeuverMeters: number;
+  /**
+   * Whether the user has reached the destination.
+   */
+  arrived: boolean;
+}
+
+// How many steps ahead of the current one a position may snap to (so loops and parallel roads don't cause jumps)
+const STEP_LOOKAHEAD = 3;
+// Within this distance of the end of the last step, the user has arrived
+const ARRIVAL_THRESHOLD_METERS = 25;
+
+/**
+ * Builds the navigation plan for a route from its per-leg steps.
+ *
+ * @param route The route to navigate.
+ * @returns The plan, or null if the route has no step data (e.g., it was computed without legs/steps).
+ */
+export function buildNavigationPlan(route: Route): NavigationPlan | null {
+  const routeSteps = (route.legs || []).flatMap((leg, legIndex) => (leg.steps || []).map(step => ({ step, legIndex })));
+  if (routeSteps.length === 0) return null;
+
+  const path: Coordinate[] = [];
+  const stepStartVertex: number[] = [];
+  routeSteps.forEach(({ step }) => {
+    const stepPath = step.path.length > 0 ? step.path : [step.startLocation, step.endLocation];
+    // Consecutive steps share their boundary vertex; don't duplicate it
+    const last = path[path.length - 1];
+    const skipFirst = last && last.lat === stepPath[0].lat && last.lng === stepPath[0].lng;
+    stepStartVertex.push(skipFirst ? path.length - 1 : path.length);
+    path.push(...(skipFirst ? stepPath.slice(1) : stepPath));
+  });
+
+  const cumulative = cumulativePathDistances(path);
+  const steps: NavigationStep[] = routeSteps.map(({ step, legIndex }, index) => ({
+    ...step,
+    legIndex,
+    startDistanceMeters: cumulative[stepStartVertex[index]],
+    endDistanceMeters: index + 1 < routeSteps.length ? cumulative[stepStartVertex[index + 1]] : cumulative[cumulative.length - 1],
+  }));
+
+  return { steps, path, cumulative, stepStartVertex };
+}
+
+/**
+ * Creates the state for the start of the route, before any position fix.
+ */
+export function createNavigationState(plan: NavigationPlan): NavigationState {
+  return {
+    stepIndex: 0,
+    snappedPosition: null,
+    distanceAlongRouteMeters: 0,
+    distanceFromRouteMeters: 0,
+    distanceToManeuverMeters: plan.steps[0].endDistanceMeters,
+    arrived: false,
+  };
+}
+
+/**
+ * Snaps a new position onto the route and advances the current step once the user has passed its end (the next maneuver point).
+ * The step index never moves backwards, so GPS jitter around a maneuver doesn't flip the guidance.
+ *
+ * @param plan The navigation plan for the route.
+ * @param state The previous state.
+ * @param position The new raw position.
+ * @returns The updated state.
+ */
+export function updateNavigationState(plan: NavigationPlan, state: NavigationState, position: Coordinate): NavigationState {
+  if (state.arrived) return state;
+
+  // Only consider the current step and a few steps ahead
+  const lastStep = Math.min(state.stepIndex + STEP_LOOKAHEAD, plan.steps.length - 1);
+  const fromSegment = plan.stepStartVertex[state.stepIndex];
+  const toSegment = lastStep + 1 < plan.steps.length ? plan.stepStartVertex[lastStep + 1] - 1 : plan.path.length - 2;
+  const projection = projectOntoPath(position, plan.path, plan.cumulative, fromSegment, toSegment);
+
+  // Never move backwards along the route
+  const distanceAlongRouteMeters = Math.max(projection.distanceAlongPathMeters, state.distanceAlongRouteMeters);
+
+  let stepIndex = state.stepIndex;
+  while (stepIndex < plan.steps.length - 1 && distanceAlongRouteMeters >= plan.steps[stepIndex].endDistanceMeters) {
+    stepIndex++;
+  }
+
+  const currentStep = plan.steps[stepIndex];
+  const distanceToManeuverMeters = Math.max(0, currentStep.endDistanceMeters - distanceAlongRouteMeters);
+  const arrived = stepIndex === plan.steps.length - 1 && distanceToManeuverMeters <= ARRIVAL_THRESHOLD_METERS;
+
+  return {
+    stepIndex,
+    snappedPosition: projection.point,
+    distanceAlongRouteMeters,
+    distanceFromRouteMeters: projection.distanceFromPathMeters,
+    distanceToManeuverMeters,
+    arrived,
+  };
+}
+
+/**
+ * Converts Google's HTML step instructions into plain text
+ * (e.g., `Turn <b>left</b><div style="...">Destination will be on the right</div>` → "Turn left. Destination will be on the right").
+ */
+export function getInstructionText(step: Pick<RouteStep, 'htmlInstructions'>): string {
+  return step.htmlInstructions
+    .replace(/<div[^>]*>/gi, '. ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+\./g, '.')
+    .trim();
+}
@@ -0,0 +1,140 @@
+import type { OpeningHoursPeriod, OpeningHoursTime, PlaceOpeningHours } from '@/services/google-maps';
+import type { Itinerary } from '@/lib/itinerary';
+
+/**
+ * A stop the traveller would reach while it is closed, or that closes before they plan to leave.
+ */
+export interface OpeningHoursWarning {
+  /**
+   * Name of the stop.
+   */
+  stopName: string;
+  /**
+   * Google Place ID of the stop.
+   */
+  placeId: string;
+  /**
+   * 'closed_on_arrival': the place is closed when the traveller gets there.
+   * 'closes_during_visit': the place is open on arrival but closes before the planned departure.
+   */
+  kind: 'closed_on_arrival' | 'closes_during_visit';
+  /**
+   * Planned arrival at the stop (ISO 8601).
+   */
+  arrivalTime: string;
+  /**
+   * Planned departure from the stop (ISO 8601).
+   */
+  departureTime: string;
+  /**
+   * When the place next opens after the arrival (ISO 8601). Only for 'closed_on_arrival'.
+   */
+  nextOpenTime?: string;
+  /**
+   * When the place closes (ISO 8601). Only for 'closes_during_visit'.
+   */
+  closingTime?: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// Minutes since Sunday 00:00 in the place's local time
+const toWeekMinute = ({ day, time }: OpeningHoursTime): number =>
+  day * MINUTES_PER_DAY + Number(time.slice(0, 2)) * 60 + Number(time.slice(2, 4));
+
+// The period's open and close as week minutes, with the close after the open (periods may wrap past Saturday night)
+const toWeekSpan = (period: OpeningHoursPeriod): [number, number] | null => {
+  if (!period.close) return null;
+  const open = toWeekMinute(period.open);
+  let close = toWeekMinute(period.close);
+  if (close <= open) close += MINUTES_PER_WEEK;
+  return [open, close];
+};
+
+/**
+ * Minutes from `weekMinute` until the place closes, following periods that reopen the moment the previous one closes
+ * (Google splits some overnight hours at midnight). Null if the place is closed at `weekMinute`.
+ */
+const minutesUntilClose = (spans: [number, number][], weekMinute: number): number | null => {
+  let current = weekMinute;
+  let elapsed = 0;
+  // At most one hop per period, so a place open around the clock can't loop forever
+  for (let hop = 0; hop <= spans.length; hop++) {
+    const span = spans
+      .map(([open, close]) => (current < open ? [open - MINUTES_PER_WEEK, close - MINUTES_PER_WEEK] : [open, close]))
+      .find(([open, close]) => open <= current && current < close);
+    if (!span) return hop === 0 ? null : elapsed;
+    elapsed += span[1] - current;
+    current = span[1] % MINUTES_PER_WEEK;
+  }
+  return Infinity; // Open around the clock
+};
+
+/**
+ * Checks a visit against a place's weekly opening hours.
+ *
+ * @param hours The place's opening hours.
+ * @param arrivalTime When the traveller arrives (ISO 8601).
+ * @param departureTime When the traveller leaves (ISO 8601).
+ * @returns The conflict (with when the place opens or closes), or null if the place is open for the whole visit
+ *   or its UTC offset is unknown (the hours can't be placed in time without it).
+ */
+export function checkOpeningHours(
+  hours: PlaceOpeningHours,
+  arrivalTime: string,
+  departureTime: string
+): Pick<OpeningHoursWarning, 'kind' | 'nextOpenTime' | 'closingTime'> | null {
+  if (hours.utcOffsetMinutes === undefined) return null;
+  // A single period without a close means open 24/7
+  if (hours.periods.length === 1 && !hours.periods[0].close) return null;
+
+  const arrival = Math.floor(new Date(arrivalTime).getTime() / 60000) * 60000; // Whole minutes, like the periods
+  const departure = new Date(departureTime).getTime();
+  const local = new Date(arrival + hours.utcOffsetMinutes * 60000);
+  const weekMinute = local.getUTCDay() * MINUTES_PER_DAY + local.getUTCHours() * 60 + local.getUTCMinutes();
+
+  const spans = hours.periods.map(toWeekSpan).filter((span): span is [number, number] => span !== null);
+  if (spans.length === 0) return null;
+
+  const untilClose = minutesUntilClose(spans, weekMinute);
+  if (untilClose === null) {
+    const untilOpen = Math.min(...spans.map(([open]) => (((open - weekMinute) % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK));
+    return { kind: 'closed_on_arrival', nextOpenTime: new Date(arrival + untilOpen * 60000).toISOString() };
+  }
+  const closing = arrival + untilClose * 60000;
+  if (closing < departure) {
+    return { kind: 'closes_during_visit', closingTime: new Date(closing).toISOString() };
+  }
+  return null;
+}
+
+/**
+ * Checks every stop of an itinerary that has known opening hours.
+ *
+ * @param itinerary The trip schedule.
+ * @param hoursByPlaceId Opening hours keyed by Google Place ID. Stops without an entry are not checked.
+ * @returns One warning per stop that is closed on arrival or closes during the visit, in visiting order.
+ */
+export function findOpeningHoursConflicts(
+  itinerary: Itinerary,
+  hoursByPlaceId: Record<string, PlaceOpeningHours>
+): OpeningHoursWarning[] {
+  const warnings: OpeningHoursWarning[] = [];
+  for (const entry of itinerary.entries) {
+    if (entry.kind !== 'stop' || !entry.placeId || !entry.arrivalTime || !entry.departureTime) continue;
+    const hours = hoursByPlaceId[entry.placeId];
+    if (!hours) continue;
+    const conflict = checkOpeningHours(hours, entry.arrivalTime, entry.departureTime);
+    if (conflict) {
+      warnings.push({
+        stopName: entry.name,
+        placeId: entry.placeId,
+        arrivalTime: entry.arrivalTime,
+        departureTime: entry.departureTime,
+        ...conflict,
+      });
+    }
+  }
+  return warnings;
+}
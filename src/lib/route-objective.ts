@@ -0,0 +1,187 @@
+import type { Route } from '@/services/google-maps';
+import { formatDistance, formatDuration } from '@/lib/format';
+
+/**
+ * What the traveller wants to minimise when choosing between candidate routes.
+ * - 'fastest': expected travel time (in predicted traffic when available).
+ * - 'shortest': distance.
+ * - 'fewest_turns': turns, ramps, forks and roundabouts.
+ * - 'fuel_efficient': estimated fuel use (driving only; other modes fall back to distance).
+ */
+export type RouteObjective = 'fastest' | 'shortest' | 'fewest_turns' | 'fuel_efficient';
+
+/**
+ * A candidate route's scores for every objective.
+ */
+export interface RouteMetrics {
+  /**
+   * Label of the route (usually its main roads).
+   */
+  summary: string;
+  /**
+   * Expected travel time in seconds (in predicted traffic when available).
+   */
+  durationSeconds: number;
+  distanceMeters: number;
+  /**
+   * Number of turn-like maneuvers (turns, U-turns, ramps, forks, roundabouts).
+   */
+  turnCount: number;
+  /**
+   * Estimated fuel use in liters for an average passenger car. Only present for driving routes.
+   */
+  fuelLiters?: number;
+}
+
+/**
+ * Candidate routes ranked for an objective.
+ */
+export interface RouteRanking {
+  /**
+   * The objective the routes were ranked by. 'fuel_efficient' becomes 'shortest' for modes that don't burn fuel.
+   */
+  objective: RouteObjective;
+  /**
+   * Indices into the routes passed in, best first.
+   */
+  order: number[];
+  /**
+   * The metrics of each route, in the same order as the routes passed in.
+   */
+  metrics: RouteMetrics[];
+  /**
+   * One or two sentences explaining why the best route won.
+   */
+  rationale: string;
+}
+
+// Maneuvers that count as a turn; "keep", "merge" and "straight" follow the road
+const TURN_MANEUVER_PATTERN = /^(turn|uturn|ramp|fork|roundabout)-/;
+
+// Fuel model for an average passenger car: liters per 100 km at a given speed (km/h).
+// High at low speeds (idling, stop-and-go), lowest around 60-80 km/h, rising again with air drag.
+const FUEL_BASE_LITERS_PER_100_KM = 3;
+const FUEL_LOW_SPEED_FACTOR = 90;
+const FUEL_DRAG_FACTOR = 0.00025;
+const MIN_FUEL_MODEL_SPEED_KMH = 5; // Avoids dividing by (near) zero for steps reported with no movement
+
+const litersPer100Km = (speedKmh: number): number => {
+  const speed = Math.max(MIN_FUEL_MODEL_SPEED_KMH, speedKmh);
+  return FUEL_BASE_LITERS_PER_100_KM + FUEL_LOW_SPEED_FACTOR / speed + FUEL_DRAG_FACTOR * speed * speed;
+};
+
+/**
+ * Counts the turn-like maneuvers along a route.
+ */
+export function countTurns(route: Route): number {
+  return (route.legs || [])
+    .flatMap(leg => leg.steps || [])
+    .filter(step => step.maneuver && TURN_MANEUVER_PATTERN.test(step.maneuver))
+    .length;
+}
+
+/**
+ * Estimates the fuel a route takes from the average speed of each step.
+ * Where a leg has a traffic duration, its steps are slowed down proportionally, since congestion costs fuel.
+ *
+ * @param route The route (driving).
+ * @returns The estimated fuel use in liters.
+ */
+export function estimateFuelLiters(route: Route): number {
+  const legs = route.legs || [];
+  if (legs.every(leg => !leg.steps || leg.steps.length === 0)) {
+    // No step detail; treat the whole route as one stretch at its average speed
+    const hours = (route.durationInTrafficSeconds ?? route.durationSeconds) / 3600;
+    const kilometers = route.distanceMeters / 1000;
+    return hours > 0 ? (kilometers * litersPer100Km(kilometers / hours)) / 100 : 0;
+  }
+  return legs.reduce((total, leg) => {
+    const trafficFactor = leg.durationInTrafficSeconds && leg.durationSeconds > 0 ? leg.durationInTrafficSeconds / leg.durationSeconds : 1;
+    return total + (leg.steps || []).reduce((legTotal, step) => {
+      const hours = (step.durationSeconds * trafficFactor) / 3600;
+      const kilometers = step.distanceMeters / 1000;
+      return hours > 0 ? legTotal + (kilometers * litersPer100Km(kilometers / hours)) / 100 : legTotal;
+    }, 0);
+  }, 0);
+}
+
+/**
+ * Computes the metrics for one route.
+ */
+export function getRouteMetrics(route: Route, index: number): RouteMetrics {
+  const isDriving = (route.travelMode || 'driving') === 'driving';
+  return {
+    summary: route.summary || `Route ${index + 1}`,
+    durationSeconds: route.durationInTrafficSeconds ?? route.durationSeconds,
+    distanceMeters: route.distanceMeters,
+    turnCount: countTurns(route),
+    fuelLiters: isDriving ? estimateFuelLiters(route) : undefined,
+  };
+}
+
+// The value an objective minimises
+const getScore = (metrics: RouteMetrics, objective: RouteObjective): number => {
+  switch (objective) {
+    case 'fastest': return metrics.durationSeconds;
+    case 'shortest': return metrics.distanceMeters;
+    case 'fewest_turns': return metrics.turnCount;
+    case 'fuel_efficient': return metrics.fuelLiters ?? metrics.distanceMeters;
+  }
+};
+
+// The same value, formatted for the rationale
+const describeScore = (metrics: RouteMetrics, objective: RouteObjective): string => {
+  switch (objective) {
+    case 'fastest': return formatDuration(metrics.durationSeconds);
+    case 'shortest': return formatDistance(metrics.distanceMeters);
+    case 'fewest_turns': return `${metrics.turnCount} turn${metrics.turnCount === 1 ? '' : 's'}`;
+    case 'fuel_efficient': return `~${(metrics.fuelLiters ?? 0).toFixed(1)} L of fuel`;
+  }
+};
+
+const OBJECTIVE_DESCRIPTIONS: Record<RouteObjective, string> = {
+  fastest: 'is the fastest',
+  shortest: 'is the shortest',
+  fewest_turns: 'has the fewest turns',
+  fuel_efficient: 'is the most fuel-efficient',
+};
+
+/**
+ * Ranks candidate routes by an objective. Ties are broken by travel time, then by the original order.
+ *
+ * @param routes The candidate routes (at least one).
+ * @param objective What to minimise.
+ * @returns The ranking, with the metrics of every route and a rationale for the winner.
+ */
+export function rankRoutes(routes: Route[], objective: RouteObjective): RouteRanking {
+  const metrics = routes.map(getRouteMetrics);
+  // Only cars burn fuel; for other modes the shortest route is the closest equivalent
+  const effectiveObjective: RouteObjective = objective === 'fuel_efficient' && metrics.some(m => m.fuelLiters === undefined) ? 'shortest' : objective;
+
+  const order = metrics
+    .map((_, index) => index)
+    .sort((a, b) =>
+      getScore(metrics[a], effectiveObjective) - getScore(metrics[b], effectiveObjective)
+      || metrics[a].durationSeconds - metrics[b].durationSeconds
+      || a - b
+    );
+
+  const best = metrics[order[0]];
+  let rationale: string;
+  if (routes.length === 1) {
+    rationale = `Only one route was found (${best.summary}: ${describeScore(best, effectiveObjective)}).`;
+  } else {
+    const runnerUp = metrics[order[1]];
+    rationale = `${best.summary} ${OBJECTIVE_DESCRIPTIONS[effectiveObjective]} of the ${routes.length} routes (${describeScore(best, effectiveObjective)}, vs ${describeScore(runnerUp, effectiveObjective)} for ${runnerUp.summary}).`;
+    const fastest = metrics.reduce((quickest, candidate) => (candidate.durationSeconds < quickest.durationSeconds ? candidate : quickest));
+    const extraSeconds = best.durationSeconds - fastest.durationSeconds;
+    if (effectiveObjective !== 'fastest' && extraSeconds >= 60) {
+      rationale += ` It takes ${formatDuration(extraSeconds)} longer than ${fastest.summary}.`;
+    }
+  }
+  if (effectiveObjective !== objective) {
+    rationale = `Fuel use only applies to driving, so routes were ranked by distance. ${rationale}`;
+  }
+
+  return { objective: effectiveObjective, order, metrics, rationale };
+}
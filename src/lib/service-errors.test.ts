@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  NetworkError,
+  NoResultsError,
+  QuotaExceededError,
+  ServiceError,
+  isServiceError,
+  toActionResult,
+  unwrapActionResult,
+  withErrorMessage,
+} from '@/lib/service-errors';
+
+describe('service errors across a server action', () => {
+  it('survive serialization with their code, provider, operation and retryable flag', async () => {
+    const result = await toActionResult(async () => {
+      throw new NoResultsError('Could not find route.', {provider: 'google', operation: 'directions'});
+    });
+
+    // What Next.js sends to the browser is plain JSON
+    const received = JSON.parse(JSON.stringify(result));
+
+    expect(() => unwrapActionResult(received)).toThrow('Could not find route.');
+    try {
+      unwrapActionResult(received);
+    } catch (error) {
+      expect(error).toBeInstanceOf(NoResultsError);
+      expect(error).toMatchObject({code: 'ZERO_RESULTS', provider: 'google', operation: 'directions', retryable: false});
+    }
+  });
+
+  it('returns the data of a successful action', async () => {
+    expect(unwrapActionResult(await toActionResult(async () => 42))).toBe(42);
+  });
+
+  it('reports errors without a code as UNKNOWN', async () => {
+    const result = await toActionResult(async () => {
+      throw new Error('Something odd happened');
+    });
+
+    expect(result).toEqual({ok: false, error: {code: 'UNKNOWN', message: 'Something odd happened', retryable: false}});
+  });
+});
+
+describe('ServiceError', () => {
+  it('marks quota and network failures as retryable unless told otherwise', () => {
+    expect(new QuotaExceededError('Limit reached.').retryable).toBe(true);
+    expect(new NetworkError('Offline.', {retryable: false}).retryable).toBe(false);
+    expect(new ServiceError('UNKNOWN', 'Odd.').retryable).toBe(false);
+  });
+
+  it('keeps the code when the message is replaced', () => {
+    const original = new QuotaExceededError('Limit reached.', {provider: 'openweathermap', operation: 'weather'});
+    const wrapped = withErrorMessage(original, 'Trip plan generation failed: Limit reached.');
+
+    expect(wrapped).toBeInstanceOf(QuotaExceededError);
+    expect(wrapped.toJSON()).toEqual({...original.toJSON(), message: 'Trip plan generation failed: Limit reached.'});
+  });
+
+  it('is recognised by code', () => {
+    const error = new NetworkError('Offline.');
+
+    expect(isServiceError(error)).toBe(true);
+    expect(isServiceError(error, 'NETWORK', 'QUOTA')).toBe(true);
+    expect(isServiceError(error, 'CONFIG_MISSING')).toBe(false);
+    expect(isServiceError(new Error('Offline.'))).toBe(false);
+  });
+});
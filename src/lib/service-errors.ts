@@ -0,0 +1,229 @@
+/**
+ * @fileOverview Typed errors for failures of the external services (maps, weather, the AI model) and the server actions
+ *               that front them. Each error carries a code, so the UI can choose a message without parsing error text.
+ *
+ * Server actions can't throw these to the browser: Next.js replaces errors thrown by a server action with a generic one
+ * in production, dropping both the message and any extra fields. Actions therefore return an `ActionResult`
+ * (see `toActionResult`), and the client turns a failed result back into the same error with `unwrapActionResult`.
+ */
+
+/**
+ * What went wrong, independent of the service that reported it.
+ * - CONFIG_MISSING: a server-side API key is not configured.
+ * - AUTH_REQUIRED: nobody is signed in.
+ * - REQUEST_DENIED: the service rejected the key or the API is not enabled for it.
+ * - INVALID_REQUEST: the service rejected the request's parameters.
+ * - ZERO_RESULTS: the request was fine but nothing matched (no route, unknown address, ...).
+ * - QUOTA: a usage limit was exceeded.
+ * - NETWORK: the service could not be reached, or its response could not be read.
+ * - AI_INVALID_OUTPUT: the AI model's answer was missing or did not match the expected shape.
+ * - UNKNOWN: anything else.
+ */
+export type ServiceErrorCode =
+  | 'CONFIG_MISSING'
+  | 'AUTH_REQUIRED'
+  | 'REQUEST_DENIED'
+  | 'INVALID_REQUEST'
+  | 'ZERO_RESULTS'
+  | 'QUOTA'
+  | 'NETWORK'
+  | 'AI_INVALID_OUTPUT'
+  | 'UNKNOWN';
+
+/**
+ * The external service an error came from.
+ */
+export type ServiceProvider = 'google' | 'osrm' | 'nominatim' | 'openweathermap' | 'genkit' | 'firebase';
+
+/**
+ * A service error as plain data, safe to return from a server action.
+ */
+export interface ServiceErrorInfo {
+  code: ServiceErrorCode;
+  message: string;
+  provider?: ServiceProvider;
+  /**
+   * What was being done when the error occurred (e.g., 'directions', 'geocoding', 'trip-plan').
+   */
+  operation?: string;
+  /**
+   * Whether trying the same request again later might succeed.
+   */
+  retryable: boolean;
+}
+
+/**
+ * Where an error came from, and whether it is worth retrying (each error class has a sensible default).
+ */
+export interface ServiceErrorOptions {
+  provider?: ServiceProvider;
+  operation?: string;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every service failure. Use the subclasses for the specific codes; this class itself is for UNKNOWN.
+ */
+export class ServiceError extends Error {
+  readonly code: ServiceErrorCode;
+  readonly provider?: ServiceProvider;
+  readonly operation?: string;
+  readonly retryable: boolean;
+
+  constructor(code: ServiceErrorCode, message: string, options: ServiceErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'ServiceError';
+    this.code = code;
+    this.provider = options.provider;
+    this.operation = options.operation;
+    this.retryable = options.retryable ?? false;
+  }
+
+  toJSON(): ServiceErrorInfo {
+    return {
+      code: this.code,
+      message: this.message,
+      provider: this.provider,
+      operation: this.operation,
+      retryable: this.retryable,
+    };
+  }
+}
+
+export class ConfigurationError extends ServiceError {
+  constructor(message: string, options: ServiceErrorOptions = {}) {
+    super('CONFIG_MISSING', message, options);
+    this.name = 'ConfigurationError';
+  }
+}
+
+export class AuthenticationError extends ServiceError {
+  constructor(message: string, options: ServiceErrorOptions = {}) {
+    super('AUTH_REQUIRED', message, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class RequestDeniedError extends ServiceError {
+  constructor(message: string, options: ServiceErrorOptions = {}) {
+    super('REQUEST_DENIED', message, options);
+    this.name = 'RequestDeniedError';
+  }
+}
+
+export class InvalidRequestError extends ServiceError {
+  constructor(message: string, options: ServiceErrorOptions = {}) {
+    super('INVALID_REQUEST', message, options);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+export class NoResultsError extends ServiceError {
+  constructor(message: string, options: ServiceErrorOptions = {}) {
+    super('ZERO_RESULTS', message, options);
+    this.name = 'NoResultsError';
+  }
+}
+
+export class QuotaExceededError extends ServiceError {
+  constructor(message: string, options: ServiceErrorOptions = {}) {
+    super('QUOTA', message, { ...options, retryable: options.retryable ?? true }); // Quotas refill; a later attempt may succeed
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class NetworkError extends ServiceError {
+  constructor(message: string, options: ServiceErrorOptions = {}) {
+    super('NETWORK', message, { ...options, retryable: options.retryable ?? true });
+    this.name = 'NetworkError';
+  }
+}
+
+export class AiOutputError extends ServiceError {
+  constructor(message: string, options: ServiceErrorOptions = {}) {
+    super('AI_INVALID_OUTPUT', message, { ...options, retryable: options.retryable ?? true }); // The model may answer properly next time
+    this.name = 'AiOutputError';
+  }
+}
+
+const ERROR_CLASSES: Record<Exclude<ServiceErrorCode, 'UNKNOWN'>, new (message: string, options?: ServiceErrorOptions) => ServiceError> = {
+  CONFIG_MISSING: ConfigurationError,
+  AUTH_REQUIRED: AuthenticationError,
+  REQUEST_DENIED: RequestDeniedError,
+  INVALID_REQUEST: InvalidRequestError,
+  ZERO_RESULTS: NoResultsError,
+  QUOTA: QuotaExceededError,
+  NETWORK: NetworkError,
+  AI_INVALID_OUTPUT: AiOutputError,
+};
+
+/**
+ * Whether a value is a ServiceError, optionally with one of the given codes.
+ */
+export function isServiceError(error: unknown, ...codes: ServiceErrorCode[]): error is ServiceError {
+  return error instanceof ServiceError && (codes.length === 0 || codes.includes(error.code));
+}
+
+/**
+ * Converts any thrown value into serializable error info. Errors that aren't ServiceErrors become UNKNOWN.
+ */
+export function toServiceErrorInfo(error: unknown): ServiceErrorInfo {
+  if (error instanceof ServiceError) {
+    return error.toJSON();
+  }
+  return {
+    code: 'UNKNOWN',
+    message: error instanceof Error ? error.message : 'An unknown error occurred.',
+    retryable: false,
+  };
+}
+
+/**
+ * Rebuilds the error class matching the info's code (the inverse of `toServiceErrorInfo`).
+ */
+export function fromServiceErrorInfo(info: ServiceErrorInfo): ServiceError {
+  const { code, message, ...options } = info;
+  return code === 'UNKNOWN' ? new ServiceError(code, message, options) : new ERROR_CLASSES[code](message, options);
+}
+
+/**
+ * A copy of a service error with a new message, keeping its code, provider, operation and retryable flag.
+ * Used to add context (e.g., "Trip plan generation failed: ...") without losing what kind of failure it was.
+ */
+export function withErrorMessage(error: ServiceError, message: string): ServiceError {
+  return fromServiceErrorInfo({ ...error.toJSON(), message });
+}
+
+/**
+ * What a server action returns: its data, or the error it failed with.
+ */
+export type ActionResult<T> = { ok: true; data: T } | { ok: false; error: ServiceErrorInfo };
+
+/**
+ * Runs a server action's work and captures any failure as error info, so the code survives the trip to the browser.
+ *
+ * @param work The action's body.
+ * @returns The result, or the error as plain data.
+ */
+export async function toActionResult<T>(work: () => Promise<T>): Promise<ActionResult<T>> {
+  try {
+    return { ok: true, data: await work() };
+  } catch (error) {
+    return { ok: false, error: toServiceErrorInfo(error) };
+  }
+}
+
+/**
+ * Returns a server action's data, or throws its error as a ServiceError (for use on the client).
+ *
+ * @param result What the server action returned.
+ * @returns The action's data.
+ * @throws {ServiceError} The error the action failed with.
+ */
+export function unwrapActionResult<T>(result: ActionResult<T>): T {
+  if (!result.ok) {
+    throw fromServiceErrorInfo(result.error);
+  }
+  return result.data;
+}
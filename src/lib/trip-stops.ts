@@ -0,0 +1,93 @@
+import type { Coordinate } from '@/services/google-maps';
+
+/**
+ * A stop between the origin and destination. At least one of `placeId`, `location` or `address` identifies it;
+ * they are preferred in that order when routing.
+ */
+export interface TripStop {
+  /**
+   * Display name (e.g., the place name, the typed address, or "Pinned location").
+   */
+  name: string;
+  /**
+   * Google Place ID, for stops chosen from suggestions or attractions.
+   */
+  placeId?: string;
+  /**
+   * Free-text address (e.g., "5th & Market, San Francisco").
+   */
+  address?: string;
+  /**
+   * Exact coordinates, for stops picked on the map.
+   */
+  location?: Coordinate;
+  /**
+   * How long the traveller stays at the stop, in minutes.
+   */
+  dwellMinutes?: number;
+}
+
+/**
+ * A stop in the planner's editor, with a stable key for rendering and reordering.
+ */
+export interface EditableTripStop extends TripStop {
+  id: string;
+}
+
+/**
+ * Gives a stop a fresh editor key.
+ */
+export function toEditableStop(stop: TripStop): EditableTripStop {
+  return { ...stop, id: crypto.randomUUID() };
+}
+
+/**
+ * Formats a stop as a Directions API waypoint: `place_id:…`, `lat,lng`, or the address.
+ *
+ * @param stop The stop to format.
+ * @returns The waypoint string.
+ * @throws {Error} If the stop has no place ID, location or address.
+ */
+export function toDirectionsWaypoint(stop: TripStop): string {
+  if (stop.placeId) {
+    return `place_id:${stop.placeId}`;
+  }
+  if (stop.location) {
+    return `${stop.location.lat},${stop.location.lng}`;
+  }
+  if (stop.address?.trim()) {
+    // '|' separates waypoints in the request, so it can't appear inside one
+    return stop.address.replace(/\|/g, ' ').trim();
+  }
+  throw new Error(`Invalid stop "${stop.name}": it needs a place ID, location or address.`);
+}
+
+// "37.78, -122.41" typed into the stop box
+const COORDINATE_PATTERN = /^\s*(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)\s*$/;
+// "place_id:ChIJ…" typed into the stop box
+const PLACE_ID_PATTERN = /^\s*place_id:(\S+)\s*$/i;
+
+/**
+ * Turns text typed into the stop box into a stop: `place_id:…` becomes a place stop,
+ * "lat, lng" a coordinate stop, and anything else an address stop.
+ *
+ * @param text The typed text.
+ * @returns The stop, or null if the text is blank.
+ */
+export function parseStopText(text: string): TripStop | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const placeIdMatch = trimmed.match(PLACE_ID_PATTERN);
+  if (placeIdMatch) {
+    return { name: placeIdMatch[1], placeId: placeIdMatch[1] };
+  }
+  const coordinateMatch = trimmed.match(COORDINATE_PATTERN);
+  if (coordinateMatch) {
+    const location = { lat: Number(coordinateMatch[1]), lng: Number(coordinateMatch[2]) };
+    if (Math.abs(location.lat) <= 90 && Math.abs(location.lng) <= 180) {
+      return { name: `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`, location };
+    }
+  }
+  return { name: trimmed, address: trimmed };
+}
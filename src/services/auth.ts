@@ -0,0 +1,166 @@
+/**
+ * @fileOverview Server-side helpers for identifying the user behind a server action.
+ *               Not a 'use server' module: these helpers must only be called from server code, never exposed as actions.
+ *
+ * - getCurrentUser - Verifies the session cookie and returns the signed-in user, if any.
+ * - requireUser - Like getCurrentUser, but throws if nobody is signed in (or the sign-in can't be checked).
+ */
+
+import { cookies } from 'next/headers';
+import { AUTH_SESSION_COOKIE, isFirebaseConfigured } from '@/lib/firebase';
+import {
+  AuthenticationError,
+  isServiceError,
+  QuotaExceededError,
+  RequestDeniedError,
+  ServiceError,
+  type ServiceErrorOptions,
+} from '@/lib/service-errors';
+import { requestJson } from '@/services/http-client';
+
+/**
+ * The user a server action is running for.
+ */
+export interface AuthenticatedUser {
+  uid: string;
+  email?: string;
+  displayName?: string;
+}
+
+export const AUTH_REQUIRED_ERROR_MSG = 'Authentication Error: Please sign in to continue.';
+
+// Used when Firebase isn't configured at all (local development without a project), so the app stays usable
+const LOCAL_USER: AuthenticatedUser = { uid: 'local', displayName: 'Local user' };
+
+const API_KEY = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+// The Admin SDK's standard variable, falling back to the client-side one so a single setting works for both
+const AUTH_EMULATOR_HOST = process.env.FIREBASE_AUTH_EMULATOR_HOST || process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+const IDENTITY_TOOLKIT_URL = AUTH_EMULATOR_HOST
+  ? `http://${AUTH_EMULATOR_HOST}/identitytoolkit.googleapis.com/v1/accounts:lookup`
+  : 'https://identitytoolkit.googleapis.com/v1/accounts:lookup';
+
+// Verified tokens, so each server action doesn't need a round trip to Firebase. Entries expire with the token.
+// Clients refresh their token every hour, so expired entries are swept on insert and the oldest dropped past the cap
+const verifiedTokens = new Map<string, { user: AuthenticatedUser; expiresAt: number }>();
+const MAX_VERIFIED_TOKENS = 1000;
+
+// Identity Toolkit's answers (HTTP 400) for a token that is malformed, expired, or belongs to a deleted account
+const REJECTED_TOKEN_ERRORS = ['INVALID_ID_TOKEN', 'USER_NOT_FOUND'];
+
+const authError = (retryable?: boolean): ServiceErrorOptions => ({ provider: 'firebase', operation: 'verify-token', retryable });
+
+/**
+ * Reads the expiry (`exp` claim, in epoch ms) from a JWT without verifying it.
+ */
+function readTokenExpiry(idToken: string): number {
+  try {
+    const payload = JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Caches a verified token, dropping expired entries and, once the cache is full, the oldest ones.
+ */
+function rememberVerifiedToken(idToken: string, user: AuthenticatedUser, expiresAt: number): void {
+  const now = Date.now();
+  verifiedTokens.forEach((entry, token) => {
+    if (entry.expiresAt <= now) verifiedTokens.delete(token);
+  });
+  verifiedTokens.set(idToken, { user, expiresAt });
+  // A Map iterates in insertion order, so the first key is the oldest
+  while (verifiedTokens.size > MAX_VERIFIED_TOKENS) {
+    verifiedTokens.delete(verifiedTokens.keys().next().value as string);
+  }
+}
+
+/**
+ * Verifies a Firebase ID token with the Identity Toolkit API (or the Auth emulator) and returns its user.
+ *
+ * @param idToken The ID token from the client's Firebase Auth session.
+ * @returns A promise that resolves to the user, or null if the token is invalid or expired.
+ * @throws {ServiceError} If the token couldn't be checked: Firebase is unreachable or failing (NETWORK, UNKNOWN),
+ *         over quota (QUOTA), or rejects the API key (REQUEST_DENIED).
+ */
+export async function verifyIdToken(idToken: string): Promise<AuthenticatedUser | null> {
+  const cached = verifiedTokens.get(idToken);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.user;
+  }
+  verifiedTokens.delete(idToken);
+
+  try {
+    const response = await requestJson({
+      provider: 'firebase',
+      operation: 'verify-token',
+      action: 'verify the ID token',
+      url: `${IDENTITY_TOOLKIT_URL}?key=${API_KEY}`,
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ idToken }),
+        cache: 'no-store',
+      },
+      policy: { timeoutMs: 5000, maxAttempts: 2 }, // Every server action waits on this
+    });
+    if (!response.ok) {
+      const message: string = response.body?.error?.message || response.statusText || 'No error message provided.';
+      if (response.status === 400 && REJECTED_TOKEN_ERRORS.some(code => message.startsWith(code))) {
+        console.warn(`[Auth] ID token rejected (${message}).`);
+        return null;
+      }
+      console.error(`[Auth] Identity Toolkit Error: Status=${response.status}, Message=${message}`);
+      if (response.status === 400 || response.status === 403) {
+        throw new RequestDeniedError(`Firebase Auth Error: The sign-in could not be checked. ${message}`, authError());
+      }
+      if (response.status === 429) {
+        throw new QuotaExceededError(`Firebase Auth Error: Usage limit exceeded. ${message}`, authError());
+      }
+      throw new ServiceError('UNKNOWN', `Firebase Auth Error: The sign-in could not be checked. Status: ${response.status}. ${message}`, authError(response.status >= 500));
+    }
+    const account = response.body?.users?.[0];
+    if (!account?.localId) return null;
+
+    const user: AuthenticatedUser = { uid: account.localId, email: account.email, displayName: account.displayName };
+    rememberVerifiedToken(idToken, user, readTokenExpiry(idToken));
+    return user;
+  } catch (error) {
+    console.error('[Auth] Failed to verify ID token:', error);
+    if (isServiceError(error)) {
+      throw error; // An outage isn't a sign-out; let the caller show the real cause
+    }
+    throw new ServiceError('UNKNOWN', `Firebase Auth Error: The sign-in could not be checked. ${error instanceof Error ? error.message : String(error)}`, { ...authError(), cause: error });
+  }
+}
+
+/**
+ * Returns the user whose ID token is in the session cookie.
+ * Without a Firebase project configured, everyone is treated as the same local user.
+ *
+ * @returns A promise that resolves to the signed-in user, or null if there is no valid session.
+ * @throws {ServiceError} If the session couldn't be checked (see `verifyIdToken`).
+ */
+export async function getCurrentUser(): Promise<AuthenticatedUser | null> {
+  if (!isFirebaseConfigured()) {
+    return LOCAL_USER;
+  }
+  const idToken = (await cookies()).get(AUTH_SESSION_COOKIE)?.value;
+  return idToken ? verifyIdToken(idToken) : null;
+}
+
+/**
+ * Returns the signed-in user, for server actions that require authentication.
+ *
+ * @returns A promise that resolves to the signed-in user.
+ * @throws {AuthenticationError} With `AUTH_REQUIRED_ERROR_MSG` if there is no valid session.
+ * @throws {ServiceError} If the session couldn't be checked (see `verifyIdToken`).
+ */
+export async function requireUser(): Promise<AuthenticatedUser> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new AuthenticationError(AUTH_REQUIRED_ERROR_MSG, { provider: 'firebase', operation: 'auth' });
+  }
+  return user;
+}
@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { CacheStore } from '@/services/response-cache';
+
+interface CacheFile {
+  key: string;
+  /**
+   * When the entry expires, in milliseconds since the epoch.
+   */
+  expiresAt: number;
+  value: string;
+}
+
+/**
+ * Creates a cache store that keeps one JSON file per entry in a directory, so the cache survives restarts.
+ * Expired entries are removed when they are next read.
+ *
+ * @param dir The directory for the cache files (created on the first write).
+ */
+export function createFileCacheStore(dir: string): CacheStore {
+  const fileFor = (key: string) => path.join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    async get(key) {
+      let entry: CacheFile;
+      try {
+        entry = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+      } catch {
+        return undefined; // Not cached (or a half-written file from a crash)
+      }
+      if (entry.key !== key || entry.expiresAt <= Date.now()) {
+        await fs.rm(fileFor(key), { force: true });
+        return undefined;
+      }
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs) {
+      const file = fileFor(key);
+      const entry: CacheFile = { key, expiresAt: Date.now() + ttlMs, value };
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename, so a concurrent read never sees a partial file
+      const temporary = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(entry));
+      await fs.rename(temporary, file);
+    },
+
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import type { CacheStore } from '@/services/response-cache';
+
+/**
+ * Creates a cache store that keeps entries in memory, evicting the least recently used once it is full.
+ * The default store: nothing to set up, but the cache starts empty on every server start and isn't shared between instances.
+ *
+ * @param maxEntries How many entries to keep.
+ */
+export function createMemoryCacheStore(maxEntries: number = 1000): CacheStore {
+  // A Map iterates in insertion order, so re-inserting an entry on every read keeps the least recently used first
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
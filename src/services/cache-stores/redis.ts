@@ -0,0 +1,64 @@
+import type { CacheStore } from '@/services/response-cache';
+
+/**
+ * The commands the Redis store needs. A connected `redis` (node-redis v4+) client fits as-is; wrap other clients
+ * (e.g., ioredis: `set: (key, value, { PX }) => client.set(key, value, 'PX', PX)`). Any Redis-compatible server works.
+ */
+export interface RedisCacheClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options: { PX: number }): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * Creates a cache store on a Redis-compatible server, shared by every server instance. Redis expires the entries itself.
+ * Install it at start-up with `setResponseCacheStore` (see src/services/response-cache.ts), or let `connectRedisCacheStore` do both.
+ *
+ * @param client A connected client.
+ * @param prefix Prepended to every key, to keep the cache apart from other data on the server.
+ */
+export function createRedisCacheStore(client: RedisCacheClient, prefix: string = 'urbanflow:cache:'): CacheStore {
+  return {
+    async get(key) {
+      return (await client.get(`${prefix}${key}`)) ?? undefined;
+    },
+
+    async set(key, value, ttlMs) {
+      await client.set(`${prefix}${key}`, value, { PX: Math.max(1, Math.round(ttlMs)) });
+    },
+
+    async delete(key) {
+      await client.del(`${prefix}${key}`);
+    },
+  };
+}
+
+/**
+ * Connects to the Redis-compatible server at `url` with node-redis and returns a cache store on it.
+ * Used at server start-up when RESPONSE_CACHE is 'redis' (see src/instrumentation.ts).
+ *
+ * @param url The server URL (e.g., redis://localhost:6379).
+ * @param connectTimeoutMs How long to wait for the first connection.
+ * @returns A promise that resolves to the store once the client is connected.
+ * @throws {Error} If the server can't be reached in time.
+ */
+export async function connectRedisCacheStore(url: string, connectTimeoutMs: number = 5000): Promise<CacheStore> {
+  const { createClient } = await import('redis');
+  const client = createClient({ url });
+  // Without a listener, a dropped connection would crash the server; node-redis reconnects by itself
+  client.on('error', (error) => console.warn('[Response Cache] Redis client error:', error));
+  // node-redis keeps retrying the first connection forever, which would hold up server start-up
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`No connection within ${connectTimeoutMs / 1000} s.`)), connectTimeoutMs);
+  });
+  try {
+    await Promise.race([client.connect(), timeout]);
+  } catch (error) {
+    await client.disconnect().catch(() => {});
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+  return createRedisCacheStore(client);
+}
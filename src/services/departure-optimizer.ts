@@ -0,0 +1,208 @@
+import {
+  type Coordinate,
+  type RouteRestriction,
+  type TrafficModel,
+  type TravelMode,
+} from '@/services/google-maps';
+import { getRoutingProvider } from '@/services/map-providers';
+import { isServiceError } from '@/lib/service-errors';
+import { mapInBatches, MAX_CONCURRENT_REQUESTS } from '@/lib/batch';
+import { rankRoutes, type RouteObjective } from '@/lib/route-objective';
+import { crossesAvoidArea } from '@/lib/geo';
+
+/**
+ * The trip duration for one candidate departure time.
+ */
+export interface DepartureCandidate {
+  /**
+   * The candidate departure time as an ISO 8601 string.
+   */
+  departureTime: string;
+  /**
+   * The duration without traffic (or the scheduled duration for transit), in seconds.
+   */
+  durationSeconds: number;
+  /**
+   * The duration in predicted traffic, in seconds. Only present for driving without stopovers.
+   */
+  durationInTrafficSeconds?: number;
+  /**
+   * The expected arrival time (using the traffic duration when available) as an ISO 8601 string.
+   */
+  arrivalTime: string;
+}
+
+/**
+ * Options for scanning a departure window.
+ */
+export interface DepartureWindowOptions {
+  /**
+   * How far before and after the desired time to look, in minutes (defaults to 120).
+   */
+  windowMinutes?: number;
+  /**
+   * The spacing between candidate departure times, in minutes (defaults to 15).
+   */
+  stepMinutes?: number;
+  /**
+   * The traffic model for driving predictions (defaults to `best_guess`).
+   */
+  trafficModel?: TrafficModel;
+  /**
+   * Let Google reorder the waypoints (defaults to true). Pass the same value as for the planned route.
+   */
+  optimizeWaypoints?: boolean;
+  /**
+   * Features to avoid. Pass the same value as for the planned route.
+   */
+  avoid?: RouteRestriction[];
+  /**
+   * What the planned route minimises (defaults to `fastest`). Each departure charts the route this objective picks among the alternatives.
+   */
+  objective?: RouteObjective;
+  /**
+   * Polygons the route must not enter. Pass the same value as for the planned route.
+   */
+  avoidAreas?: Coordinate[][];
+}
+
+const DEFAULT_WINDOW_MINUTES = 120;
+const DEFAULT_STEP_MINUTES = 15;
+
+/**
+ * The duration a traveller should expect for a candidate: the traffic duration if known, otherwise the plain duration.
+ */
+export function getExpectedDurationSeconds(candidate: DepartureCandidate): number {
+  return candidate.durationInTrafficSeconds ?? candidate.durationSeconds;
+}
+
+/**
+ * Lists the candidate departure times: every `stepMinutes` from `windowMinutes` before to `windowMinutes` after the desired time.
+ * Times in the past are skipped (Directions can't predict them); if the desired time itself is past, the window is centred on now.
+ *
+ * @param desiredDepartureTime The user's desired departure time (ISO 8601).
+ * @param windowMinutes The half-width of the window in minutes.
+ * @param stepMinutes The spacing between candidates in minutes.
+ * @param now The current time (epoch ms).
+ * @returns The candidate times as epoch ms, in ascending order.
+ */
+export function buildDepartureCandidates(
+  desiredDepartureTime: string,
+  windowMinutes: number,
+  stepMinutes: number,
+  now: number = Date.now()
+): number[] {
+  const desired = new Date(desiredDepartureTime).getTime();
+  if (isNaN(desired)) {
+    throw new Error(`Invalid desired departure time: ${desiredDepartureTime}`);
+  }
+  const center = Math.max(desired, now);
+  const stepMs = stepMinutes * 60 * 1000;
+  const steps = Math.floor(windowMinutes / stepMinutes);
+
+  const candidates: number[] = [];
+  for (let offset = -steps; offset <= steps; offset++) {
+    const time = center + offset * stepMs;
+    if (time >= now) candidates.push(time);
+  }
+  return candidates;
+}
+
+/**
+ * Queries the Directions API for each candidate departure time around the desired one, producing a duration curve.
+ * At each time the alternatives are ranked by the planned route's objective, so the curve describes the same kind of route as the plan.
+ * Alternatives that cross an avoid area are dropped first; a departure with none left is skipped.
+ * Only driving (traffic) and transit (schedules) durations depend on the departure time; other modes return an empty curve.
+ * So do driving routes with stopovers (Google gives no traffic duration for them) and routing providers without traffic data,
+ * rather than spending about 17 requests on a flat curve.
+ * Candidates whose request fails are skipped, so one bad response doesn't lose the whole curve.
+ *
+ * @param origin The starting coordinate.
+ * @param destination The destination coordinate.
+ * @param waypoints Waypoint strings as accepted by the routing provider.
+ * @param travelMode The travel mode.
+ * @param desiredDepartureTime The user's desired departure time (ISO 8601).
+ * @param options Window size, spacing, traffic model and waypoint optimization.
+ * @returns A promise that resolves to the candidates in departure order.
+ * @throws {ServiceError} If the Maps API key is missing (CONFIG_MISSING) or the Directions request is denied (REQUEST_DENIED).
+ */
+export async function scanDepartureWindow(
+  origin: Coordinate,
+  destination: Coordinate,
+  waypoints: string[],
+  travelMode: TravelMode,
+  desiredDepartureTime: string,
+  options: DepartureWindowOptions = {}
+): Promise<DepartureCandidate[]> {
+  if (travelMode !== 'driving' && travelMode !== 'transit') {
+    console.log(`[Departure Optimizer] ${travelMode} durations don't depend on the departure time; skipping the scan.`);
+    return [];
+  }
+  const routing = getRoutingProvider();
+  if (!routing.hasTrafficData) {
+    console.log('[Departure Optimizer] The routing provider has no traffic or timetable data; skipping the scan.');
+    return [];
+  }
+  if (travelMode === 'driving' && waypoints.length > 0) {
+    console.log('[Departure Optimizer] Driving routes with stopovers have no traffic durations; skipping the scan.');
+    return [];
+  }
+
+  const { windowMinutes = DEFAULT_WINDOW_MINUTES, stepMinutes = DEFAULT_STEP_MINUTES, trafficModel = 'best_guess', optimizeWaypoints, avoid, objective = 'fastest', avoidAreas = [] } = options;
+  const times = buildDepartureCandidates(desiredDepartureTime, windowMinutes, stepMinutes);
+  console.log(`[Departure Optimizer] Scanning ${times.length} ${travelMode} departures every ${stepMinutes} min.`);
+
+  const fetchCandidate = async (time: number): Promise<DepartureCandidate | null> => {
+    const departureTime = new Date(time).toISOString();
+    try {
+      const allRoutes = await routing.findAlternativeRoutes(origin, destination, waypoints, { mode: travelMode, departureTime, trafficModel, optimizeWaypoints, avoid });
+      const routes = allRoutes.filter(candidate => !crossesAvoidArea(candidate, avoidAreas));
+      if (routes.length === 0) {
+        console.log(`[Departure Optimizer] Every route for departure ${departureTime} crosses an avoid area; skipping it.`);
+        return null;
+      }
+      const route = routes[rankRoutes(routes, objective).order[0]];
+      const expectedSeconds = route.durationInTrafficSeconds ?? route.durationSeconds;
+      return {
+        departureTime,
+        durationSeconds: route.durationSeconds,
+        durationInTrafficSeconds: route.durationInTrafficSeconds,
+        arrivalTime: new Date(time + expectedSeconds * 1000).toISOString(),
+      };
+    } catch (error) {
+      // Configuration and authorization problems affect every candidate; surface them
+      if (isServiceError(error, 'CONFIG_MISSING', 'REQUEST_DENIED')) {
+        throw error;
+      }
+      console.warn(`[Departure Optimizer] Skipping departure ${departureTime}:`, error);
+      return null;
+    }
+  };
+
+  const candidates = await mapInBatches(times, MAX_CONCURRENT_REQUESTS, fetchCandidate);
+  return candidates.filter((candidate): candidate is DepartureCandidate => candidate !== null);
+}
+
+/**
+ * Picks the candidate with the shortest expected duration, preferring the one closest to the desired time on ties.
+ *
+ * @param candidates The scanned candidates.
+ * @param desiredDepartureTime The user's desired departure time (ISO 8601).
+ * @returns The best candidate, or null if there are none.
+ */
+export function findFastestDeparture(candidates: DepartureCandidate[], desiredDepartureTime: string): DepartureCandidate | null {
+  const desired = new Date(desiredDepartureTime).getTime();
+  let best: DepartureCandidate | null = null;
+  for (const candidate of candidates) {
+    if (!best) {
+      best = candidate;
+      continue;
+    }
+    const difference = getExpectedDurationSeconds(candidate) - getExpectedDurationSeconds(best);
+    const closer = Math.abs(new Date(candidate.departureTime).getTime() - desired) < Math.abs(new Date(best.departureTime).getTime() - desired);
+    if (difference < 0 || (difference === 0 && closer)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError, NetworkError, RequestDeniedError } from '@/lib/service-errors';
+import { routeAlong } from '@/test/helpers';
+import { estimateDetourCosts } from '@/services/detour-cost';
+import type { Attraction, Coordinate, DirectionsOptions, Route, RouteLeg } from '@/services/google-maps';
+
+const findRoute = vi.fn<(origin: Coordinate, destination: Coordinate, waypoints?: string[], options?: DirectionsOptions) => Promise<Route>>();
+vi.mock('@/services/map-providers', () => ({ getRoutingProvider: () => ({ findRoute }) }));
+
+const origin = { lat: 52.5, lng: 13.0 };
+const destination = { lat: 52.5, lng: 13.3 };
+// Two stops along a straight east-bound route: origin → A (13.1) → B (13.2) → destination
+const waypoints = ['place_id:stop-a', 'place_id:stop-b'];
+const leg = (fromLng: number, toLng: number): RouteLeg => ({
+  distanceMeters: 6800,
+  durationSeconds: 600,
+  startLocation: { lat: 52.5, lng: fromLng },
+  endLocation: { lat: 52.5, lng: toLng },
+});
+const baseRoute = routeAlong([[52.5, 13.0], [52.5, 13.1], [52.5, 13.2], [52.5, 13.3]], {
+  distanceMeters: 20400,
+  durationSeconds: 1800,
+  legs: [leg(13.0, 13.1), leg(13.1, 13.2), leg(13.2, 13.3)],
+});
+// Just off the first leg
+const earlyAttraction: Attraction = { name: 'Early Museum', description: '', location: { lat: 52.501, lng: 13.05 }, placeId: 'early' };
+
+describe('estimateDetourCosts', () => {
+  beforeEach(() => {
+    findRoute.mockResolvedValue({ ...baseRoute, distanceMeters: 21000, durationSeconds: 1900 });
+  });
+
+  it('inserts an attraction into its closest leg when the stops keep their order', async () => {
+    const [costed] = await estimateDetourCosts(origin, destination, waypoints, { mode: 'driving', optimizeWaypoints: false }, baseRoute, [earlyAttraction]);
+
+    expect(findRoute).toHaveBeenCalledWith(origin, destination, ['place_id:early', 'place_id:stop-a', 'place_id:stop-b'], expect.objectContaining({ optimizeWaypoints: false }));
+    expect(costed.detourCost).toEqual({ addedSeconds: 100, addedMeters: 600 });
+  });
+
+  it('appends the attraction when the provider may reorder the stops', async () => {
+    await estimateDetourCosts(origin, destination, waypoints, { mode: 'driving', optimizeWaypoints: true }, baseRoute, [earlyAttraction]);
+
+    expect(findRoute).toHaveBeenCalledWith(origin, destination, ['place_id:stop-a', 'place_id:stop-b', 'place_id:early'], expect.anything());
+  });
+
+  it('reports the added time and distance, never below zero', async () => {
+    const lateAttraction: Attraction = { name: 'Late Park', description: '', location: { lat: 52.501, lng: 13.25 }, placeId: 'late' };
+    findRoute.mockImplementation(async (_origin, _destination, routeWaypoints = []) => routeWaypoints.includes('place_id:early')
+      ? { ...baseRoute, durationSeconds: baseRoute.durationSeconds + 720, distanceMeters: baseRoute.distanceMeters + 8000 } // +12 min, +8 km
+      : { ...baseRoute, durationSeconds: baseRoute.durationSeconds - 60, distanceMeters: baseRoute.distanceMeters - 200 }); // A better stop order
+
+    const costed = await estimateDetourCosts(origin, destination, waypoints, { mode: 'driving' }, baseRoute, [earlyAttraction, lateAttraction]);
+
+    expect(costed.map(attraction => attraction.detourCost)).toEqual([
+      { addedSeconds: 720, addedMeters: 8000 },
+      { addedSeconds: 0, addedMeters: 0 },
+    ]);
+  });
+
+  it('drops attractions whose route crosses an avoid area', async () => {
+    const farAttraction: Attraction = { name: 'Hilltop', description: '', location: { lat: 52.6, lng: 13.15 }, placeId: 'far' };
+    // A square north of the base route, which only the route via the hilltop enters
+    const closure = [{ lat: 52.55, lng: 13.1 }, { lat: 52.55, lng: 13.2 }, { lat: 52.65, lng: 13.2 }, { lat: 52.65, lng: 13.1 }];
+    findRoute.mockImplementation(async (_origin, _destination, routeWaypoints = []) => routeWaypoints.includes('place_id:far')
+      ? routeAlong([[52.5, 13.0], [52.6, 13.15], [52.5, 13.3]], { distanceMeters: 30000, durationSeconds: 2400 })
+      : { ...baseRoute, distanceMeters: 21000, durationSeconds: 1900 });
+
+    const costed = await estimateDetourCosts(origin, destination, waypoints, { mode: 'driving' }, baseRoute, [earlyAttraction, farAttraction], [closure]);
+
+    expect(costed.map(attraction => attraction.name)).toEqual(['Early Museum']);
+  });
+
+  it('keeps an attraction without a cost when its route fails', async () => {
+    findRoute.mockRejectedValue(new NetworkError('Failed to fetch directions: fetch failed', { provider: 'google', operation: 'directions', retryable: true }));
+
+    const costed = await estimateDetourCosts(origin, destination, waypoints, { mode: 'driving' }, baseRoute, [earlyAttraction]);
+
+    expect(costed).toEqual([earlyAttraction]);
+  });
+
+  it.each([
+    ['a missing key', new ConfigurationError('Server Configuration Error: no key.', { provider: 'google' })],
+    ['a denied request', new RequestDeniedError('Directions API Error: Request Denied.', { provider: 'google' })],
+  ])('surfaces %s, which affects every attraction', async (_case, error) => {
+    findRoute.mockRejectedValue(error);
+
+    await expect(estimateDetourCosts(origin, destination, waypoints, { mode: 'driving' }, baseRoute, [earlyAttraction])).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  type Attraction,
+  type Coordinate,
+  type DirectionsOptions,
+  type Route,
+} from '@/services/google-maps';
+import { getRoutingProvider } from '@/services/map-providers';
+import { isServiceError } from '@/lib/service-errors';
+import { mapInBatches, MAX_CONCURRENT_REQUESTS } from '@/lib/batch';
+import { crossesAvoidArea, cumulativePathDistances, projectOntoPath } from '@/lib/geo';
+
+/**
+ * Finds where an attraction fits into a route whose stops keep their order: after the stops the route passes
+ * before reaching the point closest to the attraction. The leg boundaries (the stops) and the attraction are projected
+ * onto the route path, and the attraction goes into the leg its projection falls on.
+ *
+ * @param route The base route, with one leg per stretch between stops.
+ * @param location The attraction's location.
+ * @param stopCount The number of waypoints the route visits.
+ * @returns The index in the waypoint list to insert the attraction at, or `stopCount` (after the last stop) if the legs don't match the waypoints.
+ */
+function closestLegInsertionIndex(route: Route, location: Coordinate, stopCount: number): number {
+  const legs = route.legs || [];
+  if (stopCount === 0 || legs.length !== stopCount + 1 || route.path.length < 2) return stopCount;
+
+  const cumulative = cumulativePathDistances(route.path);
+  const along = projectOntoPath(location, route.path, cumulative).distanceAlongPathMeters;
+  let fromSegment = 0;
+  for (let i = 0; i < stopCount; i++) {
+    // Search for each stop from the previous one onwards, so a path passing near a stop twice still keeps the stops in order
+    const boundary = projectOntoPath(legs[i].endLocation, route.path, cumulative, fromSegment);
+    if (along < boundary.distanceAlongPathMeters) return i;
+    fromSegment = boundary.segmentIndex;
+  }
+  return stopCount;
+}
+
+/**
+ * Measures what each attraction would add to the trip if it were inserted as a waypoint.
+ * For every attraction with a place ID, the route is requested again with the attraction added to the current waypoints,
+ * and its distance and duration are compared with the base route. Both must be the routing provider's default route:
+ * a route picked by another objective (e.g., the shortest alternative) takes different roads, so the difference wouldn't be the detour.
+ * When the waypoints may be reordered the attraction is appended and the provider picks its place; when they keep their order
+ * (`optimizeWaypoints: false`), it is inserted into the leg it is closest to, so an early attraction isn't priced as a trip back from the last stop.
+ * Attractions that are already waypoints, lack a place ID, or can't be routed keep no `detourCost`.
+ * Attractions whose route crosses an avoid area are dropped: as a stop, they would route the trip through it.
+ * Transit routes can't have stopovers, so they are returned unchanged.
+ *
+ * @param origin The starting coordinate.
+ * @param destination The destination coordinate.
+ * @param waypoints The current waypoint strings (`place_id:` prefixed), as passed to the routing provider.
+ * @param options The Directions options the base route was requested with.
+ * @param baseRoute The provider's default route without any extra stop (the first of `findAlternativeRoutes`, or `findRoute`).
+ * @param attractions The attractions to cost.
+ * @param avoidAreas Polygons the trip must not enter.
+ * @returns A promise that resolves to the attractions that can be visited without entering an avoid area, in the same order,
+ *          with `detourCost` set where it could be measured.
+ * @throws {ServiceError} If the Maps API key is missing (CONFIG_MISSING) or the Directions request is denied (REQUEST_DENIED).
+ */
+export async function estimateDetourCosts(
+  origin: Coordinate,
+  destination: Coordinate,
+  waypoints: string[],
+  options: DirectionsOptions,
+  baseRoute: Route,
+  attractions: Attraction[],
+  avoidAreas: Coordinate[][] = []
+): Promise<Attraction[]> {
+  if (options.mode === 'transit') {
+    console.log('[Detour Cost] Transit routes have no stopovers; skipping detour costs.');
+    return attractions;
+  }
+
+  const costAttraction = async (attraction: Attraction): Promise<Attraction | null> => {
+    const waypoint = attraction.placeId ? `place_id:${attraction.placeId}` : null;
+    if (!waypoint || waypoints.includes(waypoint)) {
+      return attraction;
+    }
+    try {
+      const insertAt = options.optimizeWaypoints === false
+        ? closestLegInsertionIndex(baseRoute, attraction.location, waypoints.length)
+        : waypoints.length;
+      const routeWaypoints = [...waypoints.slice(0, insertAt), waypoint, ...waypoints.slice(insertAt)];
+      const route = await getRoutingProvider().findRoute(origin, destination, routeWaypoints, options);
+      if (crossesAvoidArea(route, avoidAreas)) {
+        console.log(`[Detour Cost] The route via ${attraction.name} crosses an avoid area; dropping it.`);
+        return null;
+      }
+      // Compare plain durations: Google drops duration_in_traffic once a route has stopovers.
+      // A re-optimized waypoint order can make the new route marginally shorter; never report a negative cost.
+      return {
+        ...attraction,
+        detourCost: {
+          addedSeconds: Math.max(0, route.durationSeconds - baseRoute.durationSeconds),
+          addedMeters: Math.max(0, route.distanceMeters - baseRoute.distanceMeters),
+        },
+      };
+    } catch (error) {
+      // Configuration and authorization problems affect every attraction; surface them
+      if (isServiceError(error, 'CONFIG_MISSING', 'REQUEST_DENIED')) {
+        throw error;
+      }
+      console.warn(`[Detour Cost] Could not measure the detour to ${attraction.name}:`, error);
+      return attraction;
+    }
+  };
+
+  console.log(`[Detour Cost] Measuring detours for ${attractions.length} attractions.`);
+  const costed = await mapInBatches(attractions, MAX_CONCURRENT_REQUESTS, costAttraction);
+  return costed.filter((attraction): attraction is Attraction => attraction !== null);
+}
@@ -0,0 +1,72 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { unwrapActionResult } from '@/lib/service-errors';
+import type { Fixture } from '@/services/fixtures';
+
+// The Gemini plugin reads its key when the AI instance is created, on import
+vi.hoisted(() => {
+  process.env.FIXTURE_MODE = 'mock';
+});
+
+vi.mock('@/services/auth', () => ({
+  requireUser: async () => ({uid: 'test-user'}),
+}));
+
+import { createFixtureFetch } from '@/services/fixtures';
+import { generateTripPlan } from '@/ai/flows/generate-trip-plan';
+
+// The sample trip in fixtures/ was recorded at this time, in UTC; the prompt it answers names departure candidates and weekdays
+const RECORDED_AT = new Date('2026-10-19T15:00:00.000Z');
+const SAMPLE_TRIP = {
+  originAddress: 'San Francisco, CA',
+  destinationAddress: 'Palo Alto, CA',
+  departureTime: '2026-10-20T16:00:00.000Z',
+  alternatives: true,
+};
+
+describe('createFixtureFetch in mock mode', () => {
+  const baseFetch = vi.fn<typeof fetch>(async () => {
+    throw new Error('Mock mode must not reach the network');
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('FIXTURE_MODE', 'mock');
+    vi.stubEnv('TZ', 'UTC');
+    ['GOOGLE_MAPS_API_KEY', 'OPENWEATHERMAP_API_KEY', 'GOOGLE_GENAI_API_KEY'].forEach(name => vi.stubEnv(name, ''));
+    vi.useFakeTimers({toFake: ['Date']});
+    vi.setSystemTime(RECORDED_AT);
+    vi.stubGlobal('fetch', createFixtureFetch(baseFetch, 'mock'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays the sample trip without API keys', async () => {
+    const plan = unwrapActionResult(await generateTripPlan(SAMPLE_TRIP));
+
+    expect(baseFetch).not.toHaveBeenCalled();
+    expect(plan.alternativeRoutes?.map(route => route.summary)).toEqual(['US-101 S', 'I-280 S']);
+    expect(plan.route.summary).toBe('US-101 S');
+    expect(plan.suggestedDepartureTime).toBe('2026-10-20T16:30:00.000Z');
+    expect(plan.nearbyAttractions.map(place => place.name)).toContain('Coyote Point Recreation Area');
+    expect(plan.departureCurve?.length).toBeGreaterThan(0);
+  });
+
+  it('answers an AI request only from a recording of the same prompt', async () => {
+    const dir = path.join(process.cwd(), 'fixtures', 'generativelanguage.googleapis.com');
+    const [fileName] = await fs.readdir(dir);
+    const {request} = JSON.parse(await fs.readFile(path.join(dir, fileName), 'utf8')) as Fixture;
+    const body = request.body as {contents: {role: string; parts: {text: string}[]}[]; generationConfig?: Record<string, unknown>};
+    const send = (sent: unknown) => fetch(request.url, {method: 'POST', body: JSON.stringify(sent)});
+
+    // Other generation settings still match...
+    const response = await send({...body, generationConfig: {...body.generationConfig, temperature: 0.2}});
+    expect(response.ok).toBe(true);
+
+    // ...another trip's prompt doesn't
+    const otherPrompt = {...body, contents: [{role: 'user', parts: [{text: 'Plan a trip from Berlin to Potsdam.'}]}]};
+    await expect(send(otherPrompt)).rejects.toThrow('Fixture Error');
+  });
+});
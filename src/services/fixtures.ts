@@ -0,0 +1,215 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getFixtureMode, type FixtureMode } from '@/lib/fixture-mode';
+import { NetworkError } from '@/lib/service-errors';
+
+/**
+ * A recorded exchange with an external service, as stored in the fixtures directory.
+ */
+export interface Fixture {
+  request: {
+    method: string;
+    /**
+     * The request URL with API keys removed.
+     */
+    url: string;
+    /**
+     * The request body (parsed if it was JSON), for POST requests such as the AI model's.
+     */
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    contentType?: string;
+    /**
+     * The response body (parsed if it was JSON).
+     */
+    body: unknown;
+  };
+  /**
+   * When the fixture was recorded, as an ISO 8601 string.
+   */
+  recordedAt: string;
+}
+
+const FIXTURES_DIR = process.env.FIXTURES_DIR || path.join(process.cwd(), 'fixtures');
+
+// Query parameters that carry credentials, or change on every request (autocomplete session tokens); never part of a fixture
+const IGNORED_PARAMS = ['key', 'appid', 'sessiontoken'];
+// Parameters a fixture may differ in and still stand in for a request without an exact match
+const VOLATILE_PARAMS = ['departure_time'];
+// Environment variables holding secrets that must never be written to a fixture
+const SECRET_ENV_VARS = ['GOOGLE_MAPS_API_KEY', 'OPENWEATHERMAP_API_KEY', 'GOOGLE_GENAI_API_KEY', 'GOOGLE_API_KEY'];
+
+/**
+ * The hosts whose requests are served from fixtures: Google Maps, OpenWeatherMap, the Gemini API,
+ * and the self-hosted OSRM and Nominatim servers when configured.
+ */
+function getFixtureHosts(): Set<string> {
+  const hosts = new Set(['maps.googleapis.com', 'api.openweathermap.org', 'generativelanguage.googleapis.com']);
+  const localServers = [process.env.OSRM_URL || 'http://localhost:5000', process.env.OSRM_WALKING_URL, process.env.OSRM_BICYCLING_URL, process.env.NOMINATIM_URL || 'http://localhost:8080'];
+  localServers.forEach(server => {
+    if (!server) return;
+    try {
+      hosts.add(new URL(server).host);
+    } catch {
+      // Not a URL; the map backend will report it
+    }
+  });
+  return hosts;
+}
+
+const hash = (value: string): string => createHash('sha256').update(value).digest('hex').slice(0, 12);
+
+/**
+ * Replaces every configured secret in a string, as a backstop for keys echoed back in responses or request bodies.
+ */
+function scrubSecrets(text: string): string {
+  return SECRET_ENV_VARS.reduce((scrubbed, name) => {
+    const secret = process.env[name];
+    return secret ? scrubbed.split(secret).join('[REDACTED]') : scrubbed;
+  }, text);
+}
+
+const parseBody = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * The part of a request body that decides the response: for the AI model, the prompt (its messages and system
+ * instruction) without the generation settings; for any other body, all of it.
+ */
+function promptOf(body: string): string {
+  const parsed = parseBody(body);
+  if (parsed && typeof parsed === 'object' && 'contents' in parsed) {
+    const { contents, systemInstruction } = parsed as { contents: unknown; systemInstruction?: unknown };
+    return JSON.stringify({ contents, systemInstruction });
+  }
+  return body;
+}
+
+/**
+ * Where a request's fixture lives. The file name combines a hash of the request without volatile parameters
+ * (`loose`) and one of the full request (`exact`), so a mock run can fall back to a near match.
+ * A request body is never volatile: AI requests only match recordings of the same prompt, since another trip's answer would be wrong.
+ */
+function locateFixture(url: URL, method: string, body: string | undefined): { dir: string; prefix: string; fileName: string; scrubbedUrl: string } {
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !IGNORED_PARAMS.includes(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const base = `${method} ${url.origin}${url.pathname}`;
+  const loose = hash([base, ...params.filter(([name]) => !VOLATILE_PARAMS.includes(name)).map(([name, value]) => `${name}=${value}`), body !== undefined ? promptOf(body) : ''].join('&'));
+  const exact = hash([base, ...params.map(([name, value]) => `${name}=${value}`), body ?? ''].join('&'));
+  const slug = url.pathname.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'root';
+  const query = new URLSearchParams(params).toString();
+  return {
+    dir: path.join(FIXTURES_DIR, url.host.replace(/[^a-z0-9.-]+/gi, '_')),
+    prefix: `${slug}.${loose}.`,
+    fileName: `${slug}.${loose}.${exact}.json`,
+    scrubbedUrl: scrubSecrets(`${url.origin}${url.pathname}${query ? `?${query}` : ''}`),
+  };
+}
+
+/**
+ * Finds the fixture for a request: the exact match if recorded, otherwise the first near match (same endpoint and
+ * parameters apart from volatile ones such as the departure time; for POST requests, the same prompt).
+ */
+async function readFixture(dir: string, prefix: string, fileName: string): Promise<Fixture | null> {
+  let candidates: string[];
+  try {
+    candidates = await fs.readdir(dir);
+  } catch {
+    return null; // Nothing recorded for this service yet
+  }
+  const match = candidates.includes(fileName) ? fileName : candidates.filter(name => name.startsWith(prefix)).sort()[0];
+  if (!match) return null;
+  if (match !== fileName) {
+    console.warn(`[Fixtures] No exact fixture for this request; using the near match ${match}.`);
+  }
+  return JSON.parse(await fs.readFile(path.join(dir, match), 'utf8')) as Fixture;
+}
+
+/**
+ * Wraps `fetch` so requests to external services are served from (or recorded into) the fixtures directory.
+ * Requests to other hosts (e.g., Firebase) always go through untouched.
+ *
+ * @param baseFetch The real fetch.
+ * @param mode 'mock' or 'record'.
+ * @returns The wrapped fetch.
+ */
+export function createFixtureFetch(baseFetch: typeof fetch, mode: Exclude<FixtureMode, 'live'>): typeof fetch {
+  const hosts = getFixtureHosts();
+
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    if (!hosts.has(url.host)) {
+      return baseFetch(input, init);
+    }
+
+    const body = request.method === 'GET' || request.method === 'HEAD' ? undefined : await request.clone().text();
+    const { dir, prefix, fileName, scrubbedUrl } = locateFixture(url, request.method, body);
+
+    if (mode === 'mock') {
+      const fixture = await readFixture(dir, prefix, fileName);
+      if (!fixture) {
+        console.error(`[Fixtures] No recorded response for ${request.method} ${scrubbedUrl}.`);
+        // Not retryable: asking again won't make a recording appear
+        throw new NetworkError(`Fixture Error: No recorded response for ${request.method} ${scrubbedUrl}. Run once with FIXTURE_MODE=record to capture it.`, { retryable: false });
+      }
+      const { status, contentType, body: responseBody } = fixture.response;
+      return new Response(typeof responseBody === 'string' ? responseBody : JSON.stringify(responseBody), {
+        status,
+        headers: { 'Content-Type': contentType || 'application/json' },
+      });
+    }
+
+    const response = await baseFetch(request);
+    const text = await response.text();
+    const fixture: Fixture = {
+      request: {
+        method: request.method,
+        url: scrubbedUrl,
+        body: body ? parseBody(scrubSecrets(body)) : undefined,
+      },
+      response: {
+        status: response.status,
+        contentType: response.headers.get('content-type') ?? undefined,
+        body: parseBody(scrubSecrets(text)),
+      },
+      recordedAt: new Date().toISOString(),
+    };
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, fileName), `${JSON.stringify(fixture, null, 2)}\n`);
+      console.log(`[Fixtures] Recorded ${request.method} ${scrubbedUrl} as ${fileName}.`);
+    } catch (error) {
+      // Recording is a side effect; the request itself succeeded
+      console.warn(`[Fixtures] Could not save fixture ${fileName}:`, error);
+    }
+    return new Response(text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: { 'Content-Type': fixture.response.contentType || 'application/json' }, // The body is already decoded
+    });
+  };
+}
+
+let installed = false;
+
+/**
+ * Routes external service calls through the fixtures directory when FIXTURE_MODE is 'mock' or 'record'.
+ * Call once at server start-up, before any service is used. Does nothing in live mode.
+ */
+export function installFixtureFetch(): void {
+  const mode = getFixtureMode();
+  if (mode === 'live' || installed) return;
+  globalThis.fetch = createFixtureFetch(globalThis.fetch.bind(globalThis), mode);
+  installed = true;
+  console.log(`[Fixtures] ${mode === 'mock' ? 'Serving' : 'Recording'} external service responses ${mode === 'mock' ? 'from' : 'into'} ${FIXTURES_DIR}.`);
+}
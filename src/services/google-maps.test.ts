@@ -0,0 +1,271 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigurationError } from '@/lib/service-errors';
+import { directionsRoute, jsonResponse, routeAlong } from '@/test/helpers';
+import {
+  findAttractionsNearRoute,
+  findShortestRoute,
+  getCoordinatesFromPlaceId,
+  SERVER_CONFIG_ERROR_MSG,
+  type Attraction,
+  type NearbyAttractionSearch,
+} from '@/services/google-maps';
+
+// The key is read when the module loads
+vi.hoisted(() => {
+  process.env.GOOGLE_MAPS_API_KEY = 'test-key';
+});
+
+const origin = {lat: 52.52, lng: 13.405};
+const destination = {lat: 52.53, lng: 13.42};
+
+describe('findShortestRoute', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(Math, 'random').mockReturnValue(0); // Retry at once
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+  });
+
+  describe('status mapping', () => {
+    it.each([
+      ['REQUEST_DENIED', undefined, 'Directions API Error: Request Denied. The provided API key is invalid.', 'REQUEST_DENIED', false],
+      ['INVALID_REQUEST', undefined, /^Directions API Error: Invalid Request\./, 'INVALID_REQUEST', false],
+      ['MAX_WAYPOINTS_EXCEEDED', undefined, /^Directions API Error: Too many waypoints provided\./, 'INVALID_REQUEST', false],
+      ['OVER_QUERY_LIMIT', undefined, /^Directions API Error: Usage limit exceeded\./, 'QUOTA', true],
+      ['ZERO_RESULTS', ['place_id:abc'], /^Directions API Error: No route found including the specified waypoints\. Status: ZERO_RESULTS\./, 'ZERO_RESULTS', false],
+      ['ZERO_RESULTS', undefined, /^Could not find route\. Status: ZERO_RESULTS\./, 'ZERO_RESULTS', false],
+      ['UNKNOWN_ERROR', undefined, /^Could not find route\. Status: UNKNOWN_ERROR\./, 'UNKNOWN', true],
+    ])('maps %s (waypoints: %j) to a descriptive error', async (status, waypoints, expected, code, retryable) => {
+      fetchMock.mockImplementation(async () => jsonResponse({
+        status,
+        error_message: status === 'REQUEST_DENIED' ? 'The provided API key is invalid.' : undefined,
+      }));
+
+      const failure = findShortestRoute(origin, destination, waypoints);
+      await expect(failure).rejects.toThrow(expected);
+      await expect(failure).rejects.toMatchObject({code, provider: 'google', operation: 'directions', retryable});
+    });
+
+    it('retries a rate-limited request before giving up', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({status: 'OVER_QUERY_LIMIT'}))
+        .mockResolvedValueOnce(jsonResponse({status: 'OK', routes: [directionsRoute([{distanceMeters: 1000, durationSeconds: 60, points: [[52.5, 13.4], [52.51, 13.41]]}])]}));
+
+      await expect(findShortestRoute(origin, destination)).resolves.toMatchObject({distanceMeters: 1000});
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry a denied request', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({status: 'REQUEST_DENIED'}));
+
+      await expect(findShortestRoute(origin, destination)).rejects.toMatchObject({code: 'REQUEST_DENIED'});
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('treats an OK response without routes as no route found', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({status: 'OK', routes: []}));
+
+      await expect(findShortestRoute(origin, destination)).rejects.toThrow('Could not find route. Status: ZERO_RESULTS.');
+    });
+
+    it('wraps network failures', async () => {
+      fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+      const failure = findShortestRoute(origin, destination);
+      await expect(failure).rejects.toThrow('Failed to fetch directions: fetch failed');
+      await expect(failure).rejects.toMatchObject({code: 'NETWORK', retryable: true});
+    });
+
+    it('reports a missing API key without calling the API', async () => {
+      vi.resetModules();
+      vi.stubEnv('GOOGLE_MAPS_API_KEY', '');
+      const {findShortestRoute: findWithoutKey} = await import('@/services/google-maps');
+
+      await expect(findWithoutKey(origin, destination)).rejects.toMatchObject({code: 'CONFIG_MISSING', message: SERVER_CONFIG_ERROR_MSG});
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('response parsing', () => {
+    const firstLeg: [number, number][] = [[52.52, 13.405], [52.525, 13.41]];
+    const secondLeg: [number, number][] = [[52.525, 13.41], [52.53, 13.42]];
+
+    it('decodes the overview polyline and sums the legs', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({
+        status: 'OK',
+        routes: [directionsRoute([
+          {distanceMeters: 700, durationSeconds: 120, points: firstLeg},
+          {distanceMeters: 900, durationSeconds: 180, points: secondLeg},
+        ], {waypoint_order: [0]})],
+      }));
+
+      const route = await findShortestRoute(origin, destination, ['place_id:abc']);
+
+      expect(route.path).toEqual([
+        {lat: 52.52, lng: 13.405},
+        {lat: 52.525, lng: 13.41},
+        {lat: 52.525, lng: 13.41},
+        {lat: 52.53, lng: 13.42},
+      ]);
+      expect(route.distanceMeters).toBe(1600);
+      expect(route.durationSeconds).toBe(300);
+      expect(route.legs?.map(leg => leg.distanceMeters)).toEqual([700, 900]);
+      expect(route.legs?.[0].steps?.[0].path).toEqual([{lat: 52.52, lng: 13.405}, {lat: 52.525, lng: 13.41}]);
+      expect(route.waypointsOrder).toEqual([0]);
+      expect(route.summary).toBe('Test Highway');
+      expect(route.usesHighways).toBe(true);
+      expect(route.travelMode).toBe('driving');
+
+      const requested = new URL(String(fetchMock.mock.calls[0][0]));
+      expect(requested.searchParams.get('waypoints')).toBe('optimize:true|place_id:abc');
+      expect(requested.searchParams.has('alternatives')).toBe(false);
+    });
+
+    it('totals the traffic duration only when every leg has one', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({
+        status: 'OK',
+        routes: [directionsRoute([
+          {distanceMeters: 700, durationSeconds: 120, durationInTrafficSeconds: 150, points: firstLeg},
+          {distanceMeters: 900, durationSeconds: 180, durationInTrafficSeconds: 240, points: secondLeg},
+        ])],
+      }));
+      fetchMock.mockResolvedValueOnce(jsonResponse({
+        status: 'OK',
+        routes: [directionsRoute([
+          {distanceMeters: 700, durationSeconds: 120, durationInTrafficSeconds: 150, points: firstLeg},
+          {distanceMeters: 900, durationSeconds: 180, points: secondLeg},
+        ])],
+      }));
+
+      expect((await findShortestRoute(origin, destination)).durationInTrafficSeconds).toBe(390);
+      expect((await findShortestRoute(origin, destination)).durationInTrafficSeconds).toBeUndefined();
+    });
+
+    it('falls back to a straight line for steps without a polyline', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({status: 'OK', routes: [directionsRoute([{distanceMeters: 700, durationSeconds: 120, points: firstLeg, omitStepPolyline: true}])]}));
+
+      const route = await findShortestRoute(origin, destination);
+
+      expect(route.legs?.[0].steps?.[0].path).toEqual([{lat: 52.52, lng: 13.405}, {lat: 52.525, lng: 13.41}]);
+    });
+
+    it('rejects routes missing required fields', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({status: 'OK', routes: [{legs: []}]}));
+
+      await expect(findShortestRoute(origin, destination)).rejects.toThrow('Directions API response missing required fields.');
+    });
+  });
+});
+
+describe('findAttractionsNearRoute', () => {
+  const attraction = (placeId: string, lat: number, lng: number, rating = 4.5): Attraction => ({
+    name: placeId,
+    description: 'Notable place',
+    location: {lat, lng},
+    placeId,
+    rating,
+  });
+
+  /**
+   * A route heading due east along the equator, where a degree of longitude is about 111 km.
+   */
+  const eastbound = (kilometers: number) => routeAlong([[0, 0], [0, kilometers / 111.195]]);
+
+  it.each([
+    [2, 1, 2000], // Short routes: one search, at the minimum radius
+    [50, 3, 12500], // A search every ~17 km, each reaching three quarters of the way to the next
+    [400, 8, 37500], // Capped at 8 searches, so each covers more
+    [1000, 8, 50000], // And the radius is capped at the API's maximum
+  ])('searches a %i km route at %i points', async (kilometers, expectedSamples, expectedRadius) => {
+    const route = eastbound(kilometers);
+    const search = vi.fn<NearbyAttractionSearch>().mockResolvedValue([]);
+
+    await findAttractionsNearRoute(route, undefined, search);
+
+    expect(search).toHaveBeenCalledTimes(expectedSamples);
+    search.mock.calls.forEach(([center, searchRadius], index) => {
+      expect(searchRadius).toBe(expectedRadius);
+      expect(center.lng).toBeCloseTo(route.path[1].lng * ((index + 0.5) / expectedSamples), 6); // Middle of each chunk
+    });
+  });
+
+  it('deduplicates, drops places far off the route and ranks by detour', async () => {
+    const route = eastbound(50);
+    const near = attraction('near', 0.01, 0.2, 4.0); // ~1.1 km off
+    const nearer = attraction('nearer', 0.001, 0.3, 4.0); // ~0.1 km off
+    const far = attraction('far', 0.2, 0.2); // ~22 km off
+    const search = vi.fn<NearbyAttractionSearch>().mockResolvedValue([near, far, nearer]);
+
+    const result = await findAttractionsNearRoute(route, undefined, search);
+
+    expect(result.map(place => place.placeId)).toEqual(['nearer', 'near']);
+    expect(result[0].distanceFromRouteMeters).toBeLessThan(result[1].distanceFromRouteMeters!);
+    expect(result[0].detourSeconds).toBeLessThan(result[1].detourSeconds!);
+  });
+
+  it('skips failed searches but propagates a missing API key', async () => {
+    const route = eastbound(50);
+    const search = vi.fn<NearbyAttractionSearch>()
+      .mockRejectedValueOnce(new Error('Places API Error: Usage limit exceeded.'))
+      .mockResolvedValue([attraction('kept', 0, 0.1)]);
+
+    await expect(findAttractionsNearRoute(route, undefined, search)).resolves.toHaveLength(1);
+
+    search.mockReset().mockRejectedValue(new ConfigurationError(SERVER_CONFIG_ERROR_MSG, {provider: 'google'}));
+    await expect(findAttractionsNearRoute(route, undefined, search)).rejects.toThrow(SERVER_CONFIG_ERROR_MSG);
+  });
+
+  it('returns nothing for an empty path', async () => {
+    const search = vi.fn<NearbyAttractionSearch>();
+
+    await expect(findAttractionsNearRoute(routeAlong([]), undefined, search)).resolves.toEqual([]);
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it('degrades to no attractions when Places keeps failing, without calling it for every point', async () => {
+    const fetchMock = vi.fn<typeof fetch>().mockRejectedValue(new TypeError('fetch failed'));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(Math, 'random').mockReturnValue(0); // Retry at once
+
+    await expect(findAttractionsNearRoute(eastbound(400))).resolves.toEqual([]);
+    // Eight points with two attempts each, but the circuit opens after five failures
+    expect(fetchMock.mock.calls.length).toBeLessThan(16);
+  });
+});
+
+describe('getCoordinatesFromPlaceId', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+  });
+
+  const requestedUrl = () => new URL(String(fetchMock.mock.calls[0][0]));
+
+  it('closes the autocomplete session with a Place Details request', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({status: 'OK', result: {geometry: {location: origin}}}));
+
+    await expect(getCoordinatesFromPlaceId('berlin-tv-tower', 'session-1')).resolves.toEqual(origin);
+
+    expect(requestedUrl().pathname).toBe('/maps/api/place/details/json');
+    expect(requestedUrl().searchParams.get('sessiontoken')).toBe('session-1');
+    expect(requestedUrl().searchParams.get('fields')).toBe('geometry');
+  });
+
+  it('geocodes the place ID when there is no session to close', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({status: 'OK', results: [{geometry: {location: origin}}]}));
+
+    await expect(getCoordinatesFromPlaceId('berlin-tv-tower')).resolves.toEqual(origin);
+
+    expect(requestedUrl().pathname).toBe('/maps/api/geocode/json');
+    expect(requestedUrl().searchParams.has('sessiontoken')).toBe(false);
+  });
+});
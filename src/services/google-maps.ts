@@ -1,5 +1,20 @@
 
 import { decode } from '@googlemaps/polyline-codec';
+import { cumulativePathDistances, interpolateAlongPath, projectOntoPath } from '@/lib/geo';
+import { isMockMode } from '@/lib/fixture-mode';
+import { mapInBatches, MAX_CONCURRENT_REQUESTS } from '@/lib/batch';
+import {
+  ConfigurationError,
+  InvalidRequestError,
+  isServiceError,
+  NetworkError,
+  NoResultsError,
+  QuotaExceededError,
+  RequestDeniedError,
+  ServiceError,
+  type ServiceErrorOptions,
+} from '@/lib/service-errors';
+import { requestJson, type RequestPolicy } from '@/services/http-client';
 
 /**
  * Represents a geographical coordinate.
@@ -15,6 +30,114 @@ export interface Coordinate {
   lng: number;
 }
 
+/**
+ * The travel modes supported by the Directions API.
+ */
+export type TravelMode = 'driving' | 'walking' | 'bicycling' | 'transit';
+
+/**
+ * Represents a single transit ride (bus, train, etc.) within a transit route.
+ */
+export interface TransitLeg {
+  /**
+   * The line's name as shown to riders (short name if available, e.g., "N" or "Caltrain Local").
+   */
+  lineName: string;
+  /**
+   * The vehicle type (e.g., BUS, SUBWAY, HEAVY_RAIL, TRAM, FERRY).
+   */
+  vehicleType: string;
+  /**
+   * The stop where the rider boards.
+   */
+  departureStop: string;
+  /**
+   * The stop where the rider gets off.
+   */
+  arrivalStop: string;
+  /**
+   * The direction shown on the vehicle (usually the terminus).
+   */
+  headsign?: string;
+  /**
+   * The scheduled departure time as an ISO 8601 string, if provided.
+   */
+  departureTime?: string;
+  /**
+   * The scheduled arrival time as an ISO 8601 string, if provided.
+   */
+  arrivalTime?: string;
+  /**
+   * The number of stops ridden, if provided.
+   */
+  numStops?: number;
+}
+
+/**
+ * Represents a single maneuver-to-maneuver step within a route leg.
+ */
+export interface RouteStep {
+  /**
+   * The maneuver at the start of the step (e.g., "turn-left", "ramp-right"), if Google provides one.
+   */
+  maneuver?: string;
+  /**
+   * The step instruction as returned by Google (may contain HTML markup).
+   */
+  htmlInstructions: string;
+  /**
+   * The distance of the step in meters.
+   */
+  distanceMeters: number;
+  /**
+   * The duration of the step in seconds.
+   */
+  durationSeconds: number;
+  /**
+   * The coordinate where the step (and its maneuver) starts.
+   */
+  startLocation: Coordinate;
+  /**
+   * The coordinate where the step ends.
+   */
+  endLocation: Coordinate;
+  /**
+   * The detailed path of the step, decoded from its polyline.
+   */
+  path: Coordinate[];
+}
+
+/**
+ * Represents one leg of a route: the stretch between two consecutive stops (origin, waypoints, destination).
+ */
+export interface RouteLeg {
+  /**
+   * The distance of the leg in meters.
+   */
+  distanceMeters: number;
+  /**
+   * The duration of the leg in seconds.
+   */
+  durationSeconds: number;
+  /**
+   * The duration of the leg in current/predicted traffic, in seconds.
+   * Only present for driving requests with a departure time and no stopover waypoints.
+   */
+  durationInTrafficSeconds?: number;
+  /**
+   * The coordinate where the leg starts.
+   */
+  startLocation: Coordinate;
+  /**
+   * The coordinate where the leg ends.
+   */
+  endLocation: Coordinate;
+  /**
+   * The turn-by-turn steps of the leg, in travel order.
+   */
+  steps?: RouteStep[];
+}
+
 /**
  * Represents a route with path, distance, duration, and waypoints.
  */
@@ -31,6 +154,11 @@ export interface Route {
    * The total duration of the route in seconds (typically considering traffic and stop time if available).
    */
   durationSeconds: number;
+  /**
+   * The total duration in current/predicted traffic for the requested departure time, in seconds.
+   * Only present when Google reports `duration_in_traffic` for every leg (driving with a departure time, no stopovers).
+   */
+  durationInTrafficSeconds?: number;
   /**
    * The bounding box containing the entire route, including waypoints.
    */
@@ -44,6 +172,30 @@ export interface Route {
    * Only present if waypoints were provided and optimization occurred.
    */
   waypointsOrder?: number[];
+  /**
+   * The legs of the route in travel order (one more than the number of waypoints).
+   */
+  legs?: RouteLeg[];
+  /**
+   * A short label for the route, usually the main roads it uses (e.g., "US-101 S").
+   */
+  summary?: string;
+  /**
+   * Whether the route appears to include toll roads.
+   */
+  hasTolls?: boolean;
+  /**
+   * Whether the route appears to use highways/freeways.
+   */
+  usesHighways?: boolean;
+  /**
+   * The travel mode the route was computed for (defaults to driving).
+   */
+  travelMode?: TravelMode;
+  /**
+   * The transit rides along the route, in order. Only present for transit routes.
+   */
+  transitLegs?: TransitLeg[];
 }
 
 /**
@@ -74,50 +226,396 @@ export interface Attraction {
      * Optional: Types of the place (e.g., "museum", "park").
      */
     types?: string[];
+    /**
+     * Optional: Perpendicular distance from the route polyline, in meters. Set by `findAttractionsNearRoute`.
+     */
+    distanceFromRouteMeters?: number;
+    /**
+     * Optional: Estimated extra travel time to leave the route, visit and return, in seconds. Set by `findAttractionsNearRoute`.
+     */
+    detourSeconds?: number;
+    /**
+     * Optional: The measured cost of inserting this place as a waypoint, compared with the route without it.
+     * Set by `estimateDetourCosts`.
+     */
+    detourCost?: DetourCost;
+}
+
+/**
+ * A place suggestion for partially typed text.
+ */
+export interface PlacePrediction {
+    /**
+     * The Google Place ID of the suggestion.
+     */
+    placeId: string;
+    /**
+     * The full text of the suggestion (e.g., "Ferry Building, San Francisco, CA, USA").
+     */
+    description: string;
+    /**
+     * The place's name or street address (e.g., "Ferry Building").
+     */
+    mainText: string;
+    /**
+     * Optional: The locality or region (e.g., "San Francisco, CA, USA").
+     */
+    secondaryText?: string;
+}
+
+/**
+ * What a stop adds to a trip.
+ */
+export interface DetourCost {
+    /**
+     * The extra travel time, in seconds.
+     */
+    addedSeconds: number;
+    /**
+     * The extra distance, in meters.
+     */
+    addedMeters: number;
+}
+
+/**
+ * A point in a place's weekly schedule, in the place's local time.
+ */
+export interface OpeningHoursTime {
+    /**
+     * Day of the week, 0 (Sunday) to 6 (Saturday).
+     */
+    day: number;
+    /**
+     * Time of day as "HHMM" in 24-hour format (e.g., "0930").
+     */
+    time: string;
+}
+
+/**
+ * A span of the week during which a place is open.
+ */
+export interface OpeningHoursPeriod {
+    open: OpeningHoursTime;
+    /**
+     * When the place closes. Absent for places that are always open.
+     */
+    close?: OpeningHoursTime;
+}
+
+/**
+ * A place's regular weekly opening hours.
+ */
+export interface PlaceOpeningHours {
+    /**
+     * The open periods, in the place's local time.
+     */
+    periods: OpeningHoursPeriod[];
+    /**
+     * The place's current offset from UTC, in minutes. Needed to compare the periods with UTC times.
+     */
+    utcOffsetMinutes?: number;
+    /**
+     * Optional: Human-readable hours for each day (e.g., "Monday: 9:00 AM – 5:00 PM").
+     */
+    weekdayText?: string[];
+}
+
+/**
+ * What kind of places to look for along a route, and how to filter them.
+ */
+export interface AttractionSearchPreferences {
+    /**
+     * Places API types to search (e.g., "restaurant", "museum"). Each type is a separate request; empty searches by keyword only.
+     */
+    types?: string[];
+    /**
+     * Free-text keywords (e.g., "EV charging"). Searches without types or keywords look for famous attractions.
+     */
+    keyword?: string;
+    /**
+     * Minimum Google rating (0-5). Unrated places only pass a minimum of 0.
+     */
+    minRating?: number;
+    /**
+     * Only return places open at the time of the search.
+     */
+    openNow?: boolean;
+    /**
+     * Price level range, from 0 (free) to 4 (very expensive). Google excludes places without a price level when set.
+     */
+    minPrice?: number;
+    maxPrice?: number;
+    /**
+     * The maximum number of places to return.
+     */
+    maxResults?: number;
 }
 
+// Keywords for searches without a type or keyword of their own
+const DEFAULT_ATTRACTION_KEYWORD = 'famous attraction point of interest landmark museum park';
+
+/**
+ * The search used when the planner doesn't specify one: well-known sights rated 3.5★ or higher.
+ */
+export const DEFAULT_ATTRACTION_SEARCH_PREFERENCES: AttractionSearchPreferences = {
+    types: [],
+    keyword: '',
+    minRating: 3.5,
+    openNow: false,
+    maxResults: 15,
+};
+
 // Use the server-side key for backend services
 // Ensure GOOGLE_MAPS_API_KEY is set in your .env.local file
 const API_KEY = process.env.GOOGLE_MAPS_API_KEY;
 const GEOCODING_API_URL = 'https://maps.googleapis.com/maps/api/geocode/json';
 const DIRECTIONS_API_URL = 'https://maps.googleapis.com/maps/api/directions/json';
 const PLACES_API_URL = 'https://maps.googleapis.com/maps/api/place/nearbysearch/json';
+const PLACES_AUTOCOMPLETE_API_URL = 'https://maps.googleapis.com/maps/api/place/autocomplete/json';
+const PLACES_DETAILS_API_URL = 'https://maps.googleapis.com/maps/api/place/details/json';
 
 // Centralized error message for missing server-side API key configuration.
-// Make sure this exact message is checked in components handling errors from these services.
+// Components should check the error's CONFIG_MISSING code rather than this text.
 export const SERVER_CONFIG_ERROR_MSG = 'Server Configuration Error: Google Maps API key (GOOGLE_MAPS_API_KEY) is not configured. Please ensure it is correctly set in your `.env.local` file and that the server has been restarted.';
 
+/**
+ * Where an error from one of the Google APIs came from, for the typed errors below.
+ */
+const googleError = (operation: string, retryable?: boolean): ServiceErrorOptions => ({ provider: 'google', operation, retryable });
+
 /**
  * Checks if the server-side API key is configured.
- * Throws a specific error if the key is missing.
+ * Throws a specific error if the key is missing, unless responses come from fixtures (FIXTURE_MODE=mock).
  * @param apiName The name of the API being called (for logging).
- * @throws {Error} Throws SERVER_CONFIG_ERROR_MSG if the key is not found.
+ * @param operation The operation reported on the error.
+ * @throws {ConfigurationError} With SERVER_CONFIG_ERROR_MSG if the key is not found.
  */
-function checkApiKey(apiName: string): void {
-    if (!API_KEY) {
+function checkApiKey(apiName: string, operation: string): void {
+    if (!API_KEY && !isMockMode()) {
         console.error(`${apiName} API Error: ${SERVER_CONFIG_ERROR_MSG}`);
-        throw new Error(SERVER_CONFIG_ERROR_MSG); // Throw the specific config error
+        throw new ConfigurationError(SERVER_CONFIG_ERROR_MSG, googleError(operation)); // Throw the specific config error
     }
 }
 
+// Google reports rate limiting and its own passing failures in the body of a 200 response
+const isTransientGoogleStatus = (body: any): boolean => body?.status === 'OVER_QUERY_LIMIT' || body?.status === 'UNKNOWN_ERROR';
+
+// Nearby searches run several at a time for one trip and are optional extras; give up on a slow one quickly
+const PLACES_NEARBY_POLICY: Partial<RequestPolicy> = { timeoutMs: 5000, maxAttempts: 2 };
+// Autocomplete runs per keystroke; a retry would arrive after the next keystroke's request anyway
+const PLACES_AUTOCOMPLETE_POLICY: Partial<RequestPolicy> = { timeoutMs: 4000, maxAttempts: 1 };
+
+/**
+ * Calls one of the Google Maps web services through the shared HTTP client (timeouts, retries, circuit breaker).
+ * A status that persists after the retries (e.g., OVER_QUERY_LIMIT) is returned in the body for the caller to report.
+ *
+ * @param url The request URL, including the API key.
+ * @param operation The operation reported on errors and metrics.
+ * @param action What the request does, for the network error message (e.g., "fetch directions").
+ * @param policy Overrides for the default timeout and retries.
+ * @returns The parsed JSON body.
+ * @throws {NetworkError} If Google can't be reached or its answer isn't JSON.
+ */
+async function fetchGoogleJson(url: string, operation: string, action: string, policy?: Partial<RequestPolicy>): Promise<any> {
+    const response = await requestJson({ provider: 'google', operation, action, url, policy, isTransient: isTransientGoogleStatus });
+    if (response.body === null) {
+        throw new NetworkError(`Failed to ${action}: the response could not be read (HTTP ${response.status}).`, googleError(operation, response.status >= 500));
+    }
+    return response.body;
+}
+
+/**
+ * A road feature the Directions API can avoid. 'indoor' only affects walking and transit routes.
+ */
+export type RouteRestriction = 'tolls' | 'highways' | 'ferries' | 'indoor';
+
+/**
+ * The travel modes Google applies each restriction to.
+ */
+export const ROUTE_RESTRICTION_MODES: Record<RouteRestriction, TravelMode[]> = {
+  tolls: ['driving'],
+  highways: ['driving'],
+  ferries: ['driving', 'bicycling', 'walking'],
+  indoor: ['walking', 'transit'],
+};
+
 /**
- * Finds the shortest route between two geographical coordinates, optionally via waypoints,
- * using Google Maps Directions API.
+ * Keeps only the restrictions Google applies to a travel mode.
+ *
+ * @param avoid The restrictions the user chose.
+ * @param mode The travel mode of the route.
+ * @returns The restrictions that apply to the mode, in their original order.
+ */
+export function restrictionsForMode(avoid: RouteRestriction[], mode: TravelMode): RouteRestriction[] {
+  return avoid.filter(restriction => ROUTE_RESTRICTION_MODES[restriction].includes(mode));
+}
+
+/**
+ * Options for a Directions API request.
+ */
+export interface DirectionsOptions {
+  /**
+   * Ask the Directions API for alternative routes in addition to the default one.
+   * Note: Google ignores this when waypoints are provided.
+   */
+  alternatives?: boolean;
+  /**
+   * The travel mode to route for (defaults to driving).
+   * Google does not support waypoints for transit, so they are dropped in that mode.
+   */
+  mode?: TravelMode;
+  /**
+   * The departure time as an ISO 8601 string. Sent as `departure_time` so transit schedules match the trip
+   * and driving routes include `duration_in_traffic`. Times in the past are sent as `now`.
+   */
+  departureTime?: string;
+  /**
+   * How to predict traffic for driving requests with a departure time (Google defaults to `best_guess`).
+   */
+  trafficModel?: TrafficModel;
+  /**
+   * Let Google reorder the waypoints for the shortest trip (defaults to true).
+   * Set to false to visit them in the given order, e.g., when rerouting mid-journey.
+   */
+  optimizeWaypoints?: boolean;
+  /**
+   * Features the route should avoid where possible (sent as `avoid`). Google may still use them if there is no other way.
+   */
+  avoid?: RouteRestriction[];
+}
+
+/**
+ * The Directions API traffic models: typical traffic, or the optimistic/pessimistic end of the historical range.
+ */
+export type TrafficModel = 'best_guess' | 'pessimistic' | 'optimistic';
+
+// Waypoints may be Place IDs (`place_id:...`), plain `lat,lng` coordinates or addresses; '|' separates them in the request
+const INVALID_WAYPOINT_PATTERN = /\|/;
+
+// Heuristics for flags the legacy Directions API doesn't report directly
+const TOLL_PATTERN = /\btolls?\b/i;
+const HIGHWAY_PATTERN = /\b(highway|freeway|expressway|motorway|interstate|turnpike|hwy|fwy|I-\d+|US-\d+)\b/i;
+
+/**
+ * Extracts the transit rides from the steps of a Directions API route.
+ *
+ * @param legs The `legs` array of a Directions API route.
+ * @returns The transit rides in travel order (empty if the route has none).
+ */
+function parseTransitLegs(legs: any[]): TransitLeg[] {
+    return legs
+        .flatMap((leg: any) => leg.steps || [])
+        .filter((step: any) => step.travel_mode === 'TRANSIT' && step.transit_details)
+        .map((step: any) => {
+            const details = step.transit_details;
+            // Transit times are Unix seconds in `value`
+            const toIso = (time: any): string | undefined => typeof time?.value === 'number' ? new Date(time.value * 1000).toISOString() : undefined;
+            return {
+                lineName: details.line?.short_name || details.line?.name || 'Transit',
+                vehicleType: details.line?.vehicle?.type || 'TRANSIT',
+                departureStop: details.departure_stop?.name || 'Unknown stop',
+                arrivalStop: details.arrival_stop?.name || 'Unknown stop',
+                headsign: details.headsign,
+                departureTime: toIso(details.departure_time),
+                arrivalTime: toIso(details.arrival_time),
+                numStops: details.num_stops,
+            };
+        });
+}
+
+/**
+ * Converts a raw Directions API route into our Route shape.
+ *
+ * @param route A single entry from the Directions API `routes` array.
+ * @param index The position of the route in the response (used for the fallback label).
+ * @param mode The travel mode the route was requested for.
+ * @returns The parsed Route.
+ * @throws {ServiceError} If the route is missing legs, overview polyline, or bounds.
+ */
+function parseDirectionsRoute(route: any, index: number, mode: TravelMode): Route {
+    if (!route.legs || !route.overview_polyline?.points || !route.bounds) {
+        console.error('[Google Maps Service] Directions API Error: Response missing required fields (legs, overview_polyline, or bounds). Route:', JSON.stringify(route));
+        throw new ServiceError('UNKNOWN', 'Directions API response missing required fields.', googleError('directions'));
+    }
+
+    // Calculate total distance and duration by summing up all legs
+    let totalDistanceMeters = 0;
+    let totalDurationSeconds = 0;
+    const legs: RouteLeg[] = route.legs.map((leg: any) => {
+        totalDistanceMeters += leg.distance?.value || 0;
+        totalDurationSeconds += leg.duration?.value || 0;
+        return {
+            distanceMeters: leg.distance?.value || 0,
+            durationSeconds: leg.duration?.value || 0,
+            durationInTrafficSeconds: leg.duration_in_traffic?.value, // Only present for driving with a departure time
+            startLocation: leg.start_location, // { lat, lng }
+            endLocation: leg.end_location, // { lat, lng }
+            steps: (leg.steps || []).map((step: any): RouteStep => ({
+                maneuver: step.maneuver,
+                htmlInstructions: step.html_instructions || '',
+                distanceMeters: step.distance?.value || 0,
+                durationSeconds: step.duration?.value || 0,
+                startLocation: step.start_location,
+                endLocation: step.end_location,
+                // Fall back to a straight line if the step has no polyline
+                path: step.polyline?.points
+                    ? decode(step.polyline.points, 5).map(([lat, lng]) => ({ lat, lng }))
+                    : [step.start_location, step.end_location],
+            })),
+        };
+    });
+
+    // Traffic-aware total, only if every leg has one (otherwise mixing the two would understate delays)
+    const durationInTrafficSeconds = legs.length > 0 && legs.every(leg => leg.durationInTrafficSeconds !== undefined)
+        ? legs.reduce((total, leg) => total + leg.durationInTrafficSeconds!, 0)
+        : undefined;
+
+    // Decode the overview polyline to get the path coordinates
+    const decodedPath: Coordinate[] = decode(route.overview_polyline.points, 5).map(([lat, lng]) => ({ lat, lng }));
+
+    // Toll/highway flags: look at the route warnings, summary, and step instructions
+    const stepInstructions: string[] = route.legs.flatMap((leg: any) => (leg.steps || []).map((step: any) => step.html_instructions || ''));
+    const warnings: string[] = route.warnings || [];
+    const hasTolls = warnings.some(warning => TOLL_PATTERN.test(warning)) || stepInstructions.some(text => TOLL_PATTERN.test(text));
+    const usesHighways = HIGHWAY_PATTERN.test(route.summary || '') || stepInstructions.some(text => HIGHWAY_PATTERN.test(text));
+
+    return {
+      path: decodedPath,
+      distanceMeters: totalDistanceMeters, // Use summed distance
+      durationSeconds: totalDurationSeconds, // Use summed duration
+      durationInTrafficSeconds,
+      bounds: { // LatLngBoundsLiteral format for the entire route
+        northeast: route.bounds.northeast, // { lat, lng }
+        southwest: route.bounds.southwest, // { lat, lng }
+      },
+      waypointsOrder: route.waypoint_order, // Array of indices, present if optimization occurred
+      legs, // Per-leg distance/duration, used to time points along the route
+      summary: route.summary || `Route ${index + 1}`,
+      hasTolls,
+      usesHighways,
+      travelMode: mode,
+      transitLegs: mode === 'transit' ? parseTransitLegs(route.legs) : undefined,
+    };
+}
+
+/**
+ * Calls the Google Maps Directions API and parses every returned route.
+ * Shared by `findShortestRoute` and `findAlternativeRoutes` so both report errors the same way.
  *
  * @param origin The starting coordinate.
  * @param destination The destination coordinate.
- * @param waypoints Optional array of waypoint strings. Must be Google Place IDs prefixed with `place_id:`.
- *                  The API will attempt to optimize the order if `optimize:true` is included.
- *                  E.g., `['place_id:ChIJ...', 'place_id:ChIJ...']`.
- * @returns A promise that resolves to a Route object containing the path, distance, duration, bounds, and waypoint order.
- * @throws {Error} If the API call fails, no route is found, or API key is missing/invalid. Specific error message `SERVER_CONFIG_ERROR_MSG` is thrown if the key is missing.
+ * @param waypoints Optional array of waypoint strings (Google Place IDs prefixed with `place_id:`).
+ * @param options Additional request options.
+ * @returns A promise that resolves to the parsed routes, in the order returned by the API.
+ * @throws {ServiceError} If the API call fails, no route is found, or API key is missing/invalid. A `ConfigurationError` (code CONFIG_MISSING, message `SERVER_CONFIG_ERROR_MSG`) is thrown if the key is missing.
  */
-export async function findShortestRoute(
+async function fetchDirectionsRoutes(
     origin: Coordinate,
     destination: Coordinate,
-    waypoints?: string[] // Expecting Place IDs like 'place_id:xxxx'
-): Promise<Route> {
-  checkApiKey('Directions'); // Check if the key is configured FIRST
+    waypoints: string[] | undefined,
+    options: DirectionsOptions
+): Promise<Route[]> {
+  checkApiKey('Directions', 'directions'); // Check if the key is configured FIRST
 
   const paramsObj: Record<string, string> = {
       origin: `${origin.lat},${origin.lng}`,
@@ -125,128 +623,177 @@ export async function findShortestRoute(
       key: API_KEY!, // Key is guaranteed to exist due to checkApiKey
   };
 
-  if (waypoints && waypoints.length > 0) {
-    // Validate that waypoints are in the correct format (place_id:...)
-    const validWaypoints = waypoints.filter(wp => typeof wp === 'string' && wp.startsWith('place_id:'));
+  const mode: TravelMode = options.mode || 'driving';
+  if (mode !== 'driving') {
+      paramsObj.mode = mode;
+  }
+
+  if (mode === 'transit' && waypoints && waypoints.length > 0) {
+    console.warn('[Google Maps Service] Waypoints are not supported for transit directions and will be ignored.', waypoints);
+  } else if (waypoints && waypoints.length > 0) {
+    // Drop empty waypoints and any that would split into several (place_id:..., lat,lng and addresses are all accepted)
+    const validWaypoints = waypoints.filter(wp => typeof wp === 'string' && wp.trim() !== '' && !INVALID_WAYPOINT_PATTERN.test(wp));
     if (validWaypoints.length !== waypoints.length) {
-        console.warn('[Google Maps Service] Some provided waypoints were not valid Place IDs (format: place_id:...). Only valid ones will be used.', waypoints);
+        console.warn('[Google Maps Service] Some provided waypoints were empty or contained "|". Only valid ones will be used.', waypoints);
     }
 
     if (validWaypoints.length > 0) {
-        // Prefix with optimize:true| to let Google Maps optimize the waypoint order
-        paramsObj.waypoints = `optimize:true|${validWaypoints.join('|')}`;
+        // Prefix with optimize:true| to let Google Maps optimize the waypoint order (unless disabled)
+        const optimizePrefix = options.optimizeWaypoints === false ? '' : 'optimize:true|';
+        paramsObj.waypoints = `${optimizePrefix}${validWaypoints.join('|')}`;
         console.log(`[Google Maps Service] Using valid waypoints: ${paramsObj.waypoints}`);
     } else {
          console.log(`[Google Maps Service] No valid waypoints provided or found.`);
     }
   }
 
+  if (options.alternatives) {
+      paramsObj.alternatives = 'true';
+  }
+
+  if (options.avoid && options.avoid.length > 0) {
+      paramsObj.avoid = options.avoid.join('|');
+  }
+
+  if (options.departureTime) {
+      const departureSeconds = Math.floor(new Date(options.departureTime).getTime() / 1000);
+      if (!isNaN(departureSeconds)) {
+          // The API rejects departure times in the past
+          paramsObj.departure_time = departureSeconds > Date.now() / 1000 ? departureSeconds.toString() : 'now';
+          // Traffic models only apply to driving with a departure time
+          if (mode === 'driving' && options.trafficModel) {
+              paramsObj.traffic_model = options.trafficModel;
+          }
+      }
+  }
+
   const params = new URLSearchParams(paramsObj);
   const url = `${DIRECTIONS_API_URL}?${params.toString()}`;
   // Log URL without the API key for security
   const loggedUrlParts = [`${DIRECTIONS_API_URL}?origin=${params.get('origin')}&destination=${params.get('destination')}`];
   if(params.has('waypoints')) loggedUrlParts.push(`&waypoints=${encodeURIComponent(params.get('waypoints') || '')}`);
+  if(params.has('alternatives')) loggedUrlParts.push('&alternatives=true');
+  if(params.has('avoid')) loggedUrlParts.push(`&avoid=${encodeURIComponent(params.get('avoid') || '')}`);
+  if(params.has('mode')) loggedUrlParts.push(`&mode=${params.get('mode')}`);
+  if(params.has('departure_time')) loggedUrlParts.push(`&departure_time=${params.get('departure_time')}`);
+  if(params.has('traffic_model')) loggedUrlParts.push(`&traffic_model=${params.get('traffic_model')}`);
   loggedUrlParts.push('&key=YOUR_API_KEY');
   const loggedUrl = loggedUrlParts.join('');
   console.log(`[Google Maps Service] Fetching directions: ${loggedUrl}`);
 
   try {
-    const response = await fetch(url);
-    const data = await response.json();
+    const data = await fetchGoogleJson(url, 'directions', 'fetch directions');
 
     if (data.status !== 'OK') {
         console.error(`[Google Maps Service] Directions API Error: Status=${data.status}, Message=${data.error_message || 'No error message provided.'}`);
         if (data.status === 'REQUEST_DENIED') {
              // More specific message if possible
              const reason = data.error_message || 'Check if the Directions API is enabled and authorized for your GOOGLE_MAPS_API_KEY.';
-             throw new Error(`Directions API Error: Request Denied. ${reason}`);
+             throw new RequestDeniedError(`Directions API Error: Request Denied. ${reason}`, googleError('directions'));
         }
         if (data.status === 'ZERO_RESULTS' && waypoints && waypoints.length > 0) {
-             throw new Error(`Directions API Error: No route found including the specified waypoints. Status: ${data.status}.`);
+             throw new NoResultsError(`Directions API Error: No route found including the specified waypoints. Status: ${data.status}.`, googleError('directions'));
         }
         // Handle other common errors
         if (data.status === 'INVALID_REQUEST') {
-             throw new Error(`Directions API Error: Invalid Request. ${data.error_message || 'Check origin, destination, and waypoint format.'}`);
+             throw new InvalidRequestError(`Directions API Error: Invalid Request. ${data.error_message || 'Check origin, destination, and waypoint format.'}`, googleError('directions'));
         }
         if (data.status === 'MAX_WAYPOINTS_EXCEEDED') {
-            throw new Error(`Directions API Error: Too many waypoints provided. ${data.error_message || ''}`);
+            throw new InvalidRequestError(`Directions API Error: Too many waypoints provided. ${data.error_message || ''}`, googleError('directions'));
         }
         if (data.status === 'OVER_QUERY_LIMIT') {
-            throw new Error(`Directions API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`);
+            throw new QuotaExceededError(`Directions API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`, googleError('directions'));
         }
-        // Generic fallback
-        throw new Error(`Could not find route. Status: ${data.status}. ${data.error_message || ''}`);
+        if (data.status === 'ZERO_RESULTS' || data.status === 'NOT_FOUND') {
+            throw new NoResultsError(`Could not find route. Status: ${data.status}. ${data.error_message || ''}`, googleError('directions'));
+        }
+        // Generic fallback (Google's UNKNOWN_ERROR is a server error that may go away on retry)
+        throw new ServiceError('UNKNOWN', `Could not find route. Status: ${data.status}. ${data.error_message || ''}`, googleError('directions', data.status === 'UNKNOWN_ERROR'));
     }
 
     if (!data.routes || data.routes.length === 0) {
       console.error('[Google Maps Service] Directions API Error: No routes found in response.');
-      throw new Error('Could not find route. Status: ZERO_RESULTS.');
+      throw new NoResultsError('Could not find route. Status: ZERO_RESULTS.', googleError('directions'));
     }
 
-    // Select the first route provided (usually the optimized one)
-    const route = data.routes[0];
+    const routes: Route[] = data.routes.map((route: any, index: number) => parseDirectionsRoute(route, index, mode));
 
-    if (!route.legs || !route.overview_polyline?.points || !route.bounds) {
-        console.error('[Google Maps Service] Directions API Error: Response missing required fields (legs, overview_polyline, or bounds). Response:', JSON.stringify(data));
-        throw new Error('Directions API response missing required fields.');
-    }
-
-    // Calculate total distance and duration by summing up all legs
-    let totalDistanceMeters = 0;
-    let totalDurationSeconds = 0;
-    route.legs.forEach((leg: any) => {
-        totalDistanceMeters += leg.distance?.value || 0;
-        totalDurationSeconds += leg.duration?.value || 0; // duration_in_traffic might be more accurate if available
+    routes.forEach((route) => {
+        const trafficLog = route.durationInTrafficSeconds !== undefined ? ` (${Math.round(route.durationInTrafficSeconds/60)} min in traffic)` : '';
+        console.log(`[Google Maps Service] Directions found (${route.summary}, ${mode}): Distance=${(route.distanceMeters/1000).toFixed(1)} km, Duration=${Math.round(route.durationSeconds/60)} min${trafficLog}. Waypoint order: ${route.waypointsOrder ? route.waypointsOrder.join(', ') : 'N/A'}`);
     });
 
-
-    // Decode the overview polyline to get the path coordinates
-    const decodedPath: Coordinate[] = decode(route.overview_polyline.points, 5).map(([lat, lng]) => ({ lat, lng }));
-
-    // Waypoint order is provided if optimization occurred
-    const waypointsOrder = route.waypoint_order; // Array of indices
-
-    console.log(`[Google Maps Service] Directions found: Distance=${(totalDistanceMeters/1000).toFixed(1)} km, Duration=${Math.round(totalDurationSeconds/60)} min. Waypoint order: ${waypointsOrder ? waypointsOrder.join(', ') : 'N/A'}`);
-
-    return {
-      path: decodedPath,
-      distanceMeters: totalDistanceMeters, // Use summed distance
-      durationSeconds: totalDurationSeconds, // Use summed duration
-      bounds: { // LatLngBoundsLiteral format for the entire route
-        northeast: route.bounds.northeast, // { lat, lng }
-        southwest: route.bounds.southwest, // { lat, lng }
-      },
-      waypointsOrder: waypointsOrder // Include the optimized order
-    };
+    return routes;
   } catch (error) {
     console.error('[Google Maps Service] Error fetching directions:', error);
-    // Re-throw specific errors or a generic one
+    // Re-throw the typed errors raised above
+    if (error instanceof ServiceError) {
+        throw error;
+    }
     if (error instanceof Error) {
-        // Check if it's the configuration error FIRST
-        if (error.message === SERVER_CONFIG_ERROR_MSG) {
-            throw error;
-        }
-        // Check for specific API errors thrown above
-        if (error.message.startsWith('Could not find route') || error.message.startsWith('Directions API Error:')) {
-            throw error;
-        }
-        // Catch fetch errors (e.g., network issues)
-        throw new Error(`Failed to fetch directions: ${error.message}`);
+        // Catch fetch errors (e.g., network issues, or a response that isn't JSON)
+        throw new NetworkError(`Failed to fetch directions: ${error.message}`, { ...googleError('directions'), cause: error });
     }
     // Unknown error
-    throw new Error('An unknown error occurred while fetching directions.');
+    throw new ServiceError('UNKNOWN', 'An unknown error occurred while fetching directions.', googleError('directions'));
   }
 }
 
+/**
+ * Finds Google's default route between two geographical coordinates, optionally via waypoints,
+ * using Google Maps Directions API. Google optimizes its default for travel time, not distance;
+ * use `findAlternativeRoutes` with `rankRoutes` (src/lib/route-objective.ts) to choose by another objective.
+ *
+ * @param origin The starting coordinate.
+ * @param destination The destination coordinate.
+ * @param waypoints Optional array of waypoint strings: Google Place IDs prefixed with `place_id:`, `lat,lng` coordinates or addresses.
+ *                  The API will optimize the order unless `options.optimizeWaypoints` is false.
+ *                  E.g., `['place_id:ChIJ...', '37.77,-122.42']`.
+ * @param options Optional request options (travel mode, departure time).
+ * @returns A promise that resolves to a Route object containing the path, distance, duration, bounds, and waypoint order.
+ * @throws {ServiceError} If the API call fails, no route is found, or API key is missing/invalid. A `ConfigurationError` (code CONFIG_MISSING, message `SERVER_CONFIG_ERROR_MSG`) is thrown if the key is missing.
+ */
+export async function findShortestRoute(
+    origin: Coordinate,
+    destination: Coordinate,
+    waypoints?: string[], // Expecting Place IDs like 'place_id:xxxx'
+    options: DirectionsOptions = {}
+): Promise<Route> {
+  // Select the first route provided (usually the optimized one)
+  const [route] = await fetchDirectionsRoutes(origin, destination, waypoints, { ...options, alternatives: false });
+  return route;
+}
+
+/**
+ * Finds several candidate routes between two geographical coordinates using the Directions API `alternatives` mode.
+ * The first route is Google's default; the rest are the alternatives it returned (if any).
+ * Google does not return alternatives for requests with waypoints, so those yield a single route.
+ *
+ * @param origin The starting coordinate.
+ * @param destination The destination coordinate.
+ * @param waypoints Optional array of waypoint strings (Google Place IDs prefixed with `place_id:`).
+ * @param options Optional request options (travel mode, departure time).
+ * @returns A promise that resolves to one or more Route objects, each with a summary label and toll/highway flags.
+ * @throws {ServiceError} If the API call fails, no route is found, or API key is missing/invalid. A `ConfigurationError` (code CONFIG_MISSING, message `SERVER_CONFIG_ERROR_MSG`) is thrown if the key is missing.
+ */
+export async function findAlternativeRoutes(
+    origin: Coordinate,
+    destination: Coordinate,
+    waypoints?: string[],
+    options: DirectionsOptions = {}
+): Promise<Route[]> {
+  return fetchDirectionsRoutes(origin, destination, waypoints, { ...options, alternatives: true });
+}
+
 /**
  * Geocodes an address string into geographical coordinates using Google Maps Geocoding API.
  *
  * @param address The address string to geocode.
  * @returns A promise that resolves to a Coordinate object.
- * @throws {Error} If the address cannot be geocoded, the API call fails, or API key is missing/invalid. Specific error message `SERVER_CONFIG_ERROR_MSG` is thrown if the key is missing.
+ * @throws {ServiceError} If the address cannot be geocoded, the API call fails, or API key is missing/invalid. A `ConfigurationError` (code CONFIG_MISSING, message `SERVER_CONFIG_ERROR_MSG`) is thrown if the key is missing.
  */
 export async function getCoordinatesFromAddress(address: string): Promise<Coordinate> {
-    checkApiKey('Geocoding'); // Check if the key is configured FIRST
+    checkApiKey('Geocoding', 'geocoding'); // Check if the key is configured FIRST
 
     const params = new URLSearchParams({
       address: address,
@@ -259,29 +806,31 @@ export async function getCoordinatesFromAddress(address: string): Promise<Coordi
     console.log(`[Google Maps Service] Geocoding address: "${address}" using URL: ${loggedUrl}`);
 
     try {
-      const response = await fetch(url);
-      const data = await response.json();
+      const data = await fetchGoogleJson(url, 'geocoding', 'geocode address');
 
       if (data.status !== 'OK') {
         console.error(`[Google Maps Service] Geocoding API Error for address "${address}": Status=${data.status}, Message=${data.error_message || 'No error message provided.'}`);
         if (data.status === 'REQUEST_DENIED') {
             const reason = data.error_message || 'Check if the Geocoding API is enabled and authorized for your GOOGLE_MAPS_API_KEY.';
-            throw new Error(`Geocoding API Error: Request Denied for address "${address}". ${reason}`);
+            throw new RequestDeniedError(`Geocoding API Error: Request Denied for address "${address}". ${reason}`, googleError('geocoding'));
         }
         if (data.status === 'ZERO_RESULTS') {
-            throw new Error(`Geocoding API Error: No results found for address "${address}". Please ensure the address is valid.`);
+            throw new NoResultsError(`Geocoding API Error: No results found for address "${address}". Please ensure the address is valid.`, googleError('geocoding'));
         }
          if (data.status === 'OVER_QUERY_LIMIT') {
-             throw new Error(`Geocoding API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`);
+             throw new QuotaExceededError(`Geocoding API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`, googleError('geocoding'));
+         }
+         if (data.status === 'INVALID_REQUEST') {
+             throw new InvalidRequestError(`Could not geocode address "${address}". Status: ${data.status}. ${data.error_message || ''}`, googleError('geocoding'));
          }
          // Generic fallback
-         throw new Error(`Could not geocode address "${address}". Status: ${data.status}. ${data.error_message || ''}`);
+         throw new ServiceError('UNKNOWN', `Could not geocode address "${address}". Status: ${data.status}. ${data.error_message || ''}`, googleError('geocoding', data.status === 'UNKNOWN_ERROR'));
       }
 
       if (!data.results || data.results.length === 0) {
         // This case should be caught by status ZERO_RESULTS, but added as a fallback
         console.error(`[Google Maps Service] Geocoding API Error: No results found for address "${address}".`);
-        throw new Error(`Could not geocode address "${address}". Status: ZERO_RESULTS (unexpected).`);
+        throw new NoResultsError(`Could not geocode address "${address}". Status: ZERO_RESULTS (unexpected).`, googleError('geocoding'));
       }
 
       const location = data.results[0].geometry.location; // { lat, lng }
@@ -290,20 +839,291 @@ export async function getCoordinatesFromAddress(address: string): Promise<Coordi
 
     } catch (error) {
       console.error(`[Google Maps Service] Error geocoding address "${address}":`, error);
+       // Re-throw the typed errors raised above
+       if (error instanceof ServiceError) {
+           throw error;
+       }
        if (error instanceof Error) {
-           // Check if it's the configuration error FIRST
-            if (error.message === SERVER_CONFIG_ERROR_MSG) {
-                throw error;
-            }
-            // Check for specific API errors thrown above
-            if (error.message.startsWith('Could not geocode address') || error.message.startsWith('Geocoding API Error:')) {
-                throw error;
-            }
            // Catch fetch errors
-           throw new Error(`Failed to geocode address: ${error.message}`);
+           throw new NetworkError(`Failed to geocode address: ${error.message}`, { ...googleError('geocoding'), cause: error });
        }
         // Unknown error
-        throw new Error('An unknown error occurred during geocoding.');
+        throw new ServiceError('UNKNOWN', 'An unknown error occurred during geocoding.', googleError('geocoding'));
+    }
+}
+
+/**
+ * Looks up the coordinates of a Google Place ID.
+ * Unlike geocoding free text, this can't pick the wrong match for an ambiguous address.
+ * With the `sessionToken` of the autocomplete search the place was chosen in, the lookup is a Place Details request
+ * carrying that token, which closes the session so Google bills its keystrokes as one session. Without one, the Geocoding API is used.
+ *
+ * @param placeId The Google Place ID (e.g., from an autocomplete prediction).
+ * @param sessionToken Optional: the token passed to `findPlacePredictions` for the search that returned the place. Use it once.
+ * @returns A promise that resolves to a Coordinate object.
+ * @throws {ServiceError} If the place can't be found, the API call fails, or API key is missing/invalid. A `ConfigurationError` (code CONFIG_MISSING, message `SERVER_CONFIG_ERROR_MSG`) is thrown if the key is missing.
+ */
+export async function getCoordinatesFromPlaceId(placeId: string, sessionToken?: string): Promise<Coordinate> {
+    if (sessionToken) {
+        return getPlaceLocation(placeId, sessionToken);
+    }
+    checkApiKey('Geocoding', 'geocoding'); // Check if the key is configured FIRST
+
+    const params = new URLSearchParams({
+      place_id: placeId,
+      key: API_KEY!, // Key is guaranteed to exist due to checkApiKey
+    });
+
+    const url = `${GEOCODING_API_URL}?${params.toString()}`;
+    // Log URL without the API key
+    const loggedUrl = `${GEOCODING_API_URL}?place_id=${encodeURIComponent(placeId)}&key=YOUR_API_KEY`;
+    console.log(`[Google Maps Service] Geocoding place ID: "${placeId}" using URL: ${loggedUrl}`);
+
+    try {
+      const data = await fetchGoogleJson(url, 'geocoding', 'geocode place ID');
+
+      if (data.status !== 'OK' || !data.results || data.results.length === 0) {
+        console.error(`[Google Maps Service] Geocoding API Error for place ID "${placeId}": Status=${data.status}, Message=${data.error_message || 'No error message provided.'}`);
+        if (data.status === 'REQUEST_DENIED') {
+            const reason = data.error_message || 'Check if the Geocoding API is enabled and authorized for your GOOGLE_MAPS_API_KEY.';
+            throw new RequestDeniedError(`Geocoding API Error: Request Denied for place ID "${placeId}". ${reason}`, googleError('geocoding'));
+        }
+        if (data.status === 'ZERO_RESULTS' || data.status === 'NOT_FOUND' || data.status === 'INVALID_REQUEST') {
+            throw new NoResultsError(`Geocoding API Error: No place found for place ID "${placeId}". Please choose the location again.`, googleError('geocoding'));
+        }
+        if (data.status === 'OVER_QUERY_LIMIT') {
+            throw new QuotaExceededError(`Geocoding API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`, googleError('geocoding'));
+        }
+        // Generic fallback
+        throw new ServiceError('UNKNOWN', `Could not geocode place ID "${placeId}". Status: ${data.status}. ${data.error_message || ''}`, googleError('geocoding', data.status === 'UNKNOWN_ERROR'));
+      }
+
+      const location = data.results[0].geometry.location; // { lat, lng }
+      console.log(`[Google Maps Service] Geocoded place ID "${placeId}" to:`, location);
+      return location;
+
+    } catch (error) {
+      console.error(`[Google Maps Service] Error geocoding place ID "${placeId}":`, error);
+       if (error instanceof ServiceError) {
+           throw error;
+       }
+       if (error instanceof Error) {
+           // Catch fetch errors
+           throw new NetworkError(`Failed to geocode place ID: ${error.message}`, { ...googleError('geocoding'), cause: error });
+       }
+        // Unknown error
+        throw new ServiceError('UNKNOWN', 'An unknown error occurred during geocoding.', googleError('geocoding'));
+    }
+}
+
+/**
+ * Looks up a place's location with a Places Details request that ends an autocomplete session.
+ * Only the geometry field is requested, to keep the request in the cheapest billing tier.
+ */
+async function getPlaceLocation(placeId: string, sessionToken: string): Promise<Coordinate> {
+    checkApiKey('Places Details', 'place-details'); // Check if the key is configured FIRST
+
+    const params = new URLSearchParams({
+        place_id: placeId,
+        fields: 'geometry',
+        sessiontoken: sessionToken,
+        key: API_KEY!, // Key is guaranteed to exist due to checkApiKey
+    });
+
+    const url = `${PLACES_DETAILS_API_URL}?${params.toString()}`;
+    // Log the place ID only; session tokens and the API key stay out of the logs
+    console.log(`[Google Maps Service] Fetching the location of place ID "${placeId}" (ends the autocomplete session).`);
+
+    try {
+        const data = await fetchGoogleJson(url, 'place-details', 'fetch place location');
+
+        if (data.status !== 'OK' || !data.result?.geometry?.location) {
+            console.error(`[Google Maps Service] Places Details API Error for place ID "${placeId}": Status=${data.status}, Message=${data.error_message || 'No error message provided.'}`);
+            if (data.status === 'REQUEST_DENIED') {
+                const reason = data.error_message || 'Check if the Places API is enabled and authorized for your GOOGLE_MAPS_API_KEY.';
+                throw new RequestDeniedError(`Places API Error: Request Denied for place ID "${placeId}". ${reason}`, googleError('place-details'));
+            }
+            if (data.status === 'OK' || data.status === 'NOT_FOUND' || data.status === 'ZERO_RESULTS' || data.status === 'INVALID_REQUEST') {
+                throw new NoResultsError(`Places API Error: No place found for place ID "${placeId}". Please choose the location again.`, googleError('place-details'));
+            }
+            if (data.status === 'OVER_QUERY_LIMIT') {
+                throw new QuotaExceededError(`Places API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`, googleError('place-details'));
+            }
+            // Generic fallback
+            throw new ServiceError('UNKNOWN', `Places Details request failed. Status: ${data.status}. ${data.error_message || ''}`, googleError('place-details', data.status === 'UNKNOWN_ERROR'));
+        }
+
+        const location: Coordinate = data.result.geometry.location; // { lat, lng }
+        console.log(`[Google Maps Service] Place ID "${placeId}" is at:`, location);
+        return location;
+
+    } catch (error) {
+        console.error(`[Google Maps Service] Error fetching the location of place ID "${placeId}":`, error);
+        if (error instanceof ServiceError) {
+            throw error;
+        }
+        if (error instanceof Error) {
+            // Catch fetch errors
+            throw new NetworkError(`Failed to fetch place location: ${error.message}`, { ...googleError('place-details'), cause: error });
+        }
+        // Unknown error
+        throw new ServiceError('UNKNOWN', 'An unknown error occurred while fetching the place location.', googleError('place-details'));
+    }
+}
+
+/**
+ * Options for place autocomplete.
+ */
+export interface PlaceAutocompleteOptions {
+    /**
+     * A point to bias predictions towards (e.g., the user's location or the trip origin).
+     */
+    location?: Coordinate;
+    /**
+     * The bias radius around `location`, in meters (defaults to 50000).
+     */
+    radius?: number;
+}
+
+/**
+ * Returns place predictions for partially typed text using the Places Autocomplete API.
+ * Pass the same `sessionToken` for every keystroke of one search and start a new one after a prediction is chosen.
+ * Google bills the keystrokes as a single session once the chosen place is looked up with the same token
+ * (see `getCoordinatesFromPlaceId`); otherwise each request is billed on its own.
+ *
+ * @param input The text typed so far.
+ * @param sessionToken A random token identifying the autocomplete session (e.g., a UUID).
+ * @param options Optional location bias.
+ * @returns A promise that resolves to up to five predictions, best first. Empty if nothing matches.
+ * @throws {ServiceError} If the API call fails or API key is missing/invalid. A `ConfigurationError` (code CONFIG_MISSING, message `SERVER_CONFIG_ERROR_MSG`) is thrown if the key is missing.
+ */
+export async function findPlacePredictions(
+    input: string,
+    sessionToken: string,
+    options: PlaceAutocompleteOptions = {}
+): Promise<PlacePrediction[]> {
+    checkApiKey('Places Autocomplete', 'places-autocomplete'); // Check if the key is configured FIRST
+
+    const params = new URLSearchParams({
+        input,
+        sessiontoken: sessionToken,
+        key: API_KEY!, // Key is guaranteed to exist due to checkApiKey
+    });
+    if (options.location) {
+        params.set('location', `${options.location.lat},${options.location.lng}`);
+        params.set('radius', (options.radius ?? 50000).toString());
+    }
+
+    const url = `${PLACES_AUTOCOMPLETE_API_URL}?${params.toString()}`;
+    // Log the input only; session tokens and the API key stay out of the logs
+    console.log(`[Google Maps Service] Autocompleting "${input}"${options.location ? ` near ${JSON.stringify(options.location)}` : ''}.`);
+
+    try {
+        const data = await fetchGoogleJson(url, 'places-autocomplete', 'autocomplete places', PLACES_AUTOCOMPLETE_POLICY);
+
+        if (data.status === 'ZERO_RESULTS') {
+            return [];
+        }
+        if (data.status !== 'OK') {
+            console.error(`[Google Maps Service] Places Autocomplete API Error for "${input}": Status=${data.status}, Message=${data.error_message || 'No error message provided.'}`);
+            if (data.status === 'REQUEST_DENIED') {
+                const reason = data.error_message || 'Check if the Places API is enabled and authorized for your GOOGLE_MAPS_API_KEY.';
+                throw new RequestDeniedError(`Places API Error: Request Denied. ${reason}`, googleError('places-autocomplete'));
+            }
+            if (data.status === 'OVER_QUERY_LIMIT') {
+                throw new QuotaExceededError(`Places API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`, googleError('places-autocomplete'));
+            }
+            if (data.status === 'INVALID_REQUEST') {
+                throw new InvalidRequestError(`Places Autocomplete request failed. Status: ${data.status}. ${data.error_message || ''}`, googleError('places-autocomplete'));
+            }
+            // Generic fallback
+            throw new ServiceError('UNKNOWN', `Places Autocomplete request failed. Status: ${data.status}. ${data.error_message || ''}`, googleError('places-autocomplete', data.status === 'UNKNOWN_ERROR'));
+        }
+
+        return (data.predictions || []).map((prediction: any) => ({
+            placeId: prediction.place_id,
+            description: prediction.description,
+            mainText: prediction.structured_formatting?.main_text || prediction.description,
+            secondaryText: prediction.structured_formatting?.secondary_text,
+        }));
+
+    } catch (error) {
+        console.error(`[Google Maps Service] Error autocompleting "${input}":`, error);
+        if (error instanceof ServiceError) {
+            throw error;
+        }
+        if (error instanceof Error) {
+            // Catch fetch errors
+            throw new NetworkError(`Failed to autocomplete places: ${error.message}`, { ...googleError('places-autocomplete'), cause: error });
+        }
+        // Unknown error
+        throw new ServiceError('UNKNOWN', 'An unknown error occurred during place autocomplete.', googleError('places-autocomplete'));
+    }
+}
+
+/**
+ * Fetches a place's regular opening hours using the Google Places Details API.
+ * Only the opening hours fields are requested, to keep the request in the cheapest billing tier that includes them.
+ *
+ * @param placeId The Google Place ID.
+ * @returns A promise that resolves to the opening hours, or null if Google has no hours for the place.
+ * @throws {ServiceError} If the place is not found, the API call fails, or API key is missing/invalid. A `ConfigurationError` (code CONFIG_MISSING, message `SERVER_CONFIG_ERROR_MSG`) is thrown if the key is missing.
+ */
+export async function getPlaceOpeningHours(placeId: string): Promise<PlaceOpeningHours | null> {
+    checkApiKey('Places Details', 'place-details'); // Check if the key is configured FIRST
+
+    const params = new URLSearchParams({
+        place_id: placeId,
+        fields: 'opening_hours,utc_offset_minutes',
+        key: API_KEY!, // Key is guaranteed to exist due to checkApiKey
+    });
+
+    const url = `${PLACES_DETAILS_API_URL}?${params.toString()}`;
+    console.log(`[Google Maps Service] Fetching opening hours for place ID "${placeId}".`);
+
+    try {
+        const data = await fetchGoogleJson(url, 'place-details', 'fetch opening hours');
+
+        if (data.status !== 'OK') {
+            console.error(`[Google Maps Service] Places Details API Error for place ID "${placeId}": Status=${data.status}, Message=${data.error_message || 'No error message provided.'}`);
+            if (data.status === 'REQUEST_DENIED') {
+                const reason = data.error_message || 'Check if the Places API is enabled and authorized for your GOOGLE_MAPS_API_KEY.';
+                throw new RequestDeniedError(`Places API Error: Request Denied. ${reason}`, googleError('place-details'));
+            }
+            if (data.status === 'NOT_FOUND' || data.status === 'ZERO_RESULTS' || data.status === 'INVALID_REQUEST') {
+                throw new NoResultsError(`Places API Error: No place found for place ID "${placeId}".`, googleError('place-details'));
+            }
+            if (data.status === 'OVER_QUERY_LIMIT') {
+                throw new QuotaExceededError(`Places API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`, googleError('place-details'));
+            }
+            // Generic fallback
+            throw new ServiceError('UNKNOWN', `Places Details request failed. Status: ${data.status}. ${data.error_message || ''}`, googleError('place-details', data.status === 'UNKNOWN_ERROR'));
+        }
+
+        const openingHours = data.result?.opening_hours;
+        if (!openingHours?.periods || openingHours.periods.length === 0) {
+            return null;
+        }
+        return {
+            periods: openingHours.periods.map((period: any) => ({
+                open: { day: period.open.day, time: period.open.time },
+                close: period.close ? { day: period.close.day, time: period.close.time } : undefined,
+            })),
+            utcOffsetMinutes: data.result.utc_offset_minutes,
+            weekdayText: openingHours.weekday_text,
+        };
+
+    } catch (error) {
+        console.error(`[Google Maps Service] Error fetching opening hours for place ID "${placeId}":`, error);
+        if (error instanceof ServiceError) {
+            throw error;
+        }
+        if (error instanceof Error) {
+            // Catch fetch errors
+            throw new NetworkError(`Failed to fetch opening hours: ${error.message}`, { ...googleError('place-details'), cause: error });
+        }
+        // Unknown error
+        throw new ServiceError('UNKNOWN', 'An unknown error occurred while fetching opening hours.', googleError('place-details'));
     }
 }
 
@@ -312,11 +1132,11 @@ export async function getCoordinatesFromAddress(address: string): Promise<Coordi
  *
  * @param coordinate The Coordinate object {lat, lng} to reverse geocode.
  * @returns A promise that resolves to the formatted address string.
- * @throws {Error} If the coordinates cannot be reverse geocoded, the API call fails, or API key is missing/invalid. Specific error message `SERVER_CONFIG_ERROR_MSG` is thrown if the key is missing.
+ * @throws {ServiceError} If the coordinates cannot be reverse geocoded, the API call fails, or API key is missing/invalid. A `ConfigurationError` (code CONFIG_MISSING, message `SERVER_CONFIG_ERROR_MSG`) is thrown if the key is missing.
  */
 export async function getAddressFromCoordinates(coordinate: Coordinate): Promise<string> {
     // Check API key config FIRST
-    checkApiKey('Reverse Geocoding');
+    checkApiKey('Reverse Geocoding', 'reverse-geocoding');
 
     const params = new URLSearchParams({
         latlng: `${coordinate.lat},${coordinate.lng}`,
@@ -330,29 +1150,28 @@ export async function getAddressFromCoordinates(coordinate: Coordinate): Promise
     console.log(`[Google Maps Service] Reverse geocoding coordinates: ${JSON.stringify(coordinate)} using URL: ${loggedUrl}`);
 
     try {
-        const response = await fetch(url);
-        const data = await response.json();
+        const data = await fetchGoogleJson(url, 'reverse-geocoding', 'reverse geocode coordinates');
 
         if (data.status !== 'OK') {
             console.error(`[Google Maps Service] Reverse Geocoding API Error for coords ${JSON.stringify(coordinate)}: Status=${data.status}, Message=${data.error_message || 'No error message provided.'}`);
             if (data.status === 'REQUEST_DENIED') {
                  const reason = data.error_message || 'Check if the Geocoding API is enabled and authorized for your GOOGLE_MAPS_API_KEY.';
-                 throw new Error(`Reverse Geocoding API Error: Request Denied for coordinates ${JSON.stringify(coordinate)}. ${reason}`);
+                 throw new RequestDeniedError(`Reverse Geocoding API Error: Request Denied for coordinates ${JSON.stringify(coordinate)}. ${reason}`, googleError('reverse-geocoding'));
             }
             if (data.status === 'ZERO_RESULTS') {
-                 throw new Error(`Reverse Geocoding API Error: No address found for coordinates ${JSON.stringify(coordinate)}.`);
+                 throw new NoResultsError(`Reverse Geocoding API Error: No address found for coordinates ${JSON.stringify(coordinate)}.`, googleError('reverse-geocoding'));
             }
             if (data.status === 'OVER_QUERY_LIMIT') {
-                throw new Error(`Reverse Geocoding API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`);
+                throw new QuotaExceededError(`Reverse Geocoding API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`, googleError('reverse-geocoding'));
             }
             // Generic fallback
-             throw new Error(`Could not reverse geocode coordinates ${JSON.stringify(coordinate)}. Status: ${data.status}. ${data.error_message || ''}`);
+             throw new ServiceError('UNKNOWN', `Could not reverse geocode coordinates ${JSON.stringify(coordinate)}. Status: ${data.status}. ${data.error_message || ''}`, googleError('reverse-geocoding', data.status === 'UNKNOWN_ERROR'));
         }
 
         if (!data.results || data.results.length === 0) {
             // Should be caught by ZERO_RESULTS status
             console.error(`[Google Maps Service] Reverse Geocoding API Error: No results found for coordinates ${JSON.stringify(coordinate)}.`);
-             throw new Error(`Could not find address for coordinates ${JSON.stringify(coordinate)}. Status: ZERO_RESULTS (unexpected).`);
+             throw new NoResultsError(`Could not find address for coordinates ${JSON.stringify(coordinate)}. Status: ZERO_RESULTS (unexpected).`, googleError('reverse-geocoding'));
         }
 
         // Return the first (usually most specific) formatted address
@@ -362,86 +1181,122 @@ export async function getAddressFromCoordinates(coordinate: Coordinate): Promise
 
     } catch (error) {
         console.error(`[Google Maps Service] Error reverse geocoding coordinates ${JSON.stringify(coordinate)}:`, error);
+        // Re-throw the typed errors raised above
+        if (error instanceof ServiceError) {
+            throw error;
+        }
         if (error instanceof Error) {
-            // Check for config error first
-             if (error.message === SERVER_CONFIG_ERROR_MSG) {
-                throw error;
-            }
-            // Check for specific API errors
-            if (error.message.startsWith('Could not reverse geocode') || error.message.startsWith('Reverse Geocoding API Error:')) {
-                throw error;
-            }
             // Catch fetch errors
-            throw new Error(`Failed to reverse geocode coordinates: ${error.message}`);
+            throw new NetworkError(`Failed to reverse geocode coordinates: ${error.message}`, { ...googleError('reverse-geocoding'), cause: error });
         }
          // Unknown error
-         throw new Error('An unknown error occurred during reverse geocoding.');
+         throw new ServiceError('UNKNOWN', 'An unknown error occurred during reverse geocoding.', googleError('reverse-geocoding'));
     }
 }
 
 
 /**
- * Finds famous attractions near a given coordinate using Google Maps Places API (Nearby Search).
- * Searches for types like 'tourist_attraction', 'museum', 'park'.
+ * Runs a single Places API Nearby Search.
  *
  * @param center The coordinate around which to search.
- * @param radius The search radius in meters (defaults to 15000m). Max 50000.
- * @returns A promise that resolves to an array of Attraction objects.
- * @throws {Error} If the API call fails or API key is missing/invalid. Specific error message `SERVER_CONFIG_ERROR_MSG` is thrown if the key is missing.
+ * @param radius The search radius in meters.
+ * @param preferences The search preferences (keyword, open-now and price filters are sent to Google).
+ * @param type Optional place type to restrict the search to. Google accepts only one type per request.
+ * @returns A promise that resolves to the raw Places results.
+ * @throws {ServiceError} If the API call fails or API key is missing/invalid.
  */
-export async function findAttractionsNearCoordinate(center: Coordinate, radius: number = 15000): Promise<Attraction[]> {
-     checkApiKey('Places'); // Check if the key is configured FIRST
-
-     // Define the types of places we're interested in
-    // const types = 'tourist_attraction|museum|park|landmark|art_gallery'; // Pipe-separated list
-
+async function searchNearbyPlaces(
+    center: Coordinate,
+    radius: number,
+    preferences: AttractionSearchPreferences,
+    type?: string
+): Promise<any[]> {
     const params = new URLSearchParams({
         location: `${center.lat},${center.lng}`,
         radius: radius.toString(),
-        // rankby: 'prominence', // Alternative to radius, prioritizes well-known places
-        // type: types, // Specify multiple types - Using keyword search instead for broader results
-        keyword: 'famous attraction point of interest landmark museum park', // Broad keywords
         key: API_KEY!, // Key is guaranteed to exist due to checkApiKey
     });
+    if (type) params.set('type', type);
+    // Without a type, fall back to the default keywords so the search isn't for "anything"
+    const keyword = preferences.keyword?.trim() || (type ? '' : DEFAULT_ATTRACTION_KEYWORD);
+    if (keyword) params.set('keyword', keyword);
+    if (preferences.openNow) params.set('opennow', 'true');
+    if (preferences.minPrice !== undefined) params.set('minprice', preferences.minPrice.toString());
+    if (preferences.maxPrice !== undefined) params.set('maxprice', preferences.maxPrice.toString());
 
-     const url = `${PLACES_API_URL}?${params.toString()}`;
+    const url = `${PLACES_API_URL}?${params.toString()}`;
     // Log URL without the API key
-     const loggedUrlParts = [`${PLACES_API_URL}?location=${params.get('location')}&radius=${radius}&keyword=${encodeURIComponent(params.get('keyword') || '')}`];
-     loggedUrlParts.push('&key=YOUR_API_KEY');
-     const loggedUrl = loggedUrlParts.join('');
-    console.log(`[Google Maps Service] Finding attractions near ${JSON.stringify(center)} (Radius: ${radius}m): ${loggedUrl}`);
+    const loggedParams = new URLSearchParams(params);
+    loggedParams.set('key', 'YOUR_API_KEY');
+    console.log(`[Google Maps Service] Finding attractions near ${JSON.stringify(center)} (Radius: ${radius}m${type ? `, Type: ${type}` : ''}): ${PLACES_API_URL}?${loggedParams.toString()}`);
 
+    const data = await fetchGoogleJson(url, 'places-nearby', 'find attractions', PLACES_NEARBY_POLICY);
+
+    if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
+        console.error(`[Google Maps Service] Places API Error near ${JSON.stringify(center)}: Status=${data.status}, Message=${data.error_message || 'No error message provided.'}`);
+        if (data.status === 'REQUEST_DENIED') {
+            const reason = data.error_message || 'Check if the Places API is enabled and authorized for your GOOGLE_MAPS_API_KEY.';
+            throw new RequestDeniedError(`Places API Error: Request Denied. ${reason}`, googleError('places-nearby'));
+        }
+        if (data.status === 'INVALID_REQUEST') {
+            throw new InvalidRequestError(`Places API Error: Invalid Request. ${data.error_message || 'Check search parameters.'}`, googleError('places-nearby'));
+        }
+        if (data.status === 'OVER_QUERY_LIMIT') {
+            throw new QuotaExceededError(`Places API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`, googleError('places-nearby'));
+        }
+        // Generic fallback
+        throw new ServiceError('UNKNOWN', `Places API request failed. Status: ${data.status}. ${data.error_message || ''}`, googleError('places-nearby', data.status === 'UNKNOWN_ERROR'));
+    }
+
+    return data.results || [];
+}
+
+/**
+ * Finds attractions near a given coordinate using Google Maps Places API (Nearby Search).
+ * By default searches famous attractions, landmarks, museums and parks rated 3.5★ or higher; pass `preferences`
+ * to look for other places (e.g., restaurants, or "EV charging" by keyword). Each place type is a separate request.
+ *
+ * @param center The coordinate around which to search.
+ * @param radius The search radius in meters (defaults to 15000m). Max 50000.
+ * @param preferences What to search for and how to filter it. An omitted rating or result limit falls back to `DEFAULT_ATTRACTION_SEARCH_PREFERENCES`.
+ * @returns A promise that resolves to an array of Attraction objects, at most `maxResults` long.
+ * @throws {ServiceError} If the API call fails or API key is missing/invalid. A `ConfigurationError` (code CONFIG_MISSING, message `SERVER_CONFIG_ERROR_MSG`) is thrown if the key is missing.
+ */
+export async function findAttractionsNearCoordinate(
+    center: Coordinate,
+    radius: number = 15000,
+    preferences: AttractionSearchPreferences = DEFAULT_ATTRACTION_SEARCH_PREFERENCES
+): Promise<Attraction[]> {
+    checkApiKey('Places', 'places-nearby'); // Check if the key is configured FIRST
+
+    const {
+        types = [],
+        minRating = DEFAULT_ATTRACTION_SEARCH_PREFERENCES.minRating!,
+        maxResults = DEFAULT_ATTRACTION_SEARCH_PREFERENCES.maxResults!,
+    } = preferences;
+    const queryTypes: (string | undefined)[] = types.length > 0 ? types : [undefined];
 
     try {
-        const response = await fetch(url);
-        const data = await response.json();
-
-         if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
-            console.error(`[Google Maps Service] Places API Error near ${JSON.stringify(center)}: Status=${data.status}, Message=${data.error_message || 'No error message provided.'}`);
-             if (data.status === 'REQUEST_DENIED') {
-                  const reason = data.error_message || 'Check if the Places API is enabled and authorized for your GOOGLE_MAPS_API_KEY.';
-                 throw new Error(`Places API Error: Request Denied. ${reason}`);
-             }
-             if (data.status === 'INVALID_REQUEST') {
-                 throw new Error(`Places API Error: Invalid Request. ${data.error_message || 'Check search parameters.'}`);
-             }
-             if (data.status === 'OVER_QUERY_LIMIT') {
-                 throw new Error(`Places API Error: Usage limit exceeded. ${data.error_message || 'Check your Google Cloud Console quotas.'}`);
-             }
-             // Generic fallback
-            throw new Error(`Places API request failed. Status: ${data.status}. ${data.error_message || ''}`);
-        }
-
-        if (data.status === 'ZERO_RESULTS' || !data.results) {
+        const resultsByType = await Promise.all(queryTypes.map(type => searchNearbyPlaces(center, radius, preferences, type)));
+
+        // Merge the per-type results, keeping the first occurrence of each place
+        const seen = new Set<string>();
+        const places = resultsByType.flat().filter((place: any) => {
+            if (seen.has(place.place_id)) return false;
+            seen.add(place.place_id);
+            return true;
+        });
+
+        if (places.length === 0) {
             console.log(`[Google Maps Service] No attractions found near ${JSON.stringify(center)} within ${radius}m.`);
             return [];
         }
 
         // Map the results to our Attraction interface
-        const attractions: Attraction[] = data.results
-            // Optional: Filter further, e.g., require a certain rating or specific types
-            .filter((place: any) => place.rating && place.rating >= 3.5 && place.business_status === 'OPERATIONAL') // Filter for reasonably rated and operational places
-            .slice(0, 15) // Limit the number of results slightly more
+        const attractions: Attraction[] = places
+            // Keep operational places that meet the rating threshold (unrated places only pass a threshold of 0)
+            .filter((place: any) => (place.rating ?? 0) >= minRating && place.business_status === 'OPERATIONAL')
+            .slice(0, maxResults)
             .map((place: any) => ({
                 name: place.name,
                 // Use vicinity or types as description fallback
@@ -457,107 +1312,115 @@ export async function findAttractionsNearCoordinate(center: Coordinate, radius:
 
     } catch (error) {
         console.error(`[Google Maps Service] Error finding attractions near ${JSON.stringify(center)}:`, error);
+        // Re-throw the typed errors raised above
+        if (error instanceof ServiceError) {
+            throw error;
+        }
         if (error instanceof Error) {
-            // Check config error first
-             if (error.message === SERVER_CONFIG_ERROR_MSG) {
-                throw error;
-             }
-             // Check specific API errors
-             if (error.message.startsWith('Places API Error:')) {
-                 throw error;
-             }
             // Catch fetch errors
-             throw new Error(`Failed to find attractions: ${error.message}`);
+             throw new NetworkError(`Failed to find attractions: ${error.message}`, { ...googleError('places-nearby'), cause: error });
          }
         // Unknown error
-        throw new Error('An unknown error occurred while finding attractions.');
+        throw new ServiceError('UNKNOWN', 'An unknown error occurred while finding attractions.', googleError('places-nearby'));
     }
 }
 
 
 /**
- * Finds famous attractions along a route.
- * This implementation simplifies by searching near the midpoint of the route's bounding box.
- * A more robust implementation would search at multiple points along the route.
+ * A search for places around one point, as run at each sample point by `findAttractionsNearRoute`.
+ */
+export type NearbyAttractionSearch = (
+    center: Coordinate,
+    radius: number,
+    preferences: AttractionSearchPreferences
+) => Promise<Attraction[]>;
+
+// Corridor search tuning for findAttractionsNearRoute
+const CORRIDOR_SAMPLE_SPACING_METERS = 20000; // Target distance between search centers along the route
+const MAX_CORRIDOR_SAMPLES = 8; // Caps Places requests per trip; long routes get wider spacing instead
+const MIN_CORRIDOR_SEARCH_RADIUS_METERS = 2000;
+const MAX_CORRIDOR_WIDTH_METERS = 10000; // Places farther than this from the route are dropped
+// Roads rarely run straight to a place; inflate the straight-line distance when estimating the detour
+const DETOUR_ROAD_FACTOR = 1.3;
+// Assumed speed (m/s) off the main route, per travel mode
+const DETOUR_SPEEDS_MPS: Record<TravelMode, number> = {
+    driving: 40 / 3.6,
+    bicycling: 15 / 3.6,
+    walking: 5 / 3.6,
+    transit: 5 / 3.6, // Reaching a place off a transit line usually means walking
+};
+
+/**
+ * Finds famous attractions along a route by searching a corridor around its path.
+ * The path is split into equal chunks (about every 20 km, at most 8 chunks) and a Nearby Search runs at the middle of each,
+ * with a radius that just overlaps its neighbours. Results are deduplicated by place ID, measured against the polyline,
+ * and anything more than 10 km off the route is dropped.
+ * The rest are ranked by the detour they would add (leaving the route, visiting, returning), closest first.
  *
- * @param route The route object containing path and bounds.
- * @returns A promise that resolves to an array of Attraction objects found near the route.
- * @throws {Error} If the underlying API call fails or API key is missing/invalid. Specific error message `SERVER_CONFIG_ERROR_MSG` is thrown if the key is missing.
+ * @param route The route object containing the decoded path.
+ * @param preferences What to search for and how to filter it (see `findAttractionsNearCoordinate`).
+ * @param searchNearby The search to run at each point (defaults to the Places API Nearby Search; other map backends pass their own).
+ * @returns A promise that resolves to up to `maxResults` attractions, each with `distanceFromRouteMeters` and `detourSeconds` set.
+ * @throws {ConfigurationError} If the API key is missing (`SERVER_CONFIG_ERROR_MSG`). Failures of individual searches are logged and skipped.
  */
-export async function findAttractionsNearRoute(route: Route): Promise<Attraction[]> {
+export async function findAttractionsNearRoute(
+    route: Route,
+    preferences: AttractionSearchPreferences = DEFAULT_ATTRACTION_SEARCH_PREFERENCES,
+    searchNearby: NearbyAttractionSearch = findAttractionsNearCoordinate
+): Promise<Attraction[]> {
     console.log(`[Google Maps Service] Finding attractions near route...`);
 
-    if (!route.bounds) {
-        console.warn("[Google Maps Service] Route bounds are missing, cannot reliably find attractions near route.");
-        // Fallback: Use the middle point of the path if bounds are missing
-        if (route.path.length > 0) {
-             const midPointIndex = Math.floor(route.path.length / 2);
-             const midPoint = route.path[midPointIndex];
-             console.log("[Google Maps Service] Using route midpoint as fallback search center:", midPoint);
-             // Use a default radius if bounds are missing
-             // Propagate errors from findAttractionsNearCoordinate
-             try {
-                return await findAttractionsNearCoordinate(midPoint, 20000); // Search within 20km of the midpoint
-             } catch (error) {
-                console.error("[Google Maps Service] Error finding attractions near route midpoint:", error);
-                if (error instanceof Error && error.message === SERVER_CONFIG_ERROR_MSG) {
-                     throw error; // Propagate config error specifically
-                }
-                // Log other errors but return empty array to allow trip planning to continue maybe?
-                // Or rethrow a generic error
-                console.warn("[Google Maps Service] Continuing trip plan despite error finding attractions near midpoint.");
-                return []; // Return empty array instead of throwing for non-config errors
-             }
-        } else {
-            console.warn("[Google Maps Service] Cannot search for attractions without route path or bounds.");
-            return []; // Cannot search without path or bounds
-        }
+    if (route.path.length === 0) {
+        console.warn("[Google Maps Service] Cannot search for attractions without a route path.");
+        return [];
     }
 
-    // Calculate the center of the bounding box
-    const centerLat = (route.bounds.northeast.lat + route.bounds.southwest.lat) / 2;
-    const centerLng = (route.bounds.northeast.lng + route.bounds.southwest.lng) / 2;
-    const centerCoord: Coordinate = { lat: centerLat, lng: centerLng };
-
-    // Calculate a search radius based on the diagonal of the bounding box (rough estimate)
-    // Using Haversine formula for better distance calculation
-    const R = 6371e3; // Earth radius in meters
-    const phi1 = route.bounds.southwest.lat * Math.PI / 180;
-    const phi2 = route.bounds.northeast.lat * Math.PI / 180;
-    const deltaPhi = (route.bounds.northeast.lat - route.bounds.southwest.lat) * Math.PI / 180;
-    const deltaLambda = (route.bounds.northeast.lng - route.bounds.southwest.lng) * Math.PI / 180;
-
-    const a = Math.sin(deltaPhi / 2) * Math.sin(deltaPhi / 2) +
-              Math.cos(phi1) * Math.cos(phi2) *
-              Math.sin(deltaLambda / 2) * Math.sin(deltaLambda / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const diagonalDistance = R * c; // Distance in meters
-
-    // Use half the diagonal as radius, clamped between 5km and 50km (API limit)
-    // Increase the minimum radius slightly for better coverage on longer routes
-    const radius = Math.min(Math.max(diagonalDistance / 1.8, 10000), 50000); // Min 10km, Max 50km
-
-    console.log(`[Google Maps Service] Calculated search center: ${JSON.stringify(centerCoord)}, Radius: ${Math.round(radius)}m (based on route bounds)`);
-
-    // Perform a nearby search around the center of the route's bounds
-    // Propagate errors from findAttractionsNearCoordinate
-    try {
-         return await findAttractionsNearCoordinate(centerCoord, Math.round(radius));
-    } catch (error) {
-        console.error("[Google Maps Service] Error finding attractions near route bounds center:", error);
-        if (error instanceof Error && error.message === SERVER_CONFIG_ERROR_MSG) {
-            throw error; // Propagate config error specifically
+    const cumulative = cumulativePathDistances(route.path);
+    const totalMeters = cumulative[cumulative.length - 1];
+    const sampleCount = Math.min(MAX_CORRIDOR_SAMPLES, Math.max(1, Math.ceil(totalMeters / CORRIDOR_SAMPLE_SPACING_METERS)));
+    const chunkMeters = totalMeters / sampleCount;
+    // Each search covers its own chunk (half a chunk either side) plus some overlap and corridor width
+    const radius = Math.round(Math.min(Math.max(chunkMeters * 0.75, MIN_CORRIDOR_SEARCH_RADIUS_METERS), 50000));
+    const centers: Coordinate[] = Array.from({ length: sampleCount }, (_, index) =>
+        interpolateAlongPath(route.path, cumulative, (index + 0.5) * chunkMeters)
+    );
+
+    console.log(`[Google Maps Service] Searching ${sampleCount} points along a ${Math.round(totalMeters / 1000)} km route (Radius: ${radius}m each).`);
+
+    const searchCenter = async (center: Coordinate): Promise<Attraction[]> => {
+        try {
+            return await searchNearby(center, radius, preferences);
+        } catch (error) {
+            if (isServiceError(error, 'CONFIG_MISSING')) {
+                throw error; // Propagate config error specifically
+            }
+            // One failed search shouldn't lose the rest of the corridor
+            console.warn(`[Google Maps Service] Skipping attraction search near ${JSON.stringify(center)}:`, error);
+            return [];
         }
-        // Log other errors but maybe return empty array
-        console.warn("[Google Maps Service] Continuing trip plan despite error finding attractions near route bounds center.");
-        return []; // Return empty array instead of throwing for non-config errors
-    }
+    };
 
-    // --- Alternative / More Advanced Approach (Not implemented here) ---
-    // 1. Segment the route path into several points (e.g., every 10-20km).
-    // 2. Perform a Nearby Search around each point with a smaller radius.
-    // 3. Collect results, deduplicate based on place_id.
-    // 4. Optionally rank/filter results based on proximity to the actual route line.
-    // This is more complex but gives better coverage along the entire route.
-}
+    // Deduplicate by place ID; overlapping searches return the same places
+    const found = new Map<string, Attraction>();
+    (await mapInBatches(centers, MAX_CONCURRENT_REQUESTS, searchCenter)).flat().forEach(attraction => {
+        const key = attraction.placeId || `${attraction.name}@${attraction.location.lat},${attraction.location.lng}`;
+        if (!found.has(key)) found.set(key, attraction);
+    });
+
+    const detourSpeed = DETOUR_SPEEDS_MPS[route.travelMode ?? 'driving'];
+    const ranked = Array.from(found.values())
+        .map(attraction => {
+            const { distanceFromPathMeters } = projectOntoPath(attraction.location, route.path, cumulative);
+            return {
+                ...attraction,
+                distanceFromRouteMeters: Math.round(distanceFromPathMeters),
+                detourSeconds: Math.round((2 * distanceFromPathMeters * DETOUR_ROAD_FACTOR) / detourSpeed),
+            };
+        })
+        .filter(attraction => attraction.distanceFromRouteMeters <= MAX_CORRIDOR_WIDTH_METERS)
+        .sort((a, b) => a.detourSeconds - b.detourSeconds || (b.rating ?? 0) - (a.rating ?? 0))
+        .slice(0, preferences.maxResults ?? DEFAULT_ATTRACTION_SEARCH_PREFERENCES.maxResults);
 
+    console.log(`[Google Maps Service] Found ${found.size} unique places; kept ${ranked.length} within ${MAX_CORRIDOR_WIDTH_METERS / 1000} km of the route.`);
+    return ranked;
+}
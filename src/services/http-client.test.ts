@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NetworkError } from '@/lib/service-errors';
+import { jsonResponse } from '@/test/helpers';
+import { getRequestStats, onRequestMetric, requestJson, type JsonRequest, type RequestMetric } from '@/services/http-client';
+
+const request: JsonRequest = {
+  provider: 'openweathermap',
+  operation: 'weather',
+  action: 'fetch current weather',
+  url: 'https://api.openweathermap.org/data/2.5/weather',
+  policy: {timeoutMs: 50, maxAttempts: 3},
+};
+
+describe('requestJson', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(Math, 'random').mockReturnValue(0); // Retry at once
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.useRealTimers();
+  });
+
+  it('returns the parsed body of a successful answer', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({temp: 18}));
+
+    await expect(requestJson(request)).resolves.toEqual({status: 200, ok: true, statusText: '', body: {temp: 18}});
+  });
+
+  it('retries server errors and rate limits, then returns the answer', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(new Response('{}', {status: 429, headers: {'Retry-After': '0'}}))
+      .mockResolvedValueOnce(jsonResponse({temp: 18}));
+
+    await expect(requestJson(request)).resolves.toMatchObject({status: 200, body: {temp: 18}});
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the last error answer once the attempts run out', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({message: 'Too many requests'}, 429));
+
+    await expect(requestJson(request)).resolves.toMatchObject({status: 429, ok: false, body: {message: 'Too many requests'}});
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries answers the caller marks as transient', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({status: 'OVER_QUERY_LIMIT'}))
+      .mockResolvedValueOnce(jsonResponse({status: 'OK'}));
+
+    const response = await requestJson({...request, isTransient: body => body?.status === 'OVER_QUERY_LIMIT'});
+
+    expect(response.body).toEqual({status: 'OK'});
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({message: 'Invalid API key'}, 401));
+
+    await expect(requestJson(request)).resolves.toMatchObject({status: 401});
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up on a request that never answers', async () => {
+    fetchMock.mockImplementation((_input, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('This operation was aborted', 'AbortError')));
+    }));
+
+    const failure = requestJson({...request, policy: {timeoutMs: 20, maxAttempts: 2}});
+
+    await expect(failure).rejects.toThrow('Failed to fetch current weather: no response within 0.02 s');
+    await expect(failure).rejects.toMatchObject({code: 'NETWORK', provider: 'openweathermap', retryable: true});
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getRequestStats().openweathermap).toMatchObject({attempts: 2, timeouts: 2, retries: 1});
+  });
+
+  it('reports unparseable bodies as null', async () => {
+    fetchMock.mockResolvedValue(new Response('<html>Bad gateway</html>', {status: 400}));
+
+    await expect(requestJson(request)).resolves.toMatchObject({status: 400, body: null});
+  });
+
+  it('reports every attempt as a metric', async () => {
+    const metrics: RequestMetric[] = [];
+    const unsubscribe = onRequestMetric(metric => metrics.push(metric));
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 500)).mockResolvedValueOnce(jsonResponse({}));
+
+    await requestJson(request);
+    unsubscribe();
+
+    expect(metrics).toEqual([
+      expect.objectContaining({provider: 'openweathermap', operation: 'weather', outcome: 'transient', attempt: 1, status: 500, willRetry: true}),
+      expect.objectContaining({outcome: 'success', attempt: 2, status: 200, willRetry: false}),
+    ]);
+  });
+});
+
+describe('circuit breaker', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+  const once = {...request, policy: {maxAttempts: 1}};
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.useFakeTimers({toFake: ['Date']});
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.useRealTimers();
+  });
+
+  it('stops calling a failing provider, then lets one trial request through after the cooldown', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    for (let i = 0; i < 5; i++) {
+      await expect(requestJson(once)).rejects.toThrow('fetch failed');
+    }
+
+    await expect(requestJson(once)).rejects.toThrow('OpenWeatherMap is failing repeatedly');
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    expect(getRequestStats().openweathermap).toMatchObject({failures: 5, rejected: 1, circuit: 'open'});
+
+    // Other providers are unaffected
+    fetchMock.mockImplementation(async () => jsonResponse({}));
+    await expect(requestJson({...once, provider: 'google'})).resolves.toMatchObject({ok: true});
+
+    vi.advanceTimersByTime(30000);
+    await expect(requestJson(once)).resolves.toMatchObject({ok: true});
+    expect(getRequestStats().openweathermap?.circuit).toBe('closed');
+  });
+
+  it('reopens if the trial request fails', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    for (let i = 0; i < 5; i++) {
+      await requestJson(once).catch(() => {});
+    }
+
+    vi.advanceTimersByTime(30000);
+    await expect(requestJson(once)).rejects.toThrow('fetch failed');
+
+    await expect(requestJson(once)).rejects.toThrow('is failing repeatedly');
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+
+  it('counts answered requests as healthy, even when they are errors', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({message: 'city not found'}, 404));
+    for (let i = 0; i < 6; i++) {
+      await requestJson(once);
+    }
+
+    expect(getRequestStats().openweathermap).toMatchObject({successes: 6, circuit: 'closed'});
+  });
+
+  it('does not count missing fixtures against the provider', async () => {
+    fetchMock.mockRejectedValue(new NetworkError('Fixture Error: No recorded response for GET /data/2.5/weather.', {retryable: false}));
+    for (let i = 0; i < 6; i++) {
+      await expect(requestJson(once)).rejects.toThrow('Fixture Error: No recorded response');
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+    expect(getRequestStats().openweathermap).toMatchObject({failures: 0, rejected: 0, circuit: 'closed'});
+  });
+});
@@ -0,0 +1,324 @@
+import { NetworkError, ServiceError, type ServiceProvider } from '@/lib/service-errors';
+
+/**
+ * How patiently a request is made.
+ */
+export interface RequestPolicy {
+  /**
+   * How long one attempt may take, including reading the body, in milliseconds.
+   */
+  timeoutMs: number;
+  /**
+   * Attempts in total, including the first. 1 disables retries.
+   */
+  maxAttempts: number;
+  /**
+   * The backoff before the first retry, in milliseconds; it doubles for each retry after that.
+   */
+  baseDelayMs: number;
+  /**
+   * The longest wait between attempts, in milliseconds (also caps a server's Retry-After).
+   */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 10000,
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 3000,
+};
+
+/**
+ * Who is being called and why, for errors, metrics and the circuit breaker (which is per provider).
+ */
+export interface RequestContext {
+  provider: ServiceProvider;
+  /**
+   * What is being done (e.g., 'directions', 'geocoding'); matches the operation on the typed errors.
+   */
+  operation: string;
+}
+
+/**
+ * A JSON request to an external service.
+ */
+export interface JsonRequest extends RequestContext {
+  url: string | URL;
+  /**
+   * Method, headers and body. The client supplies the abort signal for the timeout.
+   */
+  init?: Omit<RequestInit, 'signal'>;
+  /**
+   * What the request does, for network error messages ("Failed to <action>: ..."), e.g. 'fetch directions'.
+   */
+  action: string;
+  /**
+   * Overrides for `DEFAULT_REQUEST_POLICY`.
+   */
+  policy?: Partial<RequestPolicy>;
+  /**
+   * Whether an answer is a passing failure worth retrying, for services that report them in the body of a 200
+   * (e.g., Google's OVER_QUERY_LIMIT). HTTP 429 and 5xx answers are always retried.
+   */
+  isTransient?: (body: any) => boolean;
+}
+
+/**
+ * The final answer to a JSON request. Error answers are returned too, for the caller to map to its own errors.
+ */
+export interface JsonResponse<T = any> {
+  status: number;
+  ok: boolean;
+  statusText: string;
+  /**
+   * The parsed body, or null if it wasn't JSON.
+   */
+  body: T | null;
+}
+
+/**
+ * One attempt at a request, as reported to metric listeners and the log.
+ * - success: the service answered (possibly with a non-transient error such as ZERO_RESULTS, or a fetch-layer error such as a missing fixture).
+ * - transient: the service answered with a retryable failure (HTTP 429/5xx or `isTransient`).
+ * - timeout / network_error: no answer.
+ * - rejected: not sent, because the provider's circuit is open.
+ */
+export interface RequestMetric extends RequestContext {
+  outcome: 'success' | 'transient' | 'timeout' | 'network_error' | 'rejected';
+  attempt: number;
+  status?: number;
+  durationMs: number;
+  willRetry: boolean;
+}
+
+/**
+ * Running totals for one provider since start-up (or the last `resetRequestState`).
+ */
+export interface ProviderRequestStats {
+  attempts: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  timeouts: number;
+  rejected: number;
+  circuit: 'closed' | 'open' | 'half-open';
+}
+
+// Consecutive failed attempts that open a provider's circuit, and how long it stays open before one trial request
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 30000;
+
+const PROVIDER_NAMES: Record<ServiceProvider, string> = {
+  google: 'Google Maps',
+  osrm: 'OSRM',
+  nominatim: 'Nominatim',
+  openweathermap: 'OpenWeatherMap',
+  genkit: 'The AI model',
+  firebase: 'Firebase',
+};
+
+interface Circuit {
+  consecutiveFailures: number;
+  openedAt?: number; // Set while open (or half-open, once the cooldown has passed)
+  trialInFlight: boolean;
+}
+
+const circuits = new Map<ServiceProvider, Circuit>();
+const stats = new Map<ServiceProvider, Omit<ProviderRequestStats, 'circuit'>>();
+const metricListeners = new Set<(metric: RequestMetric) => void>();
+
+const circuitFor = (provider: ServiceProvider): Circuit => {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { consecutiveFailures: 0, trialInFlight: false };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+};
+
+const statsFor = (provider: ServiceProvider): Omit<ProviderRequestStats, 'circuit'> => {
+  let providerStats = stats.get(provider);
+  if (!providerStats) {
+    providerStats = { attempts: 0, successes: 0, failures: 0, retries: 0, timeouts: 0, rejected: 0 };
+    stats.set(provider, providerStats);
+  }
+  return providerStats;
+};
+
+const circuitState = (circuit: Circuit | undefined): ProviderRequestStats['circuit'] => {
+  if (circuit?.openedAt === undefined) return 'closed';
+  return Date.now() - circuit.openedAt < CIRCUIT_COOLDOWN_MS ? 'open' : 'half-open';
+};
+
+/**
+ * Whether a request to the provider may go out. A half-open circuit lets one trial request through at a time.
+ */
+function admitRequest(provider: ServiceProvider): boolean {
+  const circuit = circuitFor(provider);
+  const state = circuitState(circuit);
+  if (state === 'closed') return true;
+  if (state === 'open' || circuit.trialInFlight) return false;
+  circuit.trialInFlight = true;
+  return true;
+}
+
+function recordAnswer(provider: ServiceProvider): void {
+  const circuit = circuitFor(provider);
+  if (circuit.openedAt !== undefined) {
+    console.log(`[HTTP Client] ${PROVIDER_NAMES[provider]} is answering again; closing its circuit.`);
+  }
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = undefined;
+  circuit.trialInFlight = false;
+}
+
+function recordFailure(provider: ServiceProvider): void {
+  const circuit = circuitFor(provider);
+  circuit.consecutiveFailures += 1;
+  if (circuit.trialInFlight || (circuit.openedAt === undefined && circuit.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD)) {
+    circuit.openedAt = Date.now();
+    console.warn(`[HTTP Client] Opening the circuit for ${PROVIDER_NAMES[provider]} after ${circuit.consecutiveFailures} failed attempts; pausing requests for ${CIRCUIT_COOLDOWN_MS / 1000} s.`);
+  }
+  circuit.trialInFlight = false;
+}
+
+function emitMetric(metric: RequestMetric): void {
+  const providerStats = statsFor(metric.provider);
+  if (metric.outcome === 'rejected') {
+    providerStats.rejected += 1;
+  } else {
+    providerStats.attempts += 1;
+    if (metric.outcome === 'success') providerStats.successes += 1;
+    else providerStats.failures += 1;
+    if (metric.outcome === 'timeout') providerStats.timeouts += 1;
+    if (metric.willRetry) providerStats.retries += 1;
+  }
+  console.log(`[HTTP Client] ${JSON.stringify({ metric: 'http_request', ...metric })}`);
+  metricListeners.forEach(listener => {
+    try {
+      listener(metric);
+    } catch (error) {
+      console.warn('[HTTP Client] A metric listener failed:', error);
+    }
+  });
+}
+
+/**
+ * Registers a listener for every request attempt (e.g., to forward them to a metrics backend).
+ *
+ * @param listener Called after each attempt.
+ * @returns A function that removes the listener.
+ */
+export function onRequestMetric(listener: (metric: RequestMetric) => void): () => void {
+  metricListeners.add(listener);
+  return () => {
+    metricListeners.delete(listener);
+  };
+}
+
+/**
+ * Returns the request totals and circuit state of every provider called so far.
+ */
+export function getRequestStats(): Partial<Record<ServiceProvider, ProviderRequestStats>> {
+  return Object.fromEntries(
+    Array.from(stats.entries()).map(([provider, providerStats]) => [provider, { ...providerStats, circuit: circuitState(circuits.get(provider)) }])
+  );
+}
+
+/**
+ * Closes every circuit and clears the totals (for tests).
+ */
+export function resetRequestState(): void {
+  circuits.clear();
+  stats.clear();
+}
+
+/**
+ * The wait before retry number `retry` (1-based): exponential backoff with full jitter, or the server's Retry-After.
+ */
+function retryDelay(retry: number, policy: RequestPolicy, retryAfterHeader: string | null): number {
+  const retryAfterSeconds = retryAfterHeader ? Number(retryAfterHeader) : NaN;
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, policy.maxDelayMs);
+  }
+  const ceiling = Math.min(policy.baseDelayMs * 2 ** (retry - 1), policy.maxDelayMs);
+  return Math.random() * ceiling;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Sends a JSON request with a timeout per attempt, retries passing failures with exponential backoff and jitter,
+ * and stops calling a provider for a while once it keeps failing (circuit breaker).
+ * Every attempt is reported as a structured metric (see `onRequestMetric`).
+ *
+ * @param request The request and how to make it.
+ * @returns The final answer, including error answers (HTTP or in the body) for the caller to interpret.
+ * @throws {NetworkError} If no answer arrived (network failure or timeout) after the last attempt, or the provider's circuit is open.
+ */
+export async function requestJson<T = any>(request: JsonRequest): Promise<JsonResponse<T>> {
+  const { provider, operation, url, init, action, isTransient } = request;
+  const policy: RequestPolicy = { ...DEFAULT_REQUEST_POLICY, ...request.policy };
+  const context = { provider, operation };
+
+  for (let attempt = 1; ; attempt++) {
+    const willRetry = attempt < policy.maxAttempts;
+
+    if (!admitRequest(provider)) {
+      emitMetric({ ...context, outcome: 'rejected', attempt, durationMs: 0, willRetry: false });
+      throw new NetworkError(`Failed to ${action}: ${PROVIDER_NAMES[provider]} is failing repeatedly, so requests are paused for a moment. Please try again shortly.`, context);
+    }
+
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+      text = await response.text();
+    } catch (error) {
+      if (error instanceof ServiceError && !error.retryable) {
+        // Already explained by the fetch layer (e.g., a missing fixture): a definite answer, so it mustn't open the circuit.
+        // Retrying won't help
+        recordAnswer(provider);
+        emitMetric({ ...context, outcome: 'success', attempt, durationMs: Date.now() - startedAt, willRetry: false });
+        throw error;
+      }
+      const timedOut = controller.signal.aborted;
+      recordFailure(provider);
+      emitMetric({ ...context, outcome: timedOut ? 'timeout' : 'network_error', attempt, durationMs: Date.now() - startedAt, willRetry });
+      if (!willRetry) {
+        const reason = timedOut ? `no response within ${policy.timeoutMs / 1000} s` : error instanceof Error ? error.message : String(error);
+        throw new NetworkError(`Failed to ${action}: ${reason}`, { ...context, cause: error });
+      }
+      await sleep(retryDelay(attempt, policy, null));
+      continue;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const body = parseJson(text) as T | null;
+    const transient = response.status === 429 || response.status >= 500 || (isTransient?.(body) ?? false);
+    if (transient) {
+      recordFailure(provider);
+    } else {
+      recordAnswer(provider);
+    }
+    emitMetric({ ...context, outcome: transient ? 'transient' : 'success', attempt, status: response.status, durationMs: Date.now() - startedAt, willRetry: transient && willRetry });
+
+    if (!transient || !willRetry) {
+      return { status: response.status, ok: response.ok, statusText: response.statusText, body };
+    }
+    await sleep(retryDelay(attempt, policy, response.headers.get('retry-after')));
+  }
+}
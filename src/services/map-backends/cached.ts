@@ -0,0 +1,63 @@
+import type { DirectionsOptions } from '@/services/google-maps';
+import type { MapProviderKind, MapProviders } from '@/services/map-providers';
+import {
+  cached,
+  GEOCODING_CACHE_TTL_MS,
+  OPEN_NOW_PLACES_CACHE_TTL_MS,
+  PLACES_CACHE_TTL_MS,
+  ROUTE_CACHE_TTL_MS,
+  TRAFFIC_ROUTE_CACHE_TTL_MS,
+} from '@/services/response-cache';
+
+/**
+ * How long a route stays valid: briefly if it depends on traffic or timetables, otherwise for a day.
+ */
+const routeTtl = (options: DirectionsOptions = {}): number =>
+  (options.mode ?? 'driving') === 'driving' || options.mode === 'transit' ? TRAFFIC_ROUTE_CACHE_TTL_MS : ROUTE_CACHE_TTL_MS;
+
+/**
+ * Wraps a backend's map services with the response cache (see src/services/response-cache.ts).
+ * Geocoding is kept for 30 days, places for 6 hours (5 minutes for "open now" searches), and routes for 5 minutes (driving and transit)
+ * or a day (walking and cycling).
+ * Autocomplete isn't cached: Google bills a search session as a whole, and each keystroke's input differs anyway.
+ *
+ * @param providers The backend's services.
+ * @param backend The backend's name, part of every key since place IDs are only meaningful within one backend.
+ * @returns The same services, answering repeated requests from the cache.
+ */
+export function withResponseCache(providers: MapProviders, backend: MapProviderKind): MapProviders {
+  const { routing, geocoding, places } = providers;
+  return {
+    routing: {
+      hasTrafficData: routing.hasTrafficData,
+      findRoute: (origin, destination, waypoints, options) =>
+        cached('directions', [backend, 'route', origin, destination, waypoints, options], routeTtl(options), () =>
+          routing.findRoute(origin, destination, waypoints, options)
+        ),
+      findAlternativeRoutes: (origin, destination, waypoints, options) =>
+        cached('directions', [backend, 'alternatives', origin, destination, waypoints, options], routeTtl(options), () =>
+          routing.findAlternativeRoutes(origin, destination, waypoints, options)
+        ),
+    },
+    geocoding: {
+      geocodeAddress: address =>
+        cached('geocoding', [backend, 'address', address.trim().toLowerCase()], GEOCODING_CACHE_TTL_MS, () => geocoding.geocodeAddress(address)),
+      // A lookup with a session token always goes out, since that request is what closes the autocomplete session
+      geocodePlaceId: (placeId, sessionToken) =>
+        sessionToken
+          ? geocoding.geocodePlaceId(placeId, sessionToken)
+          : cached('geocoding', [backend, 'place', placeId], GEOCODING_CACHE_TTL_MS, () => geocoding.geocodePlaceId(placeId)),
+      reverseGeocode: coordinate =>
+        cached('geocoding', [backend, 'reverse', coordinate], GEOCODING_CACHE_TTL_MS, () => geocoding.reverseGeocode(coordinate)),
+    },
+    places: {
+      findAttractionsNearRoute: (route, preferences) =>
+        cached('places', [backend, 'attractions', route.path, route.travelMode, preferences], preferences?.openNow ? OPEN_NOW_PLACES_CACHE_TTL_MS : PLACES_CACHE_TTL_MS, () =>
+          places.findAttractionsNearRoute(route, preferences)
+        ),
+      findPlacePredictions: (input, sessionToken, options) => places.findPlacePredictions(input, sessionToken, options),
+      getPlaceOpeningHours: placeId =>
+        cached('places', [backend, 'opening-hours', placeId], PLACES_CACHE_TTL_MS, () => places.getPlaceOpeningHours(placeId)),
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import {
+  findAlternativeRoutes,
+  findAttractionsNearRoute,
+  findPlacePredictions,
+  findShortestRoute,
+  getAddressFromCoordinates,
+  getCoordinatesFromAddress,
+  getCoordinatesFromPlaceId,
+  getPlaceOpeningHours,
+} from '@/services/google-maps';
+import type { MapProviders } from '@/services/map-providers';
+
+/**
+ * Map services backed by the Google Maps Platform web APIs (Directions, Geocoding, Places).
+ * Requires GOOGLE_MAPS_API_KEY; see src/services/google-maps.ts.
+ */
+export function createGoogleMapProviders(): MapProviders {
+  return {
+    routing: {
+      hasTrafficData: true,
+      findRoute: findShortestRoute,
+      findAlternativeRoutes,
+    },
+    geocoding: {
+      geocodeAddress: getCoordinatesFromAddress,
+      geocodePlaceId: getCoordinatesFromPlaceId,
+      reverseGeocode: getAddressFromCoordinates,
+    },
+    places: {
+      findAttractionsNearRoute: (route, preferences) => findAttractionsNearRoute(route, preferences),
+      findPlacePredictions,
+      getPlaceOpeningHours,
+    },
+  };
+}
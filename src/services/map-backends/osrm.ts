@@ -0,0 +1,495 @@
+import { decode } from '@googlemaps/polyline-codec';
+import {
+  findAttractionsNearRoute,
+  DEFAULT_ATTRACTION_SEARCH_PREFERENCES,
+  type Attraction,
+  type AttractionSearchPreferences,
+  type Coordinate,
+  type DirectionsOptions,
+  type PlaceAutocompleteOptions,
+  type PlacePrediction,
+  type Route,
+  type RouteLeg,
+  type RouteRestriction,
+  type RouteStep,
+  type TravelMode,
+} from '@/services/google-maps';
+import type { MapProviders } from '@/services/map-providers';
+import {
+  InvalidRequestError,
+  NoResultsError,
+  QuotaExceededError,
+  RequestDeniedError,
+  ServiceError,
+} from '@/lib/service-errors';
+import { requestJson, type RequestContext } from '@/services/http-client';
+
+// Self-hosted servers. One osrm-routed instance serves a single profile, so walking and cycling can point at their own.
+const OSRM_URL = process.env.OSRM_URL || 'http://localhost:5000';
+const OSRM_URLS: Record<Exclude<TravelMode, 'transit'>, string> = {
+  driving: OSRM_URL,
+  walking: process.env.OSRM_WALKING_URL || OSRM_URL,
+  bicycling: process.env.OSRM_BICYCLING_URL || OSRM_URL,
+};
+const OSRM_PROFILES: Record<Exclude<TravelMode, 'transit'>, string> = {
+  driving: 'driving',
+  walking: 'foot',
+  bicycling: 'bike',
+};
+const NOMINATIM_URL = process.env.NOMINATIM_URL || 'http://localhost:8080';
+// Nominatim's usage policy asks every client to identify itself
+const USER_AGENT = process.env.NOMINATIM_USER_AGENT || 'UrbanFlow-Navigator';
+
+// OSRM `exclude` classes for our restrictions (the default car profile defines toll, motorway and ferry)
+const EXCLUDE_CLASSES: Partial<Record<RouteRestriction, string>> = {
+  tolls: 'toll',
+  highways: 'motorway',
+  ferries: 'ferry',
+};
+
+// Place IDs from Nominatim are OSM objects: N (node), W (way) or R (relation) followed by the OSM ID
+const OSM_PLACE_ID_PATTERN = /^[NWR]\d+$/;
+const COORDINATE_WAYPOINT_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+// Nominatim search phrases for Places API types that don't read as English as-is
+const PLACE_TYPE_QUERIES: Record<string, string> = {
+  tourist_attraction: 'attraction',
+  gas_station: 'fuel',
+  lodging: 'hotel',
+  shopping_mall: 'mall',
+  electric_vehicle_charging_station: 'charging station',
+};
+const DEFAULT_PLACE_QUERY = 'attraction';
+const MAX_NOMINATIM_RESULTS = 50;
+const MAX_PREDICTIONS = 5;
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+// Where an error came from, for the typed errors below
+const osrmError = (operation: string): RequestContext => ({ provider: 'osrm', operation });
+const nominatimError = (operation: string): RequestContext => ({ provider: 'nominatim', operation });
+
+/**
+ * Fetches JSON from OSRM or Nominatim through the shared HTTP client (timeouts, retries, circuit breaker).
+ *
+ * @param url The request URL.
+ * @param action What the request does, for the network error message (e.g., "fetch directions").
+ * @param context The provider and operation reported on errors.
+ * @returns The parsed body. OSRM error bodies (with a `code`) are returned for the caller to interpret.
+ * @throws {ServiceError} If the server can't be reached (NETWORK) or answers with an HTTP error.
+ */
+async function fetchJson(url: URL, action: string, context: RequestContext): Promise<any> {
+  const response = await requestJson({ ...context, url, action: `${action} from ${url.origin}`, init: { headers: { 'User-Agent': USER_AGENT } } });
+  const data = response.body;
+  if (!response.ok && typeof data?.code !== 'string') {
+    const message = `Failed to ${action}: the server at ${url.origin} answered with HTTP ${response.status}.`;
+    if (response.status === 429) {
+      throw new QuotaExceededError(message, context); // Public Nominatim instances rate-limit heavy users
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new RequestDeniedError(message, context);
+    }
+    throw new ServiceError('UNKNOWN', message, { ...context, retryable: response.status >= 500 });
+  }
+  return data;
+}
+
+/**
+ * Converts a Nominatim result's OSM reference into a place ID (e.g., "W123456").
+ */
+function toPlaceId(result: any): string | undefined {
+  const type = typeof result.osm_type === 'string' ? result.osm_type.charAt(0).toUpperCase() : '';
+  return ['N', 'W', 'R'].includes(type) && result.osm_id ? `${type}${result.osm_id}` : undefined;
+}
+
+const toCoordinate = (result: any): Coordinate => ({ lat: parseFloat(result.lat), lng: parseFloat(result.lon) });
+
+/**
+ * A bounding box around a point, as Nominatim's `viewbox` (left,top,right,bottom).
+ */
+function toViewbox(center: Coordinate, radius: number): string {
+  const latDelta = radius / METERS_PER_DEGREE_LATITUDE;
+  const lngDelta = radius / (METERS_PER_DEGREE_LATITUDE * Math.max(Math.cos((center.lat * Math.PI) / 180), 0.01));
+  return [center.lng - lngDelta, center.lat + latDelta, center.lng + lngDelta, center.lat - latDelta].join(',');
+}
+
+/**
+ * Runs a Nominatim search.
+ *
+ * @param params Search parameters (`q`, `limit`, `viewbox`, ...).
+ * @param action What the search is for, for the network error message.
+ * @param operation The operation reported on errors.
+ * @returns The raw results (empty if nothing matched).
+ */
+async function searchNominatim(params: Record<string, string>, action: string, operation: string): Promise<any[]> {
+  const url = new URL('/search', NOMINATIM_URL);
+  Object.entries({ ...params, format: 'jsonv2' }).forEach(([key, value]) => url.searchParams.set(key, value));
+  const data = await fetchJson(url, action, nominatimError(operation));
+  return Array.isArray(data) ? data : [];
+}
+
+/**
+ * Geocodes an address with Nominatim.
+ * @throws {ServiceError} If nothing matches the address or Nominatim can't be reached.
+ */
+async function geocodeAddress(address: string): Promise<Coordinate> {
+  console.log(`[OSRM Provider] Geocoding address: "${address}"`);
+  const [result] = await searchNominatim({ q: address, limit: '1' }, 'geocode address', 'geocoding');
+  if (!result) {
+    throw new NoResultsError(`Nominatim Error: No results found for address "${address}". Please ensure the address is valid.`, nominatimError('geocoding'));
+  }
+  return toCoordinate(result);
+}
+
+/**
+ * Looks up the coordinates of an OSM object by place ID (e.g., "N240109189").
+ * @throws {ServiceError} If the place ID is not an OSM reference, the object doesn't exist, or Nominatim can't be reached.
+ */
+async function geocodePlaceId(placeId: string): Promise<Coordinate> {
+  if (!OSM_PLACE_ID_PATTERN.test(placeId)) {
+    throw new InvalidRequestError(`Nominatim Error: "${placeId}" is not an OpenStreetMap place ID. Place IDs from another map provider can't be used.`, nominatimError('geocoding'));
+  }
+  console.log(`[OSRM Provider] Looking up place ID "${placeId}".`);
+  const url = new URL('/lookup', NOMINATIM_URL);
+  url.searchParams.set('osm_ids', placeId);
+  url.searchParams.set('format', 'jsonv2');
+  const data = await fetchJson(url, 'look up place', nominatimError('geocoding'));
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new NoResultsError(`Nominatim Error: No place found for place ID "${placeId}".`, nominatimError('geocoding'));
+  }
+  return toCoordinate(data[0]);
+}
+
+/**
+ * Reverse geocodes a coordinate with Nominatim.
+ * @throws {ServiceError} If no address is found or Nominatim can't be reached.
+ */
+async function reverseGeocode(coordinate: Coordinate): Promise<string> {
+  console.log(`[OSRM Provider] Reverse geocoding coordinates: ${JSON.stringify(coordinate)}`);
+  const url = new URL('/reverse', NOMINATIM_URL);
+  url.searchParams.set('lat', coordinate.lat.toString());
+  url.searchParams.set('lon', coordinate.lng.toString());
+  url.searchParams.set('format', 'jsonv2');
+  const data = await fetchJson(url, 'reverse geocode coordinates', nominatimError('reverse-geocoding'));
+  if (!data?.display_name) {
+    throw new NoResultsError(`Nominatim Error: No address found for coordinates ${JSON.stringify(coordinate)}.`, nominatimError('reverse-geocoding'));
+  }
+  return data.display_name;
+}
+
+/**
+ * Resolves a waypoint string (`place_id:<osm id>`, `lat,lng` or an address) to a coordinate, since OSRM only takes coordinates.
+ */
+async function resolveWaypoint(waypoint: string): Promise<Coordinate> {
+  if (waypoint.startsWith('place_id:')) {
+    return geocodePlaceId(waypoint.slice('place_id:'.length));
+  }
+  const match = COORDINATE_WAYPOINT_PATTERN.exec(waypoint);
+  if (match) {
+    return { lat: parseFloat(match[1]), lng: parseFloat(match[2]) };
+  }
+  return geocodeAddress(waypoint);
+}
+
+const decodePath = (polyline: string): Coordinate[] => decode(polyline, 5).map(([lat, lng]) => ({ lat, lng }));
+
+/**
+ * Maps an OSRM maneuver to the closest Directions API maneuver name (e.g., "turn-slight-left"), so guidance icons work.
+ */
+function toManeuver(maneuver: any): string | undefined {
+  const modifier: string = maneuver?.modifier || '';
+  const side = modifier.includes('left') ? 'left' : modifier.includes('right') ? 'right' : '';
+  switch (maneuver?.type) {
+    case 'turn':
+    case 'end of road':
+    case 'continue':
+      if (modifier === 'uturn') return 'uturn-left';
+      if (!side) return 'straight';
+      return `turn-${modifier.replace(' ', '-')}`;
+    case 'on ramp':
+    case 'off ramp':
+      return side ? `ramp-${side}` : undefined;
+    case 'fork':
+      return side ? `fork-${side}` : undefined;
+    case 'merge':
+      return 'merge';
+    case 'roundabout':
+    case 'rotary':
+    case 'roundabout turn':
+      return `roundabout-${side || 'right'}`;
+    case 'new name':
+      return 'straight';
+    default:
+      return undefined; // depart, arrive, exit roundabout, notification
+  }
+}
+
+/**
+ * Writes a plain-text instruction for an OSRM step (OSRM returns maneuvers, not text).
+ */
+function toInstruction(step: any, isLastLeg: boolean): string {
+  const road: string = step.name || step.ref || '';
+  const onto = road ? ` onto ${road}` : '';
+  const modifier: string = step.maneuver?.modifier || '';
+  switch (step.maneuver?.type) {
+    case 'depart':
+      return road ? `Head along ${road}` : 'Head out';
+    case 'arrive':
+      return isLastLeg ? 'Arrive at your destination' : 'Arrive at your stop';
+    case 'roundabout':
+    case 'rotary':
+      return `Enter the roundabout and take exit ${step.maneuver.exit ?? 1}${onto}`;
+    case 'exit roundabout':
+    case 'exit rotary':
+      return `Exit the roundabout${onto}`;
+    case 'merge':
+      return `Merge${onto}`;
+    case 'on ramp':
+      return `Take the ramp${modifier ? ` on the ${modifier.replace(/^(slight|sharp) /, '')}` : ''}${onto}`;
+    case 'off ramp':
+      return `Take the exit${modifier ? ` on the ${modifier.replace(/^(slight|sharp) /, '')}` : ''}${onto}`;
+    case 'fork':
+      return `Keep ${modifier.replace(/^(slight|sharp) /, '') || 'straight'} at the fork${onto}`;
+    default:
+      if (modifier === 'uturn') return `Make a U-turn${onto}`;
+      if (!modifier || modifier === 'straight') return `Continue${onto}`;
+      return `Turn ${modifier}${onto}`;
+  }
+}
+
+/**
+ * Converts an OSRM route (requested with `steps=true&overview=full&geometries=polyline`) into our Route shape.
+ *
+ * @param route A single entry from the OSRM `routes` (or `trips`) array.
+ * @param index The position of the route in the response (used for the fallback label).
+ * @param mode The travel mode the route was requested for.
+ * @param waypointsOrder The order the waypoints are visited in, if there are any.
+ * @returns The parsed Route. OSRM has no live traffic, so `durationInTrafficSeconds` is never set.
+ */
+function parseOsrmRoute(route: any, index: number, mode: TravelMode, waypointsOrder?: number[]): Route {
+  const path = decodePath(route.geometry || '');
+  const rawLegs: any[] = route.legs || [];
+  const legs: RouteLeg[] = rawLegs.map((leg: any, legIndex: number) => {
+    const steps: RouteStep[] = (leg.steps || []).map((step: any): RouteStep => {
+      const stepPath = step.geometry ? decodePath(step.geometry) : [];
+      const [lng, lat] = step.maneuver?.location || [0, 0];
+      const startLocation = stepPath[0] || { lat, lng };
+      return {
+        maneuver: toManeuver(step.maneuver),
+        htmlInstructions: toInstruction(step, legIndex === rawLegs.length - 1),
+        distanceMeters: step.distance || 0,
+        durationSeconds: step.duration || 0,
+        startLocation,
+        endLocation: stepPath[stepPath.length - 1] || startLocation,
+        path: stepPath.length > 0 ? stepPath : [startLocation],
+      };
+    });
+    return {
+      distanceMeters: leg.distance || 0,
+      durationSeconds: leg.duration || 0,
+      startLocation: steps[0]?.startLocation || path[0],
+      endLocation: steps[steps.length - 1]?.endLocation || path[path.length - 1],
+      steps,
+    };
+  });
+
+  // Road classes OSRM tags on intersections (toll, motorway, ferry, ...)
+  const classes = new Set<string>(
+    rawLegs.flatMap((leg: any) => (leg.steps || []).flatMap((step: any) => (step.intersections || []).flatMap((intersection: any) => intersection.classes || [])))
+  );
+  const lats = path.map(point => point.lat);
+  const lngs = path.map(point => point.lng);
+  const summary = [...new Set(rawLegs.map((leg: any) => leg.summary).filter(Boolean))].join(', ');
+
+  return {
+    path,
+    distanceMeters: route.distance || 0,
+    durationSeconds: route.duration || 0,
+    bounds: {
+      northeast: { lat: Math.max(...lats), lng: Math.max(...lngs) },
+      southwest: { lat: Math.min(...lats), lng: Math.min(...lngs) },
+    },
+    waypointsOrder,
+    legs,
+    summary: summary || `Route ${index + 1}`,
+    hasTolls: classes.has('toll'),
+    usesHighways: classes.has('motorway'),
+    travelMode: mode,
+  };
+}
+
+/**
+ * Calls OSRM and parses every returned route.
+ * Without waypoint optimization this is the `route` service (with alternatives when asked for and there are no waypoints);
+ * with it, the `trip` service solves the visiting order with the origin and destination fixed.
+ * Departure times and traffic models are ignored: OSRM routes on typical speeds only.
+ *
+ * @param origin The starting coordinate.
+ * @param destination The destination coordinate.
+ * @param waypoints Optional waypoint strings (`place_id:<osm id>`, `lat,lng` or addresses), resolved through Nominatim.
+ * @param options Additional request options.
+ * @returns A promise that resolves to the parsed routes, best first.
+ * @throws {ServiceError} If the mode is transit, no route is found, or a server can't be reached.
+ */
+async function fetchOsrmRoutes(
+  origin: Coordinate,
+  destination: Coordinate,
+  waypoints: string[] | undefined,
+  options: DirectionsOptions
+): Promise<Route[]> {
+  const mode: TravelMode = options.mode || 'driving';
+  if (mode === 'transit') {
+    throw new InvalidRequestError('OSRM Error: Transit directions are not supported by the OSRM map provider. Choose driving, walking or bicycling.', osrmError('directions'));
+  }
+
+  const stops = await Promise.all((waypoints || []).filter(waypoint => waypoint.trim() !== '').map(resolveWaypoint));
+  const optimize = stops.length > 1 && options.optimizeWaypoints !== false;
+  const coordinates = [origin, ...stops, destination].map(point => `${point.lng},${point.lat}`).join(';');
+
+  const url = new URL(`/${optimize ? 'trip' : 'route'}/v1/${OSRM_PROFILES[mode]}/${coordinates}`, OSRM_URLS[mode]);
+  url.searchParams.set('steps', 'true');
+  url.searchParams.set('overview', 'full');
+  url.searchParams.set('geometries', 'polyline');
+  if (optimize) {
+    url.searchParams.set('source', 'first');
+    url.searchParams.set('destination', 'last');
+    url.searchParams.set('roundtrip', 'false');
+  } else if (options.alternatives && stops.length === 0) {
+    url.searchParams.set('alternatives', 'true');
+  }
+  const exclude = mode === 'driving'
+    ? [...new Set((options.avoid || []).flatMap(restriction => EXCLUDE_CLASSES[restriction] ?? []))]
+    : [];
+  if (exclude.length > 0) {
+    url.searchParams.set('exclude', exclude.join(','));
+  }
+
+  console.log(`[OSRM Provider] Fetching directions: ${url.toString()}`);
+  const data = await fetchJson(url, 'fetch directions', osrmError('directions'));
+
+  if (data?.code !== 'Ok') {
+    console.error(`[OSRM Provider] OSRM Error: Code=${data?.code}, Message=${data?.message || 'No error message provided.'}`);
+    if (exclude.length > 0 && (data?.code === 'InvalidValue' || data?.code === 'InvalidQuery')) {
+      // The profile doesn't define this combination of classes; like Google, treat avoidance as a preference
+      console.warn(`[OSRM Provider] The server can't exclude "${exclude.join(',')}"; routing without exclusions.`);
+      return fetchOsrmRoutes(origin, destination, waypoints, { ...options, avoid: [] });
+    }
+    if (data?.code === 'NoRoute' || data?.code === 'NoTrips' || data?.code === 'NoSegment') {
+      throw new NoResultsError(`OSRM Error: No route found${stops.length > 0 ? ' including the specified waypoints' : ''}. Code: ${data.code}.`, osrmError('directions'));
+    }
+    if (data?.code === 'InvalidQuery' || data?.code === 'InvalidValue' || data?.code === 'InvalidOptions' || data?.code === 'TooBig') {
+      throw new InvalidRequestError(`OSRM Error: Could not find route. Code: ${data.code}. ${data.message || ''}`, osrmError('directions'));
+    }
+    throw new ServiceError('UNKNOWN', `OSRM Error: Could not find route. Code: ${data?.code ?? 'unknown'}. ${data?.message || ''}`, osrmError('directions'));
+  }
+
+  let routes: Route[];
+  if (optimize) {
+    // `waypoints` are in input order; `waypoint_index` is each one's position in the trip
+    const positions: number[] = (data.waypoints || []).map((waypoint: any) => waypoint.waypoint_index);
+    const waypointsOrder = stops.map((_, index) => index).sort((a, b) => positions[a + 1] - positions[b + 1]);
+    routes = (data.trips || []).map((trip: any, index: number) => parseOsrmRoute(trip, index, mode, waypointsOrder));
+  } else {
+    const waypointsOrder = stops.length > 0 ? stops.map((_, index) => index) : undefined;
+    routes = (data.routes || []).map((route: any, index: number) => parseOsrmRoute(route, index, mode, waypointsOrder));
+  }
+  if (routes.length === 0) {
+    throw new NoResultsError('OSRM Error: No route found. Code: NoRoute.', osrmError('directions'));
+  }
+
+  routes.forEach(route => {
+    console.log(`[OSRM Provider] Directions found (${route.summary}, ${mode}): Distance=${(route.distanceMeters / 1000).toFixed(1)} km, Duration=${Math.round(route.durationSeconds / 60)} min. Waypoint order: ${route.waypointsOrder ? route.waypointsOrder.join(', ') : 'N/A'}`);
+  });
+  return routes;
+}
+
+/**
+ * Finds places around a point with a bounded Nominatim search.
+ * Nominatim matches one phrase per request, so each type is a separate search and a keyword is only used without types.
+ * OpenStreetMap has no ratings, open-now flags or price levels, so those filters are ignored.
+ */
+async function findAttractionsNearCoordinate(
+  center: Coordinate,
+  radius: number,
+  preferences: AttractionSearchPreferences
+): Promise<Attraction[]> {
+  const maxResults = preferences.maxResults ?? DEFAULT_ATTRACTION_SEARCH_PREFERENCES.maxResults!;
+  const queries = preferences.types && preferences.types.length > 0
+    ? preferences.types.map(type => PLACE_TYPE_QUERIES[type] ?? type.replace(/_/g, ' '))
+    : [preferences.keyword?.trim() || DEFAULT_PLACE_QUERY];
+
+  console.log(`[OSRM Provider] Finding places near ${JSON.stringify(center)} (Radius: ${radius}m, Queries: ${queries.join(', ')}).`);
+  const resultsByQuery = await Promise.all(queries.map(q =>
+    searchNominatim({ q, viewbox: toViewbox(center, radius), bounded: '1', limit: Math.min(maxResults, MAX_NOMINATIM_RESULTS).toString() }, 'find attractions', 'places-nearby')
+  ));
+
+  const seen = new Set<string>();
+  return resultsByQuery.flat()
+    .filter(result => {
+      const placeId = toPlaceId(result);
+      if (!placeId || seen.has(placeId)) return false;
+      seen.add(placeId);
+      return true;
+    })
+    .slice(0, maxResults)
+    .map(result => ({
+      name: result.name || String(result.display_name).split(',')[0],
+      description: String(result.type || result.category || 'place').replace(/_/g, ' '),
+      location: toCoordinate(result),
+      placeId: toPlaceId(result),
+      types: [result.category, result.type].filter(Boolean),
+    }));
+}
+
+/**
+ * Suggests places for partially typed text with a Nominatim search, biased towards `options.location` when given.
+ * Nominatim has no autocomplete sessions, so the session token is unused.
+ */
+async function findPlacePredictions(input: string, _sessionToken: string, options: PlaceAutocompleteOptions = {}): Promise<PlacePrediction[]> {
+  console.log(`[OSRM Provider] Autocompleting "${input}"${options.location ? ` near ${JSON.stringify(options.location)}` : ''}.`);
+  const params: Record<string, string> = { q: input, limit: MAX_PREDICTIONS.toString() };
+  if (options.location) {
+    params.viewbox = toViewbox(options.location, options.radius ?? 50000); // Unbounded: preferred, not required
+  }
+  const results = await searchNominatim(params, 'autocomplete places', 'places-autocomplete');
+  return results.flatMap(result => {
+    const placeId = toPlaceId(result);
+    if (!placeId) return [];
+    const [first, ...rest] = String(result.display_name).split(', ');
+    return [{
+      placeId,
+      description: result.display_name,
+      mainText: result.name || first,
+      secondaryText: rest.join(', ') || undefined,
+    }];
+  });
+}
+
+/**
+ * Map services backed by self-hostable open-source servers: OSRM for routing and Nominatim for geocoding and places.
+ * Configure with OSRM_URL (plus optional OSRM_WALKING_URL and OSRM_BICYCLING_URL for servers built with other profiles)
+ * and NOMINATIM_URL; both default to localhost. Transit routing and opening hours are not available.
+ */
+export function createOsrmMapProviders(): MapProviders {
+  return {
+    routing: {
+      hasTrafficData: false,
+      findRoute: async (origin, destination, waypoints, options = {}) => {
+        const [route] = await fetchOsrmRoutes(origin, destination, waypoints, { ...options, alternatives: false });
+        return route;
+      },
+      findAlternativeRoutes: (origin, destination, waypoints, options = {}) =>
+        fetchOsrmRoutes(origin, destination, waypoints, { ...options, alternatives: true }),
+    },
+    geocoding: {
+      geocodeAddress,
+      geocodePlaceId,
+      reverseGeocode,
+    },
+    places: {
+      findAttractionsNearRoute: (route, preferences) => findAttractionsNearRoute(route, preferences, findAttractionsNearCoordinate),
+      findPlacePredictions,
+      // OSM hours use a free-form syntax that isn't parsed here; stops are simply not checked
+      getPlaceOpeningHours: async () => null,
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import type {
+  Attraction,
+  AttractionSearchPreferences,
+  Coordinate,
+  DirectionsOptions,
+  PlaceAutocompleteOptions,
+  PlaceOpeningHours,
+  PlacePrediction,
+  Route,
+} from '@/services/google-maps';
+import { createGoogleMapProviders } from '@/services/map-backends/google';
+import { createOsrmMapProviders } from '@/services/map-backends/osrm';
+import { withResponseCache } from '@/services/map-backends/cached';
+
+/**
+ * Computes routes between coordinates.
+ * Waypoints are strings: `place_id:<id>` (an ID from the same provider's geocoding or places), `lat,lng`, or a free-text address.
+ */
+export interface RoutingProvider {
+  /**
+   * Whether route durations depend on the departure time (live traffic, timetables). Without it, scanning departure times is pointless.
+   */
+  readonly hasTrafficData: boolean;
+  /**
+   * Finds the provider's default route, optionally via waypoints.
+   * @throws {Error} If no route is found or the request fails.
+   */
+  findRoute(origin: Coordinate, destination: Coordinate, waypoints?: string[], options?: DirectionsOptions): Promise<Route>;
+  /**
+   * Finds the default route plus any alternatives the provider offers (at least one route).
+   * @throws {Error} If no route is found or the request fails.
+   */
+  findAlternativeRoutes(origin: Coordinate, destination: Coordinate, waypoints?: string[], options?: DirectionsOptions): Promise<Route[]>;
+}
+
+/**
+ * Converts between addresses, place IDs and coordinates.
+ */
+export interface GeocodingProvider {
+  /**
+   * @throws {Error} If the address can't be geocoded.
+   */
+  geocodeAddress(address: string): Promise<Coordinate>;
+  /**
+   * Pass the `sessionToken` of the autocomplete search the place was chosen in, so the lookup closes that session.
+   * @throws {Error} If the place ID is unknown.
+   */
+  geocodePlaceId(placeId: string, sessionToken?: string): Promise<Coordinate>;
+  /**
+   * @throws {Error} If no address is found for the coordinate.
+   */
+  reverseGeocode(coordinate: Coordinate): Promise<string>;
+}
+
+/**
+ * Searches for places: attractions along a route, autocomplete suggestions and opening hours.
+ */
+export interface PlacesProvider {
+  /**
+   * Finds places along a route, each with `distanceFromRouteMeters` and `detourSeconds` set.
+   * Failures of individual searches are skipped; only configuration errors are thrown.
+   */
+  findAttractionsNearRoute(route: Route, preferences?: AttractionSearchPreferences): Promise<Attraction[]>;
+  /**
+   * Returns up to five suggestions for partially typed text. Empty if nothing matches.
+   */
+  findPlacePredictions(input: string, sessionToken: string, options?: PlaceAutocompleteOptions): Promise<PlacePrediction[]>;
+  /**
+   * Returns a place's regular opening hours, or null if they are unknown.
+   */
+  getPlaceOpeningHours(placeId: string): Promise<PlaceOpeningHours | null>;
+}
+
+/**
+ * One backend's routing, geocoding and places services. Place IDs are only meaningful within the same backend.
+ */
+export interface MapProviders {
+  routing: RoutingProvider;
+  geocoding: GeocodingProvider;
+  places: PlacesProvider;
+}
+
+export type MapProviderKind = 'google' | 'osrm';
+
+let providers: MapProviders | null = null;
+
+/**
+ * Picks the map backend from MAP_PROVIDER: 'google' (the default) or 'osrm', which routes with a self-hosted
+ * OSRM server and geocodes and searches places with Nominatim (see src/services/map-backends/osrm.ts).
+ */
+function resolveMapProviderKind(): MapProviderKind {
+  const configured = process.env.MAP_PROVIDER?.trim().toLowerCase();
+  if (configured === 'osrm') return 'osrm';
+  if (configured && configured !== 'google') {
+    console.warn(`[Map Providers] Unknown MAP_PROVIDER "${process.env.MAP_PROVIDER}"; falling back to Google.`);
+  }
+  return 'google';
+}
+
+/**
+ * Returns the shared map services for the configured backend, with repeated requests answered from the response cache.
+ */
+export function getMapProviders(): MapProviders {
+  if (!providers) {
+    const kind = resolveMapProviderKind();
+    console.log(`[Map Providers] Using ${kind} map services.`);
+    providers = withResponseCache(kind === 'osrm' ? createOsrmMapProviders() : createGoogleMapProviders(), kind);
+  }
+  return providers;
+}
+
+/**
+ * Returns the configured routing service.
+ */
+export function getRoutingProvider(): RoutingProvider {
+  return getMapProviders().routing;
+}
+
+/**
+ * Returns the configured geocoding service.
+ */
+export function getGeocodingProvider(): GeocodingProvider {
+  return getMapProviders().geocoding;
+}
+
+/**
+ * Returns the configured places service.
+ */
+export function getPlacesProvider(): PlacesProvider {
+  return getMapProviders().places;
+}
@@ -1,3 +1,15 @@
+import { isMockMode } from '@/lib/fixture-mode';
+import {
+    ConfigurationError,
+    InvalidRequestError,
+    NetworkError,
+    QuotaExceededError,
+    RequestDeniedError,
+    ServiceError,
+    type ServiceErrorOptions,
+} from '@/lib/service-errors';
+import { requestJson } from '@/services/http-client';
+
 /**
  * Represents a geographical location with latitude and longitude coordinates.
  */
@@ -30,25 +42,243 @@ export interface WeatherForecast {
   fiveDayOutlook: { date: string; temperatureCelsius: number; conditions: string }[];
 }
 
+
+/**
+ * Represents a single 3-hour slot from the OpenWeatherMap 5-day forecast.
+ */
+export interface ForecastSlot {
+  /**
+   * The start of the forecast slot as an ISO 8601 string.
+   */
+  time: string;
+  /**
+   * The forecast temperature in Celsius.
+   */
+  temperatureCelsius: number;
+  /**
+   * The forecast weather conditions (e.g., Light Rain).
+   */
+  conditions: string;
+  /**
+   * The probability of precipitation, from 0 to 1.
+   */
+  precipitationProbability: number;
+  /**
+   * The forecast wind speed in meters per second.
+   */
+  windSpeedMps: number;
+}
+
+// Use the server-side key for the weather service
+// Ensure OPENWEATHERMAP_API_KEY is set in your .env.local file
+const API_KEY = process.env.OPENWEATHERMAP_API_KEY;
+const CURRENT_WEATHER_API_URL = 'https://api.openweathermap.org/data/2.5/weather';
+const FORECAST_API_URL = 'https://api.openweathermap.org/data/2.5/forecast';
+
+// Centralized error messages for the weather service.
+// Components should check the error's code (CONFIG_MISSING, REQUEST_DENIED) rather than this text.
+export const WEATHER_CONFIG_ERROR_MSG = 'Server Configuration Error: OpenWeatherMap API key (OPENWEATHERMAP_API_KEY) is not configured. Please ensure it is correctly set in your `.env.local` file and that the server has been restarted.';
+export const WEATHER_INVALID_KEY_ERROR_MSG = 'OpenWeatherMap API Error: Invalid API key. Please check your OPENWEATHERMAP_API_KEY.';
+
 /**
- * Asynchronously retrieves weather forecast information for a given location.
- * Includes current weather and a 5-day outlook.
+ * Where an error from OpenWeatherMap came from, for the typed errors below.
+ */
+const weatherError = (operation: string, retryable?: boolean): ServiceErrorOptions => ({ provider: 'openweathermap', operation, retryable });
+
+/**
+ * Checks if the OpenWeatherMap API key is configured.
+ * Throws a specific error if the key is missing, unless responses come from fixtures (FIXTURE_MODE=mock).
+ * @param apiName The name of the API being called (for logging).
+ * @param operation The operation reported on the error.
+ * @throws {ConfigurationError} With WEATHER_CONFIG_ERROR_MSG if the key is not found.
+ */
+function checkApiKey(apiName: string, operation: string): void {
+    if (!API_KEY && !isMockMode()) {
+        console.error(`${apiName} API Error: ${WEATHER_CONFIG_ERROR_MSG}`);
+        throw new ConfigurationError(WEATHER_CONFIG_ERROR_MSG, weatherError(operation)); // Throw the specific config error
+    }
+}
+
+/**
+ * Calls an OpenWeatherMap endpoint for a location through the shared HTTP client (timeouts, retries, circuit breaker)
+ * and returns the parsed JSON body. Maps HTTP/API failures (invalid key, quota, bad request) to descriptive errors.
+ *
+ * @param apiName The name of the API being called (for logging and error messages).
+ * @param baseUrl The endpoint URL.
+ * @param location The location to query.
+ * @returns A promise that resolves to the raw JSON response.
+ * @throws {ServiceError} If OpenWeatherMap returns an error status or can't be reached (NETWORK).
+ */
+async function fetchOpenWeatherMap(apiName: string, baseUrl: string, location: Location): Promise<any> {
+    const operation = apiName.toLowerCase().replace(/\s+/g, '-'); // e.g., 'current-weather'
+    const params = new URLSearchParams({
+        lat: location.lat.toString(),
+        lon: location.lng.toString(),
+        units: 'metric', // Celsius
+        appid: API_KEY!, // Key is guaranteed to exist due to checkApiKey
+    });
+
+    const url = `${baseUrl}?${params.toString()}`;
+    // Log URL without the API key
+    const loggedUrl = `${baseUrl}?lat=${location.lat}&lon=${location.lng}&units=metric&appid=YOUR_API_KEY`;
+    console.log(`[OpenWeatherMap Service] Fetching ${apiName}: ${loggedUrl}`);
+
+    const response = await requestJson({ provider: 'openweathermap', operation, action: `fetch ${apiName.toLowerCase()}`, url });
+    const data = response.body;
+
+    // OpenWeatherMap reports errors via the HTTP status and a `cod`/`message` body
+    if (!response.ok) {
+        const message = data?.message || response.statusText || 'No error message provided.';
+        console.error(`[OpenWeatherMap Service] ${apiName} API Error: Status=${response.status}, Message=${message}`);
+        if (response.status === 401) {
+            throw new RequestDeniedError(WEATHER_INVALID_KEY_ERROR_MSG, weatherError(operation));
+        }
+        if (response.status === 429) {
+            throw new QuotaExceededError(`OpenWeatherMap API Error: Usage limit exceeded. ${message}`, weatherError(operation));
+        }
+        if (response.status === 400 || response.status === 404) {
+            throw new InvalidRequestError(`OpenWeatherMap API Error: Invalid Request. ${message}`, weatherError(operation));
+        }
+        // Generic fallback (server errors may go away on retry)
+        throw new ServiceError('UNKNOWN', `OpenWeatherMap API Error: ${apiName} request failed. Status: ${response.status}. ${message}`, weatherError(operation, response.status >= 500));
+    }
+
+    if (!data) {
+        throw new NetworkError(`OpenWeatherMap API Error: ${apiName} response could not be parsed.`, weatherError(operation));
+    }
+
+    return data;
+}
+
+/**
+ * Converts an OpenWeatherMap description (e.g., "scattered clouds") into a display label ("Scattered Clouds").
+ */
+function formatConditions(weather: any[] | undefined): string {
+    const description: string | undefined = weather?.[0]?.description || weather?.[0]?.main;
+    if (!description) return 'Unknown';
+    return description.replace(/\b\w/g, (char) => char.toUpperCase());
+}
+
+/**
+ * Folds the 3-hour forecast slots into one entry per local calendar day.
+ * The temperature is the day's high, and the conditions come from the slot closest to local midday.
+ *
+ * @param slots The `list` array from the 5-day/3-hour forecast response.
+ * @param timezoneOffsetSeconds The location's offset from UTC (from `city.timezone`).
+ * @returns Up to five daily outlook entries, in chronological order.
+ */
+function foldForecastSlots(slots: any[], timezoneOffsetSeconds: number): WeatherForecast['fiveDayOutlook'] {
+    const days = new Map<string, { highCelsius: number; middaySlot: any; middayDistanceHours: number }>();
+
+    slots.forEach((slot: any) => {
+        if (typeof slot?.dt !== 'number' || typeof slot?.main?.temp !== 'number') return; // Skip malformed slots
+
+        // Shift into the location's local time so slots are grouped by the local date
+        const local = new Date((slot.dt + timezoneOffsetSeconds) * 1000);
+        const date = local.toISOString().slice(0, 10); // YYYY-MM-DD
+        const middayDistanceHours = Math.abs(local.getUTCHours() - 12);
+        const temperature = typeof slot.main.temp_max === 'number' ? slot.main.temp_max : slot.main.temp;
+
+        const day = days.get(date);
+        if (!day) {
+            days.set(date, { highCelsius: temperature, middaySlot: slot, middayDistanceHours });
+            return;
+        }
+        day.highCelsius = Math.max(day.highCelsius, temperature);
+        if (middayDistanceHours < day.middayDistanceHours) {
+            day.middaySlot = slot;
+            day.middayDistanceHours = middayDistanceHours;
+        }
+    });
+
+    return Array.from(days.entries())
+        .slice(0, 5)
+        .map(([date, day]) => ({
+            date,
+            temperatureCelsius: Math.round(day.highCelsius),
+            conditions: formatConditions(day.middaySlot.weather),
+        }));
+}
+
+/**
+ * Asynchronously retrieves weather forecast information for a given location using the OpenWeatherMap API.
+ * Includes current weather (Current Weather API) and a 5-day outlook folded from the 5-day/3-hour Forecast API.
  *
  * @param location The location for which to retrieve weather data.
  * @returns A promise that resolves to a WeatherForecast object containing current temperature, conditions, and 5-day outlook.
+ * @throws {ServiceError} If the API call fails or the API key is missing/invalid. Key problems are reported as CONFIG_MISSING (`WEATHER_CONFIG_ERROR_MSG`) and REQUEST_DENIED (`WEATHER_INVALID_KEY_ERROR_MSG`).
  */
 export async function getWeatherForecast(location: Location): Promise<WeatherForecast> {
-  // TODO: Implement this by calling the OpenWeatherMap API.
-
-  return {
-    currentTemperatureCelsius: 23,
-    conditions: 'Partly Cloudy',
-    fiveDayOutlook: [
-      { date: '2024-07-29', temperatureCelsius: 25, conditions: 'Sunny' },
-      { date: '2024-07-30', temperatureCelsius: 27, conditions: 'Sunny' },
-      { date: '2024-07-31', temperatureCelsius: 26, conditions: 'Cloudy' },
-      { date: '2024-08-01', temperatureCelsius: 24, conditions: 'Rainy' },
-      { date: '2024-08-02', temperatureCelsius: 23, conditions: 'Partly Cloudy' },
-    ],
-  };
+  checkApiKey('OpenWeatherMap', 'weather'); // Check if the key is configured FIRST
+
+  try {
+    const [current, forecast] = await Promise.all([
+        fetchOpenWeatherMap('Current Weather', CURRENT_WEATHER_API_URL, location),
+        fetchOpenWeatherMap('Forecast', FORECAST_API_URL, location),
+    ]);
+
+    if (typeof current.main?.temp !== 'number') {
+        console.error('[OpenWeatherMap Service] Current Weather API Error: Response missing temperature. Response:', JSON.stringify(current));
+        throw new ServiceError('UNKNOWN', 'OpenWeatherMap API Error: Current weather response missing required fields.', weatherError('current-weather'));
+    }
+
+    const fiveDayOutlook = foldForecastSlots(forecast.list || [], forecast.city?.timezone ?? current.timezone ?? 0);
+
+    const weatherForecast: WeatherForecast = {
+        currentTemperatureCelsius: Math.round(current.main.temp),
+        conditions: formatConditions(current.weather),
+        fiveDayOutlook,
+    };
+    console.log(`[OpenWeatherMap Service] Weather for ${JSON.stringify(location)}: ${weatherForecast.currentTemperatureCelsius}°C, ${weatherForecast.conditions}. Outlook days: ${fiveDayOutlook.length}`);
+    return weatherForecast;
+  } catch (error) {
+    console.error(`[OpenWeatherMap Service] Error fetching weather for ${JSON.stringify(location)}:`, error);
+    // Re-throw the typed errors raised above
+    if (error instanceof ServiceError) {
+        throw error;
+    }
+    if (error instanceof Error) {
+        // Catch fetch errors (e.g., network issues)
+        throw new NetworkError(`Failed to fetch weather forecast: ${error.message}`, { ...weatherError('weather'), cause: error });
+    }
+    // Unknown error
+    throw new ServiceError('UNKNOWN', 'An unknown error occurred while fetching the weather forecast.', weatherError('weather'));
+  }
+}
+
+/**
+ * Asynchronously retrieves the raw 3-hour forecast slots (covering roughly the next 5 days) for a location.
+ * Used when the forecast for a specific future time is needed, e.g., for points along a route.
+ *
+ * @param location The location for which to retrieve the forecast.
+ * @returns A promise that resolves to the forecast slots in chronological order.
+ * @throws {ServiceError} If the API call fails or the API key is missing/invalid. Key problems are reported as CONFIG_MISSING (`WEATHER_CONFIG_ERROR_MSG`) and REQUEST_DENIED (`WEATHER_INVALID_KEY_ERROR_MSG`).
+ */
+export async function getForecastSlots(location: Location): Promise<ForecastSlot[]> {
+  checkApiKey('OpenWeatherMap Forecast', 'forecast'); // Check if the key is configured FIRST
+
+  try {
+    const forecast = await fetchOpenWeatherMap('Forecast', FORECAST_API_URL, location);
+    return (forecast.list || [])
+        .filter((slot: any) => typeof slot?.dt === 'number' && typeof slot?.main?.temp === 'number') // Skip malformed slots
+        .map((slot: any) => ({
+            time: new Date(slot.dt * 1000).toISOString(),
+            temperatureCelsius: Math.round(slot.main.temp),
+            conditions: formatConditions(slot.weather),
+            precipitationProbability: typeof slot.pop === 'number' ? slot.pop : 0,
+            windSpeedMps: typeof slot.wind?.speed === 'number' ? slot.wind.speed : 0,
+        }));
+  } catch (error) {
+    console.error(`[OpenWeatherMap Service] Error fetching forecast slots for ${JSON.stringify(location)}:`, error);
+    // Re-throw the typed errors raised above
+    if (error instanceof ServiceError) {
+        throw error;
+    }
+    if (error instanceof Error) {
+        // Catch fetch errors (e.g., network issues)
+        throw new NetworkError(`Failed to fetch weather forecast: ${error.message}`, { ...weatherError('forecast'), cause: error });
+    }
+    // Unknown error
+    throw new ServiceError('UNKNOWN', 'An unknown error occurred while fetching the weather forecast.', weatherError('forecast'));
+  }
 }
@@ -0,0 +1,37 @@
+import type { PlaceOpeningHours } from '@/services/google-maps';
+import { getPlacesProvider } from '@/services/map-providers';
+import type { TripStop } from '@/lib/trip-stops';
+import { isServiceError } from '@/lib/service-errors';
+import { mapInBatches, MAX_CONCURRENT_REQUESTS } from '@/lib/batch';
+
+/**
+ * Fetches the opening hours of every stop that has a place ID.
+ * Stops whose hours are unknown or can't be fetched are left out, so they are simply not checked.
+ *
+ * @param stops The trip's stops.
+ * @returns A promise that resolves to the opening hours keyed by place ID.
+ * @throws {ConfigurationError} If the Maps API key is missing (CONFIG_MISSING).
+ */
+export async function getStopOpeningHours(stops: TripStop[]): Promise<Record<string, PlaceOpeningHours>> {
+  const placeIds = [...new Set(stops.flatMap(stop => (stop.placeId ? [stop.placeId] : [])))];
+  const hoursByPlaceId: Record<string, PlaceOpeningHours> = {};
+
+  const fetchHours = async (placeId: string): Promise<void> => {
+    try {
+      const hours = await getPlacesProvider().getPlaceOpeningHours(placeId);
+      if (hours) {
+        hoursByPlaceId[placeId] = hours;
+      }
+    } catch (error) {
+      if (isServiceError(error, 'CONFIG_MISSING')) {
+        throw error;
+      }
+      // The hours only add warnings; the trip can be planned without them
+      console.warn(`[Opening Hours] Could not fetch opening hours for place ID "${placeId}":`, error);
+    }
+  };
+
+  console.log(`[Opening Hours] Fetching opening hours for ${placeIds.length} stops.`);
+  await mapInBatches(placeIds, MAX_CONCURRENT_REQUESTS, fetchHours);
+  return hoursByPlaceId;
+}
@@ -0,0 +1,35 @@
+'use server';
+
+/**
+ * @fileOverview Server action for place autocomplete, so the Maps API key stays on the server.
+ *
+ * - autocompletePlaces - Returns place predictions (with place IDs) for partially typed text, or the coded error. Requires a signed-in user.
+ */
+
+import type { Coordinate, PlacePrediction } from '@/services/google-maps';
+import { getPlacesProvider } from '@/services/map-providers';
+import { requireUser } from '@/services/auth';
+import { toActionResult, type ActionResult } from '@/lib/service-errors';
+
+// Shorter inputs match too much to be useful and would waste requests
+const MIN_INPUT_LENGTH = 3;
+
+/**
+ * Returns place predictions for partially typed text.
+ *
+ * @param input The text typed so far.
+ * @param sessionToken The autocomplete session token; reuse it until a prediction is chosen.
+ * @param near Optional point to bias predictions towards.
+ * @returns A promise that resolves to the predictions, best first (empty for inputs shorter than three characters),
+ *          or the error if nobody is signed in (AUTH_REQUIRED) or the places request failed.
+ */
+export async function autocompletePlaces(input: string, sessionToken: string, near?: Coordinate): Promise<ActionResult<PlacePrediction[]>> {
+  return toActionResult(async () => {
+    await requireUser();
+    const trimmed = input.trim();
+    if (trimmed.length < MIN_INPUT_LENGTH) {
+      return [];
+    }
+    return getPlacesProvider().findPlacePredictions(trimmed, sessionToken, { location: near });
+  });
+}
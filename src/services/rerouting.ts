@@ -0,0 +1,56 @@
+'use server';
+
+/**
+ * @fileOverview Server action for recomputing a route mid-journey, so the Maps API key stays on the server.
+ *
+ * - recomputeRoute - Routes from the user's current position to the remaining waypoints and destination, keeping to the trip's restrictions and avoid areas, or returns the coded error. Requires a signed-in user.
+ */
+
+import { restrictionsForMode, type Coordinate, type Route, type RouteRestriction, type TravelMode } from '@/services/google-maps';
+import { getRoutingProvider } from '@/services/map-providers';
+import { requireUser } from '@/services/auth';
+import { crossesAvoidArea } from '@/lib/geo';
+import { NoResultsError, toActionResult, type ActionResult } from '@/lib/service-errors';
+
+/**
+ * Recomputes the route from the user's current position, visiting the remaining waypoints in their current order.
+ *
+ * @param currentPosition The user's live position.
+ * @param destination The final destination.
+ * @param remainingWaypoints The stops not yet reached, in visiting order.
+ * @param travelMode The travel mode of the original route (defaults to driving).
+ * @param avoid Road features to avoid where possible; those that don't apply to the travel mode are dropped.
+ * @param avoidAreas Polygons the new route must not pass through.
+ * @returns A promise that resolves to the new route, or the error if nobody is signed in (AUTH_REQUIRED), every route found
+ *          crosses an avoid area (ZERO_RESULTS) or the routing request failed.
+ */
+export async function recomputeRoute(
+  currentPosition: Coordinate,
+  destination: Coordinate,
+  remainingWaypoints: Coordinate[],
+  travelMode: TravelMode = 'driving',
+  avoid: RouteRestriction[] = [],
+  avoidAreas: Coordinate[][] = []
+): Promise<ActionResult<Route>> {
+  return toActionResult(async () => {
+    const user = await requireUser();
+    console.log(`[Rerouting] Recomputing for user ${user.uid}: ${travelMode} route from ${JSON.stringify(currentPosition)} via ${remainingWaypoints.length} remaining stops.`);
+    const routes = await getRoutingProvider().findAlternativeRoutes(
+      currentPosition,
+      destination,
+      remainingWaypoints.map(waypoint => `${waypoint.lat},${waypoint.lng}`),
+      {
+        mode: travelMode,
+        optimizeWaypoints: false, // Keep the order the user already agreed to
+        departureTime: travelMode === 'transit' ? new Date().toISOString() : undefined,
+        avoid: restrictionsForMode(avoid, travelMode),
+      }
+    );
+    // As when planning, drop the candidates that pass through an area the user marked to avoid; the first left is the provider's best
+    const allowed = routes.find(candidate => !crossesAvoidArea(candidate, avoidAreas));
+    if (!allowed) {
+      throw new NoResultsError(`Every route found from your current position (${routes.length}) passes through an area you marked to avoid.`, { operation: 'directions' });
+    }
+    return allowed;
+  });
+}
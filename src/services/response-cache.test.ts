@@ -0,0 +1,157 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFileCacheStore } from '@/services/cache-stores/file';
+import { createMemoryCacheStore } from '@/services/cache-stores/memory';
+import { createRedisCacheStore, type RedisCacheClient } from '@/services/cache-stores/redis';
+import { cached, getResponseCacheStats, setResponseCacheStore, type CacheStore } from '@/services/response-cache';
+
+describe('cached', () => {
+  it('loads on a miss and answers the same arguments from the cache', async () => {
+    const load = vi.fn(async () => ({lat: 52.52, lng: 13.4}));
+
+    await expect(cached('geocoding', ['Berlin'], 1000, load)).resolves.toEqual({lat: 52.52, lng: 13.4});
+    await expect(cached('geocoding', ['Berlin'], 1000, load)).resolves.toEqual({lat: 52.52, lng: 13.4});
+    await cached('geocoding', ['Potsdam'], 1000, load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(getResponseCacheStats()).toEqual({geocoding: {hits: 1, misses: 2, errors: 0, hitRate: 1 / 3}});
+  });
+
+  it('does not cache failures', async () => {
+    const load = vi.fn<() => Promise<string>>().mockRejectedValueOnce(new Error('ZERO_RESULTS')).mockResolvedValue('found');
+
+    await expect(cached('places', ['museum'], 1000, load)).rejects.toThrow('ZERO_RESULTS');
+    await expect(cached('places', ['museum'], 1000, load)).resolves.toBe('found');
+  });
+
+  it('shares one load between concurrent lookups', async () => {
+    const load = vi.fn(async () => 'route');
+
+    await Promise.all([cached('directions', ['A', 'B'], 1000, load), cached('directions', ['A', 'B'], 1000, load)]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches null responses', async () => {
+    const load = vi.fn(async () => null);
+
+    await cached('places', ['hours', 'unknown-place'], 1000, load);
+    await expect(cached('places', ['hours', 'unknown-place'], 1000, load)).resolves.toBeNull();
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to loading when the store fails', async () => {
+    const broken: CacheStore = {
+      get: async () => {
+        throw new Error('connection refused');
+      },
+      set: async () => {
+        throw new Error('connection refused');
+      },
+      delete: async () => {},
+    };
+    setResponseCacheStore(broken);
+
+    await expect(cached('geocoding', ['Berlin'], 1000, async () => 'Berlin')).resolves.toBe('Berlin');
+    expect(getResponseCacheStats().geocoding).toMatchObject({misses: 1, errors: 2});
+  });
+
+  it('logs the stats every 100 lookups', async () => {
+    for (let index = 0; index < 100; index += 1) {
+      await cached('geocoding', [`address ${index % 50}`], 1000, async () => index);
+    }
+
+    const statsLines = vi.mocked(console.log).mock.calls.map(([line]) => String(line)).filter(line => line.includes('Stats'));
+    expect(statsLines).toEqual(['[Response Cache] Stats after 100 lookups: geocoding 50% (50 hits, 50 misses, 0 errors).']);
+  });
+
+  it('loads every time when caching is off', async () => {
+    setResponseCacheStore(null);
+    const load = vi.fn(async () => 'Berlin');
+
+    await cached('geocoding', ['Berlin'], 1000, load);
+    await cached('geocoding', ['Berlin'], 1000, load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createMemoryCacheStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    const store = createMemoryCacheStore(2);
+    await store.set('a', '1', 1000);
+    await store.set('b', '2', 1000);
+    await store.get('a'); // Now b is the least recently used
+    await store.set('c', '3', 1000);
+
+    expect(await store.get('a')).toBe('1');
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe('3');
+  });
+
+  it('expires entries after their TTL', async () => {
+    vi.useFakeTimers({toFake: ['Date']});
+    const store = createMemoryCacheStore();
+    await store.set('route', '{}', 5000);
+
+    vi.advanceTimersByTime(4999);
+    expect(await store.get('route')).toBe('{}');
+    vi.advanceTimersByTime(1);
+    expect(await store.get('route')).toBeUndefined();
+  });
+});
+
+describe('createFileCacheStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'response-cache-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, {recursive: true, force: true});
+  });
+
+  it('keeps entries across store instances until they expire', async () => {
+    vi.useFakeTimers({toFake: ['Date']});
+    await createFileCacheStore(dir).set('geocoding:berlin', '{"value":1}', 1000);
+
+    const reopened = createFileCacheStore(dir);
+    expect(await reopened.get('geocoding:berlin')).toBe('{"value":1}');
+    expect(await reopened.get('geocoding:potsdam')).toBeUndefined();
+
+    vi.advanceTimersByTime(1000);
+    expect(await reopened.get('geocoding:berlin')).toBeUndefined();
+  });
+
+  it('deletes entries', async () => {
+    const store = createFileCacheStore(dir);
+    await store.set('key', 'value', 1000);
+    await store.delete('key');
+
+    expect(await store.get('key')).toBeUndefined();
+  });
+});
+
+describe('createRedisCacheStore', () => {
+  it('prefixes keys and lets Redis expire them', async () => {
+    const client = {
+      get: vi.fn<RedisCacheClient['get']>().mockResolvedValue(null),
+      set: vi.fn<RedisCacheClient['set']>().mockResolvedValue('OK'),
+      del: vi.fn<RedisCacheClient['del']>().mockResolvedValue(1),
+    };
+    const store = createRedisCacheStore(client, 'test:');
+
+    await store.set('geocoding:berlin', '{}', 1500);
+    expect(client.set).toHaveBeenCalledWith('test:geocoding:berlin', '{}', {PX: 1500});
+    expect(await store.get('geocoding:berlin')).toBeUndefined();
+    expect(client.get).toHaveBeenCalledWith('test:geocoding:berlin');
+  });
+});
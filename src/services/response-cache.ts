@@ -0,0 +1,205 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { createFileCacheStore } from '@/services/cache-stores/file';
+import { createMemoryCacheStore } from '@/services/cache-stores/memory';
+
+/**
+ * Storage for cached service responses. Values are JSON strings; a store must stop returning an entry once its TTL has passed.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The kinds of responses cached, each counted separately in the stats.
+ */
+export type CacheNamespace = 'geocoding' | 'directions' | 'places';
+
+export type CacheStoreKind = 'memory' | 'file' | 'redis' | 'none';
+
+/**
+ * Cache hits and misses for one namespace since start-up (or the last `resetResponseCache`).
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /**
+   * Store reads or writes that failed; the response was fetched (or returned) without the cache.
+   */
+  errors: number;
+  /**
+   * hits / (hits + misses), or 0 before the first lookup.
+   */
+  hitRate: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const GEOCODING_CACHE_TTL_MS = 30 * 24 * HOUR_MS; // Addresses and place IDs hardly ever move
+export const TRAFFIC_ROUTE_CACHE_TTL_MS = 5 * MINUTE_MS; // Driving times follow live traffic, transit follows timetables
+export const ROUTE_CACHE_TTL_MS = 24 * HOUR_MS; // Walking and cycling routes don't change with the time of day
+export const PLACES_CACHE_TTL_MS = 6 * HOUR_MS; // Ratings, business status and opening hours change, but slowly
+export const OPEN_NOW_PLACES_CACHE_TTL_MS = 5 * MINUTE_MS; // Which places are open now changes by the minute
+
+const DEFAULT_MAX_MEMORY_ENTRIES = 1000;
+// Lookups between two stats lines in the server log
+const STATS_LOG_INTERVAL = 100;
+
+// undefined until first use; null when caching is turned off
+let store: CacheStore | null | undefined;
+const inFlight = new Map<string, Promise<unknown>>();
+const counters = new Map<CacheNamespace, Omit<CacheStats, 'hitRate'>>();
+let lookups = 0;
+
+/**
+ * Picks the cache store from RESPONSE_CACHE: 'memory' (the default, an LRU of RESPONSE_CACHE_MAX_ENTRIES entries),
+ * 'file' (under RESPONSE_CACHE_DIR, surviving restarts), 'redis' (on REDIS_URL, connected at server start-up by
+ * src/instrumentation.ts) or 'none'.
+ */
+function resolveStore(): CacheStore | null {
+  const configured = process.env.RESPONSE_CACHE?.trim().toLowerCase() as CacheStoreKind | undefined;
+  if (configured === 'none') {
+    return null;
+  }
+  if (configured === 'file') {
+    return createFileCacheStore(process.env.RESPONSE_CACHE_DIR || path.join(process.cwd(), '.cache', 'responses'));
+  }
+  if (configured === 'redis') {
+    // Only reached if the start-up connection failed or hasn't finished; the error is logged there
+    console.warn('[Response Cache] The Redis store is not connected; falling back to memory.');
+  } else if (configured && configured !== 'memory') {
+    console.warn(`[Response Cache] Unknown RESPONSE_CACHE "${process.env.RESPONSE_CACHE}"; falling back to memory.`);
+  }
+  return createMemoryCacheStore(Number(process.env.RESPONSE_CACHE_MAX_ENTRIES) || DEFAULT_MAX_MEMORY_ENTRIES);
+}
+
+function getStore(): CacheStore | null {
+  if (store === undefined) {
+    store = resolveStore();
+    console.log(`[Response Cache] ${store ? `Caching responses (${process.env.RESPONSE_CACHE?.trim().toLowerCase() || 'memory'} store).` : 'Caching is off.'}`);
+  }
+  return store;
+}
+
+/**
+ * Replaces the cache store, e.g. with a Redis store (see src/services/cache-stores/redis.ts). Pass null to turn caching off.
+ * Call once at server start-up, before any service is used.
+ */
+export function setResponseCacheStore(next: CacheStore | null): void {
+  store = next;
+}
+
+const countersFor = (namespace: CacheNamespace): Omit<CacheStats, 'hitRate'> => {
+  let namespaceCounters = counters.get(namespace);
+  if (!namespaceCounters) {
+    namespaceCounters = { hits: 0, misses: 0, errors: 0 };
+    counters.set(namespace, namespaceCounters);
+  }
+  return namespaceCounters;
+};
+
+/**
+ * Counts a hit or miss, and logs the stats of every namespace once every `STATS_LOG_INTERVAL` lookups.
+ */
+function countLookup(namespace: CacheNamespace, outcome: 'hits' | 'misses'): void {
+  countersFor(namespace)[outcome] += 1;
+  lookups += 1;
+  if (lookups % STATS_LOG_INTERVAL === 0) {
+    const summary = Object.entries(getResponseCacheStats())
+      .map(([name, { hits, misses, errors, hitRate }]) => `${name} ${Math.round(hitRate * 100)}% (${hits} hits, ${misses} misses, ${errors} errors)`)
+      .join('; ');
+    console.log(`[Response Cache] Stats after ${lookups} lookups: ${summary}.`);
+  }
+}
+
+/**
+ * Returns the hit and miss counts of every namespace looked up so far. The server log also gets them every 100 lookups.
+ */
+export function getResponseCacheStats(): Partial<Record<CacheNamespace, CacheStats>> {
+  return Object.fromEntries(
+    Array.from(counters.entries()).map(([namespace, { hits, misses, errors }]) => [
+      namespace,
+      { hits, misses, errors, hitRate: hits + misses > 0 ? hits / (hits + misses) : 0 },
+    ])
+  );
+}
+
+/**
+ * Forgets the store (it is picked again from the environment on next use) and clears the stats (for tests).
+ */
+export function resetResponseCache(): void {
+  store = undefined;
+  inFlight.clear();
+  counters.clear();
+  lookups = 0;
+}
+
+/**
+ * Builds a cache key from a namespace and the arguments that determine the response.
+ */
+export function cacheKey(namespace: CacheNamespace, parts: unknown[]): string {
+  return `${namespace}:${createHash('sha256').update(JSON.stringify(parts)).digest('hex')}`;
+}
+
+/**
+ * Returns the cached response for a key, or loads, caches and returns it. Failures are never cached.
+ * Concurrent lookups of the same key share one load. The cache is best-effort: if the store fails, the response is loaded anyway.
+ *
+ * @param namespace What kind of response this is, for the stats.
+ * @param parts The arguments that determine the response (JSON-serializable); they become the key.
+ * @param ttlMs How long the response stays valid.
+ * @param load Fetches the response.
+ * @returns The cached or freshly loaded response.
+ */
+export async function cached<T>(namespace: CacheNamespace, parts: unknown[], ttlMs: number, load: () => Promise<T>): Promise<T> {
+  const cache = getStore();
+  if (!cache) {
+    return load();
+  }
+  const key = cacheKey(namespace, parts);
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) {
+    countLookup(namespace, 'hits'); // Shares the lookup already under way
+    return pending;
+  }
+
+  const lookup = readThrough(cache, namespace, key, ttlMs, load);
+  inFlight.set(key, lookup);
+  try {
+    return await lookup;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * Reads an entry from the store, or loads and stores it.
+ */
+async function readThrough<T>(cache: CacheStore, namespace: CacheNamespace, key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+  const stats = countersFor(namespace);
+  let stored: string | undefined;
+  try {
+    stored = await cache.get(key);
+  } catch (error) {
+    stats.errors += 1;
+    console.warn(`[Response Cache] Could not read ${namespace} entry:`, error);
+  }
+  if (stored !== undefined) {
+    countLookup(namespace, 'hits');
+    console.log(`[Response Cache] ${namespace} hit.`);
+    return (JSON.parse(stored) as { value: T }).value;
+  }
+  countLookup(namespace, 'misses');
+
+  const value = await load();
+  try {
+    await cache.set(key, JSON.stringify({ value }), ttlMs); // Wrapped, so null responses round-trip
+  } catch (error) {
+    stats.errors += 1;
+    console.warn(`[Response Cache] Could not store ${namespace} entry:`, error);
+  }
+  return value;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { routeAlong } from '@/test/helpers';
+import { buildItinerary } from '@/lib/itinerary';
+import { buildRouteWeatherTimeline, sampleRoutePoints, type RouteWeatherPoint } from '@/services/route-weather';
+import type { ForecastSlot } from '@/services/open-weather-map';
+
+const departureTime = '2024-08-03T09:00:00.000Z';
+// Slots every 3 hours from 09:00, each named after its start time
+const slots: ForecastSlot[] = [9, 12, 15, 18].map(hour => ({
+  time: `2024-08-03T${String(hour).padStart(2, '0')}:00:00.000Z`,
+  temperatureCelsius: 20,
+  conditions: `${hour}:00`,
+  precipitationProbability: 0,
+  windSpeedMps: 3,
+}));
+
+// Two one-hour legs with a museum stop in between
+const route = routeAlong([[52.5, 13.0], [52.5, 13.1], [52.5, 13.2]], {
+  distanceMeters: 13600,
+  durationSeconds: 7200,
+  legs: [
+    { distanceMeters: 6800, durationSeconds: 3600, startLocation: { lat: 52.5, lng: 13.0 }, endLocation: { lat: 52.5, lng: 13.1 } },
+    { distanceMeters: 6800, durationSeconds: 3600, startLocation: { lat: 52.5, lng: 13.1 }, endLocation: { lat: 52.5, lng: 13.2 } },
+  ],
+});
+const points: RouteWeatherPoint[] = sampleRoutePoints(route, { maxSamples: 2 }).map(point => ({ ...point, slots }));
+
+describe('buildRouteWeatherTimeline', () => {
+  it('times points after a stop from when the traveller leaves it', () => {
+    const itinerary = buildItinerary(route, [{ name: 'Museum', placeId: 'museum', dwellMinutes: 120 }], departureTime, 'Home', 'Hotel');
+
+    const timeline = buildRouteWeatherTimeline(points, departureTime, itinerary);
+
+    expect(timeline.map(sample => sample.estimatedArrivalTime)).toEqual(['2024-08-03T09:00:00.000Z', '2024-08-03T13:00:00.000Z']);
+    expect(timeline.map(sample => sample.forecast?.conditions)).toEqual(['9:00', '12:00']);
+    expect(timeline[1].estimatedArrivalTime).toBe(itinerary.arrivalTime);
+  });
+
+  it('assumes no stops without an itinerary', () => {
+    const timeline = buildRouteWeatherTimeline(points, departureTime);
+
+    expect(timeline.map(sample => sample.estimatedArrivalTime)).toEqual(['2024-08-03T09:00:00.000Z', '2024-08-03T11:00:00.000Z']);
+  });
+});
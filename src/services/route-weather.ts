@@ -0,0 +1,217 @@
+import type { Coordinate, Route } from '@/services/google-maps';
+import { getForecastSlots, type ForecastSlot } from '@/services/open-weather-map';
+import { cumulativePathDistances, interpolateAlongPath } from '@/lib/geo';
+import { isServiceError } from '@/lib/service-errors';
+import type { Itinerary } from '@/lib/itinerary';
+
+/**
+ * Represents a point sampled along a route, with the forecast slots fetched for it.
+ * Timing is stored as an offset from departure so the same samples can be re-timed for any departure time.
+ */
+export interface RouteWeatherPoint {
+  /**
+   * The sampled coordinate on the route path.
+   */
+  location: Coordinate;
+  /**
+   * The distance along the route from the origin, in meters.
+   */
+  distanceFromStartMeters: number;
+  /**
+   * The estimated travel time from the origin to this point, in seconds (time spent at stops not included).
+   */
+  travelOffsetSeconds: number;
+  /**
+   * The index of the leg this point lies on.
+   */
+  legIndex: number;
+  /**
+   * The estimated travel time from the start of its leg to this point, in seconds.
+   */
+  legOffsetSeconds: number;
+  /**
+   * The 3-hour forecast slots for this point.
+   */
+  slots: ForecastSlot[];
+}
+
+/**
+ * Represents the forecast at a point on the route for the time the traveller is expected to reach it.
+ */
+export interface RouteWeatherSample {
+  /**
+   * The sampled coordinate on the route path.
+   */
+  location: Coordinate;
+  /**
+   * The distance along the route from the origin, in meters.
+   */
+  distanceFromStartMeters: number;
+  /**
+   * The estimated arrival time at this point as an ISO 8601 string.
+   */
+  estimatedArrivalTime: string;
+  /**
+   * The forecast slot closest to the arrival time, or null if the arrival time is outside the forecast range.
+   */
+  forecast: ForecastSlot | null;
+}
+
+/**
+ * Options controlling how densely a route is sampled.
+ */
+export interface RouteWeatherOptions {
+  /**
+   * Preferred spacing between samples in meters (defaults to 25km).
+   */
+  intervalMeters?: number;
+  /**
+   * Maximum number of samples, including origin and destination (defaults to 8).
+   * The spacing is widened on long routes to stay within this limit.
+   */
+  maxSamples?: number;
+}
+
+const DEFAULT_INTERVAL_METERS = 25000;
+const DEFAULT_MAX_SAMPLES = 8;
+// A forecast slot is only used if the arrival time falls within this distance of it
+const MAX_SLOT_DISTANCE_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * Estimates the travel time from the origin to a given distance along the route, and where that falls within its leg.
+ * Uses the per-leg distances/durations when available, so slow and fast legs are timed separately;
+ * otherwise assumes a constant average speed over the whole route.
+ *
+ * @param route The route being travelled.
+ * @param routeDistanceMeters The distance along the route (in the route's own distance units).
+ * @returns The estimated offset from departure, the leg the point lies on, and the offset from that leg's start, in seconds.
+ */
+function estimateTravelOffset(route: Route, routeDistanceMeters: number): Pick<RouteWeatherPoint, 'travelOffsetSeconds' | 'legIndex' | 'legOffsetSeconds'> {
+  if (!route.legs || route.legs.length === 0) {
+    const travelOffsetSeconds = route.distanceMeters > 0 ? (routeDistanceMeters / route.distanceMeters) * route.durationSeconds : 0;
+    return { travelOffsetSeconds, legIndex: 0, legOffsetSeconds: travelOffsetSeconds };
+  }
+
+  let legStartDistance = 0;
+  let legStartSeconds = 0;
+  for (const [legIndex, leg] of route.legs.entries()) {
+    if (routeDistanceMeters <= legStartDistance + leg.distanceMeters) {
+      const fraction = leg.distanceMeters > 0 ? (routeDistanceMeters - legStartDistance) / leg.distanceMeters : 0;
+      const legOffsetSeconds = fraction * leg.durationSeconds;
+      return { travelOffsetSeconds: legStartSeconds + legOffsetSeconds, legIndex, legOffsetSeconds };
+    }
+    legStartDistance += leg.distanceMeters;
+    legStartSeconds += leg.durationSeconds;
+  }
+  // Past the last leg (rounding): treat as arrival at the destination
+  const lastLeg = route.legs[route.legs.length - 1];
+  return { travelOffsetSeconds: legStartSeconds, legIndex: route.legs.length - 1, legOffsetSeconds: lastLeg.durationSeconds };
+}
+
+/**
+ * Picks evenly spaced points along the route path, always including the origin and destination.
+ *
+ * @param route The route to sample.
+ * @param options Sampling density options.
+ * @returns The sampled points with their distance and travel-time offset from the origin.
+ */
+export function sampleRoutePoints(route: Route, options: RouteWeatherOptions = {}): Omit<RouteWeatherPoint, 'slots'>[] {
+  if (route.path.length === 0) return [];
+
+  const cumulative = cumulativePathDistances(route.path);
+  const pathLength = cumulative[cumulative.length - 1];
+  const maxSamples = Math.max(options.maxSamples ?? DEFAULT_MAX_SAMPLES, 2);
+  const interval = Math.max(options.intervalMeters ?? DEFAULT_INTERVAL_METERS, pathLength / (maxSamples - 1));
+  // The decoded overview polyline is slightly shorter than the API's road distance, so scale between them
+  const scale = pathLength > 0 && route.distanceMeters > 0 ? route.distanceMeters / pathLength : 1;
+
+  const pathDistances: number[] = [];
+  for (let distance = 0; distance < pathLength; distance += interval) {
+    pathDistances.push(distance);
+  }
+  // Always include the destination, replacing a final sample that would sit almost on top of it
+  if (pathDistances.length > 1 && pathLength - pathDistances[pathDistances.length - 1] < interval / 4) {
+    pathDistances.pop();
+  }
+  pathDistances.push(pathLength);
+
+  return pathDistances.map((pathDistance) => {
+    const distanceFromStartMeters = pathDistance * scale;
+    return {
+      location: interpolateAlongPath(route.path, cumulative, pathDistance),
+      distanceFromStartMeters,
+      ...estimateTravelOffset(route, distanceFromStartMeters),
+    };
+  });
+}
+
+/**
+ * Samples the route and fetches the 3-hour forecast for each sampled point.
+ * Points whose forecast cannot be fetched are dropped, unless the failure is a key/configuration problem.
+ *
+ * @param route The route to sample.
+ * @param options Sampling density options.
+ * @returns A promise that resolves to the sampled points with their forecast slots.
+ * @throws {ServiceError} If the weather API key is missing (CONFIG_MISSING) or invalid (REQUEST_DENIED).
+ */
+export async function getRouteWeatherForecasts(route: Route, options: RouteWeatherOptions = {}): Promise<RouteWeatherPoint[]> {
+  const samples = sampleRoutePoints(route, options);
+  console.log(`[Route Weather Service] Fetching forecasts for ${samples.length} points along the route.`);
+
+  const results = await Promise.all(samples.map(async (sample) => {
+    try {
+      return { ...sample, slots: await getForecastSlots(sample.location) };
+    } catch (error) {
+      if (isServiceError(error, 'CONFIG_MISSING', 'REQUEST_DENIED')) {
+        throw error; // Propagate key errors specifically
+      }
+      console.warn(`[Route Weather Service] Skipping route point ${JSON.stringify(sample.location)} after forecast error:`, error);
+      return null;
+    }
+  }));
+
+  return results.filter((point): point is RouteWeatherPoint => point !== null);
+}
+
+/**
+ * Builds the weather timeline for a given departure time from previously fetched route points.
+ * Each point gets the forecast slot closest to when the traveller is expected to reach it.
+ * With the trip's itinerary, each point is timed from when the traveller leaves the start of its leg,
+ * so the time spent at earlier stops delays it; without one, the traveller is assumed not to stop.
+ *
+ * @param points The output of `getRouteWeatherForecasts`.
+ * @param departureTime The departure time as an ISO 8601 string.
+ * @param itinerary Optional: The itinerary of the sampled route for the same departure time (see `buildItinerary`).
+ * @returns The timeline of samples, ordered from origin to destination.
+ */
+export function buildRouteWeatherTimeline(points: RouteWeatherPoint[], departureTime: string, itinerary?: Itinerary): RouteWeatherSample[] {
+  const departureMs = new Date(departureTime).getTime();
+  if (isNaN(departureMs)) {
+    throw new Error(`Invalid departure time for route weather: "${departureTime}".`);
+  }
+
+  return points.map((point) => {
+    // The entry a leg starts from is the origin or the stop before it; the destination has no departure
+    const legDeparture = itinerary?.entries[point.legIndex]?.departureTime;
+    const arrivalMs = legDeparture
+      ? new Date(legDeparture).getTime() + point.legOffsetSeconds * 1000
+      : departureMs + point.travelOffsetSeconds * 1000;
+
+    let closest: ForecastSlot | null = null;
+    let closestDistanceMs = Infinity;
+    for (const slot of point.slots) {
+      const distanceMs = Math.abs(new Date(slot.time).getTime() - arrivalMs);
+      if (distanceMs < closestDistanceMs) {
+        closest = slot;
+        closestDistanceMs = distanceMs;
+      }
+    }
+
+    return {
+      location: point.location,
+      distanceFromStartMeters: Math.round(point.distanceFromStartMeters),
+      estimatedArrivalTime: new Date(arrivalMs).toISOString(),
+      forecast: closestDistanceMs <= MAX_SLOT_DISTANCE_MS ? closest : null,
+    };
+  });
+}
@@ -0,0 +1,161 @@
+import type { GenerateTripPlanOutput } from '@/ai/flows/generate-trip-plan';
+import type { TravelMode } from '@/services/google-maps';
+import type { TripStop } from '@/lib/trip-stops';
+import { isFirebaseConfigured } from '@/lib/firebase';
+import { createFirestoreTripRepository } from '@/services/trip-storage/firestore';
+import { createIndexedDbTripRepository } from '@/services/trip-storage/indexed-db';
+import { createMemoryTripRepository } from '@/services/trip-storage/memory';
+
+/**
+ * A stop the user added to a saved trip. Trips saved before free-form stops only have `placeId` and `name`.
+ */
+export type SavedTripStop = TripStop;
+
+/**
+ * A trip plan saved to the user's history.
+ */
+export interface SavedTrip {
+  id: string;
+  /**
+   * The owner of the trip.
+   */
+  userId: string;
+  /**
+   * Display name, editable by the user (defaults to "Origin → Destination").
+   */
+  name: string;
+  favorite: boolean;
+  /**
+   * When the trip was saved, as an ISO 8601 string.
+   */
+  createdAt: string;
+  /**
+   * When the trip was last renamed or (un)favorited, as an ISO 8601 string.
+   */
+  updatedAt: string;
+  originAddress: string;
+  destinationAddress: string;
+  /**
+   * The departure time the user asked for, as an ISO 8601 string.
+   */
+  departureTime: string;
+  travelMode: TravelMode;
+  waypoints: SavedTripStop[];
+  routeSummary: {
+    distanceMeters: number;
+    durationSeconds: number;
+    summary?: string;
+  };
+  /**
+   * The AI's reasoning for the plan.
+   */
+  reasoning: string;
+  /**
+   * The full plan, so the trip can be shown on the map again without regenerating it.
+   */
+  plan: GenerateTripPlanOutput;
+}
+
+/**
+ * The fields supplied when saving a trip; the repository fills in the rest.
+ */
+export type NewSavedTrip = Omit<SavedTrip, 'id' | 'userId' | 'favorite' | 'createdAt' | 'updatedAt' | 'name'> & {
+  name?: string;
+  favorite?: boolean;
+};
+
+/**
+ * Storage for saved trips. All operations are scoped to one user.
+ */
+export interface TripRepository {
+  /**
+   * Saves a trip and returns it with its generated ID and timestamps.
+   */
+  save(userId: string, trip: NewSavedTrip): Promise<SavedTrip>;
+  /**
+   * Lists the user's trips, newest first.
+   */
+  list(userId: string): Promise<SavedTrip[]>;
+  /**
+   * Renames a trip.
+   * @throws {Error} If the trip does not exist.
+   */
+  rename(userId: string, tripId: string, name: string): Promise<void>;
+  /**
+   * Marks or unmarks a trip as a favorite.
+   * @throws {Error} If the trip does not exist.
+   */
+  setFavorite(userId: string, tripId: string, favorite: boolean): Promise<void>;
+  /**
+   * Deletes a trip. Deleting a trip that doesn't exist is not an error.
+   */
+  delete(userId: string, tripId: string): Promise<void>;
+}
+
+export type TripStorageKind = 'firestore' | 'indexeddb' | 'memory';
+
+export const TRIP_NOT_FOUND_ERROR_MSG = 'Trip Storage Error: Trip not found.';
+
+/**
+ * Builds the stored record for a new trip.
+ * Alternative routes are not kept: a saved trip reloads the route the user chose, and the alternatives would multiply its size.
+ *
+ * @param id The ID for the new trip.
+ * @param userId The owner.
+ * @param trip The fields supplied by the caller.
+ * @param now The save time (defaults to the current time).
+ * @returns The complete trip record.
+ */
+export function buildSavedTrip(id: string, userId: string, trip: NewSavedTrip, now: Date = new Date()): SavedTrip {
+  const timestamp = now.toISOString();
+  return {
+    ...trip,
+    id,
+    userId,
+    name: trip.name?.trim() || `${trip.originAddress} → ${trip.destinationAddress}`,
+    favorite: trip.favorite ?? false,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    plan: { ...trip.plan, alternativeRoutes: undefined, recommendedRouteIndex: undefined },
+  };
+}
+
+/**
+ * Sorts trips newest first (ISO timestamps sort lexicographically).
+ */
+export function sortTripsNewestFirst(trips: SavedTrip[]): SavedTrip[] {
+  return [...trips].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+let repository: TripRepository | null = null;
+
+/**
+ * Picks the storage backend from NEXT_PUBLIC_TRIP_STORAGE ('firestore', 'indexeddb' or 'memory').
+ * Without a setting, Firestore is used when Firebase is configured, then IndexedDB in the browser,
+ * and finally an in-memory store (e.g., during server rendering or in tests).
+ */
+function resolveStorageKind(): TripStorageKind {
+  const configured = process.env.NEXT_PUBLIC_TRIP_STORAGE as TripStorageKind | undefined;
+  if (configured === 'firestore' || configured === 'indexeddb' || configured === 'memory') {
+    return configured;
+  }
+  if (isFirebaseConfigured()) return 'firestore';
+  if (typeof indexedDB !== 'undefined') return 'indexeddb';
+  return 'memory';
+}
+
+/**
+ * Returns the shared trip repository for the configured storage backend.
+ */
+export function getTripRepository(): TripRepository {
+  if (!repository) {
+    const kind = resolveStorageKind();
+    console.log(`[Trip Repository] Using ${kind} storage.`);
+    repository = kind === 'firestore'
+      ? createFirestoreTripRepository()
+      : kind === 'indexeddb'
+        ? createIndexedDbTripRepository()
+        : createMemoryTripRepository();
+  }
+  return repository;
+}
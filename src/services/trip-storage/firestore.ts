@@ -0,0 +1,107 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+  updateDoc,
+  FirestoreError,
+  type DocumentData,
+} from 'firebase/firestore';
+import { decode, encode } from '@googlemaps/polyline-codec';
+import type { GenerateTripPlanOutput } from '@/ai/flows/generate-trip-plan';
+import type { Coordinate } from '@/services/google-maps';
+import { getFirebaseFirestore } from '@/lib/firebase';
+import {
+  buildSavedTrip,
+  TRIP_NOT_FOUND_ERROR_MSG,
+  type SavedTrip,
+  type TripRepository,
+} from '@/services/trip-repository';
+
+type PlanRoute = GenerateTripPlanOutput['route'];
+
+const encodePath = (path: Coordinate[]): string => encode(path.map(point => [point.lat, point.lng]), 5);
+const decodePath = (encoded: string): Coordinate[] => decode(encoded, 5).map(([lat, lng]) => ({ lat, lng }));
+
+/**
+ * Converts a trip into a Firestore document.
+ * Route paths are stored as encoded polylines (a fraction of the size of coordinate arrays) to stay well below
+ * Firestore's 1 MiB document limit, and undefined fields are dropped because Firestore rejects them.
+ */
+function toDocument(trip: SavedTrip): DocumentData {
+  const { route } = trip.plan;
+  const packedRoute = {
+    ...route,
+    path: encodePath(route.path),
+    legs: route.legs?.map(leg => ({
+      ...leg,
+      steps: leg.steps?.map(step => ({ ...step, path: encodePath(step.path) })),
+    })),
+  };
+  return JSON.parse(JSON.stringify({ ...trip, plan: { ...trip.plan, route: packedRoute } }));
+}
+
+/**
+ * Converts a Firestore document back into a trip, decoding the route paths.
+ */
+function fromDocument(data: DocumentData): SavedTrip {
+  const packedRoute = data.plan.route;
+  const route: PlanRoute = {
+    ...packedRoute,
+    path: decodePath(packedRoute.path),
+    legs: packedRoute.legs?.map((leg: DocumentData) => ({
+      ...leg,
+      steps: leg.steps?.map((step: DocumentData) => ({ ...step, path: decodePath(step.path) })),
+    })),
+  };
+  return { ...data, plan: { ...data.plan, route } } as SavedTrip;
+}
+
+/**
+ * Creates a trip repository backed by Cloud Firestore.
+ * Trips are stored under `users/{userId}/trips/{tripId}`, so Security Rules can restrict each user to their own trips.
+ */
+export function createFirestoreTripRepository(): TripRepository {
+  const tripsCollection = (userId: string) => collection(getFirebaseFirestore(), 'users', userId, 'trips');
+
+  // Firestore reports updates to missing documents as 'not-found'
+  const updateOwned = async (userId: string, tripId: string, changes: Partial<SavedTrip>): Promise<void> => {
+    try {
+      await updateDoc(doc(tripsCollection(userId), tripId), { ...changes, updatedAt: new Date().toISOString() });
+    } catch (error) {
+      if (error instanceof FirestoreError && error.code === 'not-found') {
+        throw new Error(TRIP_NOT_FOUND_ERROR_MSG);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    async save(userId, trip) {
+      const ref = doc(tripsCollection(userId)); // Generates a new ID
+      const saved = buildSavedTrip(ref.id, userId, trip);
+      await setDoc(ref, toDocument(saved));
+      return saved;
+    },
+
+    async list(userId) {
+      const snapshot = await getDocs(query(tripsCollection(userId), orderBy('createdAt', 'desc')));
+      return snapshot.docs.map(document => fromDocument(document.data()));
+    },
+
+    rename(userId, tripId, name) {
+      return updateOwned(userId, tripId, { name });
+    },
+
+    setFavorite(userId, tripId, favorite) {
+      return updateOwned(userId, tripId, { favorite });
+    },
+
+    async delete(userId, tripId) {
+      await deleteDoc(doc(tripsCollection(userId), tripId));
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import {
+  buildSavedTrip,
+  sortTripsNewestFirst,
+  TRIP_NOT_FOUND_ERROR_MSG,
+  type SavedTrip,
+  type TripRepository,
+} from '@/services/trip-repository';
+
+const DB_NAME = 'urbanflow-navigator';
+const DB_VERSION = 1;
+const STORE_NAME = 'trips';
+const USER_INDEX = 'userId';
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error(`Trip Storage Error: ${request.error?.message || 'IndexedDB request failed.'}`));
+  });
+}
+
+/**
+ * Opens (and on first use, creates) the trips database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Trip Storage Error: IndexedDB is not available in this environment.'));
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    store.createIndex(USER_INDEX, 'userId', { unique: false });
+  };
+  return promisifyRequest(request);
+}
+
+/**
+ * Creates a trip repository backed by the browser's IndexedDB, for local development without Firebase.
+ * Trips stay on this device.
+ */
+export function createIndexedDbTripRepository(): TripRepository {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  // Runs one request against the trips store in a fresh transaction
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    if (!databasePromise) {
+      databasePromise = openDatabase().catch((error) => {
+        databasePromise = null; // Allow a retry on the next call
+        throw error;
+      });
+    }
+    const database = await databasePromise;
+    return promisifyRequest(run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  const updateOwned = async (userId: string, tripId: string, changes: Partial<SavedTrip>): Promise<void> => {
+    const trip = await withStore<SavedTrip | undefined>('readonly', store => store.get(tripId));
+    if (!trip || trip.userId !== userId) {
+      throw new Error(TRIP_NOT_FOUND_ERROR_MSG);
+    }
+    await withStore('readwrite', store => store.put({ ...trip, ...changes, updatedAt: new Date().toISOString() }));
+  };
+
+  return {
+    async save(userId, trip) {
+      const saved = buildSavedTrip(crypto.randomUUID(), userId, trip);
+      await withStore('readwrite', store => store.add(saved));
+      return saved;
+    },
+
+    async list(userId) {
+      const trips = await withStore<SavedTrip[]>('readonly', store => store.index(USER_INDEX).getAll(userId));
+      return sortTripsNewestFirst(trips);
+    },
+
+    rename(userId, tripId, name) {
+      return updateOwned(userId, tripId, { name });
+    },
+
+    setFavorite(userId, tripId, favorite) {
+      return updateOwned(userId, tripId, { favorite });
+    },
+
+    async delete(userId, tripId) {
+      const trip = await withStore<SavedTrip | undefined>('readonly', store => store.get(tripId));
+      if (trip?.userId === userId) {
+        await withStore('readwrite', store => store.delete(tripId));
+      }
+    },
+  };
+}
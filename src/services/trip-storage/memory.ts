@@ -0,0 +1,52 @@
+import {
+  buildSavedTrip,
+  sortTripsNewestFirst,
+  TRIP_NOT_FOUND_ERROR_MSG,
+  type SavedTrip,
+  type TripRepository,
+} from '@/services/trip-repository';
+
+/**
+ * Creates a trip repository that keeps trips in memory only.
+ * Used during server rendering, in tests, and wherever no persistent storage is available.
+ */
+export function createMemoryTripRepository(): TripRepository {
+  const trips = new Map<string, SavedTrip>();
+  let nextId = 1;
+
+  const findOwned = (userId: string, tripId: string): SavedTrip => {
+    const trip = trips.get(tripId);
+    if (!trip || trip.userId !== userId) {
+      throw new Error(TRIP_NOT_FOUND_ERROR_MSG);
+    }
+    return trip;
+  };
+
+  return {
+    async save(userId, trip) {
+      const saved = buildSavedTrip(`trip-${nextId++}`, userId, trip);
+      trips.set(saved.id, saved);
+      return saved;
+    },
+
+    async list(userId) {
+      return sortTripsNewestFirst([...trips.values()].filter(trip => trip.userId === userId));
+    },
+
+    async rename(userId, tripId, name) {
+      const trip = findOwned(userId, tripId);
+      trips.set(tripId, { ...trip, name, updatedAt: new Date().toISOString() });
+    },
+
+    async setFavorite(userId, tripId, favorite) {
+      const trip = findOwned(userId, tripId);
+      trips.set(tripId, { ...trip, favorite, updatedAt: new Date().toISOString() });
+    },
+
+    async delete(userId, tripId) {
+      if (trips.get(tripId)?.userId === userId) {
+        trips.delete(tripId);
+      }
+    },
+  };
+}
@@ -0,0 +1,26 @@
+'use server';
+
+/**
+ * @fileOverview Server action for the weather widget, so the OpenWeatherMap key stays on the server
+ *               (and recorded responses are used when FIXTURE_MODE is set).
+ *
+ * - fetchWeatherForecast - Returns the current conditions and forecast for a location, or the coded error. Requires a signed-in user.
+ */
+
+import { getWeatherForecast, type Location, type WeatherForecast } from '@/services/open-weather-map';
+import { requireUser } from '@/services/auth';
+import { toActionResult, type ActionResult } from '@/lib/service-errors';
+
+/**
+ * Returns the current conditions and forecast for a location.
+ *
+ * @param location The location to forecast.
+ * @returns A promise that resolves to the forecast, or the error if nobody is signed in (AUTH_REQUIRED)
+ *          or the weather request failed (see `getWeatherForecast`).
+ */
+export async function fetchWeatherForecast(location: Location): Promise<ActionResult<WeatherForecast>> {
+  return toActionResult(async () => {
+    await requireUser();
+    return getWeatherForecast(location);
+  });
+}
@@ -0,0 +1,78 @@
+import { encode } from '@googlemaps/polyline-codec';
+import type { Coordinate, Route } from '@/services/google-maps';
+
+/**
+ * A JSON response, as returned by a stubbed `fetch`.
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {status, headers: {'Content-Type': 'application/json'}});
+}
+
+const toLatLng = ([lat, lng]: [number, number]): Coordinate => ({lat, lng});
+
+/**
+ * A leg in a Directions API response.
+ */
+export interface DirectionsLegSpec {
+  distanceMeters: number;
+  durationSeconds: number;
+  durationInTrafficSeconds?: number;
+  /**
+   * The leg's points; its single step follows them.
+   */
+  points: [number, number][];
+  /**
+   * Leave the step's polyline out, as Google occasionally does (defaults to false).
+   */
+  omitStepPolyline?: boolean;
+}
+
+/**
+ * Builds one entry of a Directions API `routes` array with encoded polylines.
+ */
+export function directionsRoute(legs: DirectionsLegSpec[], extra: Record<string, unknown> = {}): Record<string, unknown> {
+  const allPoints = legs.flatMap(leg => leg.points);
+  const lats = allPoints.map(([lat]) => lat);
+  const lngs = allPoints.map(([, lng]) => lng);
+  return {
+    summary: 'Test Highway',
+    overview_polyline: {points: encode(allPoints, 5)},
+    bounds: {
+      northeast: {lat: Math.max(...lats), lng: Math.max(...lngs)},
+      southwest: {lat: Math.min(...lats), lng: Math.min(...lngs)},
+    },
+    legs: legs.map(leg => ({
+      distance: {value: leg.distanceMeters},
+      duration: {value: leg.durationSeconds},
+      duration_in_traffic: leg.durationInTrafficSeconds !== undefined ? {value: leg.durationInTrafficSeconds} : undefined,
+      start_location: toLatLng(leg.points[0]),
+      end_location: toLatLng(leg.points[leg.points.length - 1]),
+      steps: [{
+        maneuver: 'turn-left',
+        html_instructions: 'Turn <b>left</b>',
+        distance: {value: leg.distanceMeters},
+        duration: {value: leg.durationSeconds},
+        start_location: toLatLng(leg.points[0]),
+        end_location: toLatLng(leg.points[leg.points.length - 1]),
+        polyline: leg.omitStepPolyline ? undefined : {points: encode(leg.points, 5)},
+      }],
+    })),
+    warnings: [],
+    ...extra,
+  };
+}
+
+/**
+ * A parsed Route along the given points, for code that only needs the path.
+ */
+export function routeAlong(points: [number, number][], overrides: Partial<Route> = {}): Route {
+  const path = points.map(toLatLng);
+  return {
+    path,
+    distanceMeters: 0,
+    durationSeconds: 0,
+    bounds: {northeast: path[0], southwest: path[0]},
+    travelMode: 'driving',
+    ...overrides,
+  };
+}
@@ -0,0 +1,28 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { resetRequestState } from '@/services/http-client';
+import { resetResponseCache } from '@/services/response-cache';
+
+// The services log every request; keep test output readable (restored after each test with the other mocks)
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  resetRequestState(); // Failures in one test mustn't leave a circuit open for the next
+  resetResponseCache(); // Nor may its responses answer the next test's requests
+});
+
+if (typeof window !== 'undefined') {
+  const {cleanup} = await import('@testing-library/react');
+  afterEach(() => cleanup());
+
+  // Radix UI components measure themselves; jsdom has no layout
+  class ResizeObserverStub {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  }
+  globalThis.ResizeObserver ??= ResizeObserverStub as unknown as typeof ResizeObserver;
+  Element.prototype.scrollIntoView ??= () => {};
+  Element.prototype.hasPointerCapture ??= () => false;
+}